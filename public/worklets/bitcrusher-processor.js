@@ -0,0 +1,63 @@
+/**
+ * Bitcrusher Processor
+ *
+ * Reduces bit depth and sample rate. Each channel is rounded to the nearest of
+ * 2^(bits - 1) levels either side of zero, and a phase accumulator holds each
+ * rounded sample until the next tick of the reduced rate. Bits may be
+ * fractional so the drive control sweeps smoothly. No anti-aliasing is done on
+ * purpose - the aliasing is the sound.
+ *
+ * Runs on the audio rendering thread - keep allocations out of process().
+ */
+
+/** Most channels held per node */
+const MAX_CHANNELS = 2
+
+class BitcrusherProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'bits', defaultValue: 16, minValue: 1, maxValue: 16, automationRate: 'k-rate' },
+      { name: 'rate', defaultValue: 48000, minValue: 100, maxValue: 192000, automationRate: 'k-rate' }
+    ]
+  }
+
+  constructor() {
+    super()
+
+    this.phase = 1
+    this.held = new Float32Array(MAX_CHANNELS)
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+
+    // Keep the node alive while nothing is connected upstream
+    if (!input || input.length === 0) return true
+
+    const levels = Math.pow(2, parameters.bits[0] - 1)
+    // At or above the context rate every sample is taken
+    const step = Math.min(parameters.rate[0] / sampleRate, 1)
+    const blockSize = output[0].length
+    const channels = Math.min(output.length, MAX_CHANNELS)
+
+    for (let i = 0; i < blockSize; i++) {
+      this.phase += step
+      const isTick = this.phase >= 1
+      if (isTick) this.phase -= 1
+
+      for (let channel = 0; channel < channels; channel++) {
+        if (isTick) {
+          // Mono input feeds every output channel
+          const sample = input[Math.min(channel, input.length - 1)][i]
+          this.held[channel] = Math.max(-1, Math.min(1, Math.round(sample * levels) / levels))
+        }
+        output[channel][i] = this.held[channel]
+      }
+    }
+
+    return true
+  }
+}
+
+registerProcessor('bitcrusher', BitcrusherProcessor)
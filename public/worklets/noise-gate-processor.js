@@ -0,0 +1,98 @@
+/**
+ * Noise Gate Processor
+ *
+ * Mutes the signal while it stays below a threshold. A peak detector linked
+ * across channels opens the gate; once open, it stays open until the level has
+ * been below the threshold, less some hysteresis, for the hold time. The gain
+ * then moves towards open or closed with separate attack and release time
+ * constants, so the gate never clicks.
+ *
+ * Runs on the audio rendering thread - keep allocations out of process().
+ */
+
+/** Threshold at or below which the gate passes everything */
+const OFF_THRESHOLD_DB = -100
+
+/** How far below the threshold the level must fall before the gate closes */
+const HYSTERESIS_DB = 6
+
+/** Seconds the gate stays open after the level drops */
+const HOLD_TIME = 0.05
+
+/** Lowest gain reduction reported, in dB */
+const REPORT_FLOOR_DB = -96
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'threshold', defaultValue: OFF_THRESHOLD_DB, minValue: OFF_THRESHOLD_DB, maxValue: 0, automationRate: 'k-rate' },
+      { name: 'attack', defaultValue: 0.001, minValue: 0.0001, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'release', defaultValue: 0.1, minValue: 0.001, maxValue: 5, automationRate: 'k-rate' }
+    ]
+  }
+
+  constructor(options) {
+    super()
+
+    // Samples between gain reports to the main thread; 0 turns reporting off
+    this.reportInterval = options?.processorOptions?.reportInterval ?? 0
+    this.samplesSinceReport = 0
+    this.gain = 1
+    this.isOpen = true
+    this.holdRemaining = 0
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+
+    // Keep the node alive while nothing is connected upstream
+    if (!input || input.length === 0) return true
+
+    const threshold = parameters.threshold[0]
+    const isOff = threshold <= OFF_THRESHOLD_DB
+    const openLevel = Math.pow(10, threshold / 20)
+    const closeLevel = Math.pow(10, (threshold - HYSTERESIS_DB) / 20)
+    const attackCoefficient = Math.exp(-1 / (parameters.attack[0] * sampleRate))
+    const releaseCoefficient = Math.exp(-1 / (parameters.release[0] * sampleRate))
+    const holdSamples = HOLD_TIME * sampleRate
+    const blockSize = output[0].length
+
+    for (let i = 0; i < blockSize; i++) {
+      let level = 0
+      for (let channel = 0; channel < input.length; channel++) {
+        level = Math.max(level, Math.abs(input[channel][i]))
+      }
+
+      if (isOff || level >= (this.isOpen ? closeLevel : openLevel)) {
+        this.isOpen = true
+        this.holdRemaining = holdSamples
+      } else if (this.holdRemaining > 0) {
+        this.holdRemaining--
+      } else {
+        this.isOpen = false
+      }
+
+      const target = this.isOpen ? 1 : 0
+      const coefficient = target > this.gain ? attackCoefficient : releaseCoefficient
+      this.gain = target + (this.gain - target) * coefficient
+
+      // Mono input feeds every output channel
+      for (let channel = 0; channel < output.length; channel++) {
+        output[channel][i] = input[Math.min(channel, input.length - 1)][i] * this.gain
+      }
+    }
+
+    if (this.reportInterval > 0) {
+      this.samplesSinceReport += blockSize
+      if (this.samplesSinceReport >= this.reportInterval) {
+        this.samplesSinceReport = 0
+        this.port.postMessage(Math.max(REPORT_FLOOR_DB, 20 * Math.log10(this.gain)))
+      }
+    }
+
+    return true
+  }
+}
+
+registerProcessor('noise-gate', NoiseGateProcessor)
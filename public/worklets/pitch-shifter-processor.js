@@ -0,0 +1,103 @@
+/**
+ * Granular Pitch Shifter Processor
+ *
+ * Shifts pitch by a ratio without changing tempo. Incoming audio is written to
+ * a circular delay line that is read back by two heads half a grain apart.
+ * Each head sweeps its delay at a rate of (1 - ratio) samples per sample, so
+ * the material it reads is resampled by `ratio`, and a Hann window crossfades
+ * the heads so each one is silent while it jumps back to the start of a grain.
+ *
+ * Runs on the audio rendering thread - keep allocations out of process().
+ */
+
+/** Default grain length in samples (~46ms at 44.1kHz) */
+const DEFAULT_GRAIN_SIZE = 2048
+
+class PitchShifterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      {
+        name: 'pitchRatio',
+        defaultValue: 1,
+        minValue: 0.25,
+        maxValue: 4,
+        automationRate: 'k-rate'
+      }
+    ]
+  }
+
+  constructor(options) {
+    super()
+
+    const grainSize = options?.processorOptions?.grainSize ?? DEFAULT_GRAIN_SIZE
+
+    this.grainSize = grainSize
+    // Delay never exceeds one grain, so twice that leaves room for interpolation
+    this.bufferSize = grainSize * 2
+    this.buffers = []
+    this.writeIndex = 0
+    this.phase = 0
+  }
+
+  /**
+   * Reads the delay line at a fractional delay using linear interpolation
+   */
+  readDelayed(buffer, delay) {
+    let position = this.writeIndex - delay
+    if (position < 0) position += this.bufferSize
+
+    const index = Math.floor(position)
+    const nextIndex = (index + 1) % this.bufferSize
+    const fraction = position - index
+
+    return buffer[index] + (buffer[nextIndex] - buffer[index]) * fraction
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+
+    // Keep the node alive while nothing is connected upstream
+    if (!input || input.length === 0) return true
+
+    while (this.buffers.length < output.length) {
+      this.buffers.push(new Float32Array(this.bufferSize))
+    }
+
+    const ratio = parameters.pitchRatio[0]
+    const phaseStep = (1 - ratio) / this.grainSize
+    const blockSize = output[0].length
+
+    for (let i = 0; i < blockSize; i++) {
+      const phaseA = this.phase
+      const phaseB = (this.phase + 0.5) % 1
+      const delayA = phaseA * this.grainSize
+      const delayB = phaseB * this.grainSize
+
+      // Hann windows offset by half a period always sum to one
+      const gainA = Math.pow(Math.sin(Math.PI * phaseA), 2)
+      const gainB = Math.pow(Math.sin(Math.PI * phaseB), 2)
+
+      for (let channel = 0; channel < output.length; channel++) {
+        // Up-mix mono input by reusing the last available channel
+        const sample = input[Math.min(channel, input.length - 1)][i]
+        const buffer = this.buffers[channel]
+        buffer[this.writeIndex] = sample
+
+        output[channel][i] = ratio === 1
+          ? sample
+          : this.readDelayed(buffer, delayA) * gainA + this.readDelayed(buffer, delayB) * gainB
+      }
+
+      this.phase += phaseStep
+      if (this.phase >= 1) this.phase -= 1
+      if (this.phase < 0) this.phase += 1
+
+      this.writeIndex = (this.writeIndex + 1) % this.bufferSize
+    }
+
+    return true
+  }
+}
+
+registerProcessor('pitch-shifter', PitchShifterProcessor)
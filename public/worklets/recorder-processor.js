@@ -0,0 +1,69 @@
+/**
+ * Recorder Processor
+ *
+ * Copies its stereo input to the main thread in batches, so what is heard can
+ * be written to a file. Its output stays silent; it is connected only so the
+ * graph keeps pulling the node.
+ *
+ * Runs on the audio rendering thread - the only allocation is one fresh batch
+ * each time a full one is transferred away.
+ */
+
+/** Channels captured - mono input is copied to both */
+const CHANNEL_COUNT = 2
+
+class RecorderProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super()
+
+    // Frames per message; a multiple of the 128-frame render quantum
+    this.batchSize = options?.processorOptions?.batchSize ?? 4096
+    this.batch = this.createBatch()
+    this.filled = 0
+    this.isRecording = true
+
+    // "stop" sends what is left of the batch, then confirms
+    this.port.onmessage = event => {
+      if (event.data !== 'stop' || !this.isRecording) return
+      this.isRecording = false
+      if (this.filled > 0) {
+        this.port.postMessage({ type: 'chunk', channels: this.batch.map(channel => channel.slice(0, this.filled)) })
+        this.filled = 0
+      }
+      this.port.postMessage({ type: 'stopped' })
+    }
+  }
+
+  createBatch() {
+    return Array.from({ length: CHANNEL_COUNT }, () => new Float32Array(this.batchSize))
+  }
+
+  process(inputs, outputs) {
+    if (!this.isRecording) return false
+
+    const input = inputs[0]
+    const blockSize = outputs[0][0].length
+
+    for (let channel = 0; channel < CHANNEL_COUNT; channel++) {
+      // Nothing connected upstream records silence, so the file stays in step with the clock
+      const source = input && input.length > 0 ? input[Math.min(channel, input.length - 1)] : null
+      if (source) {
+        this.batch[channel].set(source, this.filled)
+      } else {
+        this.batch[channel].fill(0, this.filled, this.filled + blockSize)
+      }
+    }
+    this.filled += blockSize
+
+    if (this.filled >= this.batchSize) {
+      const channels = this.batch
+      this.port.postMessage({ type: 'chunk', channels }, channels.map(channel => channel.buffer))
+      this.batch = this.createBatch()
+      this.filled = 0
+    }
+
+    return true
+  }
+}
+
+registerProcessor('recorder', RecorderProcessor)
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getLibrary, getLibraryRoot, scanLibrary } from '@/lib/server/library'
+import { type LibraryResponse } from '@/lib/library/types'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/library
+ * Returns every indexed track, scanning the music directory on first use
+ */
+export async function GET(): Promise<NextResponse<LibraryResponse | { error: string }>> {
+  try {
+    return NextResponse.json(await getLibrary())
+  } catch (error) {
+    console.error('Failed to load library:', error)
+    return NextResponse.json({ error: 'Failed to load library' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/library
+ * Rescans the music directory, then returns the refreshed library
+ */
+export async function POST(): Promise<NextResponse<LibraryResponse | { error: string }>> {
+  try {
+    if (getLibraryRoot()) {
+      await scanLibrary()
+    }
+    return NextResponse.json(await getLibrary())
+  } catch (error) {
+    console.error('Library rescan failed:', error)
+    return NextResponse.json({ error: 'Library rescan failed' }, { status: 500 })
+  }
+}
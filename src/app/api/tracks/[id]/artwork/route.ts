@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { readLibraryArtwork } from '@/lib/server/library'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/tracks/[id]/artwork
+ * Serves the cover art embedded in a library track's tags
+ * Clients add ?v=<version> so the long cache lifetime is safe across edits
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext): Promise<Response> {
+  const { id } = await params
+
+  try {
+    const picture = await readLibraryArtwork(id)
+    if (!picture) {
+      return NextResponse.json({ error: 'Artwork not found' }, { status: 404 })
+    }
+
+    return new Response(picture.data, {
+      headers: {
+        'Content-Type': picture.mimeType,
+        'Content-Length': String(picture.data.length),
+        'Cache-Control': 'private, max-age=31536000, immutable'
+      }
+    })
+  } catch (error) {
+    console.error('Failed to read artwork:', error)
+    return NextResponse.json({ error: 'Failed to read artwork' }, { status: 500 })
+  }
+}
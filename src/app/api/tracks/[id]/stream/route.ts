@@ -0,0 +1,72 @@
+import { createReadStream } from 'fs'
+import { Readable } from 'stream'
+import { type NextRequest, NextResponse } from 'next/server'
+import { parseRangeHeader } from '@/lib/server/http-range'
+import { findLibraryFile } from '@/lib/server/library'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Builds the streaming response for GET and HEAD
+ * Honours single byte ranges so the audio element can seek without downloading everything
+ */
+async function streamTrack(request: NextRequest, { params }: RouteContext, includeBody: boolean): Promise<Response> {
+  const { id } = await params
+  const file = await findLibraryFile(id)
+  if (!file) {
+    return NextResponse.json({ error: 'Track not found' }, { status: 404 })
+  }
+
+  const headers = new Headers({
+    'Accept-Ranges': 'bytes',
+    'Content-Type': file.mimeType,
+    'Last-Modified': new Date(file.mtimeMs).toUTCString(),
+    'Cache-Control': 'private, max-age=0, must-revalidate'
+  })
+
+  const range = parseRangeHeader(request.headers.get('range'), file.size)
+
+  if (range === 'unsatisfiable') {
+    headers.set('Content-Range', `bytes */${file.size}`)
+    return new Response(null, { status: 416, headers })
+  }
+
+  const start = range?.start ?? 0
+  const end = range?.end ?? file.size - 1
+  headers.set('Content-Length', String(end - start + 1))
+  if (range) {
+    headers.set('Content-Range', `bytes ${start}-${end}/${file.size}`)
+  }
+
+  const status = range ? 206 : 200
+  if (!includeBody || file.size === 0) {
+    return new Response(null, { status, headers })
+  }
+
+  const stream = createReadStream(file.absolutePath, { start, end })
+  // Stop reading from disk when the client aborts (e.g. on seek)
+  request.signal.addEventListener('abort', () => stream.destroy())
+
+  return new Response(Readable.toWeb(stream) as ReadableStream<Uint8Array>, { status, headers })
+}
+
+/**
+ * GET /api/tracks/[id]/stream
+ * Streams a library track, with HTTP Range (206 Partial Content) support
+ */
+export function GET(request: NextRequest, context: RouteContext): Promise<Response> {
+  return streamTrack(request, context, true)
+}
+
+/**
+ * HEAD /api/tracks/[id]/stream
+ * Same headers as GET without the body
+ */
+export function HEAD(request: NextRequest, context: RouteContext): Promise<Response> {
+  return streamTrack(request, context, false)
+}
@@ -1,126 +1,93 @@
 "use client"
 
-import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
-import { Play, Pause, SkipBack, SkipForward, Volume2, Heart, Share, Repeat, Shuffle, RotateCcw } from 'lucide-react'
+import { useState, useRef, useEffect, useCallback, useReducer } from 'react'
+import Image from 'next/image'
+import { Play, Pause, SkipBack, SkipForward, Volume2, Heart, Repeat, Repeat1, Shuffle, RotateCcw, FolderOpen, Library, FileDown } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Slider } from '@/components/ui/slider'
+import { QueuePanel } from '@/components/queue-panel'
+import { LibraryBrowser } from '@/components/library-browser'
+import { PresetPicker } from '@/components/preset-picker'
+import { ExportPanel } from '@/components/export-panel'
+import { SpectrumAnalyser } from '@/components/spectrum-analyser'
+import { EqEditor } from '@/components/eq-editor'
+import { LoopControls } from '@/components/loop-controls'
+import { AutomationEditor } from '@/components/automation-editor'
+import { EffectChainEditor } from '@/components/effect-chain-editor'
+import { ModulationControls } from '@/components/modulation-controls'
+import { DynamicsControls } from '@/components/dynamics-controls'
+import { DistortionControls } from '@/components/distortion-controls'
+import { DynamicsMeters } from '@/components/dynamics-meters'
+import { ReverbControls } from '@/components/reverb-controls'
+import { HistoryControls } from '@/components/history-controls'
+import { ShareMenu } from '@/components/share-menu'
+import { RecordControls } from '@/components/record-controls'
+import { InputSourceControls } from '@/components/input-source-controls'
+import { TransitionControls } from '@/components/transition-controls'
+import { TempoKeyDisplay } from '@/components/tempo-key-display'
+import { WaveformView } from '@/components/waveform-view'
+import { useAudioEngine } from '@/hooks/use-audio-engine'
+import { useMediaSession } from '@/hooks/use-media-session'
+import { useLiveInput } from '@/hooks/use-live-input'
 import { cn } from '@/lib/utils'
-
-/**
- * Audio Effects Configuration Interface
- * Defines all available audio processing parameters with their acceptable ranges
- */
-interface AudioEffects {
-  /** Playback speed multiplier (0.5x to 2.0x) */
-  speed: number
-  /** Pitch shift in semitones (-12 to +12) */
-  pitch: number
-  /** Reverb wet/dry mix percentage (0-100%) */
-  reverb: number
-  /** Distortion amount percentage (0-100%) */
-  distortion: number
-  /** Low-pass filter cutoff frequency in Hz (200-20000) */
-  lowPass: number
-  /** High-pass filter cutoff frequency in Hz (20-2000) */
-  highPass: number
-  /** Overall gain multiplier (0.1x to 3.0x) */
-  gain: number
-  /** Bass EQ adjustment in dB (-20 to +20) */
-  bass: number
-  /** Mid-range EQ adjustment in dB (-20 to +20) */
-  mid: number
-  /** Treble EQ adjustment in dB (-20 to +20) */
-  treble: number
-  /** Master volume level (0.0 to 1.0) */
-  volume: number
-}
-
-/**
- * Track Information Interface
- * Contains metadata about the currently playing track
- */
-interface TrackInfo {
-  title: string
-  artist: string
-  album: string
-  genre: string
-  duration: string
-  year: number
-}
-
-/**
- * Audio Context References Interface
- * Centralizes all Web Audio API node references for better management
- */
-interface AudioNodes {
-  context: AudioContext | null
-  source: MediaElementAudioSourceNode | null
-  gainNode: GainNode | null
-  analyser: AnalyserNode | null
-  eqFilters: BiquadFilterNode[]
-  lowPassFilter: BiquadFilterNode | null
-  highPassFilter: BiquadFilterNode | null
-  distortionNode: WaveShaperNode | null
-  reverbNode: ConvolverNode | null
-  reverbDryGain: GainNode | null
-  reverbWetGain: GainNode | null
-}
-
-/**
- * Default Audio Effects Configuration
- * Represents the neutral/baseline state for all audio processing
- * These values provide optimal playback without any modifications
- */
-const DEFAULT_EFFECTS: Readonly<AudioEffects> = {
-  speed: 1.0,        // Normal playback speed
-  pitch: 0,          // No pitch adjustment
-  reverb: 0,         // No reverb effect
-  distortion: 0,     // No distortion
-  lowPass: 20000,    // Full frequency range (no low-pass filtering)
-  highPass: 20,      // Full frequency range (no high-pass filtering)
-  gain: 1.0,         // Unity gain (no amplification)
-  bass: 0,           // Flat bass response
-  mid: 0,            // Flat mid-range response
-  treble: 0,         // Flat treble response
-  volume: 0.8        // 80% volume for comfortable listening
-} as const
-
-/**
- * Track Metadata Configuration
- * Static information about the demo track being played
- */
-const TRACK_INFO: Readonly<TrackInfo> = {
-  title: "Love Yourz",
-  artist: "J. Cole",
-  album: "2014 Forest Hills Drive",
-  genre: "Hip-Hop",
-  duration: "3:31",
-  year: 2014
-} as const
+import {
+  type AudioEffects,
+  type EffectStage,
+  type EqBand,
+  DEFAULT_EFFECTS,
+  EFFECT_KEYS,
+  effectChainsEqual,
+  effectOptionsEqual,
+  effectsEqual,
+  eqBandsEqual,
+  updateEqBand
+} from '@/lib/effects'
+import { type PresetEffects, toPresetEffects } from '@/lib/presets'
+import { type SharedState, createShareUrl, parseShareHash } from '@/lib/share'
+import {
+  HISTORY_CONFIG,
+  createEffectsHistory,
+  effectsHistoryReducer,
+  loadEffectsHistory,
+  saveEffectsHistory
+} from '@/lib/effects-history'
+import { type TrackTransition, DEFAULT_TRACK_TRANSITION } from '@/lib/audio/engine'
+import { type CountIn, scheduleCountIn } from '@/lib/audio/metronome'
+import { type ImpulseResponse, loadStoredImpulseResponses } from '@/lib/audio/impulse-responses'
+import { type Track, EMPTY_TRACK_INFO, createTrackFromFile, isAudioFile, releaseTrack } from '@/lib/track'
+import { type LibraryTrack, fetchLibrary, getLibraryTrackId, libraryTrackToTrack } from '@/lib/library'
+import { createQueue, getNextIndex, getPreviousIndex, queueReducer } from '@/lib/queue'
+import { type WaveformPeaks, loadWaveformPeaks } from '@/lib/waveform'
+import { type SnapUnit, type TrackAnalysis, loadTrackAnalysis } from '@/lib/analysis'
+import {
+  type LoopRegion,
+  type PracticeSettings,
+  DEFAULT_PRACTICE_SETTINGS,
+  createLoopRegion,
+  getLoopWrapTime,
+  getNextPracticeSpeed
+} from '@/lib/loop'
+import {
+  type AutomationKey,
+  type AutomationLanes,
+  AUTOMATION_CONFIG,
+  AUTOMATION_KEYS,
+  recordAutomationPoint,
+  setAutomationLane
+} from '@/lib/automation'
+
+/** Lanes of a track without automation */
+const NO_AUTOMATION: AutomationLanes = {}
 
 /**
  * Audio Processing Constants
  * Configuration values for Web Audio API setup and processing
  */
 const AUDIO_CONFIG = {
-  /** FFT size for frequency analysis - higher values = more frequency resolution */
-  FFT_SIZE: 1024,
-  /** Analyser smoothing factor - higher values = smoother but less responsive */
-  ANALYSER_SMOOTHING: 0.8,
-  /** Number of waveform bars to display in the visualization */
-  WAVEFORM_BARS: 200,
-  /** Fallback duration in seconds if metadata fails to load */
-  FALLBACK_DURATION: 211, // 3:31 in seconds
-  /** Distortion curve sample rate for wave shaping */
-  DISTORTION_SAMPLES: 44100,
-  /** Reverb impulse response length in seconds */
-  REVERB_LENGTH: 2,
-  /** EQ filter frequencies in Hz [bass, mid, treble] */
-  EQ_FREQUENCIES: [100, 1000, 10000] as const,
-  /** Maximum waveform bar height in pixels */
-  WAVEFORM_MAX_HEIGHT: 16,
-  /** Waveform container padding in pixels */
-  WAVEFORM_PADDING: 24
+  /** Seconds into a track after which "previous" restarts it instead of going back */
+  PREVIOUS_RESTART_THRESHOLD: 3,
+  /** Seconds before the end of the track at which a loop ending there wraps, so the element never fires ended */
+  LOOP_END_GUARD: 0.1
 } as const
 
 /**
@@ -156,46 +123,94 @@ export default function MusicPlayer() {
   // STATE MANAGEMENT
   // ============================================================================
   
-  /** Playback state management */
-  const [isPlaying, setIsPlaying] = useState<boolean>(false)
-  const [currentTime, setCurrentTime] = useState<number>(0)
-  const [duration, setDuration] = useState<number>(0)
-  const [isLoading, setIsLoading] = useState<boolean>(true)
+  /** Playback engine - transport state is mirrored from its events */
+  const { engine, playbackState, currentTime, duration } = useAudioEngine()
+  const isPlaying = playbackState === 'playing'
+
+  /** Microphone, line-in or test tone feeding the effect chain in place of the track */
+  const liveInput = useLiveInput(engine)
   
   /** UI state management */
   const [isLiked, setIsLiked] = useState<boolean>(false)
+  const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false)
+  const [isLibraryOpen, setIsLibraryOpen] = useState<boolean>(true)
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false)
+  const [eqView, setEqView] = useState<'simple' | 'parametric'>('simple')
+
+  /** Play queue - filled from the library or local files */
+  const [queue, dispatchQueue] = useReducer(queueReducer, [], createQueue)
+  const currentTrack: Track | null = queue.tracks[queue.currentIndex] ?? null
+  const currentTrackId = currentTrack?.id
+  const currentTrackSrc = currentTrack?.src
+  const trackInfo = currentTrack?.info ?? EMPTY_TRACK_INFO
+
+  /** How one track leads into the next - a stop, a gapless join or a crossfade */
+  const [transition, setTransition] = useState<TrackTransition>(DEFAULT_TRACK_TRANSITION)
   
-  /** Audio processing state */
-  const [effects, setEffects] = useState<AudioEffects>(DEFAULT_EFFECTS)
-  const [staticWaveform, setStaticWaveform] = useState<number[]>([])
+  /** Audio processing state - effects live in their undo/redo history */
+  const [effectsHistory, dispatchEffectsHistory] = useReducer(effectsHistoryReducer, DEFAULT_EFFECTS, createEffectsHistory)
+  const effects = effectsHistory.effects
+  const setEffects = useCallback((
+    update: AudioEffects | ((effects: AudioEffects) => AudioEffects),
+    options?: { label?: string; record?: boolean }
+  ): void => {
+    dispatchEffectsHistory({ type: 'change', update, time: Date.now(), ...options })
+  }, [])
+  const [waveformPeaks, setWaveformPeaks] = useState<WaveformPeaks | null>(null)
+  /** Tempo, beat grid and key of the current track, and what seeks snap to */
+  const [trackAnalysis, setTrackAnalysis] = useState<TrackAnalysis | null>(null)
+  const [isAnalysing, setIsAnalysing] = useState<boolean>(false)
+  const [snapUnit, setSnapUnit] = useState<SnapUnit | 'off'>('off')
+  const [impulseResponses, setImpulseResponses] = useState<ImpulseResponse[]>([])
+
+  /** A-B loop and practice mode */
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null)
+  const [practiceSettings, setPracticeSettings] = useState<PracticeSettings>(DEFAULT_PRACTICE_SETTINGS)
+  const [isPracticing, setIsPracticing] = useState<boolean>(false)
+  const [isCountingIn, setIsCountingIn] = useState<boolean>(false)
+  const [practiceRepetition, setPracticeRepetition] = useState<number>(0)
+
+  /** Effect automation per track id, and whether effect changes during playback are recorded */
+  const [automationByTrack, setAutomationByTrack] = useState<Record<string, AutomationLanes>>({})
+  const [isAutomationArmed, setIsAutomationArmed] = useState<boolean>(false)
+  const automation = (currentTrackId ? automationByTrack[currentTrackId] : undefined) ?? NO_AUTOMATION
 
   // ============================================================================
   // REF MANAGEMENT
   // ============================================================================
   
-  /** Core audio element reference */
-  const audioRef = useRef<HTMLAudioElement>(null)
+  /** Hidden file input behind the "Open file" button */
+  const fileInputRef = useRef<HTMLInputElement>(null)
   
-  /** Waveform UI interaction reference */
-  const waveformContainerRef = useRef<HTMLDivElement>(null)
+  /** Latest queue for event listeners registered once */
+  const queueRef = useRef(queue)
+
+  /** Whether the next track change should start playing immediately */
+  const shouldAutoPlayRef = useRef<boolean>(false)
+
+  /** Track the engine already moved on to by itself, so selecting it must not load it again */
+  const engineAdvancedTrackRef = useRef<string | null>(null)
+
+  /** Tracks from the previous render, used to free removed tracks */
+  const previousTracksRef = useRef<Track[]>(queue.tracks)
+
+  /** Latest loop for the ended listener */
+  const loopRegionRef = useRef<LoopRegion | null>(null)
+
+  /** Effects as last seen by the automation recorder, to tell which fields a change moved */
+  const recordedEffectsRef = useRef<AudioEffects>(effects)
+
+  /** Touch in progress per automated field - its last recorded track time, and when that was recorded */
+  const automationTouchesRef = useRef<Partial<Record<AutomationKey, { since: number; changedAt: number }>>>({})
+
+  /** Position and loop from a shared link, applied once its track (by queue id) has loaded */
+  const pendingShareRef = useRef<{ trackId: string; position: number | null; loop: LoopRegion | null } | null>(null)
+
+  /** Count-in clicks and the timer that starts the loop after them */
+  const countInRef = useRef<{ clicks: CountIn | null; timeout: number } | null>(null)
   
   /** Animation frame reference for cleanup */
   const animationRef = useRef<number | undefined>(undefined)
-  
-  /** Web Audio API nodes - centralized reference management */
-  const audioNodesRef = useRef<AudioNodes>({
-    context: null,
-    source: null,
-    gainNode: null,
-    analyser: null,
-    eqFilters: [],
-    lowPassFilter: null,
-    highPassFilter: null,
-    distortionNode: null,
-    reverbNode: null,
-    reverbDryGain: null,
-    reverbWetGain: null
-  })
 
   // ============================================================================
   // HYDRATION SAFETY EFFECT
@@ -211,338 +226,393 @@ export default function MusicPlayer() {
   }, [])
 
   // ============================================================================
-  // AUDIO PROCESSING UTILITIES
+  // WAVEFORM VISUALIZATION SETUP
   // ============================================================================
 
   /**
-   * Creates a distortion curve for the WaveShaper node
-   * Uses mathematical wave shaping to create harmonic distortion
-   * 
-   * @param amount - Distortion intensity (0-100)
-   * @returns Float32Array containing the distortion curve
+   * Loads real peaks for the current track
+   * Decoding happens once per file; later loads come from the IndexedDB cache
    */
-  const createDistortionCurve = useCallback((amount: number): Float32Array => {
-    const curve = new Float32Array(AUDIO_CONFIG.DISTORTION_SAMPLES)
-    const deg = Math.PI / 180
-    
-    for (let i = 0; i < AUDIO_CONFIG.DISTORTION_SAMPLES; i++) {
-      const x = (i * 2) / AUDIO_CONFIG.DISTORTION_SAMPLES - 1
-      // Asymptotic distortion formula for smooth harmonic distortion
-      curve[i] = ((3 + amount) * x * 20 * deg) / (Math.PI + amount * Math.abs(x))
-    }
-    
-    return curve
-  }, [])
+  useEffect(() => {
+    let isCancelled = false
+    setWaveformPeaks(null)
+    if (!currentTrack) return
+
+    loadWaveformPeaks(currentTrack)
+      .then(peaks => {
+        if (!isCancelled) setWaveformPeaks(peaks)
+      })
+      .catch(error => {
+        console.error('Failed to generate waveform:', error)
+      })
 
-  /**
-   * Generates reverb impulse response using filtered white noise
-   * Creates a natural-sounding reverb tail with exponential decay
-   * 
-   * @param audioContext - The audio context to create the buffer in
-   * @returns Promise that resolves when reverb is configured
-   */
-  const createReverbImpulse = useCallback(async (audioContext: AudioContext): Promise<void> => {
-    const length = audioContext.sampleRate * AUDIO_CONFIG.REVERB_LENGTH
-    const impulse = audioContext.createBuffer(2, length, audioContext.sampleRate)
-    
-    // Generate stereo reverb impulse with exponential decay
-    for (let channel = 0; channel < 2; channel++) {
-      const channelData = impulse.getChannelData(channel)
-      for (let i = 0; i < length; i++) {
-        // White noise with exponential decay for natural reverb tail
-        const decay = Math.pow(1 - i / length, 2)
-        channelData[i] = (Math.random() * 2 - 1) * decay
-      }
-    }
-    
-    if (audioNodesRef.current.reverbNode) {
-      audioNodesRef.current.reverbNode.buffer = impulse
+    return () => {
+      isCancelled = true
     }
-  }, [])
+  }, [currentTrack])
 
   /**
-   * Generates a realistic static waveform visualization
-   * Simulates the amplitude envelope of a typical song structure
-   * 
-   * @returns Array of normalized amplitude values (0-1)
+   * Detects the tempo and key of the current track
+   * Like the peaks, the analysis runs once per file and is cached
    */
-  const generateStaticWaveform = useCallback((): number[] => {
-    const waveform: number[] = []
-    
-    for (let i = 0; i < AUDIO_CONFIG.WAVEFORM_BARS; i++) {
-      const progress = i / AUDIO_CONFIG.WAVEFORM_BARS
-      let amplitude = 1
-      
-      // Intro section - gradual build-up
-      if (progress < 0.1) {
-        amplitude = progress * 5
-      }
-      // Verse/build sections - moderate variation
-      else if (progress < 0.3) {
-        amplitude = 0.5 + Math.sin(progress * 10) * 0.3
-      }
-      // Chorus/main sections - high energy with variation
-      else if (progress < 0.8) {
-        amplitude = 0.7 + Math.sin(progress * 15) * 0.4 + Math.sin(progress * 5) * 0.2
-      }
-      // Outro - fade out
-      else {
-        amplitude = (1 - progress) * 4
-      }
-      
-      // Add natural randomness and ensure valid range
-      amplitude = amplitude * (0.8 + Math.random() * 0.4)
-      amplitude = Math.max(0.1, Math.min(1, amplitude))
-      
-      waveform.push(amplitude)
+  useEffect(() => {
+    let isCancelled = false
+    setTrackAnalysis(null)
+    setIsAnalysing(false)
+    if (!currentTrack) return
+
+    setIsAnalysing(true)
+    loadTrackAnalysis(currentTrack)
+      .then(analysis => {
+        if (!isCancelled) setTrackAnalysis(analysis)
+      })
+      .catch(error => {
+        console.error('Failed to analyse track:', error)
+      })
+      .finally(() => {
+        if (!isCancelled) setIsAnalysing(false)
+      })
+
+    return () => {
+      isCancelled = true
     }
-    
-    return waveform
-  }, [])
+  }, [currentTrack])
 
   // ============================================================================
-  // AUDIO SYSTEM INITIALIZATION
+  // AUDIO EFFECTS APPLICATION
   // ============================================================================
 
   /**
-   * Initializes the complete Web Audio API processing chain
-   * Sets up all audio nodes and their connections for real-time processing
-   * 
-   * Error handling ensures graceful degradation if Web Audio API is unavailable
+   * Applies all audio effects to the engine
+   * Runs whenever effects state changes to maintain real-time responsiveness
    */
   useEffect(() => {
-    const initializeAudioSystem = async (): Promise<void> => {
-      if (!audioRef.current) {
-        console.warn('Audio element not available for initialization')
-        return
-      }
-
-      try {
-        // Initialize Audio Context with fallback for older browsers
-        const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext
-        if (!AudioContextClass) {
-          throw new Error('Web Audio API not supported in this browser')
-        }
+    engine?.setEffects(effects)
+    // Re-applied when stored impulses load, as the reverb may name one of them
+  }, [engine, effects, impulseResponses])
 
-        const audioContext = new AudioContextClass()
-        audioNodesRef.current.context = audioContext
-
-        // Create media source from audio element
-        audioNodesRef.current.source = audioContext.createMediaElementSource(audioRef.current)
+  /**
+   * Hands the current track's automation to the engine
+   */
+  useEffect(() => {
+    engine?.setAutomation(automation)
+  }, [engine, automation])
 
-        // Master gain control
-        audioNodesRef.current.gainNode = audioContext.createGain()
-        audioNodesRef.current.gainNode.gain.value = effects.volume * effects.gain
+  /**
+   * Replaces the current track's automation lanes
+   */
+  const updateAutomation = useCallback((lanes: AutomationLanes): void => {
+    if (!currentTrackId) return
+    setAutomationByTrack(prev => ({ ...prev, [currentTrackId]: lanes }))
+  }, [currentTrackId])
 
-        // Real-time frequency analyser for visualizations
-        audioNodesRef.current.analyser = audioContext.createAnalyser()
-        audioNodesRef.current.analyser.fftSize = AUDIO_CONFIG.FFT_SIZE
-        audioNodesRef.current.analyser.smoothingTimeConstant = AUDIO_CONFIG.ANALYSER_SMOOTHING
-        
-        // Three-band EQ system (Bass, Mid, Treble)
-        audioNodesRef.current.eqFilters = AUDIO_CONFIG.EQ_FREQUENCIES.map((freq, index) => {
-          const filter = audioContext.createBiquadFilter()
-          filter.type = index === 0 ? 'lowshelf' : index === 1 ? 'peaking' : 'highshelf'
-          filter.frequency.value = freq
-          filter.Q.value = 1 // Reasonable Q factor for musical EQ
-          return filter
-        })
-
-        // Frequency filtering nodes
-        audioNodesRef.current.lowPassFilter = audioContext.createBiquadFilter()
-        audioNodesRef.current.lowPassFilter.type = 'lowpass'
-        audioNodesRef.current.lowPassFilter.frequency.value = effects.lowPass
-
-        audioNodesRef.current.highPassFilter = audioContext.createBiquadFilter()
-        audioNodesRef.current.highPassFilter.type = 'highpass'
-        audioNodesRef.current.highPassFilter.frequency.value = effects.highPass
-
-        // Harmonic distortion processor
-        audioNodesRef.current.distortionNode = audioContext.createWaveShaper()
-        audioNodesRef.current.distortionNode.curve = createDistortionCurve(effects.distortion)
-        audioNodesRef.current.distortionNode.oversample = '4x' // High-quality oversampling
-
-        // Reverb effect with dry/wet mixing
-        audioNodesRef.current.reverbNode = audioContext.createConvolver()
-        await createReverbImpulse(audioContext)
-
-        // Reverb dry/wet gain controls for effect mixing
-        audioNodesRef.current.reverbDryGain = audioContext.createGain()
-        audioNodesRef.current.reverbWetGain = audioContext.createGain()
-
-        // ========================================================================
-        // AUDIO PROCESSING CHAIN CONSTRUCTION
-        // ========================================================================
-        
-        let currentNode: AudioNode = audioNodesRef.current.source
-        
-        // 1. EQ Processing Chain
-        audioNodesRef.current.eqFilters.forEach(filter => {
-          currentNode.connect(filter)
-          currentNode = filter
-        })
-
-        // 2. Frequency Filtering
-        currentNode.connect(audioNodesRef.current.highPassFilter)
-        currentNode = audioNodesRef.current.highPassFilter
-        
-        currentNode.connect(audioNodesRef.current.lowPassFilter)
-        currentNode = audioNodesRef.current.lowPassFilter
+  /**
+   * Arms or disarms automation recording; either way the next change starts a new touch
+   */
+  const setAutomationArmed = useCallback((isArmed: boolean): void => {
+    automationTouchesRef.current = {}
+    setIsAutomationArmed(isArmed)
+  }, [])
 
-        // 3. Harmonic Distortion
-        currentNode.connect(audioNodesRef.current.distortionNode)
-        currentNode = audioNodesRef.current.distortionNode
+  /**
+   * Records effect changes into the automation while armed and playing
+   * Every automatable field the change moved gets a point at the current position
+   */
+  useEffect(() => {
+    const previous = recordedEffectsRef.current
+    recordedEffectsRef.current = effects
+    if (!isAutomationArmed || !isPlaying || !engine || previous === effects) return
+
+    const time = engine.currentTime
+    const now = performance.now()
+    let lanes = automation
+    AUTOMATION_KEYS.forEach(key => {
+      if (effects[key] === previous[key]) return
+      const touch = automationTouchesRef.current[key]
+      const since = touch && now - touch.changedAt < AUTOMATION_CONFIG.TOUCH_TIMEOUT ? touch.since : null
+      const points = recordAutomationPoint(lanes[key], { time, value: effects[key] }, since, previous[key])
+      if (!points) return
+      lanes = setAutomationLane(lanes, key, points)
+      automationTouchesRef.current[key] = { since: time, changedAt: now }
+    })
+    if (lanes !== automation) updateAutomation(lanes)
+  }, [effects, isAutomationArmed, isPlaying, engine, automation, updateAutomation])
 
-        // 4. Reverb Processing (parallel dry/wet paths)
-        currentNode.connect(audioNodesRef.current.reverbDryGain)
-        currentNode.connect(audioNodesRef.current.reverbNode)
-        audioNodesRef.current.reverbNode.connect(audioNodesRef.current.reverbWetGain)
-        
-        // Configure initial reverb mix
-        audioNodesRef.current.reverbDryGain.gain.value = 1 - effects.reverb / 100
-        audioNodesRef.current.reverbWetGain.gain.value = effects.reverb / 100
-        
-        // 5. Final mixing and output
-        audioNodesRef.current.reverbDryGain.connect(audioNodesRef.current.gainNode)
-        audioNodesRef.current.reverbWetGain.connect(audioNodesRef.current.gainNode)
-        
-        audioNodesRef.current.gainNode.connect(audioNodesRef.current.analyser)
-        audioNodesRef.current.analyser.connect(audioContext.destination)
+  /**
+   * Loads the impulse responses saved in this browser
+   */
+  useEffect(() => {
+    let isCancelled = false
+    loadStoredImpulseResponses()
+      .then(impulses => {
+        if (!isCancelled) setImpulseResponses(impulses)
+      })
+      .catch(error => console.error('Failed to load impulse responses:', error))
 
-        setIsLoading(false)
-        console.log('Audio system initialized successfully')
-        
-      } catch (error) {
-        console.error('Failed to initialize audio system:', error)
-        setIsLoading(false)
-        // Graceful degradation - basic playback will still work without effects
-      }
+    return () => {
+      isCancelled = true
     }
+  }, [])
 
-    initializeAudioSystem()
+  /**
+   * Adds a newly loaded impulse response to the list, kept sorted by name
+   */
+  const addImpulseResponse = useCallback((impulse: ImpulseResponse) => {
+    setImpulseResponses(previous => [...previous, impulse].sort((a, b) => a.name.localeCompare(b.name)))
+  }, [])
 
-    // Cleanup function to prevent memory leaks
-    return () => {
-      const currentAnimationFrame = animationRef.current
-      const currentAudioContext = audioNodesRef.current.context
-      
-      if (currentAnimationFrame) {
-        cancelAnimationFrame(currentAnimationFrame)
-      }
-      
-      // Clean up audio context if it exists
-      if (currentAudioContext?.state === 'running') {
-        currentAudioContext.close().catch(console.error)
-      }
-    }
-  }, [createDistortionCurve, createReverbImpulse]) // Dependencies for audio system initialization
+  /**
+   * Removes a deleted impulse response from the list
+   */
+  const removeImpulseResponse = useCallback((id: string) => {
+    setImpulseResponses(previous => previous.filter(impulse => impulse.id !== id))
+  }, [])
 
   // ============================================================================
-  // WAVEFORM VISUALIZATION SETUP
+  // QUEUE MANAGEMENT
   // ============================================================================
 
   /**
-   * Generates the static waveform visualization
-   * Only runs once to create a consistent visual representation
+   * Keeps the queue ref current for listeners that are registered once
    */
   useEffect(() => {
-    if (staticWaveform.length === 0) {
-      setStaticWaveform(generateStaticWaveform())
+    queueRef.current = queue
+  }, [queue])
+
+  /**
+   * Keeps the loop ref current for the ended listener
+   */
+  useEffect(() => {
+    loopRegionRef.current = loopRegion
+  }, [loopRegion])
+
+  /**
+   * Frees the object URLs of tracks that left the queue
+   */
+  useEffect(() => {
+    const remaining = new Set(queue.tracks.map(track => track.id))
+    previousTracksRef.current
+      .filter(track => !remaining.has(track.id))
+      .forEach(releaseTrack)
+    previousTracksRef.current = queue.tracks
+  }, [queue.tracks])
+
+  /**
+   * Jumps to a queue position, optionally continuing playback
+   * @param index - Index into the queue's tracks
+   * @param autoPlay - Start the new track as soon as it is loaded
+   */
+  const playTrackAt = useCallback((index: number, autoPlay: boolean): void => {
+    // Same track - the source does not change, so restart it in place
+    if (index === queueRef.current.currentIndex) {
+      if (!engine) return
+      engine.seek(0)
+      if (autoPlay) {
+        engine.play().catch(error => console.error('Playback restart failed:', error))
+      }
+      return
     }
-  }, [staticWaveform.length, generateStaticWaveform])
 
-  // ============================================================================
-  // AUDIO EFFECTS APPLICATION
-  // ============================================================================
+    shouldAutoPlayRef.current = autoPlay
+    dispatchQueue({ type: 'select', index })
+  }, [engine])
 
   /**
-   * Applies all audio effects to the processing chain
-   * Runs whenever effects state changes to maintain real-time responsiveness
+   * Loads the current track into the engine and clears the loop
+   * Resumes playback when the track change asked for it, and applies the
+   * position and loop of a shared link once the track's length is known
    */
   useEffect(() => {
-    if (!audioRef.current) return
+    setLoopRegion(null)
+    if (!engine) return
+
+    // The engine is already playing this track after a gapless join or crossfade
+    const hasAdvanced = engineAdvancedTrackRef.current !== null && engineAdvancedTrackRef.current === currentTrackId
+    engineAdvancedTrackRef.current = null
+    if (hasAdvanced) {
+      shouldAutoPlayRef.current = false
+      return
+    }
 
-    try {
-      // Apply playback speed (affects pitch and tempo together)
-      audioRef.current.playbackRate = effects.speed
+    let isCancelled = false
+    const shouldPlay = shouldAutoPlayRef.current
+    shouldAutoPlayRef.current = false
+
+    engine.load(currentTrackSrc ?? null)
+      .then(() => {
+        if (isCancelled) return
+
+        const shared = pendingShareRef.current
+        if (shared && shared.trackId === currentTrackId) {
+          pendingShareRef.current = null
+          const loop = shared.loop && createLoopRegion(shared.loop.start, shared.loop.end, engine.duration)
+          setLoopRegion(loop)
+          const position = shared.position ?? loop?.start ?? null
+          if (position !== null) engine.seek(Math.min(position, engine.duration))
+        }
 
-      // Update master gain (volume * gain multiplier)
-      if (audioNodesRef.current.gainNode) {
-        audioNodesRef.current.gainNode.gain.value = effects.volume * effects.gain
-      }
+        if (shouldPlay && currentTrackSrc) {
+          return engine.play()
+        }
+      })
+      .catch(error => console.error('Failed to load track:', error))
 
-      // Apply three-band EQ settings
-      if (audioNodesRef.current.eqFilters.length === 3) {
-        audioNodesRef.current.eqFilters[0].gain.value = effects.bass
-        audioNodesRef.current.eqFilters[1].gain.value = effects.mid
-        audioNodesRef.current.eqFilters[2].gain.value = effects.treble
-      }
+    return () => {
+      isCancelled = true
+    }
+  }, [engine, currentTrackId, currentTrackSrc])
 
-      // Update frequency filters
-      if (audioNodesRef.current.lowPassFilter) {
-        audioNodesRef.current.lowPassFilter.frequency.value = effects.lowPass
-      }
+  /**
+   * Applies the chosen transition to the engine
+   */
+  useEffect(() => {
+    engine?.setTransition(transition)
+  }, [engine, transition])
 
-      if (audioNodesRef.current.highPassFilter) {
-        audioNodesRef.current.highPassFilter.frequency.value = effects.highPass
-      }
+  /**
+   * Preloads the track that plays next, so the engine can join or crossfade into it
+   * Nothing is preloaded while an A-B loop holds playback on the current track
+   */
+  useEffect(() => {
+    if (!engine) return
+    const nextIndex = getNextIndex(queue, true)
+    const shouldPreload = transition.mode !== 'off' && !loopRegion && nextIndex !== null
+    engine.preload(shouldPreload ? queue.tracks[nextIndex].src : null)
+  }, [engine, queue, transition.mode, loopRegion])
 
-      // Update distortion curve
-      if (audioNodesRef.current.distortionNode) {
-        audioNodesRef.current.distortionNode.curve = createDistortionCurve(effects.distortion)
-      }
+  /**
+   * Queues library tracks and starts playing the first of them
+   */
+  const playLibraryTracks = useCallback((tracks: LibraryTrack[]): void => {
+    shouldAutoPlayRef.current = true
+    dispatchQueue({ type: 'add', tracks: tracks.map(libraryTrackToTrack), select: true })
+  }, [])
 
-      // Update reverb dry/wet balance
-      if (audioNodesRef.current.reverbDryGain && audioNodesRef.current.reverbWetGain) {
-        audioNodesRef.current.reverbDryGain.gain.value = 1 - effects.reverb / 100
-        audioNodesRef.current.reverbWetGain.gain.value = effects.reverb / 100
-      }
-      
-    } catch (error) {
-      console.error('Error applying audio effects:', error)
+  /**
+   * Appends library tracks to the end of the queue
+   */
+  const enqueueLibraryTracks = useCallback((tracks: LibraryTrack[]): void => {
+    dispatchQueue({ type: 'add', tracks: tracks.map(libraryTrackToTrack) })
+  }, [])
+
+  /**
+   * Skips to the next track in play order
+   */
+  const skipToNext = useCallback((): void => {
+    const nextIndex = getNextIndex(queue, false)
+    if (nextIndex !== null) {
+      playTrackAt(nextIndex, isPlaying)
     }
-  }, [effects, createDistortionCurve])
+  }, [queue, isPlaying, playTrackAt])
+
+  /**
+   * Restarts the current track, or goes back one when near its start
+   */
+  const skipToPrevious = useCallback((): void => {
+    const previousIndex = getPreviousIndex(queue)
+
+    if (previousIndex === null || (engine && engine.currentTime > AUDIO_CONFIG.PREVIOUS_RESTART_THRESHOLD)) {
+      playTrackAt(queue.currentIndex, isPlaying)
+    } else {
+      playTrackAt(previousIndex, isPlaying)
+    }
+  }, [engine, queue, isPlaying, playTrackAt])
+
+  /**
+   * Hardware media keys, headset buttons and the OS media overlay
+   */
+  useMediaSession({
+    engine,
+    trackInfo: currentTrack?.info ?? null,
+    speed: effects.speed,
+    onPrevious: skipToPrevious,
+    onNext: getNextIndex(queue, false) !== null ? skipToNext : null
+  })
+
+  /**
+   * Toggles shuffle with a fresh, stable shuffled order
+   */
+  const toggleShuffle = useCallback((): void => {
+    dispatchQueue({ type: 'toggleShuffle', seed: Math.random() })
+  }, [])
+
+  /**
+   * Cycles repeat through off, all and one
+   */
+  const cycleRepeat = useCallback((): void => {
+    dispatchQueue({ type: 'cycleRepeat' })
+  }, [])
 
   // ============================================================================
   // AUDIO EVENT HANDLERS
   // ============================================================================
 
   /**
-   * Sets up event listeners for audio element
-   * Handles time updates, metadata loading, and playback completion
+   * Handles playback completion
+   * Loops back to A, advances the queue, or stops at the end of it
    */
   useEffect(() => {
-    const audio = audioRef.current
-    if (!audio) return
+    if (!engine) return
+
+    return engine.on('ended', () => {
+      // Fallback for a loop that ends with the track when the loop monitor was throttled
+      const loop = loopRegionRef.current
+      if (loop) {
+        engine.seek(loop.start)
+        engine.play().catch(error => console.error('Loop restart failed:', error))
+        return
+      }
 
-    const handleTimeUpdate = (): void => setCurrentTime(audio.currentTime)
-    const handleLoadedMetadata = (): void => {
-      setDuration(audio.duration)
-      console.log('Track duration loaded:', audio.duration)
-    }
-    const handleEnded = (): void => {
-      setIsPlaying(false)
-      setCurrentTime(0)
-      console.log('Playback completed')
-    }
+      const nextIndex = getNextIndex(queueRef.current, true)
+      if (nextIndex === null) {
+        engine.seek(0)
+        console.log('Playback completed')
+        return
+      }
 
-    // Attach event listeners
-    audio.addEventListener('timeupdate', handleTimeUpdate)
-    audio.addEventListener('loadedmetadata', handleLoadedMetadata)
-    audio.addEventListener('ended', handleEnded)
+      console.log('Track ended - advancing queue')
+      playTrackAt(nextIndex, true)
+    })
+  }, [engine, playTrackAt])
 
-    // Cleanup event listeners
-    return () => {
-      audio.removeEventListener('timeupdate', handleTimeUpdate)
-      audio.removeEventListener('loadedmetadata', handleLoadedMetadata)
-      audio.removeEventListener('ended', handleEnded)
-    }
-  }, [])
+  /**
+   * Follows the engine when it moves on to the preloaded track by itself
+   * Selects that track in the queue without loading it again
+   */
+  useEffect(() => {
+    if (!engine) return
+
+    return engine.on('trackchange', src => {
+      const current = queueRef.current
+      const nextIndex = getNextIndex(current, true)
+      // Repeat-one joins the track to itself, which leaves the queue as it is
+      if (nextIndex === null || nextIndex === current.currentIndex) return
+
+      const nextTrack = current.tracks[nextIndex]
+      if (nextTrack.src !== src) {
+        console.warn('Engine moved to a track the queue did not expect:', src)
+        return
+      }
+      console.log('Track joined - advancing queue')
+      engineAdvancedTrackRef.current = nextTrack.id
+      dispatchQueue({ type: 'select', index: nextIndex })
+    })
+  }, [engine])
 
   // ============================================================================
   // UTILITY FUNCTIONS
   // ============================================================================
 
+  /**
+   * Formats an EQ gain with an explicit sign
+   * @param gain - Gain in dB
+   * @returns e.g. "+3", "-1.5", "0"
+   */
+  const formatGain = useCallback((gain: number): string => {
+    const rounded = Number(gain.toFixed(1))
+    return `${rounded > 0 ? '+' : ''}${rounded}`
+  }, [])
+
   /**
    * Formats time in seconds to MM:SS format
    * @param time - Time in seconds
@@ -560,10 +630,10 @@ export default function MusicPlayer() {
    * @returns True if any effects differ from default values
    */
   const hasEffectsApplied = useCallback((): boolean => {
-    return Object.keys(effects).some(key => {
-      const effectKey = key as keyof AudioEffects
-      return Math.abs(effects[effectKey] - DEFAULT_EFFECTS[effectKey]) > 0.01
-    })
+    return !effectsEqual(effects, DEFAULT_EFFECTS, EFFECT_KEYS) ||
+      !effectOptionsEqual(effects, DEFAULT_EFFECTS) ||
+      !eqBandsEqual(effects.eqBands, DEFAULT_EFFECTS.eqBands) ||
+      !effectChainsEqual(effects.chain, DEFAULT_EFFECTS.chain)
   }, [effects])
 
   /**
@@ -571,8 +641,113 @@ export default function MusicPlayer() {
    * Provides quick way to return to neutral audio processing
    */
   const resetEffects = useCallback((): void => {
-    setEffects({ ...DEFAULT_EFFECTS })
+    setEffects({ ...DEFAULT_EFFECTS }, { label: 'Reset effects' })
     console.log('Audio effects reset to defaults')
+  }, [setEffects])
+
+  /**
+   * Sets the gain of one of the first three EQ bands from the simple view
+   * @param index - 0 = Bass, 1 = Mid, 2 = Treble
+   * @param gain - Boost/cut in dB
+   */
+  const setSimpleEqGain = useCallback((index: number, gain: number): void => {
+    setEffects(prev => ({ ...prev, eqBands: updateEqBand(prev.eqBands, index, { gain }) }))
+  }, [setEffects])
+
+  /**
+   * Replaces the EQ bands from the parametric editor
+   */
+  const updateEqBands = useCallback((eqBands: EqBand[]): void => {
+    setEffects(prev => ({ ...prev, eqBands }))
+  }, [setEffects])
+
+  /**
+   * Merges changes from the modulation and dynamics controls into the effects
+   */
+  const updateEffects = useCallback((changes: Partial<AudioEffects>): void => {
+    setEffects(prev => ({ ...prev, ...changes }))
+  }, [setEffects])
+
+  /**
+   * Replaces the effect chain from the chain editor - order, bypass and mix
+   */
+  const updateEffectChain = useCallback((chain: EffectStage[]): void => {
+    setEffects(prev => ({ ...prev, chain }))
+  }, [setEffects])
+
+  /**
+   * Applies a preset's settings on top of the current volume
+   * @param presetEffects - Settings from a factory, saved or imported preset
+   */
+  const applyPreset = useCallback((presetEffects: PresetEffects): void => {
+    setEffects(prev => ({ ...prev, ...presetEffects }), { label: 'Preset applied' })
+  }, [setEffects])
+
+  // ============================================================================
+  // EFFECTS HISTORY
+  // ============================================================================
+
+  /**
+   * Steps back through effect changes
+   */
+  const undoEffects = useCallback((): void => {
+    dispatchEffectsHistory({ type: 'undo' })
+  }, [])
+
+  /**
+   * Steps forward through undone effect changes
+   */
+  const redoEffects = useCallback((): void => {
+    dispatchEffectsHistory({ type: 'redo' })
+  }, [])
+
+  /**
+   * Jumps to a step picked from the history list
+   */
+  const jumpToEffectsStep = useCallback((index: number): void => {
+    dispatchEffectsHistory({ type: 'jump', index })
+  }, [])
+
+  /**
+   * Restores the history saved before a reload in this session
+   */
+  useEffect(() => {
+    const stored = loadEffectsHistory()
+    if (stored) dispatchEffectsHistory({ type: 'restore', ...stored })
+  }, [])
+
+  /**
+   * Saves the history once it has been idle briefly, so slider drags do not write on every move
+   */
+  useEffect(() => {
+    const timeout = window.setTimeout(() => saveEffectsHistory(effectsHistory), HISTORY_CONFIG.SAVE_DELAY)
+    return () => window.clearTimeout(timeout)
+  }, [effectsHistory])
+
+  /**
+   * Ctrl+Z undoes and Ctrl+Shift+Z (or Ctrl+Y) redoes, Cmd on macOS
+   * Text fields keep their own undo
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      const target = event.target as HTMLElement | null
+      if (target?.isContentEditable || target?.closest('input[type="text"], input[type="search"], input:not([type]), textarea, select')) {
+        return
+      }
+
+      const key = event.key.toLowerCase()
+      if (key === 'z') {
+        event.preventDefault()
+        dispatchEffectsHistory({ type: event.shiftKey ? 'redo' : 'undo' })
+      } else if (key === 'y' && !event.shiftKey) {
+        event.preventDefault()
+        dispatchEffectsHistory({ type: 'redo' })
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
   }, [])
 
   // ============================================================================
@@ -580,79 +755,260 @@ export default function MusicPlayer() {
   // ============================================================================
 
   /**
-   * Toggles play/pause state with proper audio context handling
-   * Manages browser autoplay policies and audio context suspension
+   * Toggles play/pause state
+   * The engine resumes a context suspended by the browser's autoplay policy
    */
   const togglePlayback = useCallback(async (): Promise<void> => {
-    if (!audioRef.current || !audioNodesRef.current.context) return
+    if (!engine) return
 
     try {
-      // Resume audio context if suspended (browser autoplay policy)
-      if (audioNodesRef.current.context.state === 'suspended') {
-        await audioNodesRef.current.context.resume()
-        console.log('Audio context resumed')
-      }
-
       if (isPlaying) {
-        audioRef.current.pause()
-        setIsPlaying(false)
+        engine.pause()
         console.log('Playback paused')
       } else {
-        await audioRef.current.play()
-        setIsPlaying(true)
+        await engine.play()
         console.log('Playback started')
       }
     } catch (error) {
       console.error('Playback toggle failed:', error)
     }
-  }, [isPlaying])
+  }, [engine, isPlaying])
+
+  // ============================================================================
+  // LOOP AND PRACTICE MODE
+  // ============================================================================
 
   /**
-   * Handles seeking within the track via waveform interaction
-   * Calculates precise position based on click coordinates
+   * Cancels a pending count-in and leaves practice mode
+   * The loop itself and the current speed are kept
    */
-  const handleWaveformSeek = useCallback((event: React.MouseEvent<HTMLDivElement>): void => {
-    if (!waveformContainerRef.current || !audioRef.current) return
-    
-    const rect = waveformContainerRef.current.getBoundingClientRect()
-    const clickX = event.clientX - rect.left
-    const containerWidth = rect.width
-    
-    // Calculate click position with padding compensation
-    const clickPercent = Math.max(0, Math.min(1, 
-      (clickX - AUDIO_CONFIG.WAVEFORM_PADDING / 2) / (containerWidth - AUDIO_CONFIG.WAVEFORM_PADDING)
-    ))
-    
-    // Use actual duration or fallback value
-    const trackDuration = duration || AUDIO_CONFIG.FALLBACK_DURATION
-    const newTime = clickPercent * trackDuration
-    
-    console.log('Waveform seek:', {
-      clickX,
-      containerWidth,
-      clickPercent: (clickPercent * 100).toFixed(1) + '%',
-      newTime: formatTime(newTime),
-      totalDuration: formatTime(trackDuration)
-    })
-    
-    audioRef.current.currentTime = newTime
-    setCurrentTime(newTime)
-  }, [duration, formatTime])
+  const stopPractice = useCallback((): void => {
+    if (countInRef.current) {
+      countInRef.current.clicks?.stop()
+      window.clearTimeout(countInRef.current.timeout)
+      countInRef.current = null
+    }
+    setIsPracticing(false)
+    setIsCountingIn(false)
+  }, [])
+
+  /**
+   * Starts practising the loop from its start at the ramp's start speed
+   * The optional count-in plays at the tempo the first pass runs at
+   */
+  const startPractice = useCallback(async (): Promise<void> => {
+    if (!engine || !loopRegion) return
+    const { context } = engine
+
+    try {
+      // The clicks are scheduled before playback starts, so the context must already run
+      if (context instanceof AudioContext && context.state === 'suspended') {
+        await context.resume()
+      }
+
+      engine.pause()
+      engine.seek(loopRegion.start)
+      setEffects(prev => ({ ...prev, speed: practiceSettings.startSpeed }), { record: false })
+      setPracticeRepetition(0)
+      setIsPracticing(true)
+
+      let clicks: CountIn | null = null
+      if (practiceSettings.countInBeats > 0) {
+        clicks = scheduleCountIn(context, practiceSettings.countInBeats, practiceSettings.countInBpm * practiceSettings.startSpeed)
+        setIsCountingIn(true)
+      }
+      const delay = clicks ? (clicks.endTime - context.currentTime) * 1000 : 0
+
+      const timeout = window.setTimeout(() => {
+        countInRef.current = null
+        setIsCountingIn(false)
+        engine.play().catch(error => console.error('Practice playback failed:', error))
+      }, delay)
+      countInRef.current = { clicks, timeout }
+
+      console.log('Practice started:', practiceSettings)
+    } catch (error) {
+      console.error('Failed to start practice:', error)
+      stopPractice()
+    }
+  }, [engine, loopRegion, practiceSettings, stopPractice, setEffects])
+
+  /**
+   * Removes the loop, which also ends practice mode
+   */
+  const clearLoop = useCallback((): void => {
+    setLoopRegion(null)
+  }, [])
+
+  /**
+   * Leaves practice mode once there is no loop to practise
+   */
+  useEffect(() => {
+    if (!loopRegion) stopPractice()
+  }, [loopRegion, stopPractice])
+
+  /**
+   * Loop monitor - jumps back to A whenever playback passes B
+   * Checked every animation frame because timeupdate fires only a few times a
+   * second; timeupdate is kept as a fallback for background tabs, where animation
+   * frames are paused
+   */
+  useEffect(() => {
+    if (!engine || !loopRegion || !isPlaying) return
+
+    // A loop ending with the track wraps just before it, so the queue never advances
+    const wrapAt = Math.min(loopRegion.end, (engine.duration || Infinity) - AUDIO_CONFIG.LOOP_END_GUARD)
+
+    const checkLoop = (): void => {
+      const time = engine.currentTime
+      if (time < wrapAt) return
+
+      engine.seek(getLoopWrapTime(loopRegion, Math.max(time, loopRegion.end)))
+      if (isPracticing) {
+        setPracticeRepetition(prev => prev + 1)
+        setEffects(prev => ({ ...prev, speed: getNextPracticeSpeed(prev.speed, practiceSettings) }), { record: false })
+      }
+    }
+
+    const tick = (): void => {
+      checkLoop()
+      animationRef.current = requestAnimationFrame(tick)
+    }
+    animationRef.current = requestAnimationFrame(tick)
+    const unsubscribe = engine.on('timeupdate', checkLoop)
+
+    return () => {
+      if (animationRef.current) cancelAnimationFrame(animationRef.current)
+      unsubscribe()
+    }
+  }, [engine, loopRegion, isPlaying, isPracticing, practiceSettings, setEffects])
+
+  // ============================================================================
+  // TRACK LOADING
+  // ============================================================================
+
+  /**
+   * Queues every playable file from a picker or drop selection and loads the first
+   * Tags are parsed before queueing so the UI never shows half-filled tracks
+   */
+  const loadFiles = useCallback(async (files: FileList | File[]): Promise<void> => {
+    const audioFiles = Array.from(files).filter(isAudioFile)
+    if (audioFiles.length === 0) {
+      console.warn('No playable audio file in selection')
+      return
+    }
+
+    try {
+      const tracks = await Promise.all(audioFiles.map(createTrackFromFile))
+      shouldAutoPlayRef.current = false
+      dispatchQueue({ type: 'add', tracks, select: true })
+      console.log('Queued local tracks:', tracks.map(track => track.info.title))
+    } catch (error) {
+      console.error('Failed to load audio files:', error)
+    }
+  }, [])
+
+  /**
+   * Handles file picker selection
+   */
+  const handleFileInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>): void => {
+    if (event.target.files) {
+      loadFiles(event.target.files)
+    }
+    // Reset so picking the same file again still fires a change event
+    event.target.value = ''
+  }, [loadFiles])
+
+  /**
+   * Accepts file drags anywhere on the page
+   */
+  const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>): void => {
+    if (!event.dataTransfer.types.includes('Files')) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+    setIsDraggingFile(true)
+  }, [])
 
+  /**
+   * Clears the drop overlay once the drag leaves the page
+   */
+  const handleDragLeave = useCallback((event: React.DragEvent<HTMLDivElement>): void => {
+    // Moving between child elements also fires dragleave - ignore those
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return
+    setIsDraggingFile(false)
+  }, [])
 
+  /**
+   * Loads dropped files
+   */
+  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>): void => {
+    event.preventDefault()
+    setIsDraggingFile(false)
+    loadFiles(event.dataTransfer.files)
+  }, [loadFiles])
 
   // ============================================================================
-  // COMPUTED VALUES
+  // SHARE LINKS
   // ============================================================================
 
   /**
-   * Calculate current playback progress
-   * Uses memoization to prevent unnecessary recalculations
+   * Builds a link to the current library track, loop and effect settings
+   * Local files cannot be fetched by anyone else, so their links carry the settings only
+   * @param includePosition - Also start at the current playback position
    */
-  const playbackProgress = useMemo((): number => {
-    const trackDuration = duration || AUDIO_CONFIG.FALLBACK_DURATION
-    return trackDuration > 0 ? (currentTime / trackDuration) * 100 : 0
-  }, [currentTime, duration])
+  const buildShareLink = useCallback((includePosition: boolean): string => {
+    const trackId = currentTrack ? getLibraryTrackId(currentTrack) : null
+    return createShareUrl(window.location.href, {
+      trackId,
+      position: includePosition && trackId && engine ? engine.currentTime : null,
+      loop: trackId ? loopRegion : null,
+      effects: toPresetEffects(effects)
+    })
+  }, [currentTrack, engine, loopRegion, effects])
+
+  /**
+   * Applies a shared link: the settings straight away, the track once found in the library
+   */
+  const openSharedState = useCallback(async (shared: SharedState): Promise<void> => {
+    if (shared.effects) {
+      const sharedEffects = shared.effects
+      setEffects(prev => ({ ...prev, ...sharedEffects }), { label: 'Shared link' })
+    }
+    if (!shared.trackId) return
+
+    try {
+      const library = await fetchLibrary()
+      const libraryTrack = library.tracks.find(track => track.id === shared.trackId)
+      if (!libraryTrack) {
+        console.warn('Shared track is not in the library:', shared.trackId)
+        return
+      }
+
+      const track = libraryTrackToTrack(libraryTrack)
+      pendingShareRef.current = { trackId: track.id, position: shared.position, loop: shared.loop }
+      shouldAutoPlayRef.current = false
+      dispatchQueue({ type: 'add', tracks: [track], select: true })
+    } catch (error) {
+      console.error('Failed to open shared track:', error)
+    }
+  }, [setEffects])
+
+  /**
+   * Opens a share link from the address bar, on load and when the hash changes
+   * The hash is cleared so a reload does not apply the link over later changes
+   */
+  useEffect(() => {
+    const openFromHash = (): void => {
+      const shared = parseShareHash(window.location.hash)
+      if (!shared) return
+      window.history.replaceState(null, '', window.location.pathname + window.location.search)
+      openSharedState(shared)
+    }
+
+    openFromHash()
+    window.addEventListener('hashchange', openFromHash)
+    return () => window.removeEventListener('hashchange', openFromHash)
+  }, [openSharedState])
 
   // ============================================================================
   // RENDER COMPONENT
@@ -674,7 +1030,19 @@ export default function MusicPlayer() {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100">
+    <div
+      className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 relative"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* File Drop Overlay */}
+      {isDraggingFile && (
+        <div className="fixed inset-4 z-50 rounded-xl border-2 border-dashed border-orange-400 bg-white/80 backdrop-blur-sm flex items-center justify-center pointer-events-none">
+          <p className="text-lg font-semibold text-gray-900">Drop audio file to play</p>
+        </div>
+      )}
+
       {/* Application Header */}
       <header className="flex items-center justify-between p-6 border-b border-gray-200/80 bg-white/80 backdrop-blur-sm">
         <div className="flex items-center space-x-4">
@@ -683,6 +1051,64 @@ export default function MusicPlayer() {
           </div>
           <h1 className="text-2xl font-bold text-gray-900">Studio Player</h1>
         </div>
+
+        <div className="flex items-center space-x-2">
+          {/* Library Toggle */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsLibraryOpen(open => !open)}
+            className={cn(
+              "text-gray-600 hover:text-gray-900 border-gray-300",
+              isLibraryOpen && "text-orange-600 border-orange-300"
+            )}
+            aria-label="Toggle music library"
+            aria-pressed={isLibraryOpen}
+          >
+            <Library className="w-4 h-4" />
+            Library
+          </Button>
+
+          {/* Export Toggle */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsExportOpen(open => !open)}
+            disabled={!currentTrack}
+            className={cn(
+              "text-gray-600 hover:text-gray-900 border-gray-300",
+              isExportOpen && "text-orange-600 border-orange-300"
+            )}
+            aria-label="Export processed audio"
+            aria-pressed={isExportOpen}
+          >
+            <FileDown className="w-4 h-4" />
+            Export
+          </Button>
+
+          {/* Live Output Recording */}
+          <RecordControls engine={engine} title={trackInfo.title} />
+
+          {/* Local File Picker */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            className="text-gray-600 hover:text-gray-900 border-gray-300"
+            aria-label="Open audio files"
+          >
+            <FolderOpen className="w-4 h-4" />
+            Open files
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            multiple
+            onChange={handleFileInputChange}
+            className="hidden"
+          />
+        </div>
       </header>
 
       {/* Main Player Interface */}
@@ -696,18 +1122,42 @@ export default function MusicPlayer() {
             <div className="mb-6">
               <div className="flex items-start space-x-4">
                 
-                {/* Album Artwork Placeholder */}
-                <div className="w-32 h-32 bg-gradient-to-br from-purple-500 via-pink-500 to-orange-500 rounded-lg shadow-lg flex items-center justify-center">
-                  <div className="text-white text-3xl font-bold opacity-20">♪</div>
-                </div>
+                {/* Album Artwork (placeholder when the track has none) */}
+                {trackInfo.artworkUrl ? (
+                  <Image
+                    src={trackInfo.artworkUrl}
+                    alt={`${trackInfo.album || trackInfo.title} cover art`}
+                    width={128}
+                    height={128}
+                    unoptimized
+                    className="w-32 h-32 rounded-lg shadow-lg object-cover"
+                  />
+                ) : (
+                  <div className="w-32 h-32 bg-gradient-to-br from-purple-500 via-pink-500 to-orange-500 rounded-lg shadow-lg flex items-center justify-center">
+                    <div className="text-white text-3xl font-bold opacity-20">♪</div>
+                  </div>
+                )}
                 
                 {/* Track Information */}
                 <div className="flex-1 pt-2">
-                  <h2 className="text-2xl font-bold text-gray-900 mb-1">{TRACK_INFO.title}</h2>
-                  <p className="text-lg text-gray-600 mb-2">{TRACK_INFO.artist}</p>
-                  <p className="text-gray-500 mb-4">
-                    {TRACK_INFO.genre} • {TRACK_INFO.album} • {TRACK_INFO.duration}
+                  <h2 className="text-2xl font-bold text-gray-900 mb-1">{trackInfo.title}</h2>
+                  <p className="text-lg text-gray-600 mb-2">{trackInfo.artist}</p>
+                  <p className="text-gray-500 mb-2">
+                    {[
+                      trackInfo.genre,
+                      trackInfo.album,
+                      trackInfo.year,
+                      duration > 0 ? formatTime(duration) : trackInfo.duration
+                    ].filter(Boolean).join(' • ')}
                   </p>
+                  <TempoKeyDisplay
+                    analysis={trackAnalysis}
+                    isAnalysing={isAnalysing}
+                    speed={effects.speed}
+                    snapUnit={snapUnit}
+                    onSnapUnitChange={setSnapUnit}
+                    className="mb-4"
+                  />
                   
                   {/* Track Action Buttons */}
                   <div className="flex items-center space-x-4">
@@ -723,63 +1173,93 @@ export default function MusicPlayer() {
                     >
                       <Heart className={cn("w-5 h-5", isLiked && "fill-current")} />
                     </Button>
-                    <Button 
-                      variant="ghost" 
-                      size="sm" 
-                      className="text-gray-600 hover:text-gray-900"
-                      aria-label="Share track"
-                    >
-                      <Share className="w-5 h-5" />
-                    </Button>
+                    <ShareMenu
+                      getLink={buildShareLink}
+                      currentTime={currentTime}
+                      isTrackShareable={currentTrack !== null && getLibraryTrackId(currentTrack) !== null}
+                    />
                   </div>
                 </div>
+
+                {/* Play Queue and Track Transitions */}
+                <div className="w-80 flex-shrink-0 flex flex-col gap-2">
+                  <QueuePanel
+                    tracks={queue.tracks}
+                    currentIndex={queue.currentIndex}
+                    onSelect={(index) => playTrackAt(index, isPlaying)}
+                    onRemove={(trackId) => dispatchQueue({ type: 'remove', trackId })}
+                    onMove={(from, to) => dispatchQueue({ type: 'move', from, to })}
+                    onPlayNext={(trackId) => dispatchQueue({ type: 'playNext', trackId })}
+                  />
+                  <TransitionControls transition={transition} onChange={setTransition} />
+                </div>
               </div>
             </div>
 
-            {/* Interactive Waveform Visualization */}
+            {/* Server-side Music Library */}
+            {isLibraryOpen && (
+              <LibraryBrowser
+                onPlay={playLibraryTracks}
+                onEnqueue={enqueueLibraryTracks}
+                className="mb-6"
+              />
+            )}
+
+            {/* Offline WAV Export */}
+            {isExportOpen && (
+              <ExportPanel
+                track={currentTrack}
+                effects={effects}
+                automation={automation}
+                duration={duration}
+                onClose={() => setIsExportOpen(false)}
+                className="mb-6"
+              />
+            )}
+
+            {/* Interactive Waveform - zoom, scroll, scrub and A-B loop */}
             <div className="mb-6">
-              <div 
-                ref={waveformContainerRef}
-                className="h-16 bg-gray-100/80 border border-gray-200 rounded-lg relative overflow-hidden cursor-pointer shadow-sm hover:bg-gray-100/90 transition-colors"
-                onClick={handleWaveformSeek}
-                role="slider"
-                aria-label="Seek through track"
-                aria-valuemin={0}
-                aria-valuemax={duration || AUDIO_CONFIG.FALLBACK_DURATION}
-                aria-valuenow={currentTime}
-              >
-                {/* Waveform Visualization */}
-                <div className="absolute top-4 left-4 right-4 bottom-8 flex items-end justify-start space-x-1">
-                  {staticWaveform.map((amplitude, index) => {
-                    const barProgress = index / staticWaveform.length
-                    const trackProgress = playbackProgress / 100
-                    const isActive = barProgress <= trackProgress
-                    const waveHeight = Math.max(1, amplitude * AUDIO_CONFIG.WAVEFORM_MAX_HEIGHT)
-                    
-                    return (
-                      <div
-                        key={index}
-                        className={cn(
-                          "rounded-full transition-colors duration-300 flex-shrink-0 hover:opacity-80",
-                          isActive 
-                            ? "bg-gradient-to-t from-orange-500 to-orange-300" 
-                            : "bg-gray-300/80"
-                        )}
-                        style={{
-                          height: `${Math.min(AUDIO_CONFIG.WAVEFORM_MAX_HEIGHT, waveHeight)}px`,
-                          width: '2px'
-                        }}
-                      />
-                    )
-                  })}
-                </div>
-                
-                {/* Time Display Overlay */}
-                <div className="absolute bottom-1 left-3 right-3 flex justify-between text-xs text-gray-600 pointer-events-none">
-                  <span>{formatTime(currentTime)}</span>
-                  <span>{formatTime(duration || AUDIO_CONFIG.FALLBACK_DURATION)}</span>
-                </div>
-              </div>
+              <WaveformView
+                engine={engine}
+                track={currentTrack}
+                peaks={waveformPeaks}
+                duration={duration}
+                currentTime={currentTime}
+                loopRegion={loopRegion}
+                onLoopRegionChange={setLoopRegion}
+                tempo={trackAnalysis?.tempo ?? null}
+                snapUnit={snapUnit}
+              />
+
+              {/* Effect Automation - lanes on the track's time axis */}
+              {currentTrack && duration > 0 && (
+                <AutomationEditor
+                  lanes={automation}
+                  onChange={updateAutomation}
+                  duration={duration}
+                  currentTime={currentTime}
+                  isArmed={isAutomationArmed}
+                  onArmedChange={setAutomationArmed}
+                  className="mt-3"
+                />
+              )}
+
+              {/* Loop and Practice Mode */}
+              {loopRegion && (
+                <LoopControls
+                  loop={loopRegion}
+                  onClear={clearLoop}
+                  settings={practiceSettings}
+                  onSettingsChange={setPracticeSettings}
+                  isPracticing={isPracticing}
+                  isCountingIn={isCountingIn}
+                  repetition={practiceRepetition}
+                  speed={effects.speed}
+                  onStartPractice={startPractice}
+                  onStopPractice={stopPractice}
+                  className="mt-3"
+                />
+              )}
             </div>
 
             {/* Playback Controls */}
@@ -790,8 +1270,13 @@ export default function MusicPlayer() {
                 <Button 
                   variant="ghost" 
                   size="sm" 
-                  className="text-gray-600 hover:text-gray-900"
+                  onClick={toggleShuffle}
+                  className={cn(
+                    "text-gray-600 hover:text-gray-900",
+                    queue.shuffle && "text-orange-500 hover:text-orange-600"
+                  )}
                   aria-label="Toggle shuffle"
+                  aria-pressed={queue.shuffle}
                 >
                   <Shuffle className="w-5 h-5" />
                 </Button>
@@ -799,6 +1284,8 @@ export default function MusicPlayer() {
                 <Button 
                   variant="ghost" 
                   size="sm" 
+                  onClick={skipToPrevious}
+                  disabled={!currentTrack}
                   className="text-gray-600 hover:text-gray-900"
                   aria-label="Previous track"
                 >
@@ -807,7 +1294,7 @@ export default function MusicPlayer() {
                 
                 <Button
                   onClick={togglePlayback}
-                  disabled={isLoading}
+                  disabled={!engine || !currentTrack || liveInput.source.type !== 'playback'}
                   className="bg-gray-900 hover:bg-gray-800 text-white rounded-full w-12 h-12 shadow-lg disabled:opacity-50"
                   aria-label={isPlaying ? "Pause" : "Play"}
                 >
@@ -817,6 +1304,8 @@ export default function MusicPlayer() {
                 <Button 
                   variant="ghost" 
                   size="sm" 
+                  onClick={skipToNext}
+                  disabled={getNextIndex(queue, false) === null}
                   className="text-gray-600 hover:text-gray-900"
                   aria-label="Next track"
                 >
@@ -826,10 +1315,15 @@ export default function MusicPlayer() {
                 <Button 
                   variant="ghost" 
                   size="sm" 
-                  className="text-gray-600 hover:text-gray-900"
-                  aria-label="Toggle repeat"
+                  onClick={cycleRepeat}
+                  className={cn(
+                    "text-gray-600 hover:text-gray-900",
+                    queue.repeat !== 'off' && "text-orange-500 hover:text-orange-600"
+                  )}
+                  aria-label={`Repeat: ${queue.repeat}`}
+                  title={`Repeat: ${queue.repeat}`}
                 >
-                  <Repeat className="w-5 h-5" />
+                  {queue.repeat === 'one' ? <Repeat1 className="w-5 h-5" /> : <Repeat className="w-5 h-5" />}
                 </Button>
               </div>
 
@@ -857,9 +1351,17 @@ export default function MusicPlayer() {
         <div className="border-t border-gray-200/80 bg-white/90 backdrop-blur-sm flex-1">
           <div className="p-6">
             
-            {/* Effects Panel Header with Reset Option */}
+            {/* Effects Panel Header with Presets and Reset Option */}
             <div className="flex items-center justify-center mb-6 space-x-4 h-20">
               <h3 className="text-lg font-semibold text-gray-900">Audio Effects</h3>
+              <PresetPicker effects={effects} onApply={applyPreset} />
+              <HistoryControls
+                entries={effectsHistory.entries}
+                index={effectsHistory.index}
+                onUndo={undoEffects}
+                onRedo={redoEffects}
+                onJump={jumpToEffectsStep}
+              />
               {hasEffectsApplied() && (
                 <Button
                   onClick={resetEffects}
@@ -874,6 +1376,23 @@ export default function MusicPlayer() {
               )}
             </div>
             
+            {/* Chain Source - track playback or a live input */}
+            <InputSourceControls input={liveInput} className="max-w-5xl mx-auto mb-4" />
+
+            {/* Spectrum with EQ/Filter Response Overlay */}
+            <SpectrumAnalyser
+              analyser={engine?.analyser ?? null}
+              chain={engine?.chain ?? null}
+              className="max-w-5xl mx-auto mb-4"
+            />
+
+            {/* Signal Path - reorder, bypass and mix the effect modules */}
+            <EffectChainEditor
+              chain={effects.chain}
+              onChange={updateEffectChain}
+              className="max-w-5xl mx-auto mb-8"
+            />
+
             {/* Effects Control Grid */}
             <div className="flex justify-center items-start space-x-10 max-w-7xl mx-auto">
               
@@ -927,71 +1446,96 @@ export default function MusicPlayer() {
               {/* Visual Separator */}
               <div className="w-px h-72 bg-gray-200" aria-hidden="true"></div>
 
-              {/* Equalizer Section */}
+              {/* Equalizer Section - simple sliders or the parametric curve editor */}
               <div className="flex flex-col items-center space-y-6">
-                <h4 className="text-gray-900 font-medium text-sm">Equalizer</h4>
-                <div className="flex space-x-8">
+                <div className="flex items-center space-x-3">
+                  <h4 className="text-gray-900 font-medium text-sm">Equalizer</h4>
+                  <div className="flex rounded-md border border-gray-300 overflow-hidden text-xs" role="group" aria-label="Equalizer view">
+                    {(['simple', 'parametric'] as const).map(view => (
+                      <button
+                        key={view}
+                        type="button"
+                        onClick={() => setEqView(view)}
+                        className={cn(
+                          "px-2 py-0.5 capitalize cursor-pointer",
+                          eqView === view ? "bg-orange-500 text-white" : "bg-white text-gray-600 hover:text-gray-900"
+                        )}
+                        aria-pressed={eqView === view}
+                      >
+                        {view}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {eqView === 'parametric' ? (
+                  <EqEditor bands={effects.eqBands} onChange={updateEqBands} className="w-[560px]" />
+                ) : (
+                  <div className="flex space-x-8">
                   
-                  {/* Bass EQ */}
-                  <div className="flex flex-col items-center w-20">
-                    <span className="text-xs text-gray-700 text-center mb-3">Bass</span>
-                    <div className="h-32 w-8 relative">
-                      <Slider
-                        value={[effects.bass]}
-                        min={-20}
-                        max={20}
-                        step={1}
-                        orientation="vertical"
-                        onValueChange={(value) => setEffects(prev => ({ ...prev, bass: value[0] }))}
-                        className="h-full"
-                        aria-label="Bass EQ adjustment"
-                      />
+                    {/* Bass EQ */}
+                    <div className="flex flex-col items-center w-20">
+                      <span className="text-xs text-gray-700 text-center mb-3">Bass</span>
+                      <div className="h-32 w-8 relative">
+                        <Slider
+                          value={[effects.eqBands[0]?.gain ?? 0]}
+                          min={-20}
+                          max={20}
+                          step={1}
+                          orientation="vertical"
+                          onValueChange={(value) => setSimpleEqGain(0, value[0])}
+                          disabled={!effects.eqBands[0]}
+                          className="h-full"
+                          aria-label="Bass EQ adjustment"
+                        />
+                      </div>
+                      <span className="text-xs text-gray-600 w-full text-center mt-14" aria-live="polite">
+                        {formatGain(effects.eqBands[0]?.gain ?? 0)}dB
+                      </span>
                     </div>
-                    <span className="text-xs text-gray-600 w-full text-center mt-14" aria-live="polite">
-                      {effects.bass > 0 ? '+' : ''}{effects.bass}dB
-                    </span>
-                  </div>
                  
-                  {/* Mid EQ */}
-                  <div className="flex flex-col items-center w-20">
-                    <span className="text-xs text-gray-700 text-center mb-3">Mid</span>
-                    <div className="h-32 w-8 relative">
-                      <Slider
-                        value={[effects.mid]}
-                        min={-20}
-                        max={20}
-                        step={1}
-                        orientation="vertical"
-                        onValueChange={(value) => setEffects(prev => ({ ...prev, mid: value[0] }))}
-                        className="h-full"
-                        aria-label="Mid-range EQ adjustment"
-                      />
+                    {/* Mid EQ */}
+                    <div className="flex flex-col items-center w-20">
+                      <span className="text-xs text-gray-700 text-center mb-3">Mid</span>
+                      <div className="h-32 w-8 relative">
+                        <Slider
+                          value={[effects.eqBands[1]?.gain ?? 0]}
+                          min={-20}
+                          max={20}
+                          step={1}
+                          orientation="vertical"
+                          onValueChange={(value) => setSimpleEqGain(1, value[0])}
+                          disabled={!effects.eqBands[1]}
+                          className="h-full"
+                          aria-label="Mid-range EQ adjustment"
+                        />
+                      </div>
+                      <span className="text-xs text-gray-600 w-full text-center mt-14" aria-live="polite">
+                        {formatGain(effects.eqBands[1]?.gain ?? 0)}dB
+                      </span>
                     </div>
-                    <span className="text-xs text-gray-600 w-full text-center mt-14" aria-live="polite">
-                      {effects.mid > 0 ? '+' : ''}{effects.mid}dB
-                    </span>
-                  </div>
                  
-                  {/* Treble EQ */}
-                  <div className="flex flex-col items-center w-20">
-                    <span className="text-xs text-gray-700 text-center mb-3">Treble</span>
-                    <div className="h-32 w-8 relative">
-                      <Slider
-                        value={[effects.treble]}
-                        min={-20}
-                        max={20}
-                        step={1}
-                        orientation="vertical"
-                        onValueChange={(value) => setEffects(prev => ({ ...prev, treble: value[0] }))}
-                        className="h-full"
-                        aria-label="Treble EQ adjustment"
-                      />
+                    {/* Treble EQ */}
+                    <div className="flex flex-col items-center w-20">
+                      <span className="text-xs text-gray-700 text-center mb-3">Treble</span>
+                      <div className="h-32 w-8 relative">
+                        <Slider
+                          value={[effects.eqBands[2]?.gain ?? 0]}
+                          min={-20}
+                          max={20}
+                          step={1}
+                          orientation="vertical"
+                          onValueChange={(value) => setSimpleEqGain(2, value[0])}
+                          disabled={!effects.eqBands[2]}
+                          className="h-full"
+                          aria-label="Treble EQ adjustment"
+                        />
+                      </div>
+                      <span className="text-xs text-gray-600 w-full text-center mt-14" aria-live="polite">
+                        {formatGain(effects.eqBands[2]?.gain ?? 0)}dB
+                      </span>
                     </div>
-                    <span className="text-xs text-gray-600 w-full text-center mt-14" aria-live="polite">
-                      {effects.treble > 0 ? '+' : ''}{effects.treble}dB
-                    </span>
                   </div>
-                </div>
+                )}
               </div>
 
               {/* Visual Separator */}
@@ -1034,7 +1578,7 @@ export default function MusicPlayer() {
                         orientation="vertical"
                         onValueChange={(value) => setEffects(prev => ({ ...prev, distortion: value[0] }))}
                         className="h-full"
-                        aria-label="Distortion amount"
+                        aria-label="Distortion drive"
                       />
                     </div>
                     <span className="text-xs text-gray-600 w-full text-center mt-14" aria-live="polite">
@@ -1114,31 +1658,38 @@ export default function MusicPlayer() {
                 </div>
               </div>
             </div>
+
+            {/* Distortion - model, oversampling, tone and level */}
+            <DistortionControls
+              effects={effects}
+              onChange={updateEffects}
+              className="max-w-7xl mx-auto mt-10 pt-8 border-t border-gray-200"
+            />
+
+            {/* Modulation Effects - delay, chorus, flanger and phaser */}
+            <ModulationControls
+              effects={effects}
+              onChange={updateEffects}
+              className="max-w-7xl mx-auto mt-10 pt-8 border-t border-gray-200"
+            />
+
+            {/* Reverb - parametric, library or user impulse */}
+            <ReverbControls
+              effects={effects}
+              onChange={updateEffects}
+              impulses={impulseResponses}
+              onImpulseAdded={addImpulseResponse}
+              onImpulseDeleted={removeImpulseResponse}
+              className="max-w-7xl mx-auto mt-10 pt-8 border-t border-gray-200"
+            />
+
+            {/* Dynamics - gate, compressor and limiter with live metering */}
+            <div className="flex flex-wrap justify-center items-start gap-x-10 gap-y-8 max-w-7xl mx-auto mt-10 pt-8 border-t border-gray-200">
+              <DynamicsControls effects={effects} onChange={updateEffects} />
+              <DynamicsMeters chain={engine?.chain ?? null} />
+            </div>
           </div>
         </div>
-
-        {/* Hidden Audio Element */}
-        <audio
-          ref={audioRef}
-          src="/song/Love Yourz.mp3"
-          crossOrigin="anonymous"
-          preload="metadata"
-          onLoadedMetadata={() => {
-            if (audioRef.current) {
-              setDuration(audioRef.current.duration)
-              console.log('Track metadata loaded - Duration:', audioRef.current.duration)
-            }
-          }}
-          onTimeUpdate={() => {
-            if (audioRef.current) {
-              setCurrentTime(audioRef.current.currentTime)
-            }
-          }}
-          onError={(e) => {
-            console.error('Audio loading error:', e)
-            setIsLoading(false)
-          }}
-        />
       </div>
     </div>
   )
@@ -0,0 +1,297 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Circle, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { EFFECT_LIMITS } from '@/lib/effects'
+import {
+  type AutomationKey,
+  type AutomationLanes,
+  type AutomationPoint,
+  AUTOMATION_KEYS,
+  clampAutomationValue,
+  formatAutomationKey,
+  getAutomationValue,
+  insertAutomationPoint,
+  moveAutomationPoint,
+  removeAutomationPoint,
+  setAutomationLane
+} from '@/lib/automation'
+import { cn } from '@/lib/utils'
+
+/**
+ * Lane Editor Constants
+ */
+const LANE_CONFIG = {
+  /** Lane graph height in pixels */
+  HEIGHT: 48,
+  /** Point handle radius in pixels */
+  HANDLE_RADIUS: 4,
+  /** Arrow-key time step in seconds; Shift moves ten times as far */
+  TIME_KEY_STEP: 0.1,
+  /** Arrow-key value step as a fraction of the field's range */
+  VALUE_KEY_STEP: 0.01
+} as const
+
+interface AutomationEditorProps {
+  lanes: AutomationLanes
+  onChange: (lanes: AutomationLanes) => void
+  /** Track length in seconds, the lanes' time axis */
+  duration: number
+  currentTime: number
+  /** Whether effect changes during playback are being recorded */
+  isArmed: boolean
+  onArmedChange: (isArmed: boolean) => void
+  className?: string
+}
+
+interface AutomationLaneProps {
+  automationKey: AutomationKey
+  points: AutomationPoint[]
+  onChange: (points: AutomationPoint[]) => void
+  duration: number
+  currentTime: number
+  width: number
+}
+
+/**
+ * Formats an automated value for display, with fewer decimals for wider ranges
+ */
+function formatAutomationValue(key: AutomationKey, value: number): string {
+  const { min, max } = EFFECT_LIMITS[key]
+  const range = max - min
+  return value.toFixed(range >= 100 ? 0 : range >= 10 ? 1 : 2)
+}
+
+/**
+ * One automation lane: the curve, draggable points and a playhead
+ * Double-click adds a point, double-click on a point removes it
+ */
+function AutomationLane({ automationKey, points, onChange, duration, currentTime, width }: AutomationLaneProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const { min, max } = EFFECT_LIMITS[automationKey]
+  const height = LANE_CONFIG.HEIGHT
+  const padding = LANE_CONFIG.HANDLE_RADIUS
+  const timeline = duration > 0 ? duration : 1
+
+  // Latest points for handlers that run between renders
+  const pointsRef = useRef<AutomationPoint[]>(points)
+  useEffect(() => {
+    pointsRef.current = points
+  }, [points])
+
+  const timeToX = (time: number): number => (Math.min(time, timeline) / timeline) * width
+  const valueToY = (value: number): number => padding + (1 - (value - min) / (max - min)) * (height - padding * 2)
+
+  /**
+   * Converts a pointer position to a lane point
+   */
+  const pointerToPoint = useCallback((clientX: number, clientY: number): AutomationPoint => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return { time: 0, value: min }
+    const position = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1)
+    const level = 1 - (clientY - rect.top - padding) / (rect.height - padding * 2)
+    return {
+      time: position * timeline,
+      value: clampAutomationValue(automationKey, min + level * (max - min))
+    }
+  }, [automationKey, min, max, padding, timeline])
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<SVGCircleElement>, index: number): void => {
+    event.preventDefault()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setDragIndex(index)
+  }, [])
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<SVGCircleElement>, index: number): void => {
+    if (dragIndex !== index) return
+    onChange(moveAutomationPoint(pointsRef.current, index, pointerToPoint(event.clientX, event.clientY)))
+  }, [dragIndex, onChange, pointerToPoint])
+
+  const handlePointerUp = useCallback((event: React.PointerEvent<SVGCircleElement>): void => {
+    event.currentTarget.releasePointerCapture(event.pointerId)
+    setDragIndex(null)
+  }, [])
+
+  /**
+   * Arrow keys move the focused point, Delete removes it
+   */
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<SVGCircleElement>, index: number): void => {
+    const point = pointsRef.current[index]
+    const step = event.shiftKey ? 10 : 1
+
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const direction = event.key === 'ArrowRight' ? 1 : -1
+        const time = Math.min(Math.max(point.time + direction * step * LANE_CONFIG.TIME_KEY_STEP, 0), timeline)
+        onChange(moveAutomationPoint(pointsRef.current, index, { ...point, time }))
+        break
+      }
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const direction = event.key === 'ArrowUp' ? 1 : -1
+        const value = clampAutomationValue(automationKey, point.value + direction * step * LANE_CONFIG.VALUE_KEY_STEP * (max - min))
+        onChange(moveAutomationPoint(pointsRef.current, index, { ...point, value }))
+        break
+      }
+      case 'Delete':
+      case 'Backspace':
+        onChange(removeAutomationPoint(pointsRef.current, index))
+        break
+      default:
+        return
+    }
+    event.preventDefault()
+  }, [automationKey, max, min, onChange, timeline])
+
+  const curve = points.length > 0
+    ? [
+        `M0,${valueToY(points[0].value).toFixed(1)}`,
+        ...points.map(point => `L${timeToX(point.time).toFixed(1)},${valueToY(point.value).toFixed(1)}`),
+        `L${width},${valueToY(points[points.length - 1].value).toFixed(1)}`
+      ].join('')
+    : ''
+  const currentValue = getAutomationValue(points, currentTime)
+  const label = formatAutomationKey(automationKey)
+
+  return (
+    <svg
+      ref={svgRef}
+      width={width}
+      height={height}
+      className="block touch-none select-none"
+      onDoubleClick={(event) => {
+        const target = event.target as Element
+        if (target.hasAttribute('data-point-index')) {
+          onChange(removeAutomationPoint(pointsRef.current, Number(target.getAttribute('data-point-index'))))
+          return
+        }
+        onChange(insertAutomationPoint(pointsRef.current, pointerToPoint(event.clientX, event.clientY)).points)
+      }}
+      role="group"
+      aria-label={`${label} automation - double-click to add a point`}
+    >
+      <path d={curve} fill="none" className="stroke-orange-500" strokeWidth={1.5} />
+      <line
+        x1={timeToX(currentTime)}
+        x2={timeToX(currentTime)}
+        y1={0}
+        y2={height}
+        className="stroke-gray-500 pointer-events-none"
+        strokeDasharray="2 2"
+      />
+      {points.map((point, index) => (
+        <circle
+          key={index}
+          data-point-index={index}
+          cx={timeToX(point.time)}
+          cy={valueToY(point.value)}
+          r={LANE_CONFIG.HANDLE_RADIUS}
+          tabIndex={0}
+          onPointerDown={(event) => handlePointerDown(event, index)}
+          onPointerMove={(event) => handlePointerMove(event, index)}
+          onPointerUp={handlePointerUp}
+          onKeyDown={(event) => handleKeyDown(event, index)}
+          className={cn(
+            "cursor-grab outline-none fill-white stroke-orange-500 stroke-2 focus:fill-orange-500",
+            dragIndex === index && "cursor-grabbing fill-orange-500"
+          )}
+          role="slider"
+          aria-label={`${label} point ${index + 1} at ${point.time.toFixed(2)}s`}
+          aria-valuemin={min}
+          aria-valuemax={max}
+          aria-valuenow={point.value}
+        />
+      ))}
+      {currentValue !== null && (
+        <text x={width - 4} y={12} textAnchor="end" className="fill-gray-500 text-[10px] pointer-events-none">
+          {formatAutomationValue(automationKey, currentValue)}
+        </text>
+      )}
+    </svg>
+  )
+}
+
+/**
+ * Automation Editor
+ * Record arm and one editable lane per automated field, on the waveform's time axis
+ */
+function AutomationEditor({ lanes, onChange, duration, currentTime, isArmed, onArmedChange, className }: AutomationEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [width, setWidth] = useState<number>(0)
+
+  // Track the rendered width so handles stay round
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const resizeObserver = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    resizeObserver.observe(container)
+    return () => resizeObserver.disconnect()
+  }, [])
+
+  const automatedKeys = AUTOMATION_KEYS.filter(key => (lanes[key]?.length ?? 0) > 0)
+
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      <div className="flex items-center gap-3 text-xs text-gray-700">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onArmedChange(!isArmed)}
+          className={cn(
+            "h-7 gap-1.5 text-xs",
+            isArmed ? "border-red-500 text-red-600 hover:text-red-700" : "border-gray-300 text-gray-600 hover:text-gray-900"
+          )}
+          aria-pressed={isArmed}
+          title={isArmed ? 'Stop recording automation' : 'Record effect changes made during playback'}
+        >
+          <Circle className={cn("w-3 h-3", isArmed && "fill-red-500 animate-pulse")} />
+          {isArmed ? 'Recording automation' : 'Record automation'}
+        </Button>
+        {isArmed && automatedKeys.length === 0 && (
+          <span className="text-gray-500">Play the track and move any effect slider</span>
+        )}
+        {automatedKeys.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            className="ml-auto text-gray-500 hover:text-gray-900 cursor-pointer"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      <div ref={containerRef} className="flex flex-col gap-2">
+        {width > 0 && automatedKeys.map(key => (
+          <div key={key} className="relative rounded-lg border border-gray-200 bg-white">
+            <div className="absolute top-1 left-2 flex items-center gap-1 text-[10px] font-medium text-gray-700 pointer-events-none">
+              {formatAutomationKey(key)}
+            </div>
+            <button
+              type="button"
+              onClick={() => onChange(setAutomationLane(lanes, key, null))}
+              className="absolute bottom-1 left-1.5 text-gray-400 hover:text-gray-900 cursor-pointer"
+              aria-label={`Clear ${formatAutomationKey(key)} automation`}
+              title="Clear lane"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+            <AutomationLane
+              automationKey={key}
+              points={lanes[key] ?? []}
+              onChange={(points) => onChange(setAutomationLane(lanes, key, points))}
+              duration={duration}
+              currentTime={currentTime}
+              width={Math.max(0, width - 2)}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export { AutomationEditor }
@@ -0,0 +1,99 @@
+"use client"
+
+import { EffectSlider } from '@/components/effect-slider'
+import { type AudioEffects, DISTORTION_MODELS, DISTORTION_OVERSAMPLING, EFFECT_LIMITS } from '@/lib/effects'
+import { cn } from '@/lib/utils'
+
+interface DistortionControlsProps {
+  effects: AudioEffects
+  onChange: (changes: Partial<AudioEffects>) => void
+  className?: string
+}
+
+/**
+ * Distortion Controls
+ * Model, oversampling, tone, output level and the bitcrusher's sample rate.
+ * Drive stays with the other effects
+ */
+function DistortionControls({ effects, onChange, className }: DistortionControlsProps) {
+  const isCrusher = effects.distortionModel === 'bitcrusher'
+  const toggleClass = (isActive: boolean) => cn(
+    "px-2 py-0.5 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50",
+    isActive ? "bg-orange-500 text-white" : "bg-white text-gray-600 hover:text-gray-900"
+  )
+
+  return (
+    <div className={cn("flex flex-col items-center space-y-6", className)}>
+      <div className="flex flex-wrap justify-center items-center gap-3">
+        <h4 className="text-gray-900 font-medium text-sm">Distortion</h4>
+        <div className="flex rounded-md border border-gray-300 overflow-hidden text-xs" role="group" aria-label="Distortion model">
+          {DISTORTION_MODELS.map(({ model, label }) => (
+            <button
+              key={model}
+              type="button"
+              onClick={() => onChange({ distortionModel: model })}
+              className={toggleClass(effects.distortionModel === model)}
+              aria-pressed={effects.distortionModel === model}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1.5 text-xs text-gray-700">
+          <span>Oversampling</span>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden" role="group" aria-label="Distortion oversampling">
+            {DISTORTION_OVERSAMPLING.map(({ oversample, label }) => (
+              <button
+                key={oversample}
+                type="button"
+                onClick={() => onChange({ distortionOversample: oversample })}
+                className={toggleClass(effects.distortionOversample === oversample)}
+                aria-pressed={effects.distortionOversample === oversample}
+                disabled={isCrusher}
+                title={isCrusher ? 'The bitcrusher aliases on purpose' : undefined}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex space-x-8">
+        <EffectSlider
+          label="Tone"
+          value={effects.distortionTone}
+          min={EFFECT_LIMITS.distortionTone.min}
+          max={EFFECT_LIMITS.distortionTone.max}
+          step={100}
+          display={`${(effects.distortionTone / 1000).toFixed(1)}kHz`}
+          onChange={(distortionTone) => onChange({ distortionTone })}
+          ariaLabel="Distortion tone cutoff frequency"
+        />
+        <EffectSlider
+          label="Level"
+          value={effects.distortionLevel}
+          min={EFFECT_LIMITS.distortionLevel.min}
+          max={EFFECT_LIMITS.distortionLevel.max}
+          step={0.5}
+          display={`${effects.distortionLevel > 0 ? '+' : ''}${effects.distortionLevel}dB`}
+          onChange={(distortionLevel) => onChange({ distortionLevel })}
+          ariaLabel="Distortion output level in dB"
+        />
+        <EffectSlider
+          label="Rate"
+          value={effects.bitcrusherRate}
+          min={EFFECT_LIMITS.bitcrusherRate.min}
+          max={EFFECT_LIMITS.bitcrusherRate.max}
+          step={100}
+          display={`${(effects.bitcrusherRate / 1000).toFixed(1)}kHz`}
+          onChange={(bitcrusherRate) => onChange({ bitcrusherRate })}
+          disabled={!isCrusher}
+          ariaLabel="Bitcrusher sample rate"
+        />
+      </div>
+    </div>
+  )
+}
+
+export { DistortionControls }
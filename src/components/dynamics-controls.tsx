@@ -0,0 +1,172 @@
+"use client"
+
+import { EffectSlider } from '@/components/effect-slider'
+import { type AudioEffects, EFFECT_LIMITS } from '@/lib/effects'
+import { cn } from '@/lib/utils'
+
+interface DynamicsControlsProps {
+  effects: AudioEffects
+  onChange: (changes: Partial<AudioEffects>) => void
+  className?: string
+}
+
+/**
+ * Formats a time in ms, with a decimal below 10 ms
+ */
+function formatMs(ms: number): string {
+  return ms < 10 ? `${ms.toFixed(1)}ms` : `${Math.round(ms)}ms`
+}
+
+/**
+ * Dynamics Controls
+ * Noise gate, compressor and output limiter settings. The gate starts open and
+ * the compressor at 1:1, so only the limiter acts by default
+ */
+function DynamicsControls({ effects, onChange, className }: DynamicsControlsProps) {
+  const isGateOff = effects.gateThreshold <= EFFECT_LIMITS.gateThreshold.min
+
+  return (
+    <div className={cn("flex flex-wrap justify-center items-start gap-x-10 gap-y-8", className)}>
+
+      {/* Noise Gate Section */}
+      <div className="flex flex-col items-center space-y-6">
+        <h4 className="text-gray-900 font-medium text-sm h-6 flex items-center">Gate</h4>
+        <div className="flex space-x-8">
+          <EffectSlider
+            label="Threshold"
+            value={effects.gateThreshold}
+            min={EFFECT_LIMITS.gateThreshold.min}
+            max={EFFECT_LIMITS.gateThreshold.max}
+            step={1}
+            display={isGateOff ? 'Off' : `${effects.gateThreshold}dB`}
+            onChange={(gateThreshold) => onChange({ gateThreshold })}
+            ariaLabel="Noise gate threshold in dBFS"
+          />
+          <EffectSlider
+            label="Attack"
+            value={effects.gateAttack}
+            min={EFFECT_LIMITS.gateAttack.min}
+            max={EFFECT_LIMITS.gateAttack.max}
+            step={0.1}
+            display={formatMs(effects.gateAttack)}
+            onChange={(gateAttack) => onChange({ gateAttack })}
+            disabled={isGateOff}
+            ariaLabel="Noise gate attack in milliseconds"
+          />
+          <EffectSlider
+            label="Release"
+            value={effects.gateRelease}
+            min={EFFECT_LIMITS.gateRelease.min}
+            max={EFFECT_LIMITS.gateRelease.max}
+            step={10}
+            display={formatMs(effects.gateRelease)}
+            onChange={(gateRelease) => onChange({ gateRelease })}
+            disabled={isGateOff}
+            ariaLabel="Noise gate release in milliseconds"
+          />
+        </div>
+      </div>
+
+      {/* Compressor Section */}
+      <div className="flex flex-col items-center space-y-6">
+        <h4 className="text-gray-900 font-medium text-sm h-6 flex items-center">Compressor</h4>
+        <div className="flex space-x-8">
+          <EffectSlider
+            label="Threshold"
+            value={effects.compressorThreshold}
+            min={EFFECT_LIMITS.compressorThreshold.min}
+            max={EFFECT_LIMITS.compressorThreshold.max}
+            step={1}
+            display={`${effects.compressorThreshold}dB`}
+            onChange={(compressorThreshold) => onChange({ compressorThreshold })}
+            ariaLabel="Compressor threshold in dBFS"
+          />
+          <EffectSlider
+            label="Ratio"
+            value={effects.compressorRatio}
+            min={EFFECT_LIMITS.compressorRatio.min}
+            max={EFFECT_LIMITS.compressorRatio.max}
+            step={0.5}
+            display={`${effects.compressorRatio}:1`}
+            onChange={(compressorRatio) => onChange({ compressorRatio })}
+            ariaLabel="Compression ratio"
+          />
+          <EffectSlider
+            label="Knee"
+            value={effects.compressorKnee}
+            min={EFFECT_LIMITS.compressorKnee.min}
+            max={EFFECT_LIMITS.compressorKnee.max}
+            step={1}
+            display={`${effects.compressorKnee}dB`}
+            onChange={(compressorKnee) => onChange({ compressorKnee })}
+            ariaLabel="Compressor knee width in dB"
+          />
+          <EffectSlider
+            label="Attack"
+            value={effects.compressorAttack}
+            min={EFFECT_LIMITS.compressorAttack.min}
+            max={EFFECT_LIMITS.compressorAttack.max}
+            step={1}
+            display={formatMs(effects.compressorAttack)}
+            onChange={(compressorAttack) => onChange({ compressorAttack })}
+            ariaLabel="Compressor attack in milliseconds"
+          />
+          <EffectSlider
+            label="Release"
+            value={effects.compressorRelease}
+            min={EFFECT_LIMITS.compressorRelease.min}
+            max={EFFECT_LIMITS.compressorRelease.max}
+            step={10}
+            display={formatMs(effects.compressorRelease)}
+            onChange={(compressorRelease) => onChange({ compressorRelease })}
+            ariaLabel="Compressor release in milliseconds"
+          />
+          <EffectSlider
+            label="Makeup"
+            value={effects.compressorMakeup}
+            min={EFFECT_LIMITS.compressorMakeup.min}
+            max={EFFECT_LIMITS.compressorMakeup.max}
+            step={0.5}
+            display={`+${effects.compressorMakeup}dB`}
+            onChange={(compressorMakeup) => onChange({ compressorMakeup })}
+            ariaLabel="Compressor makeup gain in dB"
+          />
+        </div>
+      </div>
+
+      {/* Output Limiter Section */}
+      <div className="flex flex-col items-center space-y-6">
+        <div className="flex items-center space-x-3 h-6">
+          <h4 className="text-gray-900 font-medium text-sm">Limiter</h4>
+          <button
+            type="button"
+            onClick={() => onChange({ limiter: !effects.limiter })}
+            className={cn(
+              "rounded-md border px-2 py-0.5 text-xs cursor-pointer",
+              effects.limiter ? "border-orange-500 bg-orange-500 text-white" : "border-gray-300 bg-white text-gray-600 hover:text-gray-900"
+            )}
+            aria-pressed={effects.limiter}
+            title={effects.limiter ? 'Turn the output limiter off' : 'Turn the output limiter on'}
+          >
+            {effects.limiter ? 'On' : 'Off'}
+          </button>
+        </div>
+        <div className="flex space-x-8">
+          <EffectSlider
+            label="Ceiling"
+            value={effects.limiterCeiling}
+            min={EFFECT_LIMITS.limiterCeiling.min}
+            max={EFFECT_LIMITS.limiterCeiling.max}
+            step={0.1}
+            display={`${effects.limiterCeiling.toFixed(1)}dB`}
+            onChange={(limiterCeiling) => onChange({ limiterCeiling })}
+            disabled={!effects.limiter}
+            ariaLabel="Limiter ceiling in dBFS"
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export { DynamicsControls }
@@ -0,0 +1,186 @@
+"use client"
+
+import { useEffect, useRef } from 'react'
+import { type EffectsChainNodes, type GainReduction, getGainReduction } from '@/lib/audio/effects-chain'
+import { type LevelReading, readLevel } from '@/lib/audio/meter'
+import { cn } from '@/lib/utils'
+
+/**
+ * Meter Display Constants
+ */
+const METER_CONFIG = {
+  /** Bottom of the level scale in dBFS */
+  FLOOR_DB: -60,
+  /** Gain reduction shown by a full bar, in dB */
+  REDUCTION_RANGE_DB: 24,
+  /** Levels at or above this many dBFS light the clip colour */
+  CLIP_DB: -0.1,
+  /** How long a peak marker holds before it falls, in ms */
+  PEAK_HOLD_MS: 1000,
+  /** Peak marker fall rate in dB per second */
+  PEAK_FALL_DB_PER_SECOND: 20
+} as const
+
+type LevelMeterId = 'input' | 'output'
+
+const LEVEL_METERS: readonly { id: LevelMeterId; label: string }[] = [
+  { id: 'input', label: 'In' },
+  { id: 'output', label: 'Out' }
+]
+
+const REDUCTION_METERS: readonly { id: keyof GainReduction; label: string }[] = [
+  { id: 'gate', label: 'Gate' },
+  { id: 'compressor', label: 'Comp' },
+  { id: 'limiter', label: 'Limit' }
+]
+
+interface DynamicsMetersProps {
+  /** Chain to meter, null until the audio system is ready */
+  chain: EffectsChainNodes | null
+  className?: string
+}
+
+/**
+ * Position of a level on the meter scale (0-100%)
+ */
+function levelToPercent(db: number): number {
+  return Math.min(Math.max((db - METER_CONFIG.FLOOR_DB) / -METER_CONFIG.FLOOR_DB, 0), 1) * 100
+}
+
+/**
+ * Formats a meter readout
+ * @returns e.g. "-12.3", or "-∞" below the scale
+ */
+function formatDb(db: number): string {
+  return db <= METER_CONFIG.FLOOR_DB ? '-∞' : db.toFixed(1)
+}
+
+/**
+ * Dynamics Meters
+ * Input and output level (RMS bar, peak marker) and the gain reduction of the
+ * gate, compressor and limiter. Bars are updated directly every animation frame
+ * rather than through React state
+ */
+function DynamicsMeters({ chain, className }: DynamicsMetersProps) {
+  const levelRefs = useRef<Partial<Record<LevelMeterId, HTMLDivElement | null>>>({})
+  const peakRefs = useRef<Partial<Record<LevelMeterId, HTMLDivElement | null>>>({})
+  const reductionRefs = useRef<Partial<Record<keyof GainReduction, HTMLDivElement | null>>>({})
+  const readoutRefs = useRef<Partial<Record<LevelMeterId | keyof GainReduction, HTMLSpanElement | null>>>({})
+
+  /**
+   * Render loop - reads the meter taps every frame while mounted
+   */
+  useEffect(() => {
+    if (!chain) return
+
+    const samples = new Float32Array(chain.inputMeter.fftSize)
+    const heldPeaks: Record<LevelMeterId, { level: number; time: number }> = {
+      input: { level: METER_CONFIG.FLOOR_DB, time: 0 },
+      output: { level: METER_CONFIG.FLOOR_DB, time: 0 }
+    }
+    let frameId = 0
+    let lastFrameTime = performance.now()
+
+    const render = (time: number): void => {
+      const elapsed = (time - lastFrameTime) / 1000
+      lastFrameTime = time
+
+      const levels: Record<LevelMeterId, LevelReading> = {
+        input: readLevel(chain.inputMeter, samples),
+        output: readLevel(chain.outputMeter, samples)
+      }
+
+      LEVEL_METERS.forEach(({ id }) => {
+        const { peak, rms } = levels[id]
+        const held = heldPeaks[id]
+        if (peak >= held.level) {
+          held.level = peak
+          held.time = time
+        } else if (time - held.time > METER_CONFIG.PEAK_HOLD_MS) {
+          held.level = Math.max(peak, held.level - METER_CONFIG.PEAK_FALL_DB_PER_SECOND * elapsed)
+        }
+
+        const isClipping = held.level >= METER_CONFIG.CLIP_DB
+        const bar = levelRefs.current[id]
+        const marker = peakRefs.current[id]
+        const readout = readoutRefs.current[id]
+        if (bar) bar.style.height = `${levelToPercent(rms)}%`
+        if (marker) {
+          marker.style.bottom = `${levelToPercent(held.level)}%`
+          marker.classList.toggle('bg-red-500', isClipping)
+          marker.classList.toggle('bg-gray-700', !isClipping)
+        }
+        if (readout) readout.textContent = formatDb(held.level)
+      })
+
+      const reduction = getGainReduction(chain)
+      REDUCTION_METERS.forEach(({ id }) => {
+        const amount = Math.min(-reduction[id], METER_CONFIG.REDUCTION_RANGE_DB)
+        const bar = reductionRefs.current[id]
+        const readout = readoutRefs.current[id]
+        if (bar) bar.style.height = `${Math.max(amount, 0) / METER_CONFIG.REDUCTION_RANGE_DB * 100}%`
+        if (readout) readout.textContent = amount >= 0.05 ? `-${amount.toFixed(1)}` : '0.0'
+      })
+
+      frameId = requestAnimationFrame(render)
+    }
+    frameId = requestAnimationFrame(render)
+
+    return () => {
+      cancelAnimationFrame(frameId)
+    }
+  }, [chain])
+
+  return (
+    <div className={cn("flex items-start space-x-4", className)} role="group" aria-label="Level and gain reduction meters">
+      {LEVEL_METERS.map(({ id, label }) => (
+        <div key={id} className="flex flex-col items-center w-10">
+          <span className="text-xs text-gray-700 mb-3">{label}</span>
+          <div className="h-32 w-3 relative rounded-sm bg-gray-100 overflow-hidden" aria-hidden="true">
+            <div
+              ref={element => { levelRefs.current[id] = element }}
+              className="absolute bottom-0 inset-x-0 bg-gradient-to-t from-green-500 via-yellow-400 to-red-500 bg-[length:100%_8rem] bg-bottom"
+              style={{ height: '0%' }}
+            />
+            <div
+              ref={element => { peakRefs.current[id] = element }}
+              className="absolute inset-x-0 h-0.5 bg-gray-700"
+              style={{ bottom: '0%' }}
+            />
+          </div>
+          <span
+            ref={element => { readoutRefs.current[id] = element }}
+            className="text-xs text-gray-600 mt-2 tabular-nums"
+            aria-label={`${label} peak level in dBFS`}
+          >
+            -∞
+          </span>
+        </div>
+      ))}
+
+      <div className="w-px h-40 bg-gray-200" aria-hidden="true"></div>
+
+      {REDUCTION_METERS.map(({ id, label }) => (
+        <div key={id} className="flex flex-col items-center w-10">
+          <span className="text-xs text-gray-700 mb-3">{label}</span>
+          <div className="h-32 w-3 relative rounded-sm bg-gray-100 overflow-hidden" aria-hidden="true">
+            <div
+              ref={element => { reductionRefs.current[id] = element }}
+              className="absolute top-0 inset-x-0 bg-orange-500"
+              style={{ height: '0%' }}
+            />
+          </div>
+          <span
+            ref={element => { readoutRefs.current[id] = element }}
+            className="text-xs text-gray-600 mt-2 tabular-nums"
+            aria-label={`${label} gain reduction in dB`}
+          >
+            0.0
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export { DynamicsMeters }
@@ -0,0 +1,127 @@
+"use client"
+
+import { useState } from 'react'
+import { ArrowRight, GripVertical, Power } from 'lucide-react'
+import { Slider } from '@/components/ui/slider'
+import { type EffectStage, EFFECT_MODULES, moveEffectStage, updateEffectStage } from '@/lib/effects'
+import { cn } from '@/lib/utils'
+
+interface EffectChainEditorProps {
+  chain: EffectStage[]
+  onChange: (chain: EffectStage[]) => void
+  className?: string
+}
+
+/**
+ * Effect Chain Editor
+ * Shows the signal path as a row of modules; drag to reorder, toggle bypass,
+ * and set the wet/dry mix of modules that have one. Alt + arrow keys move the
+ * focused module
+ */
+function EffectChainEditor({ chain, onChange, className }: EffectChainEditorProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const finishDrag = (): void => {
+    setDragIndex(null)
+    setDropIndex(null)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLLIElement>, index: number): void => {
+    if (!event.altKey || (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight')) return
+    event.preventDefault()
+    const target = index + (event.key === 'ArrowLeft' ? -1 : 1)
+    if (target < 0 || target >= chain.length) return
+
+    onChange(moveEffectStage(chain, index, target))
+    // Keep focus on the module that moved once React has re-rendered the list
+    const list = event.currentTarget.parentElement
+    requestAnimationFrame(() => (list?.children[target] as HTMLElement | undefined)?.focus())
+  }
+
+  return (
+    <div className={cn("flex flex-wrap items-center justify-center gap-1.5 text-xs", className)}>
+      <span className="text-gray-500">In</span>
+      <ArrowRight className="w-3 h-3 text-gray-400" aria-hidden="true" />
+
+      <ol className="flex flex-wrap items-center gap-1.5" aria-label="Effect chain - drag or press Alt and an arrow key to reorder">
+        {chain.map((stage, index) => {
+          const moduleInfo = EFFECT_MODULES[stage.module]
+
+          return (
+            <li
+              key={stage.module}
+              tabIndex={0}
+              draggable
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = 'move'
+                setDragIndex(index)
+              }}
+              onDragOver={(event) => {
+                if (dragIndex === null) return
+                event.preventDefault()
+                setDropIndex(index)
+              }}
+              onDrop={(event) => {
+                event.preventDefault()
+                // Stop the page-level file drop handler from seeing this
+                event.stopPropagation()
+                if (dragIndex !== null) onChange(moveEffectStage(chain, dragIndex, index))
+                finishDrag()
+              }}
+              onDragEnd={finishDrag}
+              onKeyDown={(event) => handleKeyDown(event, index)}
+              className={cn(
+                "flex items-center gap-1.5 rounded-md border px-2 h-8 bg-white outline-none focus-visible:ring-2 focus-visible:ring-orange-300",
+                stage.bypassed ? "border-gray-200 text-gray-400" : "border-orange-300 text-gray-900",
+                dropIndex === index && dragIndex !== index && "border-l-4 border-l-orange-500",
+                dragIndex === index && "opacity-50"
+              )}
+              aria-label={`${moduleInfo.label}${stage.bypassed ? ', bypassed' : ''}, position ${index + 1} of ${chain.length}`}
+            >
+              <GripVertical className="w-3.5 h-3.5 text-gray-400 cursor-grab" aria-hidden="true" />
+              <span className={cn("font-medium", stage.bypassed && "line-through")}>{moduleInfo.label}</span>
+
+              {moduleInfo.hasMix && (
+                <div className="flex items-center gap-1" title="Wet/dry mix">
+                  <Slider
+                    value={[stage.mix]}
+                    min={0}
+                    max={100}
+                    step={1}
+                    onValueChange={(value) => onChange(updateEffectStage(chain, stage.module, { mix: value[0] }))}
+                    disabled={stage.bypassed}
+                    className="w-14"
+                    aria-label={`${moduleInfo.label} wet/dry mix`}
+                  />
+                  <span className="w-7 text-right text-gray-600 tabular-nums">{stage.mix}%</span>
+                </div>
+              )}
+
+              <button
+                type="button"
+                onClick={() => onChange(updateEffectStage(chain, stage.module, { bypassed: !stage.bypassed }))}
+                className={cn(
+                  "rounded p-0.5 cursor-pointer",
+                  stage.bypassed ? "text-gray-400 hover:text-gray-600" : "text-orange-500 hover:text-orange-600"
+                )}
+                aria-label={`${stage.bypassed ? 'Enable' : 'Bypass'} ${moduleInfo.label}`}
+                aria-pressed={!stage.bypassed}
+                title={stage.bypassed ? 'Enable' : 'Bypass'}
+              >
+                <Power className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          )
+        })}
+      </ol>
+
+      <ArrowRight className="w-3 h-3 text-gray-400" aria-hidden="true" />
+      <span className="text-gray-500">Gain</span>
+      <ArrowRight className="w-3 h-3 text-gray-400" aria-hidden="true" />
+      <span className="text-gray-500">Out</span>
+    </div>
+  )
+}
+
+export { EffectChainEditor }
@@ -0,0 +1,45 @@
+"use client"
+
+import { Slider } from '@/components/ui/slider'
+
+interface EffectSliderProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  /** Value as shown under the slider, with its unit */
+  display: string
+  onChange: (value: number) => void
+  disabled?: boolean
+  ariaLabel: string
+}
+
+/**
+ * Vertical effect slider with its label above and value below
+ */
+function EffectSlider({ label, value, min, max, step, display, onChange, disabled, ariaLabel }: EffectSliderProps) {
+  return (
+    <div className="flex flex-col items-center w-20">
+      <span className="text-xs text-gray-700 text-center mb-3">{label}</span>
+      <div className="h-32 w-8 relative">
+        <Slider
+          value={[value]}
+          min={min}
+          max={max}
+          step={step}
+          orientation="vertical"
+          onValueChange={(values) => onChange(values[0])}
+          disabled={disabled}
+          className="h-full"
+          aria-label={ariaLabel}
+        />
+      </div>
+      <span className="text-xs text-gray-600 w-full text-center mt-14" aria-live="polite">
+        {display}
+      </span>
+    </div>
+  )
+}
+
+export { EffectSlider }
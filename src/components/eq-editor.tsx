@@ -0,0 +1,420 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  type EqBand,
+  type EqBandType,
+  EQ_BAND_LIMITS,
+  EQ_BAND_TYPES,
+  MAX_EQ_BANDS,
+  bandUsesGain,
+  bandUsesQ,
+  updateEqBand
+} from '@/lib/effects'
+import {
+  GRAPH_FREQUENCY_TICKS,
+  combinedResponseDb,
+  formatFrequency,
+  frequencyToPosition,
+  logFrequencies,
+  positionToFrequency
+} from '@/lib/audio/frequency-response'
+import { cn } from '@/lib/utils'
+
+/**
+ * Curve Editor Constants
+ */
+const EDITOR_CONFIG = {
+  /** Graph height in pixels */
+  HEIGHT: 220,
+  /** Vertical scale, ± dB around the centre line */
+  RANGE_DB: 24,
+  /** dB gridline spacing */
+  DB_STEP: 6,
+  /** Points on each response curve */
+  CURVE_POINTS: 240,
+  /** Handle radius in pixels */
+  HANDLE_RADIUS: 8,
+  /** Q multiplier per wheel notch or bracket key */
+  Q_STEP: 1.15,
+  /** Arrow-key frequency step as a fraction of the log axis (≈1/6 octave) */
+  FREQUENCY_KEY_STEP: 1 / 60,
+  /** Arrow-key gain step in dB */
+  GAIN_KEY_STEP: 0.5
+} as const
+
+/** Settings for a band added by double-clicking or the Add button */
+const NEW_BAND: Omit<EqBand, 'frequency' | 'gain'> = { type: 'peaking', q: 1 }
+
+const clamp = (value: number, { min, max }: { min: number; max: number }): number => Math.min(max, Math.max(min, value))
+
+interface EqEditorProps {
+  bands: EqBand[]
+  onChange: (bands: EqBand[]) => void
+  className?: string
+}
+
+/**
+ * Parametric EQ Editor
+ * Log-frequency response graph with draggable band handles and per-band controls
+ */
+function EqEditor({ bands, onChange, className }: EqEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [width, setWidth] = useState<number>(0)
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(bands.length > 0 ? 0 : null)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const responseContextRef = useRef<OfflineAudioContext | null>(null)
+
+  // Latest bands for listeners registered once
+  const bandsRef = useRef<EqBand[]>(bands)
+  useEffect(() => {
+    bandsRef.current = bands
+  }, [bands])
+
+  // Keep the selection valid when bands are removed elsewhere (presets, reset)
+  useEffect(() => {
+    setSelectedIndex(index => (index === null || index < bands.length ? index : bands.length > 0 ? bands.length - 1 : null))
+  }, [bands.length])
+
+  // Track the rendered width so handles stay round
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const resizeObserver = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    resizeObserver.observe(container)
+    return () => resizeObserver.disconnect()
+  }, [])
+
+  const height = EDITOR_CONFIG.HEIGHT
+  const dbToY = useCallback((db: number): number => {
+    const clamped = Math.max(-EDITOR_CONFIG.RANGE_DB, Math.min(EDITOR_CONFIG.RANGE_DB, db))
+    return height / 2 - (clamped / EDITOR_CONFIG.RANGE_DB) * (height / 2)
+  }, [height])
+  const yToDb = useCallback((y: number): number => {
+    return ((height / 2 - y) / (height / 2)) * EDITOR_CONFIG.RANGE_DB
+  }, [height])
+
+  /**
+   * Response curves from throwaway filters on a silent offline context
+   * Independent of the live graph, so the editor also works before playback starts
+   */
+  const curves = useMemo(() => {
+    if (typeof OfflineAudioContext === 'undefined' || width === 0) return null
+
+    const frequencies = logFrequencies(EDITOR_CONFIG.CURVE_POINTS)
+    responseContextRef.current ??= new OfflineAudioContext(1, 1, 44100)
+    const context = responseContextRef.current
+    const filters = bands.map(band => {
+      const filter = context.createBiquadFilter()
+      filter.type = band.type
+      filter.frequency.value = band.frequency
+      filter.gain.value = band.gain
+      filter.Q.value = band.q
+      return filter
+    })
+
+    const toPath = (response: Float32Array): string => Array.from(response, (db, index) => {
+      const x = (index / (response.length - 1)) * width
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${dbToY(db).toFixed(1)}`
+    }).join('')
+
+    return {
+      total: toPath(combinedResponseDb(filters, frequencies)),
+      selected: selectedIndex !== null && filters[selectedIndex]
+        ? toPath(combinedResponseDb([filters[selectedIndex]], frequencies))
+        : null
+    }
+  }, [bands, width, selectedIndex, dbToY])
+
+  /**
+   * Converts a pointer position to frequency and gain
+   */
+  const pointerToBand = useCallback((clientX: number, clientY: number): { frequency: number; gain: number } => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return { frequency: 1000, gain: 0 }
+    const position = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width))
+    return {
+      frequency: clamp(Math.round(positionToFrequency(position)), EQ_BAND_LIMITS.frequency),
+      gain: clamp(Math.round(yToDb(clientY - rect.top) * 10) / 10, EQ_BAND_LIMITS.gain)
+    }
+  }, [yToDb])
+
+  const changeBand = useCallback((index: number, changes: Partial<EqBand>): void => {
+    onChange(updateEqBand(bandsRef.current, index, changes))
+  }, [onChange])
+
+  const addBand = useCallback((frequency: number, gain: number): void => {
+    if (bandsRef.current.length >= MAX_EQ_BANDS) return
+    onChange([...bandsRef.current, { ...NEW_BAND, frequency, gain }])
+    setSelectedIndex(bandsRef.current.length)
+  }, [onChange])
+
+  const removeBand = useCallback((index: number): void => {
+    onChange(bandsRef.current.filter((_, bandIndex) => bandIndex !== index))
+    setSelectedIndex(null)
+  }, [onChange])
+
+  // ============================================================================
+  // HANDLE INTERACTION
+  // ============================================================================
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<SVGCircleElement>, index: number): void => {
+    event.preventDefault()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setSelectedIndex(index)
+    setDragIndex(index)
+  }, [])
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<SVGCircleElement>, index: number): void => {
+    if (dragIndex !== index) return
+    const { frequency, gain } = pointerToBand(event.clientX, event.clientY)
+    const band = bandsRef.current[index]
+    changeBand(index, bandUsesGain(band.type) ? { frequency, gain } : { frequency })
+  }, [dragIndex, pointerToBand, changeBand])
+
+  const handlePointerUp = useCallback((event: React.PointerEvent<SVGCircleElement>): void => {
+    event.currentTarget.releasePointerCapture(event.pointerId)
+    setDragIndex(null)
+  }, [])
+
+  /**
+   * Arrow keys move the focused handle, [ and ] change Q, Delete removes it
+   */
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<SVGCircleElement>, index: number): void => {
+    const band = bandsRef.current[index]
+    const position = frequencyToPosition(band.frequency)
+    const step = event.shiftKey ? 4 : 1
+
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const direction = event.key === 'ArrowRight' ? 1 : -1
+        const frequency = positionToFrequency(position + direction * step * EDITOR_CONFIG.FREQUENCY_KEY_STEP)
+        changeBand(index, { frequency: clamp(Math.round(frequency), EQ_BAND_LIMITS.frequency) })
+        break
+      }
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        if (!bandUsesGain(band.type)) return
+        const direction = event.key === 'ArrowUp' ? 1 : -1
+        changeBand(index, { gain: clamp(band.gain + direction * step * EDITOR_CONFIG.GAIN_KEY_STEP, EQ_BAND_LIMITS.gain) })
+        break
+      }
+      case '[':
+      case ']': {
+        const factor = event.key === ']' ? EDITOR_CONFIG.Q_STEP : 1 / EDITOR_CONFIG.Q_STEP
+        changeBand(index, { q: clamp(Math.round(band.q * factor * 100) / 100, EQ_BAND_LIMITS.q) })
+        break
+      }
+      case 'Delete':
+      case 'Backspace':
+        removeBand(index)
+        break
+      default:
+        return
+    }
+    event.preventDefault()
+  }, [changeBand, removeBand])
+
+  /**
+   * Wheel over a handle adjusts its Q
+   * Registered natively because React's wheel listener is passive and cannot prevent scrolling
+   */
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+
+    const handleWheel = (event: WheelEvent): void => {
+      const target = event.target as Element
+      if (!target.hasAttribute('data-band-index')) return
+      const index = Number(target.getAttribute('data-band-index'))
+      const band = bandsRef.current[index]
+      if (!band) return
+      event.preventDefault()
+      const factor = event.deltaY < 0 ? EDITOR_CONFIG.Q_STEP : 1 / EDITOR_CONFIG.Q_STEP
+      onChange(updateEqBand(bandsRef.current, index, { q: clamp(Math.round(band.q * factor * 100) / 100, EQ_BAND_LIMITS.q) }))
+      setSelectedIndex(index)
+    }
+
+    svg.addEventListener('wheel', handleWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', handleWheel)
+  }, [onChange])
+
+  const selectedBand = selectedIndex !== null ? bands[selectedIndex] : undefined
+  const inputClass = "h-7 w-20 rounded-md border border-gray-300 bg-white px-2 text-xs text-gray-900 outline-none focus:border-orange-400 disabled:opacity-50"
+
+  return (
+    <div className={cn("flex flex-col gap-3", className)}>
+      <div ref={containerRef} className="relative w-full rounded-lg border border-gray-200 bg-white" style={{ height }}>
+        <svg
+          ref={svgRef}
+          width={width}
+          height={height}
+          className="block touch-none select-none"
+          onDoubleClick={(event) => {
+            if ((event.target as Element).hasAttribute('data-band-index')) return
+            const { frequency, gain } = pointerToBand(event.clientX, event.clientY)
+            addBand(frequency, gain)
+          }}
+          role="group"
+          aria-label="EQ curve editor - double-click to add a band"
+        >
+          {/* Grid */}
+          {GRAPH_FREQUENCY_TICKS.map(frequency => {
+            const x = frequencyToPosition(frequency) * width
+            return (
+              <g key={frequency}>
+                <line x1={x} x2={x} y1={0} y2={height} className="stroke-gray-200" />
+                <text x={x} y={height - 4} textAnchor="middle" className="fill-gray-400 text-[10px]">
+                  {formatFrequency(frequency)}
+                </text>
+              </g>
+            )
+          })}
+          {Array.from({ length: (EDITOR_CONFIG.RANGE_DB / EDITOR_CONFIG.DB_STEP) * 2 - 1 }, (_, index) => {
+            const db = EDITOR_CONFIG.RANGE_DB - (index + 1) * EDITOR_CONFIG.DB_STEP
+            return (
+              <g key={db}>
+                <line x1={0} x2={width} y1={dbToY(db)} y2={dbToY(db)} className={db === 0 ? "stroke-gray-300" : "stroke-gray-100"} />
+                <text x={4} y={dbToY(db) - 2} className="fill-gray-400 text-[10px]">
+                  {db > 0 ? '+' : ''}{db}
+                </text>
+              </g>
+            )
+          })}
+
+          {/* Response curves */}
+          {curves?.selected && (
+            <path d={curves.selected} fill="none" className="stroke-orange-300" strokeWidth={1.5} strokeDasharray="4 3" />
+          )}
+          {curves && <path d={curves.total} fill="none" className="stroke-blue-600" strokeWidth={2} />}
+
+          {/* Band handles */}
+          {bands.map((band, index) => {
+            const isSelected = index === selectedIndex
+            return (
+              <g key={index}>
+                <circle
+                  data-band-index={index}
+                  cx={frequencyToPosition(band.frequency) * width}
+                  cy={dbToY(bandUsesGain(band.type) ? band.gain : 0)}
+                  r={EDITOR_CONFIG.HANDLE_RADIUS}
+                  tabIndex={0}
+                  onPointerDown={(event) => handlePointerDown(event, index)}
+                  onPointerMove={(event) => handlePointerMove(event, index)}
+                  onPointerUp={handlePointerUp}
+                  onFocus={() => setSelectedIndex(index)}
+                  onKeyDown={(event) => handleKeyDown(event, index)}
+                  className={cn(
+                    "cursor-grab outline-none stroke-2",
+                    isSelected ? "fill-orange-500 stroke-orange-700" : "fill-white stroke-orange-500",
+                    dragIndex === index && "cursor-grabbing"
+                  )}
+                  role="slider"
+                  aria-label={`EQ band ${index + 1}, ${formatFrequency(band.frequency)} Hz`}
+                  aria-valuemin={EQ_BAND_LIMITS.gain.min}
+                  aria-valuemax={EQ_BAND_LIMITS.gain.max}
+                  aria-valuenow={band.gain}
+                />
+                <text
+                  x={frequencyToPosition(band.frequency) * width}
+                  y={dbToY(bandUsesGain(band.type) ? band.gain : 0) + 3.5}
+                  textAnchor="middle"
+                  className={cn("pointer-events-none text-[10px] font-semibold", isSelected ? "fill-white" : "fill-orange-600")}
+                >
+                  {index + 1}
+                </text>
+              </g>
+            )
+          })}
+        </svg>
+      </div>
+
+      {/* Selected band controls */}
+      <div className="flex flex-wrap items-end gap-3 text-xs text-gray-700">
+        {selectedBand && selectedIndex !== null ? (
+          <>
+            <span className="h-7 leading-7 font-medium text-gray-900">Band {selectedIndex + 1}</span>
+            <label className="flex flex-col gap-1">
+              Type
+              <select
+                value={selectedBand.type}
+                onChange={(event) => changeBand(selectedIndex, { type: event.target.value as EqBandType })}
+                className="h-7 rounded-md border border-gray-300 bg-white px-2 text-xs text-gray-900 cursor-pointer outline-none focus:border-orange-400"
+              >
+                {EQ_BAND_TYPES.map(({ type, label }) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              Freq (Hz)
+              <input
+                type="number"
+                min={EQ_BAND_LIMITS.frequency.min}
+                max={EQ_BAND_LIMITS.frequency.max}
+                step={1}
+                value={selectedBand.frequency}
+                onChange={(event) => changeBand(selectedIndex, { frequency: clamp(Number(event.target.value), EQ_BAND_LIMITS.frequency) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Gain (dB)
+              <input
+                type="number"
+                min={EQ_BAND_LIMITS.gain.min}
+                max={EQ_BAND_LIMITS.gain.max}
+                step={0.5}
+                value={selectedBand.gain}
+                disabled={!bandUsesGain(selectedBand.type)}
+                onChange={(event) => changeBand(selectedIndex, { gain: clamp(Number(event.target.value), EQ_BAND_LIMITS.gain) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Q
+              <input
+                type="number"
+                min={EQ_BAND_LIMITS.q.min}
+                max={EQ_BAND_LIMITS.q.max}
+                step={0.1}
+                value={selectedBand.q}
+                disabled={!bandUsesQ(selectedBand.type)}
+                onChange={(event) => changeBand(selectedIndex, { q: clamp(Number(event.target.value), EQ_BAND_LIMITS.q) })}
+                className={inputClass}
+              />
+            </label>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => removeBand(selectedIndex)}
+              className="size-7 text-gray-600 hover:text-gray-900 border-gray-300"
+              aria-label={`Remove band ${selectedIndex + 1}`}
+              title="Remove band"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          </>
+        ) : (
+          <span className="h-7 leading-7 text-gray-500">Select a band, or double-click the graph to add one</span>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => addBand(1000, 0)}
+          disabled={bands.length >= MAX_EQ_BANDS}
+          className="ml-auto h-7 text-xs text-gray-600 hover:text-gray-900 border-gray-300"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add band
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export { EqEditor }
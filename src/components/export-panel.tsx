@@ -0,0 +1,213 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Download, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { type AudioEffects } from '@/lib/effects'
+import { type AutomationLanes } from '@/lib/automation'
+import { type Track, formatDuration } from '@/lib/track'
+import { decodeAudioSource } from '@/lib/audio/decode'
+import { renderOffline } from '@/lib/audio/offline-render'
+import { type WavFormat, WAV_FORMATS, encodeWav } from '@/lib/audio/wav'
+import { downloadBlob, toFileNameStem } from '@/lib/download'
+import { cn } from '@/lib/utils'
+
+/** Sample rate exported files are written at */
+const EXPORT_SAMPLE_RATE = 44100
+
+type ExportStage = 'idle' | 'decoding' | 'rendering' | 'encoding'
+
+const STAGE_LABELS: Record<ExportStage, string> = {
+  idle: '',
+  decoding: 'Decoding…',
+  rendering: 'Rendering…',
+  encoding: 'Writing WAV…'
+}
+
+interface ExportPanelProps {
+  track: Track | null
+  effects: AudioEffects
+  /** The track's automation, followed in the render */
+  automation: AutomationLanes
+  /** Duration of the loaded track in seconds, used as the default range end */
+  duration: number
+  onClose: () => void
+  className?: string
+}
+
+/**
+ * Export Panel
+ * Renders the current track through the effects chain and downloads it as WAV
+ */
+function ExportPanel({ track, effects, automation, duration, onClose, className }: ExportPanelProps) {
+  const [format, setFormat] = useState<WavFormat>('pcm24')
+  const [isRangeEnabled, setIsRangeEnabled] = useState<boolean>(false)
+  const [rangeStart, setRangeStart] = useState<number>(0)
+  const [rangeEnd, setRangeEnd] = useState<number>(0)
+  const [stage, setStage] = useState<ExportStage>('idle')
+  const [progress, setProgress] = useState<number>(0)
+  const [error, setError] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // A new track resets the range to cover all of it
+  useEffect(() => {
+    setRangeStart(0)
+    setRangeEnd(Number.isFinite(duration) ? duration : 0)
+  }, [track?.id, duration])
+
+  // Cancel an export that is still running when the panel closes
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
+  const isExporting = stage !== 'idle'
+  const isRangeValid = !isRangeEnabled || (rangeStart >= 0 && rangeEnd > rangeStart && rangeStart < duration)
+
+  /**
+   * Decodes, renders, encodes and downloads the track
+   */
+  const startExport = useCallback(async (): Promise<void> => {
+    if (!track) return
+
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    setError(null)
+    setProgress(0)
+
+    try {
+      setStage('decoding')
+      const decoded = await decodeAudioSource(track.src, EXPORT_SAMPLE_RATE)
+      if (controller.signal.aborted) return
+
+      setStage('rendering')
+      const rendered = await renderOffline(decoded, {
+        effects,
+        automation,
+        start: isRangeEnabled ? rangeStart : undefined,
+        end: isRangeEnabled ? rangeEnd : undefined,
+        onProgress: setProgress,
+        signal: controller.signal
+      })
+
+      setStage('encoding')
+      const blob = encodeWav(rendered, format)
+      const suffix = isRangeEnabled ? `-${Math.floor(rangeStart)}s-${Math.floor(rangeEnd)}s` : ''
+      downloadBlob(blob, `${toFileNameStem(track.info.title, 'export')}-processed${suffix}.wav`)
+      console.log('Export finished:', blob.size, 'bytes')
+    } catch (exportError) {
+      if (exportError instanceof DOMException && exportError.name === 'AbortError') return
+      console.error('Export failed:', exportError)
+      setError(exportError instanceof Error ? exportError.message : 'Export failed')
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
+      setStage('idle')
+    }
+  }, [track, effects, automation, isRangeEnabled, rangeStart, rangeEnd, format])
+
+  const cancelExport = useCallback((): void => {
+    abortControllerRef.current?.abort()
+  }, [])
+
+  const inputClass = "h-8 w-20 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-900 outline-none focus:border-orange-400 disabled:opacity-50"
+
+  return (
+    <div className={cn("rounded-lg border border-gray-200 bg-white/80 p-4", className)}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900">Export processed audio</h3>
+        <Button variant="ghost" size="icon" onClick={onClose} className="size-7 text-gray-500 hover:text-gray-900" aria-label="Close export panel">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-1 text-xs text-gray-700">
+          Format
+          <select
+            value={format}
+            onChange={(event) => setFormat(event.target.value as WavFormat)}
+            disabled={isExporting}
+            className="h-8 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-900 cursor-pointer outline-none focus:border-orange-400"
+          >
+            {(Object.keys(WAV_FORMATS) as WavFormat[]).map(key => (
+              <option key={key} value={key}>WAV {WAV_FORMATS[key].label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 h-8 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isRangeEnabled}
+            onChange={(event) => setIsRangeEnabled(event.target.checked)}
+            disabled={isExporting}
+            className="accent-orange-500"
+          />
+          Range only
+        </label>
+
+        <label className="flex flex-col gap-1 text-xs text-gray-700">
+          From (s)
+          <input
+            type="number"
+            min={0}
+            max={duration}
+            step={0.1}
+            value={rangeStart}
+            onChange={(event) => setRangeStart(Number(event.target.value))}
+            disabled={!isRangeEnabled || isExporting}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-700">
+          To (s)
+          <input
+            type="number"
+            min={0}
+            max={duration}
+            step={0.1}
+            value={rangeEnd}
+            onChange={(event) => setRangeEnd(Number(event.target.value))}
+            disabled={!isRangeEnabled || isExporting}
+            className={inputClass}
+          />
+        </label>
+        <span className="h-8 leading-8 text-xs text-gray-500">
+          {formatDuration(isRangeEnabled ? Math.max(0, rangeEnd - rangeStart) : duration)} at {EXPORT_SAMPLE_RATE / 1000} kHz
+        </span>
+
+        <div className="ml-auto flex items-center gap-2">
+          {isExporting ? (
+            <Button variant="outline" size="sm" onClick={cancelExport}>
+              Cancel
+            </Button>
+          ) : (
+            <Button size="sm" onClick={startExport} disabled={!track || !isRangeValid} className="text-white">
+              <Download className="w-4 h-4" />
+              Export WAV
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isExporting && (
+        <div className="mt-3 flex items-center gap-3" role="status" aria-live="polite">
+          <div className="h-1.5 flex-1 rounded-full bg-gray-200 overflow-hidden">
+            <div
+              className="h-full bg-orange-500 transition-[width] duration-150"
+              style={{ width: `${Math.round((stage === 'rendering' ? progress : stage === 'encoding' ? 1 : 0) * 100)}%` }}
+            />
+          </div>
+          <span className="w-28 text-xs text-gray-600">
+            {STAGE_LABELS[stage]}{stage === 'rendering' && ` ${Math.round(progress * 100)}%`}
+          </span>
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-xs text-red-600" role="alert">{error}</p>}
+    </div>
+  )
+}
+
+export { ExportPanel }
@@ -0,0 +1,107 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { History, Redo2, Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { type EffectsHistoryEntry } from '@/lib/effects-history'
+import { cn } from '@/lib/utils'
+
+interface HistoryControlsProps {
+  entries: readonly EffectsHistoryEntry[]
+  /** Index of the step in effect */
+  index: number
+  onUndo: () => void
+  onRedo: () => void
+  onJump: (index: number) => void
+  className?: string
+}
+
+/**
+ * History Controls
+ * Undo and redo buttons, and a list of recent effect changes that can be
+ * jumped back or forward to
+ */
+function HistoryControls({ entries, index, onUndo, onRedo, onJump, className }: HistoryControlsProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canUndo = index > 0
+  const canRedo = index < entries.length - 1
+
+  // Close the list on a click elsewhere
+  useEffect(() => {
+    if (!isOpen) return
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [isOpen])
+
+  const iconButtonClass = "text-gray-600 hover:text-gray-900 border-gray-300 hover:border-gray-400"
+
+  return (
+    <div ref={containerRef} className={cn("relative flex items-center gap-1", className)}>
+      <Button
+        onClick={onUndo}
+        variant="outline"
+        size="icon"
+        className={iconButtonClass}
+        disabled={!canUndo}
+        aria-label={canUndo ? `Undo ${entries[index].label}` : 'Undo'}
+        title={canUndo ? `Undo ${entries[index].label} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <Undo2 className="w-4 h-4" />
+      </Button>
+      <Button
+        onClick={onRedo}
+        variant="outline"
+        size="icon"
+        className={iconButtonClass}
+        disabled={!canRedo}
+        aria-label={canRedo ? `Redo ${entries[index + 1].label}` : 'Redo'}
+        title={canRedo ? `Redo ${entries[index + 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 className="w-4 h-4" />
+      </Button>
+      <Button
+        onClick={() => setIsOpen(open => !open)}
+        variant="outline"
+        size="icon"
+        className={cn(iconButtonClass, isOpen && "border-orange-400 text-orange-600")}
+        disabled={entries.length <= 1}
+        aria-expanded={isOpen}
+        aria-label="Effect history"
+        title="Effect history"
+      >
+        <History className="w-4 h-4" />
+      </Button>
+
+      {isOpen && (
+        <ol
+          className="absolute top-full right-0 z-20 mt-2 w-72 max-h-64 overflow-y-auto rounded-lg border border-gray-200 bg-white py-1 shadow-lg text-xs"
+          aria-label="Effect history, newest first"
+        >
+          {entries.map((entry, entryIndex) => ({ entry, entryIndex })).reverse().map(({ entry, entryIndex }) => (
+            <li key={entryIndex}>
+              <button
+                type="button"
+                onClick={() => onJump(entryIndex)}
+                className={cn(
+                  "w-full px-3 py-1.5 text-left truncate cursor-pointer hover:bg-gray-100",
+                  entryIndex === index && "bg-orange-50 text-orange-700 font-medium",
+                  entryIndex > index && "text-gray-400 italic"
+                )}
+                aria-current={entryIndex === index ? 'step' : undefined}
+                title={entry.label}
+              >
+                {entry.label}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export { HistoryControls }
@@ -0,0 +1,126 @@
+"use client"
+
+import { Headphones, Mic } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { type InputSource, type LiveInputState } from '@/hooks/use-live-input'
+import { type InputLatencyHint, INPUT_LATENCY_HINTS, LIVE_INPUT_CONFIG } from '@/lib/audio/live-input'
+import { cn } from '@/lib/utils'
+
+interface InputSourceControlsProps {
+  input: LiveInputState
+  className?: string
+}
+
+/**
+ * Encodes a source as a select option value
+ */
+function toOptionValue(source: InputSource): string {
+  return source.type === 'device' ? `device:${source.deviceId}` : source.type
+}
+
+/**
+ * Reads a source back from a select option value
+ */
+function fromOptionValue(value: string): InputSource {
+  if (value.startsWith('device:')) return { type: 'device', deviceId: value.slice('device:'.length) }
+  return value === 'test-tone' ? { type: 'test-tone' } : { type: 'playback' }
+}
+
+/**
+ * Input Source Controls
+ * Picks what feeds the effect chain - the track, a microphone or line-in, or a
+ * test tone - with input gain, monitoring and a latency hint for live inputs
+ */
+function InputSourceControls({ input, className }: InputSourceControlsProps) {
+  const isLive = input.source.type !== 'playback'
+  const selectClass = "h-8 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-900 cursor-pointer outline-none focus:border-orange-400 disabled:opacity-50"
+
+  return (
+    <div className={cn("flex flex-wrap items-center justify-center gap-4 text-xs text-gray-700", className)}>
+      <label className="flex items-center gap-2">
+        <Mic className={cn("w-4 h-4", isLive ? "text-red-500" : "text-gray-500")} />
+        Source
+        <select
+          value={toOptionValue(input.source)}
+          onChange={(event) => input.selectSource(fromOptionValue(event.target.value))}
+          className={cn(selectClass, "max-w-56")}
+          aria-label="Effect chain source"
+        >
+          <option value="playback">Track playback</option>
+          {input.devices.map((device, index) => (
+            <option key={device.deviceId || index} value={`device:${device.deviceId}`}>
+              {device.label || `Input ${index + 1}`}
+            </option>
+          ))}
+          {input.devices.length === 0 && <option value="device:">Microphone / line-in</option>}
+          <option value="test-tone">Test tone ({LIVE_INPUT_CONFIG.TEST_TONE_FREQUENCY} Hz)</option>
+        </select>
+      </label>
+
+      {isLive && (
+        <>
+          <div className="flex items-center gap-2 w-48">
+            <span className="flex-shrink-0">Input gain</span>
+            <Slider
+              value={[input.gain]}
+              min={LIVE_INPUT_CONFIG.GAIN_LIMITS.min}
+              max={LIVE_INPUT_CONFIG.GAIN_LIMITS.max}
+              step={0.5}
+              onValueChange={(values) => input.setGain(values[0])}
+              className="flex-1"
+              aria-label="Input gain in dB"
+            />
+            <span className="w-12 text-right tabular-nums">{input.gain > 0 ? '+' : ''}{input.gain}dB</span>
+          </div>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => input.setIsMonitoring(!input.isMonitoring)}
+            className={cn(
+              "text-gray-600 hover:text-gray-900 border-gray-300",
+              input.isMonitoring && "text-orange-600 border-orange-300"
+            )}
+            aria-pressed={input.isMonitoring}
+            title={input.isMonitoring ? 'Mute the speakers - the spectrum and recordings keep the signal' : 'Hear the processed input'}
+          >
+            <Headphones className="w-4 h-4" />
+            Monitor
+          </Button>
+
+          {input.source.type === 'device' && (
+            <label className="flex items-center gap-2">
+              Latency
+              <select
+                value={input.latencyHint}
+                onChange={(event) => input.setLatencyHint(event.target.value as InputLatencyHint)}
+                className={selectClass}
+              >
+                {(Object.keys(INPUT_LATENCY_HINTS) as InputLatencyHint[]).map(hint => (
+                  <option key={hint} value={hint}>{INPUT_LATENCY_HINTS[hint].label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <span className="text-gray-500" role="status">
+            {input.status === 'opening'
+              ? 'Waiting for the input…'
+              : input.openInput && input.openInput.latency > 0 && `≈ ${Math.round(input.openInput.latency * 1000)} ms to the speakers`}
+          </span>
+
+          {input.source.type === 'device' && input.isMonitoring && (
+            <span className="w-full text-center text-gray-500">
+              Use headphones while monitoring a microphone, or the speakers will feed back into it.
+            </span>
+          )}
+        </>
+      )}
+
+      {input.error && <p className="w-full text-center text-red-600" role="alert">{input.error}</p>}
+    </div>
+  )
+}
+
+export { InputSourceControls }
@@ -0,0 +1,176 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { ListPlus, Play, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { type LibraryResponse, type LibraryTrack, fetchLibrary, groupLibrary } from '@/lib/library'
+import { formatDuration } from '@/lib/track'
+import { cn } from '@/lib/utils'
+
+interface LibraryBrowserProps {
+  /** Queues the tracks and starts playing the first of them */
+  onPlay: (tracks: LibraryTrack[]) => void
+  /** Appends the tracks to the end of the queue */
+  onEnqueue: (tracks: LibraryTrack[]) => void
+  className?: string
+}
+
+/**
+ * Library Browser
+ * Three-column artists → albums → tracks view of the server-side music library
+ */
+function LibraryBrowser({ onPlay, onEnqueue, className }: LibraryBrowserProps) {
+  const [library, setLibrary] = useState<LibraryResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isScanning, setIsScanning] = useState<boolean>(false)
+  const [selectedArtist, setSelectedArtist] = useState<string | null>(null)
+  const [selectedAlbum, setSelectedAlbum] = useState<string | null>(null)
+
+  /**
+   * Loads (or rescans) the library
+   */
+  const loadLibrary = useCallback(async (rescan: boolean): Promise<void> => {
+    setIsScanning(true)
+    setError(null)
+    try {
+      setLibrary(await fetchLibrary(rescan))
+    } catch (loadError) {
+      console.error('Failed to load library:', loadError)
+      setError('Could not load the music library')
+    } finally {
+      setIsScanning(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadLibrary(false)
+  }, [loadLibrary])
+
+  const artists = useMemo(() => groupLibrary(library?.tracks ?? []), [library])
+  const artist = artists.find(entry => entry.name === selectedArtist) ?? artists[0]
+  const album = artist?.albums.find(entry => entry.name === selectedAlbum) ?? artist?.albums[0]
+
+  const columnClass = "flex-1 min-w-0 overflow-y-auto border-r border-gray-200 last:border-r-0"
+  const rowClass = "w-full truncate px-3 py-1.5 text-left text-sm cursor-pointer"
+
+  return (
+    <div className={cn("flex flex-col rounded-lg border border-gray-200 bg-white/80", className)}>
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <h3 className="text-sm font-semibold text-gray-900">Library</h3>
+        <div className="flex items-center gap-2">
+          {library?.scannedAt && (
+            <span className="text-xs text-gray-500">{library.tracks.length} tracks</span>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => loadLibrary(true)}
+            disabled={isScanning || library?.configured === false}
+            className="size-7 text-gray-500 hover:text-gray-900"
+            aria-label="Rescan music library"
+            title="Rescan"
+          >
+            <RefreshCw className={cn("w-4 h-4", isScanning && "animate-spin")} />
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="px-3 py-4 text-sm text-red-600">{error}</p>}
+
+      {library?.configured === false && (
+        <p className="px-3 py-4 text-sm text-gray-600">
+          No music directory configured. Set <code className="font-mono">MUSIC_LIBRARY_DIR</code> in{' '}
+          <code className="font-mono">.env.local</code> and restart the server.
+        </p>
+      )}
+
+      {library?.configured && artists.length === 0 && !isScanning && (
+        <p className="px-3 py-4 text-sm text-gray-600">No audio files found in the music directory.</p>
+      )}
+
+      {artists.length > 0 && (
+        <div className="flex h-64">
+          {/* Artists */}
+          <ul className={columnClass} aria-label="Artists">
+            {artists.map(entry => (
+              <li key={entry.name}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSelectedArtist(entry.name)
+                    setSelectedAlbum(null)
+                  }}
+                  className={cn(rowClass, entry === artist ? "bg-orange-50 font-semibold text-orange-600" : "text-gray-900 hover:bg-gray-50")}
+                >
+                  {entry.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Albums */}
+          <ul className={columnClass} aria-label="Albums">
+            {artist?.albums.map(entry => (
+              <li key={entry.name}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedAlbum(entry.name)}
+                  className={cn(rowClass, entry === album ? "bg-orange-50 font-semibold text-orange-600" : "text-gray-900 hover:bg-gray-50")}
+                >
+                  {entry.name}
+                  {entry.year && <span className="ml-2 text-xs font-normal text-gray-500">{entry.year}</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Tracks */}
+          <div className={cn(columnClass, "flex flex-col")}>
+            {album && (
+              <div className="flex items-center gap-1 px-2 py-1 border-b border-gray-200">
+                <Button variant="ghost" size="sm" onClick={() => onPlay(album.tracks)} className="text-gray-600 hover:text-gray-900">
+                  <Play className="w-4 h-4" />
+                  Play album
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onEnqueue(album.tracks)} className="text-gray-600 hover:text-gray-900">
+                  <ListPlus className="w-4 h-4" />
+                  Queue album
+                </Button>
+              </div>
+            )}
+            <ol className="flex-1 overflow-y-auto" aria-label="Tracks">
+              {album?.tracks.map(track => (
+                <li key={track.id} className="group flex items-center hover:bg-gray-50">
+                  <button
+                    type="button"
+                    onClick={() => onPlay([track])}
+                    className={cn(rowClass, "flex-1 min-w-0 text-gray-900")}
+                    title="Play now"
+                  >
+                    {track.trackNumber && <span className="mr-2 text-xs text-gray-500">{track.trackNumber}</span>}
+                    {track.title}
+                    {track.duration && (
+                      <span className="ml-2 text-xs text-gray-500">{formatDuration(track.duration)}</span>
+                    )}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onEnqueue([track])}
+                    className="size-7 mr-1 text-gray-500 hover:text-gray-900 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                    aria-label={`Add ${track.title} to queue`}
+                    title="Add to queue"
+                  >
+                    <ListPlus className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export { LibraryBrowser }
@@ -0,0 +1,151 @@
+"use client"
+
+import { Repeat, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { type LoopRegion, type PracticeSettings } from '@/lib/loop'
+import { cn } from '@/lib/utils'
+
+interface LoopControlsProps {
+  loop: LoopRegion
+  onClear: () => void
+  settings: PracticeSettings
+  onSettingsChange: (settings: PracticeSettings) => void
+  isPracticing: boolean
+  /** Count-in clicks are playing and the loop has not started yet */
+  isCountingIn: boolean
+  /** Completed passes through the loop since practice started */
+  repetition: number
+  /** Current playback speed */
+  speed: number
+  onStartPractice: () => void
+  onStopPractice: () => void
+  className?: string
+}
+
+/**
+ * Formats a loop point with tenths of a second
+ * @returns e.g. "1:05.3"
+ */
+function formatLoopTime(time: number): string {
+  const minutes = Math.floor(time / 60)
+  const seconds = (time % 60).toFixed(1).padStart(4, '0')
+  return `${minutes}:${seconds}`
+}
+
+/**
+ * Loop Controls
+ * Shows the A-B loop and the practice mode settings: count-in and speed ramp
+ */
+function LoopControls({
+  loop,
+  onClear,
+  settings,
+  onSettingsChange,
+  isPracticing,
+  isCountingIn,
+  repetition,
+  speed,
+  onStartPractice,
+  onStopPractice,
+  className
+}: LoopControlsProps) {
+  const updateSetting = (key: keyof PracticeSettings, value: number): void => {
+    if (!Number.isFinite(value)) return
+    onSettingsChange({ ...settings, [key]: value })
+  }
+
+  const inputClass = "h-8 w-16 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-900 outline-none focus:border-orange-400 disabled:opacity-50"
+
+  return (
+    <div className={cn("rounded-lg border border-orange-200 bg-orange-50/60 p-3", className)}>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex items-center gap-2 h-8 text-sm text-gray-900">
+          <Repeat className="w-4 h-4 text-orange-500" />
+          <span className="font-medium tabular-nums">
+            {formatLoopTime(loop.start)} – {formatLoopTime(loop.end)}
+          </span>
+          <span className="text-xs text-gray-500 tabular-nums">
+            ({(loop.end - loop.start).toFixed(1)}s)
+          </span>
+        </div>
+
+        <label className="flex flex-col gap-1 text-xs text-gray-700">
+          Start speed
+          <select
+            value={settings.startSpeed}
+            onChange={(event) => updateSetting('startSpeed', Number(event.target.value))}
+            disabled={isPracticing}
+            className="h-8 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-900 cursor-pointer outline-none focus:border-orange-400 disabled:opacity-50"
+          >
+            {[0.5, 0.6, 0.7, 0.75, 0.8, 0.9, 1].map(value => (
+              <option key={value} value={value}>{value.toFixed(2)}x</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-700">
+          Step (%)
+          <input
+            type="number"
+            min={1}
+            max={25}
+            step={1}
+            value={settings.stepPercent}
+            onChange={(event) => updateSetting('stepPercent', Math.min(25, Math.max(1, Number(event.target.value))))}
+            disabled={isPracticing}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-700">
+          Count-in
+          <select
+            value={settings.countInBeats}
+            onChange={(event) => updateSetting('countInBeats', Number(event.target.value))}
+            disabled={isPracticing}
+            className="h-8 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-900 cursor-pointer outline-none focus:border-orange-400 disabled:opacity-50"
+          >
+            <option value={0}>Off</option>
+            {[1, 2, 3, 4, 5, 6, 7, 8].map(beats => (
+              <option key={beats} value={beats}>{beats} beats</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-700">
+          BPM
+          <input
+            type="number"
+            min={40}
+            max={240}
+            step={1}
+            value={settings.countInBpm}
+            onChange={(event) => updateSetting('countInBpm', Math.min(240, Math.max(40, Number(event.target.value))))}
+            disabled={isPracticing || settings.countInBeats === 0}
+            className={inputClass}
+          />
+        </label>
+
+        <div className="ml-auto flex items-center gap-2">
+          {isPracticing && (
+            <span className="text-xs text-gray-600 tabular-nums" role="status" aria-live="polite">
+              {isCountingIn ? 'Counting in…' : `Pass ${repetition + 1} at ${speed.toFixed(2)}x`}
+            </span>
+          )}
+          {isPracticing ? (
+            <Button variant="outline" size="sm" onClick={onStopPractice}>
+              Stop practice
+            </Button>
+          ) : (
+            <Button size="sm" onClick={onStartPractice} className="text-white">
+              Practice
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClear} className="text-gray-600 hover:text-gray-900" aria-label="Clear loop">
+            <X className="w-4 h-4" />
+            Clear loop
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export { LoopControls }
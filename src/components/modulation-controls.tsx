@@ -0,0 +1,156 @@
+"use client"
+
+import { EffectSlider } from '@/components/effect-slider'
+import {
+  type AudioEffects,
+  type NumericEffectKey,
+  DELAY_DIVISIONS,
+  DELAY_MODES,
+  EFFECT_LIMITS,
+  getDelaySeconds
+} from '@/lib/effects'
+import { cn } from '@/lib/utils'
+
+interface ModulationControlsProps {
+  effects: AudioEffects
+  onChange: (changes: Partial<AudioEffects>) => void
+  className?: string
+}
+
+/** Effects fields of each LFO-based section, in slider order */
+const LFO_SECTIONS: readonly {
+  title: string
+  keys: { rate: NumericEffectKey; depth: NumericEffectKey; feedback: NumericEffectKey; mix: NumericEffectKey }
+}[] = [
+  { title: 'Chorus', keys: { rate: 'chorusRate', depth: 'chorusDepth', feedback: 'chorusFeedback', mix: 'chorusMix' } },
+  { title: 'Flanger', keys: { rate: 'flangerRate', depth: 'flangerDepth', feedback: 'flangerFeedback', mix: 'flangerMix' } },
+  { title: 'Phaser', keys: { rate: 'phaserRate', depth: 'phaserDepth', feedback: 'phaserFeedback', mix: 'phaserMix' } }
+]
+
+/**
+ * Modulation Controls
+ * Delay, chorus, flanger and phaser sections; each starts silent with its mix at 0%
+ */
+function ModulationControls({ effects, onChange, className }: ModulationControlsProps) {
+  const isSynced = effects.delayBeats > 0
+  const selectClass = "h-7 rounded-md border border-gray-300 bg-white px-1.5 text-xs text-gray-900 cursor-pointer outline-none focus:border-orange-400"
+
+  const percentSlider = (label: string, key: NumericEffectKey, ariaLabel: string) => (
+    <EffectSlider
+      label={label}
+      value={effects[key]}
+      min={EFFECT_LIMITS[key].min}
+      max={EFFECT_LIMITS[key].max}
+      step={1}
+      display={`${effects[key]}%`}
+      onChange={(value) => onChange({ [key]: value })}
+      ariaLabel={ariaLabel}
+    />
+  )
+
+  return (
+    <div className={cn("flex flex-wrap justify-center items-start gap-x-10 gap-y-8", className)}>
+
+      {/* Delay Section */}
+      <div className="flex flex-col items-center space-y-6">
+        <div className="flex items-center space-x-3">
+          <h4 className="text-gray-900 font-medium text-sm">Delay</h4>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden text-xs" role="group" aria-label="Delay mode">
+            {DELAY_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => onChange({ delayMode: mode })}
+                className={cn(
+                  "px-2 py-0.5 cursor-pointer",
+                  effects.delayMode === mode ? "bg-orange-500 text-white" : "bg-white text-gray-600 hover:text-gray-900"
+                )}
+                aria-pressed={effects.delayMode === mode}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={effects.delayBeats}
+            onChange={(event) => onChange({ delayBeats: Number(event.target.value) })}
+            className={selectClass}
+            aria-label="Delay tempo sync"
+          >
+            {DELAY_DIVISIONS.map(({ beats, label }) => (
+              <option key={beats} value={beats}>{label}</option>
+            ))}
+          </select>
+          {isSynced && (
+            <label className="flex items-center gap-1 text-xs text-gray-700">
+              <input
+                type="number"
+                min={EFFECT_LIMITS.tempo.min}
+                max={EFFECT_LIMITS.tempo.max}
+                step={1}
+                value={effects.tempo}
+                onChange={(event) => {
+                  const tempo = Number(event.target.value)
+                  if (!Number.isFinite(tempo)) return
+                  onChange({ tempo: Math.min(EFFECT_LIMITS.tempo.max, Math.max(EFFECT_LIMITS.tempo.min, tempo)) })
+                }}
+                className="h-7 w-14 rounded-md border border-gray-300 bg-white px-1.5 text-xs text-gray-900 outline-none focus:border-orange-400"
+                aria-label="Delay tempo in BPM"
+              />
+              BPM
+            </label>
+          )}
+        </div>
+        <div className="flex space-x-8">
+          <EffectSlider
+            label="Time"
+            value={effects.delayTime}
+            min={EFFECT_LIMITS.delayTime.min}
+            max={EFFECT_LIMITS.delayTime.max}
+            step={10}
+            display={`${Math.round(getDelaySeconds(effects) * 1000)}ms`}
+            onChange={(delayTime) => onChange({ delayTime })}
+            disabled={isSynced}
+            ariaLabel="Delay time in milliseconds"
+          />
+          {percentSlider('Feedback', 'delayFeedback', 'Delay feedback')}
+          <EffectSlider
+            label="Damping"
+            value={effects.delayDamping}
+            min={EFFECT_LIMITS.delayDamping.min}
+            max={EFFECT_LIMITS.delayDamping.max}
+            step={100}
+            display={`${(effects.delayDamping / 1000).toFixed(1)}kHz`}
+            onChange={(delayDamping) => onChange({ delayDamping })}
+            ariaLabel="Delay damping cutoff frequency"
+          />
+          {percentSlider('Mix', 'delayMix', 'Delay wet/dry mix')}
+        </div>
+      </div>
+
+      {/* Chorus, Flanger and Phaser Sections */}
+      {LFO_SECTIONS.map(({ title, keys }) => (
+        <div key={title} className="flex flex-col items-center space-y-6">
+          <h4 className="text-gray-900 font-medium text-sm h-6 flex items-center">{title}</h4>
+          <div className="flex space-x-8">
+            <EffectSlider
+              label="Rate"
+              value={effects[keys.rate]}
+              min={EFFECT_LIMITS[keys.rate].min}
+              max={EFFECT_LIMITS[keys.rate].max}
+              step={0.05}
+              display={`${effects[keys.rate].toFixed(2)}Hz`}
+              onChange={(value) => onChange({ [keys.rate]: value })}
+              ariaLabel={`${title} LFO rate`}
+            />
+            {percentSlider('Depth', keys.depth, `${title} depth`)}
+            {percentSlider('Feedback', keys.feedback, `${title} feedback`)}
+            {percentSlider('Mix', keys.mix, `${title} wet/dry mix`)}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export { ModulationControls }
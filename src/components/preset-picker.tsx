@@ -0,0 +1,207 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Check, Download, Save, Trash2, Upload, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { type AudioEffects } from '@/lib/effects'
+import { downloadBlob, toFileNameStem } from '@/lib/download'
+import {
+  type EffectPreset,
+  type PresetEffects,
+  FACTORY_PRESETS,
+  createUserPreset,
+  loadUserPresets,
+  parsePresetFile,
+  presetEffectsEqual,
+  saveUserPresets,
+  serializePresets,
+  toPresetEffects
+} from '@/lib/presets'
+import { cn } from '@/lib/utils'
+
+interface PresetPickerProps {
+  /** Current effect settings, used to show the matching preset and to save new ones */
+  effects: AudioEffects
+  /** Applies a preset's settings; volume is left unchanged */
+  onApply: (effects: PresetEffects) => void
+  className?: string
+}
+
+/**
+ * Preset Picker
+ * Chooses, saves, deletes, imports and exports effect presets
+ */
+function PresetPicker({ effects, onApply, className }: PresetPickerProps) {
+  const [userPresets, setUserPresets] = useState<EffectPreset[]>([])
+  const [isNaming, setIsNaming] = useState<boolean>(false)
+  const [presetName, setPresetName] = useState<string>('')
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setUserPresets(loadUserPresets())
+  }, [])
+
+  /**
+   * Updates the user preset list and persists it
+   */
+  const updateUserPresets = useCallback((update: (presets: EffectPreset[]) => EffectPreset[]): void => {
+    setUserPresets(prev => {
+      const next = update(prev)
+      saveUserPresets(next)
+      return next
+    })
+  }, [])
+
+  /** The preset whose settings match the current effects, if any */
+  const activePreset = useMemo(() => {
+    return [...userPresets, ...FACTORY_PRESETS].find(preset =>
+      presetEffectsEqual(preset.effects, effects)
+    ) ?? null
+  }, [effects, userPresets])
+
+  const handleSelect = useCallback((event: React.ChangeEvent<HTMLSelectElement>): void => {
+    const preset = [...FACTORY_PRESETS, ...userPresets].find(entry => entry.id === event.target.value)
+    if (preset) {
+      setError(null)
+      onApply({ ...preset.effects })
+    }
+  }, [onApply, userPresets])
+
+  /**
+   * Saves the current settings, replacing a user preset of the same name
+   */
+  const handleSave = useCallback((event: React.FormEvent<HTMLFormElement>): void => {
+    event.preventDefault()
+    const name = presetName.trim()
+    if (!name) return
+
+    const preset = createUserPreset(name, toPresetEffects(effects))
+    updateUserPresets(prev => [...prev.filter(entry => entry.name !== preset.name), preset])
+    setIsNaming(false)
+    setPresetName('')
+    setError(null)
+  }, [effects, presetName, updateUserPresets])
+
+  const handleDelete = useCallback((): void => {
+    if (!activePreset || activePreset.factory) return
+    updateUserPresets(prev => prev.filter(entry => entry.id !== activePreset.id))
+  }, [activePreset, updateUserPresets])
+
+  /**
+   * Exports the selected preset, or the current settings when they match none
+   */
+  const handleExport = useCallback((): void => {
+    const preset = activePreset ?? createUserPreset('Custom', toPresetEffects(effects))
+    const blob = new Blob([serializePresets([preset])], { type: 'application/json' })
+    downloadBlob(blob, `${toFileNameStem(preset.name, 'preset')}.preset.json`)
+  }, [activePreset, effects])
+
+  /**
+   * Imports every preset in a file and applies the first one
+   */
+  const handleImport = useCallback(async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0]
+    // Reset so the same file can be picked again
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const imported = parsePresetFile(await file.text())
+      const names = new Set(imported.map(preset => preset.name))
+      updateUserPresets(prev => [...prev.filter(entry => !names.has(entry.name)), ...imported])
+      onApply({ ...imported[0].effects })
+      setError(null)
+    } catch (importError) {
+      console.error('Preset import failed:', importError)
+      setError(importError instanceof Error ? importError.message : 'Preset import failed')
+    }
+  }, [onApply, updateUserPresets])
+
+  const iconButtonClass = "size-8 text-gray-600 hover:text-gray-900 border-gray-300 hover:border-gray-400"
+
+  return (
+    <div className={cn("flex flex-col items-center gap-1", className)}>
+      <div className="flex items-center gap-2">
+        {isNaming ? (
+          <form onSubmit={handleSave} className="flex items-center gap-2">
+            <input
+              autoFocus
+              value={presetName}
+              onChange={(event) => setPresetName(event.target.value)}
+              onKeyDown={(event) => event.key === 'Escape' && setIsNaming(false)}
+              placeholder="Preset name"
+              maxLength={60}
+              className="h-8 w-44 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-900 outline-none focus:border-orange-400"
+              aria-label="Preset name"
+            />
+            <Button type="submit" variant="outline" size="icon" className={iconButtonClass} disabled={!presetName.trim()} aria-label="Save preset" title="Save">
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button type="button" variant="outline" size="icon" className={iconButtonClass} onClick={() => setIsNaming(false)} aria-label="Cancel" title="Cancel">
+              <X className="w-4 h-4" />
+            </Button>
+          </form>
+        ) : (
+          <>
+            <select
+              value={activePreset?.id ?? ''}
+              onChange={handleSelect}
+              className="h-8 w-44 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-900 cursor-pointer outline-none focus:border-orange-400"
+              aria-label="Effect preset"
+            >
+              <option value="" disabled>Custom</option>
+              <optgroup label="Factory">
+                {FACTORY_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </optgroup>
+              {userPresets.length > 0 && (
+                <optgroup label="My presets">
+                  {userPresets.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <Button
+              variant="outline"
+              size="icon"
+              className={iconButtonClass}
+              onClick={() => {
+                setPresetName(activePreset && !activePreset.factory ? activePreset.name : '')
+                setIsNaming(true)
+              }}
+              aria-label="Save current settings as a preset"
+              title="Save preset"
+            >
+              <Save className="w-4 h-4" />
+            </Button>
+            {activePreset && !activePreset.factory && (
+              <Button variant="outline" size="icon" className={iconButtonClass} onClick={handleDelete} aria-label={`Delete preset ${activePreset.name}`} title="Delete preset">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </>
+        )}
+        <Button variant="outline" size="icon" className={iconButtonClass} onClick={handleExport} aria-label="Export preset" title="Export preset">
+          <Download className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" size="icon" className={iconButtonClass} onClick={() => fileInputRef.current?.click()} aria-label="Import presets" title="Import presets">
+          <Upload className="w-4 h-4" />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+      {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+    </div>
+  )
+}
+
+export { PresetPicker }
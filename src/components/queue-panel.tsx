@@ -0,0 +1,129 @@
+"use client"
+
+import { useState } from 'react'
+import { GripVertical, ListPlus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { type Track } from '@/lib/track'
+import { cn } from '@/lib/utils'
+
+interface QueuePanelProps {
+  tracks: Track[]
+  currentIndex: number
+  /** Loads the track at the given index */
+  onSelect: (index: number) => void
+  onRemove: (trackId: string) => void
+  onMove: (from: number, to: number) => void
+  onPlayNext: (trackId: string) => void
+  className?: string
+}
+
+/**
+ * Queue Panel
+ * Lists the queued tracks; rows can be dragged to reorder, removed, or
+ * promoted to play straight after the current track
+ */
+function QueuePanel({
+  tracks,
+  currentIndex,
+  onSelect,
+  onRemove,
+  onMove,
+  onPlayNext,
+  className
+}: QueuePanelProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const finishDrag = (): void => {
+    setDragIndex(null)
+    setDropIndex(null)
+  }
+
+  return (
+    <div className={cn("flex flex-col rounded-lg border border-gray-200 bg-white/80", className)}>
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <h3 className="text-sm font-semibold text-gray-900">Queue</h3>
+        <span className="text-xs text-gray-500">{tracks.length} {tracks.length === 1 ? 'track' : 'tracks'}</span>
+      </div>
+
+      <ol className="max-h-48 overflow-y-auto py-1" aria-label="Play queue">
+        {tracks.map((track, index) => {
+          const isCurrent = index === currentIndex
+
+          return (
+            <li
+              key={track.id}
+              draggable
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = 'move'
+                setDragIndex(index)
+              }}
+              onDragOver={(event) => {
+                if (dragIndex === null) return
+                event.preventDefault()
+                setDropIndex(index)
+              }}
+              onDrop={(event) => {
+                event.preventDefault()
+                // Stop the page-level file drop handler from seeing this
+                event.stopPropagation()
+                if (dragIndex !== null) onMove(dragIndex, index)
+                finishDrag()
+              }}
+              onDragEnd={finishDrag}
+              className={cn(
+                "group flex items-center gap-2 px-2 py-1.5 text-sm",
+                isCurrent ? "bg-orange-50" : "hover:bg-gray-50",
+                dropIndex === index && dragIndex !== index && "border-t-2 border-orange-400",
+                dragIndex === index && "opacity-50"
+              )}
+            >
+              <GripVertical className="w-4 h-4 text-gray-400 cursor-grab flex-shrink-0" aria-hidden="true" />
+
+              <button
+                type="button"
+                onClick={() => onSelect(index)}
+                className="flex-1 min-w-0 text-left cursor-pointer"
+                aria-current={isCurrent ? 'true' : undefined}
+              >
+                <span className={cn("block truncate", isCurrent ? "font-semibold text-orange-600" : "text-gray-900")}>
+                  {track.info.title}
+                </span>
+                <span className="block truncate text-xs text-gray-500">{track.info.artist}</span>
+              </button>
+
+              {!isCurrent && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onPlayNext(track.id)}
+                  className="size-7 text-gray-500 hover:text-gray-900 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                  aria-label={`Play ${track.info.title} next`}
+                  title="Play next"
+                >
+                  <ListPlus className="w-4 h-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onRemove(track.id)}
+                className="size-7 text-gray-500 hover:text-gray-900 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                aria-label={`Remove ${track.info.title} from queue`}
+                title="Remove"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          )
+        })}
+      </ol>
+
+      {tracks.length === 0 && (
+        <p className="px-3 py-4 text-xs text-gray-500 text-center">Drop audio files here or use Open file</p>
+      )}
+    </div>
+  )
+}
+
+export { QueuePanel }
@@ -0,0 +1,223 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { ChevronDown, Circle, Square } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { type AudioEngine } from '@/lib/audio/engine'
+import {
+  type OutputRecorder,
+  type RecordingFormat,
+  RECORDER_CONFIG,
+  createOutputRecorder,
+  getCompressedRecordingType
+} from '@/lib/audio/recorder'
+import { type WavFormat, WAV_FORMATS } from '@/lib/audio/wav'
+import { downloadBlob, toFileNameStem } from '@/lib/download'
+import { formatDuration } from '@/lib/track'
+import { cn } from '@/lib/utils'
+
+interface RecordControlsProps {
+  engine: AudioEngine | null
+  /** Title of the playing track, used for the file name */
+  title: string
+  className?: string
+}
+
+/** Milliseconds between elapsed time and size updates */
+const DISPLAY_INTERVAL = 250
+
+/**
+ * Formats a byte count
+ * @returns e.g. "820 KB", "12.4 MB"
+ */
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Record Controls
+ * Records what the player outputs - effects and live slider moves included -
+ * and downloads it when stopped, optionally stopping at the end of the track
+ */
+function RecordControls({ engine, title, className }: RecordControlsProps) {
+  const [format, setFormat] = useState<RecordingFormat>('pcm16')
+  const [shouldStopAtTrackEnd, setShouldStopAtTrackEnd] = useState<boolean>(true)
+  const [isOptionsOpen, setIsOptionsOpen] = useState<boolean>(false)
+  const [status, setStatus] = useState<'idle' | 'starting' | 'recording' | 'saving'>('idle')
+  const [progress, setProgress] = useState<{ elapsed: number; size: number }>({ elapsed: 0, size: 0 })
+  const [error, setError] = useState<string | null>(null)
+  const [canCompress, setCanCompress] = useState<boolean>(false)
+  const recorderRef = useRef<OutputRecorder | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const isRecording = status === 'recording'
+
+  // MediaRecorder support is only known in the browser
+  useEffect(() => {
+    setCanCompress(getCompressedRecordingType() !== null)
+  }, [])
+
+  // Close the options on a click elsewhere
+  useEffect(() => {
+    if (!isOptionsOpen) return
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOptionsOpen(false)
+    }
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [isOptionsOpen])
+
+  // Drop a recording that is still running when the engine goes away
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.cancel()
+      recorderRef.current = null
+      setStatus('idle')
+    }
+  }, [engine])
+
+  /**
+   * Starts capturing the engine's output
+   */
+  const startRecording = useCallback(async (): Promise<void> => {
+    if (!engine || recorderRef.current) return
+    setError(null)
+    setIsOptionsOpen(false)
+    setStatus('starting')
+
+    try {
+      // The analyser sits after the gain and limiter, right before the speakers
+      recorderRef.current = await createOutputRecorder(engine.analyser, format)
+      setProgress({ elapsed: 0, size: 0 })
+      setStatus('recording')
+      console.log('Recording started:', format)
+    } catch (recordError) {
+      console.error('Failed to start recording:', recordError)
+      setError(recordError instanceof Error ? recordError.message : 'Recording failed to start')
+      setStatus('idle')
+    }
+  }, [engine, format])
+
+  /**
+   * Stops capturing and downloads the file
+   */
+  const stopRecording = useCallback(async (): Promise<void> => {
+    const recorder = recorderRef.current
+    if (!recorder) return
+    recorderRef.current = null
+    setStatus('saving')
+
+    try {
+      const recording = await recorder.stop()
+      downloadBlob(recording.blob, `${toFileNameStem(title, 'recording')}-live.${recording.extension}`)
+      console.log('Recording saved:', recording.blob.size, 'bytes,', recording.duration.toFixed(1), 's')
+    } catch (recordError) {
+      console.error('Failed to save recording:', recordError)
+      setError(recordError instanceof Error ? recordError.message : 'Recording could not be saved')
+    } finally {
+      setStatus('idle')
+    }
+  }, [title])
+
+  // Show the elapsed time and size, and stop WAV recordings before they outgrow memory
+  useEffect(() => {
+    if (!isRecording) return
+    const interval = window.setInterval(() => {
+      const recorder = recorderRef.current
+      if (!recorder) return
+      setProgress({ elapsed: recorder.elapsed, size: recorder.size })
+      if (recorder.format !== 'compressed' && recorder.elapsed >= RECORDER_CONFIG.MAX_WAV_DURATION) {
+        console.warn('WAV recording reached its length limit - stopping')
+        stopRecording()
+      }
+    }, DISPLAY_INTERVAL)
+    return () => window.clearInterval(interval)
+  }, [isRecording, stopRecording])
+
+  // Stop when the track ends, or when the next one takes over gaplessly or by crossfade
+  useEffect(() => {
+    if (!engine || !isRecording || !shouldStopAtTrackEnd) return
+    const handleTrackEnd = () => {
+      console.log('Track ended - stopping recording')
+      stopRecording()
+    }
+    const unsubscribers = [engine.on('ended', handleTrackEnd), engine.on('trackchange', handleTrackEnd)]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }, [engine, isRecording, shouldStopAtTrackEnd, stopRecording])
+
+  const formatLabel = format === 'compressed' ? 'Compressed' : `WAV ${WAV_FORMATS[format].label}`
+
+  return (
+    <div ref={containerRef} className={cn("relative flex items-center", className)}>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={isRecording ? stopRecording : startRecording}
+        disabled={!engine || status === 'starting' || status === 'saving'}
+        className={cn(
+          "rounded-r-none text-gray-600 hover:text-gray-900 border-gray-300",
+          isRecording && "text-red-600 border-red-300 hover:text-red-700"
+        )}
+        aria-label={isRecording ? 'Stop recording and download' : `Record output as ${formatLabel}`}
+        title={isRecording ? 'Stop recording and download' : `Record what you hear as ${formatLabel}`}
+      >
+        {isRecording ? <Square className="w-4 h-4 fill-current" /> : <Circle className="w-4 h-4 fill-red-500 text-red-500" />}
+        {isRecording ? (
+          <span className="tabular-nums">
+            {formatDuration(progress.elapsed)} · {formatFileSize(progress.size)}
+          </span>
+        ) : status === 'saving' ? 'Saving…' : 'Record'}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOptionsOpen(open => !open)}
+        disabled={status !== 'idle'}
+        className="rounded-l-none border-l-0 px-1.5 text-gray-600 hover:text-gray-900 border-gray-300"
+        aria-label="Recording options"
+        aria-expanded={isOptionsOpen}
+      >
+        <ChevronDown className="w-4 h-4" />
+      </Button>
+
+      {isOptionsOpen && (
+        <div className="absolute top-full right-0 z-20 mt-1 w-60 rounded-lg border border-gray-200 bg-white p-3 shadow-lg flex flex-col gap-3 text-xs text-gray-700">
+          <label className="flex flex-col gap-1">
+            Format
+            <select
+              value={format}
+              onChange={(event) => setFormat(event.target.value as RecordingFormat)}
+              className="h-8 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-900 cursor-pointer outline-none focus:border-orange-400"
+            >
+              {(Object.keys(WAV_FORMATS) as WavFormat[]).map(key => (
+                <option key={key} value={key}>WAV {WAV_FORMATS[key].label}</option>
+              ))}
+              {canCompress && <option value="compressed">Compressed (smaller file)</option>}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={shouldStopAtTrackEnd}
+              onChange={(event) => setShouldStopAtTrackEnd(event.target.checked)}
+              className="accent-orange-500"
+            />
+            Stop at end of track
+          </label>
+          <p className="text-gray-500">
+            WAV recordings stop after {RECORDER_CONFIG.MAX_WAV_DURATION / 60} minutes.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <p className="absolute top-full right-0 mt-1 whitespace-nowrap text-xs text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export { RecordControls }
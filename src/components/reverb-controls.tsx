@@ -0,0 +1,201 @@
+"use client"
+
+import { useRef, useState } from 'react'
+import { Trash2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { EffectSlider } from '@/components/effect-slider'
+import { type AudioEffects, type ReverbImpulseId, EFFECT_LIMITS, REVERB_LIBRARY } from '@/lib/effects'
+import {
+  type ImpulseResponse,
+  IMPULSE_CONFIG,
+  decodeImpulseResponseFile,
+  deleteImpulseResponse,
+  saveImpulseResponse
+} from '@/lib/audio/impulse-responses'
+import { cn } from '@/lib/utils'
+
+interface ReverbControlsProps {
+  effects: AudioEffects
+  onChange: (changes: Partial<AudioEffects>) => void
+  /** User impulses stored in this browser */
+  impulses: readonly ImpulseResponse[]
+  onImpulseAdded: (impulse: ImpulseResponse) => void
+  onImpulseDeleted: (id: string) => void
+  className?: string
+}
+
+/**
+ * Reverb Controls
+ * Picks the impulse - parametric, built-in or loaded from a file - and sets the
+ * parametric generator's decay, pre-delay, size, damping and width. The amount
+ * stays with the other effects
+ */
+function ReverbControls({ effects, onChange, impulses, onImpulseAdded, onImpulseDeleted, className }: ReverbControlsProps) {
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const selectedImpulse = impulses.find(impulse => impulse.id === effects.reverbImpulse)
+  // A preset can name a user impulse this browser does not have; the reverb then falls back to parametric
+  const isUnavailable = effects.reverbImpulse.startsWith('user:') && !selectedImpulse
+  const isParametric = effects.reverbImpulse === 'parametric' || isUnavailable
+
+  /**
+   * Decodes, stores and selects an impulse file
+   */
+  const handleLoad = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0]
+    // Reset so the same file can be picked again
+    event.target.value = ''
+    if (!file) return
+
+    setIsLoading(true)
+    try {
+      const impulse = await decodeImpulseResponseFile(file)
+      await saveImpulseResponse(impulse)
+      onImpulseAdded(impulse)
+      onChange({ reverbImpulse: impulse.id })
+      setError(null)
+    } catch (loadError) {
+      console.error('Impulse response load failed:', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Impulse response load failed')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Deletes the selected user impulse and returns to the parametric reverb
+   */
+  const handleDelete = async (): Promise<void> => {
+    if (!selectedImpulse) return
+    onChange({ reverbImpulse: 'parametric' })
+    await deleteImpulseResponse(selectedImpulse.id)
+    onImpulseDeleted(selectedImpulse.id)
+  }
+
+  const iconButtonClass = "size-7 text-gray-600 hover:text-gray-900 border-gray-300 hover:border-gray-400"
+
+  return (
+    <div className={cn("flex flex-col items-center space-y-6", className)}>
+      <div className="flex flex-col items-center gap-1">
+        <div className="flex items-center space-x-3 h-6">
+          <h4 className="text-gray-900 font-medium text-sm">Reverb</h4>
+          <select
+            value={effects.reverbImpulse}
+            onChange={(event) => onChange({ reverbImpulse: event.target.value as ReverbImpulseId })}
+            className="h-7 w-44 rounded-md border border-gray-300 bg-white px-1.5 text-xs text-gray-900 cursor-pointer outline-none focus:border-orange-400"
+            aria-label="Reverb impulse"
+          >
+            <option value="parametric">Parametric</option>
+            {isUnavailable && <option value={effects.reverbImpulse} disabled>Unavailable impulse</option>}
+            <optgroup label="Library">
+              {REVERB_LIBRARY.map(({ id, label }) => (
+                <option key={id} value={`library:${id}`}>{label}</option>
+              ))}
+            </optgroup>
+            {impulses.length > 0 && (
+              <optgroup label="My impulses">
+                {impulses.map(impulse => (
+                  <option key={impulse.id} value={impulse.id}>{impulse.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <Button
+            variant="outline"
+            size="icon"
+            className={iconButtonClass}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            aria-label="Load an impulse response file"
+            title={`Load impulse response (up to ${IMPULSE_CONFIG.MAX_FILE_DURATION}s)`}
+          >
+            <Upload className="w-3.5 h-3.5" />
+          </Button>
+          {selectedImpulse && (
+            <Button
+              variant="outline"
+              size="icon"
+              className={iconButtonClass}
+              onClick={handleDelete}
+              aria-label={`Delete impulse ${selectedImpulse.name}`}
+              title="Delete impulse"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*,.wav"
+            onChange={handleLoad}
+            className="hidden"
+          />
+        </div>
+        {isLoading && <p className="text-xs text-gray-500" role="status">Decoding impulse…</p>}
+        {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+      </div>
+
+      <div className="flex space-x-8">
+        <EffectSlider
+          label="Decay"
+          value={effects.reverbDecay}
+          min={EFFECT_LIMITS.reverbDecay.min}
+          max={EFFECT_LIMITS.reverbDecay.max}
+          step={0.1}
+          display={`${effects.reverbDecay.toFixed(1)}s`}
+          onChange={(reverbDecay) => onChange({ reverbDecay })}
+          disabled={!isParametric}
+          ariaLabel="Reverb decay time in seconds"
+        />
+        <EffectSlider
+          label="Pre-delay"
+          value={effects.reverbPreDelay}
+          min={EFFECT_LIMITS.reverbPreDelay.min}
+          max={EFFECT_LIMITS.reverbPreDelay.max}
+          step={1}
+          display={`${effects.reverbPreDelay}ms`}
+          onChange={(reverbPreDelay) => onChange({ reverbPreDelay })}
+          disabled={!isParametric}
+          ariaLabel="Reverb pre-delay in milliseconds"
+        />
+        <EffectSlider
+          label="Size"
+          value={effects.reverbSize}
+          min={EFFECT_LIMITS.reverbSize.min}
+          max={EFFECT_LIMITS.reverbSize.max}
+          step={1}
+          display={`${effects.reverbSize}%`}
+          onChange={(reverbSize) => onChange({ reverbSize })}
+          disabled={!isParametric}
+          ariaLabel="Reverb room size"
+        />
+        <EffectSlider
+          label="Damping"
+          value={effects.reverbDamping}
+          min={EFFECT_LIMITS.reverbDamping.min}
+          max={EFFECT_LIMITS.reverbDamping.max}
+          step={1}
+          display={`${effects.reverbDamping}%`}
+          onChange={(reverbDamping) => onChange({ reverbDamping })}
+          disabled={!isParametric}
+          ariaLabel="Reverb high-frequency damping"
+        />
+        <EffectSlider
+          label="Width"
+          value={effects.reverbWidth}
+          min={EFFECT_LIMITS.reverbWidth.min}
+          max={EFFECT_LIMITS.reverbWidth.max}
+          step={1}
+          display={`${effects.reverbWidth}%`}
+          onChange={(reverbWidth) => onChange({ reverbWidth })}
+          disabled={!isParametric}
+          ariaLabel="Reverb stereo width"
+        />
+      </div>
+    </div>
+  )
+}
+
+export { ReverbControls }
@@ -0,0 +1,109 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Clock, Link, Share } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { formatDuration } from '@/lib/track'
+import { cn } from '@/lib/utils'
+
+interface ShareMenuProps {
+  /** Builds the link to copy, with or without the playback position */
+  getLink: (includePosition: boolean) => string
+  currentTime: number
+  /** False for local files - links then carry the settings only */
+  isTrackShareable: boolean
+  className?: string
+}
+
+/** Milliseconds the copy confirmation stays visible */
+const COPIED_DURATION = 2000
+
+/**
+ * Share Menu
+ * Copies a link to the current track, loop and effect settings, optionally
+ * at the current playback position
+ */
+function ShareMenu({ getLink, currentTime, isTrackShareable, className }: ShareMenuProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close the menu on a click elsewhere
+  useEffect(() => {
+    if (!isOpen) return
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [isOpen])
+
+  // Clear the confirmation after a moment
+  useEffect(() => {
+    if (!status) return
+    const timeout = window.setTimeout(() => setStatus(null), COPIED_DURATION)
+    return () => window.clearTimeout(timeout)
+  }, [status])
+
+  /**
+   * Copies a link to the clipboard
+   */
+  const copyLink = useCallback(async (includePosition: boolean): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(getLink(includePosition))
+      setStatus(includePosition ? 'Timestamp link copied' : 'Link copied')
+      setIsOpen(false)
+    } catch (error) {
+      console.error('Failed to copy share link:', error)
+      setStatus('Could not copy the link')
+    }
+  }, [getLink])
+
+  const itemClass = "flex w-full items-center gap-2 px-3 py-1.5 text-left cursor-pointer hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-50"
+
+  return (
+    <div ref={containerRef} className={cn("relative", className)}>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(open => !open)}
+        className="text-gray-600 hover:text-gray-900"
+        aria-label="Share track"
+        aria-expanded={isOpen}
+      >
+        <Share className="w-5 h-5" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 z-20 mt-1 w-64 rounded-lg border border-gray-200 bg-white py-1 shadow-lg text-xs text-gray-700">
+          <button type="button" onClick={() => copyLink(false)} className={itemClass}>
+            <Link className="w-3.5 h-3.5" />
+            Copy link
+          </button>
+          <button
+            type="button"
+            onClick={() => copyLink(true)}
+            className={itemClass}
+            disabled={!isTrackShareable}
+          >
+            <Clock className="w-3.5 h-3.5" />
+            Copy link at {formatDuration(currentTime)}
+          </button>
+          {!isTrackShareable && (
+            <p className="px-3 pt-1 pb-0.5 text-gray-500">
+              Local files cannot be shared; the link carries the effect settings only.
+            </p>
+          )}
+        </div>
+      )}
+
+      {status && (
+        <p className="absolute top-full left-0 mt-1 whitespace-nowrap text-xs text-gray-500" role="status">
+          {status}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export { ShareMenu }
@@ -0,0 +1,341 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { Slider } from '@/components/ui/slider'
+import {
+  GRAPH_FREQUENCY_TICKS,
+  GRAPH_MAX_FREQUENCY,
+  GRAPH_MIN_FREQUENCY,
+  combinedResponseDb,
+  formatFrequency,
+  frequencyToPosition,
+  logFrequencies,
+  positionToFrequency
+} from '@/lib/audio/frequency-response'
+import { type EffectsChainNodes, getChainFilters } from '@/lib/audio/effects-chain'
+import { cn } from '@/lib/utils'
+
+/**
+ * Spectrum Display Constants
+ */
+const SPECTRUM_CONFIG = {
+  /** Bottom and top of the level scale in dBFS */
+  MIN_DB: -100,
+  MAX_DB: 0,
+  /** Level gridline spacing in dB */
+  DB_STEP: 20,
+  /** EQ overlay scale, ± dB around the vertical centre */
+  CURVE_RANGE_DB: 24,
+  /** Number of log-spaced bars in bar mode */
+  BAR_COUNT: 96,
+  /** Points on the EQ overlay curve */
+  CURVE_POINTS: 256,
+  /** How long a peak marker holds before it falls, in ms */
+  PEAK_HOLD_MS: 800,
+  /** Peak marker fall rate in dB per second */
+  PEAK_FALL_DB_PER_SECOND: 30,
+  /** Analyser sizes offered in the picker */
+  FFT_SIZES: [512, 1024, 2048, 4096, 8192, 16384] as const
+} as const
+
+type SpectrumMode = 'bars' | 'line'
+
+const COLORS = {
+  grid: 'rgba(156, 163, 175, 0.25)',
+  label: 'rgba(107, 114, 128, 0.9)',
+  bar: 'rgba(251, 146, 60, 0.85)',
+  peak: 'rgb(234, 88, 12)',
+  curve: 'rgb(37, 99, 235)',
+  curveFill: 'rgba(37, 99, 235, 0.08)'
+}
+
+interface SpectrumAnalyserProps {
+  /** Analyser at the end of the chain, null until the audio system is ready */
+  analyser: AnalyserNode | null
+  /** Effects chain whose EQ and filter response is overlaid; its EQ filters change with the band count */
+  chain: EffectsChainNodes | null
+  className?: string
+}
+
+/**
+ * Spectrum Analyser
+ * Log-frequency spectrum with peak hold, a dB scale and the EQ/filter response overlaid
+ */
+function SpectrumAnalyser({ analyser, chain, className }: SpectrumAnalyserProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [mode, setMode] = useState<SpectrumMode>('bars')
+  const [fftSize, setFftSize] = useState<number>(analyser?.fftSize ?? 2048)
+  const [smoothing, setSmoothing] = useState<number>(analyser?.smoothingTimeConstant ?? 0.8)
+  const [isPeakHoldEnabled, setIsPeakHoldEnabled] = useState<boolean>(true)
+  const [isCurveVisible, setIsCurveVisible] = useState<boolean>(true)
+
+  // Pick up the analyser's own settings once it exists
+  useEffect(() => {
+    if (!analyser) return
+    setFftSize(analyser.fftSize)
+    setSmoothing(analyser.smoothingTimeConstant)
+  }, [analyser])
+
+  // Runtime analyser configuration
+  useEffect(() => {
+    if (!analyser) return
+    analyser.fftSize = fftSize
+    analyser.smoothingTimeConstant = smoothing
+    analyser.minDecibels = SPECTRUM_CONFIG.MIN_DB
+    analyser.maxDecibels = SPECTRUM_CONFIG.MAX_DB
+  }, [analyser, fftSize, smoothing])
+
+  /**
+   * Render loop - reads the analyser every frame while mounted
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) return
+
+    const curveFrequencies = logFrequencies(SPECTRUM_CONFIG.CURVE_POINTS)
+    const peaks = new Float32Array(SPECTRUM_CONFIG.BAR_COUNT).fill(SPECTRUM_CONFIG.MIN_DB)
+    const peakTimes = new Float64Array(SPECTRUM_CONFIG.BAR_COUNT)
+    let spectrum = new Float32Array(analyser?.frequencyBinCount ?? 0)
+    let frameId = 0
+    let lastFrameTime = performance.now()
+
+    // Keep the backing store at device resolution
+    const resize = (): void => {
+      const ratio = window.devicePixelRatio || 1
+      canvas.width = Math.round(canvas.clientWidth * ratio)
+      canvas.height = Math.round(canvas.clientHeight * ratio)
+      context.setTransform(ratio, 0, 0, ratio, 0, 0)
+    }
+    const resizeObserver = new ResizeObserver(resize)
+    resizeObserver.observe(canvas)
+    resize()
+
+    const dbToY = (db: number, height: number): number => {
+      const clamped = Math.min(Math.max(db, SPECTRUM_CONFIG.MIN_DB), SPECTRUM_CONFIG.MAX_DB)
+      return height * (SPECTRUM_CONFIG.MAX_DB - clamped) / (SPECTRUM_CONFIG.MAX_DB - SPECTRUM_CONFIG.MIN_DB)
+    }
+
+    const drawGrid = (width: number, height: number): void => {
+      context.strokeStyle = COLORS.grid
+      context.fillStyle = COLORS.label
+      context.font = '10px ui-sans-serif, system-ui, sans-serif'
+      context.lineWidth = 1
+
+      context.textAlign = 'center'
+      context.textBaseline = 'bottom'
+      GRAPH_FREQUENCY_TICKS.forEach(frequency => {
+        const x = Math.round(frequencyToPosition(frequency) * width) + 0.5
+        context.beginPath()
+        context.moveTo(x, 0)
+        context.lineTo(x, height)
+        context.stroke()
+        context.fillText(formatFrequency(frequency), x, height - 2)
+      })
+
+      context.textAlign = 'left'
+      context.textBaseline = 'top'
+      for (let db = SPECTRUM_CONFIG.MAX_DB; db > SPECTRUM_CONFIG.MIN_DB; db -= SPECTRUM_CONFIG.DB_STEP) {
+        const y = Math.round(dbToY(db, height)) + 0.5
+        context.beginPath()
+        context.moveTo(0, y)
+        context.lineTo(width, y)
+        context.stroke()
+        context.fillText(`${db} dB`, 4, y + 2)
+      }
+    }
+
+    const drawBars = (width: number, height: number, binWidth: number, now: number, elapsed: number): void => {
+      const barWidth = width / SPECTRUM_CONFIG.BAR_COUNT
+      const lastBin = spectrum.length - 1
+
+      for (let bar = 0; bar < SPECTRUM_CONFIG.BAR_COUNT; bar++) {
+        const lowFrequency = positionToFrequency(bar / SPECTRUM_CONFIG.BAR_COUNT)
+        const highFrequency = positionToFrequency((bar + 1) / SPECTRUM_CONFIG.BAR_COUNT)
+        const lowBin = Math.min(lastBin, Math.max(1, Math.floor(lowFrequency / binWidth)))
+        const highBin = Math.min(lastBin, Math.max(lowBin, Math.ceil(highFrequency / binWidth) - 1))
+
+        // Loudest bin in the band; narrow low bands share a bin with their neighbours
+        let level: number = SPECTRUM_CONFIG.MIN_DB
+        for (let bin = lowBin; bin <= highBin; bin++) {
+          level = Math.max(level, spectrum[bin])
+        }
+
+        const x = bar * barWidth
+        const y = dbToY(level, height)
+        context.fillStyle = COLORS.bar
+        context.fillRect(x + 0.5, y, Math.max(1, barWidth - 1), height - y)
+
+        if (isPeakHoldEnabled) {
+          if (level >= peaks[bar]) {
+            peaks[bar] = level
+            peakTimes[bar] = now
+          } else if (now - peakTimes[bar] > SPECTRUM_CONFIG.PEAK_HOLD_MS) {
+            peaks[bar] = Math.max(level, peaks[bar] - SPECTRUM_CONFIG.PEAK_FALL_DB_PER_SECOND * elapsed / 1000)
+          }
+          if (peaks[bar] > SPECTRUM_CONFIG.MIN_DB) {
+            context.fillStyle = COLORS.peak
+            context.fillRect(x + 0.5, dbToY(peaks[bar], height) - 1, Math.max(1, barWidth - 1), 2)
+          }
+        }
+      }
+    }
+
+    const drawLine = (width: number, height: number, binWidth: number): void => {
+      context.strokeStyle = COLORS.peak
+      context.lineWidth = 1.5
+      context.beginPath()
+      let isFirstPoint = true
+      for (let bin = 1; bin < spectrum.length; bin++) {
+        const frequency = bin * binWidth
+        if (frequency < GRAPH_MIN_FREQUENCY) continue
+        if (frequency > GRAPH_MAX_FREQUENCY) break
+        const x = frequencyToPosition(frequency) * width
+        const y = dbToY(spectrum[bin], height)
+        if (isFirstPoint) context.moveTo(x, y)
+        else context.lineTo(x, y)
+        isFirstPoint = false
+      }
+      context.stroke()
+    }
+
+    const drawCurve = (width: number, height: number, filters: BiquadFilterNode[]): void => {
+      const response = combinedResponseDb(filters, curveFrequencies)
+      const range = SPECTRUM_CONFIG.CURVE_RANGE_DB
+      const curveY = (db: number): number => height / 2 - (Math.max(-range, Math.min(range, db)) / range) * (height / 2)
+
+      context.beginPath()
+      response.forEach((db, index) => {
+        const x = (index / (response.length - 1)) * width
+        if (index === 0) context.moveTo(x, curveY(db))
+        else context.lineTo(x, curveY(db))
+      })
+      context.strokeStyle = COLORS.curve
+      context.lineWidth = 2
+      context.stroke()
+
+      // Shade between the curve and 0 dB
+      context.lineTo(width, height / 2)
+      context.lineTo(0, height / 2)
+      context.closePath()
+      context.fillStyle = COLORS.curveFill
+      context.fill()
+
+      context.fillStyle = COLORS.curve
+      context.textAlign = 'right'
+      context.textBaseline = 'top'
+      context.fillText(`+${range} dB`, width - 4, 2)
+      context.textBaseline = 'middle'
+      context.fillText('0 dB', width - 4, height / 2)
+      context.textBaseline = 'bottom'
+      context.fillText(`-${range} dB`, width - 4, height - 12)
+    }
+
+    const render = (now: number): void => {
+      const width = canvas.clientWidth
+      const height = canvas.clientHeight
+      const elapsed = now - lastFrameTime
+      lastFrameTime = now
+
+      context.clearRect(0, 0, width, height)
+      drawGrid(width, height)
+
+      if (analyser) {
+        // FFT size can change at runtime
+        if (spectrum.length !== analyser.frequencyBinCount) {
+          spectrum = new Float32Array(analyser.frequencyBinCount)
+        }
+        analyser.getFloatFrequencyData(spectrum)
+        const binWidth = analyser.context.sampleRate / analyser.fftSize
+
+        if (mode === 'bars') {
+          drawBars(width, height, binWidth, now, elapsed)
+        } else {
+          drawLine(width, height, binWidth)
+        }
+      }
+
+      if (isCurveVisible && chain) {
+        drawCurve(width, height, getChainFilters(chain))
+      }
+
+      frameId = requestAnimationFrame(render)
+    }
+    frameId = requestAnimationFrame(render)
+
+    return () => {
+      cancelAnimationFrame(frameId)
+      resizeObserver.disconnect()
+    }
+  }, [analyser, chain, mode, isPeakHoldEnabled, isCurveVisible])
+
+  const selectClass = "h-7 rounded-md border border-gray-300 bg-white px-2 text-xs text-gray-900 cursor-pointer outline-none focus:border-orange-400"
+
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      <div className="flex flex-wrap items-center justify-end gap-4 text-xs text-gray-700">
+        <label className="flex items-center gap-2">
+          View
+          <select value={mode} onChange={(event) => setMode(event.target.value as SpectrumMode)} className={selectClass}>
+            <option value="bars">Bars</option>
+            <option value="line">Line</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          FFT size
+          <select
+            value={fftSize}
+            onChange={(event) => setFftSize(Number(event.target.value))}
+            disabled={!analyser}
+            className={selectClass}
+          >
+            {SPECTRUM_CONFIG.FFT_SIZES.map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center gap-2">
+          <span>Smoothing</span>
+          <Slider
+            value={[smoothing]}
+            min={0}
+            max={0.95}
+            step={0.05}
+            onValueChange={(value) => setSmoothing(value[0])}
+            disabled={!analyser}
+            className="w-24"
+            aria-label="Analyser smoothing"
+          />
+          <span className="w-8 text-gray-600">{smoothing.toFixed(2)}</span>
+        </div>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isPeakHoldEnabled}
+            onChange={(event) => setIsPeakHoldEnabled(event.target.checked)}
+            disabled={mode !== 'bars'}
+            className="accent-orange-500"
+          />
+          Peak hold
+        </label>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isCurveVisible}
+            onChange={(event) => setIsCurveVisible(event.target.checked)}
+            className="accent-blue-600"
+          />
+          EQ curve
+        </label>
+      </div>
+      <canvas
+        ref={canvasRef}
+        className="h-48 w-full rounded-lg border border-gray-200 bg-white"
+        role="img"
+        aria-label="Frequency spectrum with EQ and filter response"
+      />
+    </div>
+  )
+}
+
+export { SpectrumAnalyser }
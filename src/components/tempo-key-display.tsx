@@ -0,0 +1,82 @@
+"use client"
+
+import { Activity, Magnet } from 'lucide-react'
+import { type SnapUnit, type TrackAnalysis, formatKey, toCamelot } from '@/lib/analysis'
+import { cn } from '@/lib/utils'
+
+interface TempoKeyDisplayProps {
+  analysis: TrackAnalysis | null
+  isAnalysing: boolean
+  /** Playback speed, so the tempo heard can be shown next to the detected one */
+  speed: number
+  snapUnit: SnapUnit | 'off'
+  onSnapUnitChange: (unit: SnapUnit | 'off') => void
+  className?: string
+}
+
+const SNAP_OPTIONS: { unit: SnapUnit | 'off'; label: string; description: string }[] = [
+  { unit: 'off', label: 'Off', description: 'Seek and loop anywhere' },
+  { unit: 'beat', label: 'Beat', description: 'Snap seeks and loop edges to the nearest beat' },
+  { unit: 'bar', label: 'Bar', description: 'Snap seeks and loop edges to the nearest bar' }
+]
+
+/**
+ * Rounds a tempo for display, keeping one decimal only when it matters
+ */
+function formatBpm(bpm: number): string {
+  return Number.isInteger(Math.round(bpm * 10) / 10) ? `${Math.round(bpm)}` : bpm.toFixed(1)
+}
+
+/**
+ * Tempo and Key Display
+ * Shows the detected BPM and key (with its Camelot code) of the current track,
+ * and picks whether seeks and loop edges snap to its beat grid
+ */
+function TempoKeyDisplay({ analysis, isAnalysing, speed, snapUnit, onSnapUnitChange, className }: TempoKeyDisplayProps) {
+  const tempo = analysis?.tempo ?? null
+  const key = analysis?.key ?? null
+
+  const details = isAnalysing
+    ? 'Analysing tempo and key…'
+    : [
+        tempo && `${formatBpm(tempo.bpm)} BPM${speed !== 1 ? ` (${formatBpm(tempo.bpm * speed)} at ${speed}×)` : ''}`,
+        key && `${formatKey(key)} (${toCamelot(key)})`
+      ].filter(Boolean).join(' • ') || (analysis ? 'No steady tempo or key found' : '')
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-3 text-sm text-gray-600", className)}>
+      {details && (
+        <span className="flex items-center gap-1.5" role="status">
+          <Activity className={cn("w-4 h-4", isAnalysing ? "text-gray-400 animate-pulse" : "text-orange-500")} />
+          {details}
+        </span>
+      )}
+
+      {tempo && (
+        <div className="flex items-center gap-1.5 text-xs">
+          <Magnet className="w-3.5 h-3.5 text-gray-500" />
+          <div className="flex rounded-md border border-gray-300 overflow-hidden" role="radiogroup" aria-label="Snap to beat grid">
+            {SNAP_OPTIONS.map(({ unit, label, description }) => (
+              <button
+                key={unit}
+                type="button"
+                role="radio"
+                aria-checked={snapUnit === unit}
+                onClick={() => onSnapUnitChange(unit)}
+                className={cn(
+                  "px-2 py-0.5 cursor-pointer",
+                  snapUnit === unit ? "bg-orange-500 text-white" : "bg-white text-gray-700 hover:bg-gray-100"
+                )}
+                title={description}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export { TempoKeyDisplay }
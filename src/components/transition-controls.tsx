@@ -0,0 +1,68 @@
+"use client"
+
+import { Slider } from '@/components/ui/slider'
+import { type TrackTransition, type TransitionMode, CROSSFADE_LIMITS } from '@/lib/audio/engine'
+import { cn } from '@/lib/utils'
+
+interface TransitionControlsProps {
+  transition: TrackTransition
+  onChange: (transition: TrackTransition) => void
+  className?: string
+}
+
+const TRANSITION_MODES: { mode: TransitionMode; label: string; description: string }[] = [
+  { mode: 'off', label: 'Off', description: 'Stop between tracks' },
+  { mode: 'gapless', label: 'Gapless', description: 'Join tracks without a gap, for live albums and mixes' },
+  { mode: 'crossfade', label: 'Crossfade', description: 'Fade each track into the next' }
+]
+
+/**
+ * Transition Controls
+ * Chooses how one queued track leads into the next: a stop, a gapless join or
+ * a crossfade of adjustable length
+ */
+function TransitionControls({ transition, onChange, className }: TransitionControlsProps) {
+  return (
+    <div className={cn("rounded-lg border border-gray-200 bg-white/80 px-3 py-2", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-gray-900">Transitions</h3>
+        <div className="flex rounded-md border border-gray-300 overflow-hidden text-xs" role="radiogroup" aria-label="Track transition">
+          {TRANSITION_MODES.map(({ mode, label, description }) => (
+            <button
+              key={mode}
+              type="button"
+              role="radio"
+              aria-checked={transition.mode === mode}
+              onClick={() => onChange({ ...transition, mode })}
+              className={cn(
+                "px-2 py-1 cursor-pointer",
+                transition.mode === mode ? "bg-orange-500 text-white" : "bg-white text-gray-700 hover:bg-gray-100"
+              )}
+              title={description}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {transition.mode === 'crossfade' && (
+        <div className="mt-2 flex items-center gap-3 text-xs text-gray-700">
+          <span className="flex-shrink-0">Length</span>
+          <Slider
+            value={[transition.crossfadeDuration]}
+            onValueChange={(values) => onChange({ ...transition, crossfadeDuration: values[0] })}
+            min={CROSSFADE_LIMITS.min}
+            max={CROSSFADE_LIMITS.max}
+            step={0.5}
+            className="flex-1"
+            aria-label="Crossfade length"
+          />
+          <span className="w-8 text-right tabular-nums">{transition.crossfadeDuration}s</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export { TransitionControls }
@@ -0,0 +1,788 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Crosshair, Maximize2, ZoomIn, ZoomOut } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { type AudioEngine } from '@/lib/audio/engine'
+import { type GridLine, type SnapUnit, type TempoEstimate, TEMPO_CONFIG, getGridLines, snapToGrid } from '@/lib/analysis'
+import { type LoopRegion, createLoopRegion, moveLoopEdge } from '@/lib/loop'
+import { type Track } from '@/lib/track'
+import {
+  type PeakLevel,
+  type WaveformPeaks,
+  type WaveformViewport,
+  VIEWPORT_CONFIG,
+  clampViewport,
+  fitViewport,
+  followPlayhead,
+  formatWaveformTime,
+  getLoudestPeak,
+  getMinSpan,
+  getPeakWindowRange,
+  getRulerStep,
+  getTimePrecision,
+  loadPeakWindow,
+  peakWindowCovers,
+  selectPeakLevelForScale,
+  zoomViewport
+} from '@/lib/waveform'
+import { cn } from '@/lib/utils'
+
+/**
+ * Waveform Display Constants
+ */
+const WAVEFORM_CONFIG = {
+  /** Height of the time ruler along the top, in CSS pixels - dragging it scrubs */
+  RULER_HEIGHT: 16,
+  /** Pointer travel in CSS pixels before a press on the waveform becomes a loop drag */
+  DRAG_THRESHOLD: 4,
+  /** Distance in CSS pixels within which a press grabs a loop edge or the playhead */
+  HANDLE_HIT_WIDTH: 6,
+  /** Shortest gap between seeks while scrubbing, in ms - each plays a short slice under the pointer */
+  SCRUB_SEEK_INTERVAL: 40,
+  /** Narrowest gap between beat or bar lines that is still drawn, in CSS pixels */
+  MIN_GRID_SPACING: 6,
+  /** Wheel travel in pixels that zooms by a factor of two */
+  WHEEL_ZOOM_DISTANCE: 200,
+  /** Seconds the arrow keys seek by */
+  KEY_SEEK_STEP: 5,
+  /** Rate the viewport assumes before the peaks arrive */
+  FALLBACK_SAMPLE_RATE: 44100,
+  /** Finest peak resolution the viewport assumes before the peaks arrive */
+  FALLBACK_SAMPLES_PER_PEAK: 32
+} as const
+
+const COLORS = {
+  ruler: 'rgba(229, 231, 235, 0.8)',
+  rulerTick: 'rgba(156, 163, 175, 0.9)',
+  label: 'rgba(75, 85, 99, 0.9)',
+  peak: 'rgba(209, 213, 219, 0.9)',
+  rms: 'rgba(156, 163, 175, 0.9)',
+  playedPeak: 'rgb(253, 186, 116)',
+  playedRms: 'rgb(249, 115, 22)',
+  centre: 'rgba(156, 163, 175, 0.6)',
+  barLine: 'rgba(156, 163, 175, 0.5)',
+  beatLine: 'rgba(209, 213, 219, 0.5)',
+  loopFill: 'rgba(251, 146, 60, 0.15)',
+  loopEdge: 'rgb(249, 115, 22)',
+  loopLabel: 'rgb(234, 88, 12)',
+  hover: 'rgba(55, 65, 81, 0.45)',
+  playhead: 'rgb(234, 88, 12)'
+}
+
+/**
+ * What a press on the waveform does
+ * - scrub: follows the pointer with playback (ruler or playhead)
+ * - select: draws a new loop, or seeks when released without moving
+ * - start / end: moves that loop edge
+ */
+type WaveformDragMode = 'scrub' | 'select' | 'start' | 'end'
+
+interface WaveformDrag {
+  mode: WaveformDragMode
+  startX: number
+  /** Snapped time under the press, where a loop selection starts */
+  anchorTime: number
+  hasMoved: boolean
+  /** Whether playback was running before a scrub started it */
+  wasPlaying: boolean
+  /** Playback a scrub started, which may still be resuming the context when it ends */
+  playback: Promise<void> | null
+  /** performance.now() of the last scrub seek */
+  lastSeekAt: number
+}
+
+interface WaveformHover {
+  x: number
+  time: number
+  mode: WaveformDragMode
+}
+
+/**
+ * Everything the render loop reads, refreshed after every render
+ */
+interface WaveformRenderState {
+  engine: AudioEngine | null
+  peaks: WaveformPeaks | null
+  /** Detail peaks around the view, when zoomed in past the whole levels */
+  peakWindow: PeakLevel | null
+  loudest: number
+  duration: number
+  viewport: WaveformViewport
+  loopRegion: LoopRegion | null
+  gridLines: GridLine[]
+  beatInterval: number
+  isFollowing: boolean
+  hoverX: number | null
+}
+
+interface WaveformViewProps {
+  engine: AudioEngine | null
+  /** Track the peaks belong to, for loading detail peaks when zoomed in */
+  track: Track | null
+  /** Peaks of the current track, null while they load */
+  peaks: WaveformPeaks | null
+  duration: number
+  currentTime: number
+  loopRegion: LoopRegion | null
+  onLoopRegionChange: (loop: LoopRegion | null) => void
+  /** Detected beat grid, drawn under the waveform */
+  tempo: TempoEstimate | null
+  /** Grid unit seeks and loop edges snap to */
+  snapUnit: SnapUnit | 'off'
+  className?: string
+}
+
+/**
+ * Waveform View
+ * Canvas waveform that zooms from the whole track down to a few samples per
+ * pixel at any track length, loading detail peaks for the view as it goes,
+ * scrolls, and follows the playhead. Click to seek, drag to set an A-B
+ * loop, and drag the ruler or playhead to scrub with sound.
+ *
+ * The waveform and grid are drawn into offscreen layers only when the view
+ * changes; each animation frame just composites them with the playhead, so
+ * long tracks cost the same as short ones.
+ */
+function WaveformView({
+  engine,
+  track,
+  peaks,
+  duration,
+  currentTime,
+  loopRegion,
+  onLoopRegionChange,
+  tempo,
+  snapUnit,
+  className
+}: WaveformViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const dragRef = useRef<WaveformDrag | null>(null)
+  const [width, setWidth] = useState<number>(0)
+  const [viewport, setViewport] = useState<WaveformViewport>(() => fitViewport(duration))
+  const [isFollowing, setIsFollowing] = useState<boolean>(true)
+  const [hover, setHover] = useState<WaveformHover | null>(null)
+  const [isScrubbing, setIsScrubbing] = useState<boolean>(false)
+  const [loadedWindow, setLoadedWindow] = useState<{ peaks: WaveformPeaks; level: PeakLevel } | null>(null)
+
+  const sampleRate = peaks?.sampleRate ?? WAVEFORM_CONFIG.FALLBACK_SAMPLE_RATE
+  const finestPeak = peaks?.detailLevels[0]?.samplesPerPeak ?? peaks?.levels[0]?.samplesPerPeak ?? WAVEFORM_CONFIG.FALLBACK_SAMPLES_PER_PEAK
+  const minSpan = getMinSpan(width, finestPeak, sampleRate)
+  const peakWindow = loadedWindow?.peaks === peaks ? loadedWindow.level : null
+  const loudest = useMemo(() => (peaks ? getLoudestPeak(peaks) : 0), [peaks])
+  const gridLines = useMemo(() => (tempo && duration > 0 ? getGridLines(tempo, duration) : []), [tempo, duration])
+  const hasPeaks = peaks !== null
+  const isZoomed = duration > 0 && viewport.span < duration
+
+  const renderStateRef = useRef<WaveformRenderState>({
+    engine,
+    peaks,
+    peakWindow,
+    loudest,
+    duration,
+    viewport,
+    loopRegion,
+    gridLines,
+    beatInterval: tempo ? 60 / tempo.bpm : 0,
+    isFollowing,
+    hoverX: null
+  })
+
+  useEffect(() => {
+    renderStateRef.current = {
+      engine,
+      peaks,
+      peakWindow,
+      loudest,
+      duration,
+      viewport,
+      loopRegion,
+      gridLines,
+      beatInterval: tempo ? 60 / tempo.bpm : 0,
+      isFollowing,
+      hoverX: hover && !dragRef.current ? hover.x : null
+    }
+  })
+
+  // A new track starts zoomed out
+  useEffect(() => {
+    setViewport(fitViewport(duration))
+  }, [duration, hasPeaks])
+
+  // Keep the view valid as the canvas resizes
+  useEffect(() => {
+    setViewport(prev => clampViewport(prev, duration, minSpan))
+  }, [duration, minSpan])
+
+  /**
+   * Loads the detail peaks under the view when it is zoomed in past the whole
+   * levels; the finest whole level is drawn until they arrive
+   */
+  useEffect(() => {
+    if (!track || !peaks) return
+    const columns = Math.round(width * (window.devicePixelRatio || 1))
+    const range = getPeakWindowRange(peaks, viewport.start, viewport.span, columns)
+    if (!range || (peakWindow && peakWindowCovers(peakWindow, range))) return
+
+    let isCancelled = false
+    loadPeakWindow(track, range.samplesPerPeak, range.firstPeak, range.endPeak)
+      .then(loaded => {
+        if (!isCancelled) setLoadedWindow({ peaks, level: loaded })
+      })
+      .catch(error => {
+        console.warn('Failed to load detail peaks:', error)
+      })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [track, peaks, viewport, width, peakWindow])
+
+  /**
+   * Render loop - composites the cached layers with the loop, hover line and
+   * playhead every frame, and turns the page when following the playhead
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) return
+
+    const baseLayer = document.createElement('canvas')
+    const playedLayer = document.createElement('canvas')
+    let layerInputs: unknown[] = []
+    let frameId = 0
+    let ratio = 1
+
+    // Keep the backing stores at device resolution
+    const resize = (): void => {
+      ratio = window.devicePixelRatio || 1
+      for (const target of [canvas, baseLayer, playedLayer]) {
+        target.width = Math.round(canvas.clientWidth * ratio)
+        target.height = Math.round(canvas.clientHeight * ratio)
+      }
+      layerInputs = []
+      setWidth(canvas.clientWidth)
+    }
+    const resizeObserver = new ResizeObserver(resize)
+    resizeObserver.observe(canvas)
+    resize()
+
+    const drawRuler = (layer: CanvasRenderingContext2D, view: WaveformViewport, layerWidth: number): void => {
+      const { RULER_HEIGHT } = WAVEFORM_CONFIG
+      layer.fillStyle = COLORS.ruler
+      layer.fillRect(0, 0, layerWidth, RULER_HEIGHT)
+      if (view.span <= 0) return
+
+      const step = getRulerStep(view.span, layerWidth)
+      const precision = getTimePrecision(step)
+      layer.strokeStyle = COLORS.rulerTick
+      layer.fillStyle = COLORS.label
+      layer.font = '10px ui-sans-serif, system-ui, sans-serif'
+      layer.textAlign = 'left'
+      layer.textBaseline = 'middle'
+      layer.lineWidth = 1
+
+      // Whole multiples of the step, so labels do not pick up float drift
+      const last = Math.floor((view.start + view.span) / step)
+      for (let index = Math.ceil(view.start / step); index <= last; index++) {
+        const time = index * step
+        const x = Math.round(((time - view.start) / view.span) * layerWidth) + 0.5
+        layer.beginPath()
+        layer.moveTo(x, RULER_HEIGHT - 5)
+        layer.lineTo(x, RULER_HEIGHT)
+        layer.stroke()
+        layer.fillText(formatWaveformTime(time, precision), x + 3, RULER_HEIGHT / 2 - 1)
+      }
+    }
+
+    const drawGrid = (layer: CanvasRenderingContext2D, state: WaveformRenderState, layerWidth: number, layerHeight: number): void => {
+      const { viewport: view, gridLines: lines, beatInterval } = state
+      if (lines.length === 0 || view.span <= 0) return
+
+      const beatSpacing = (beatInterval / view.span) * layerWidth
+      const showBeats = beatSpacing >= WAVEFORM_CONFIG.MIN_GRID_SPACING
+      if (beatSpacing * TEMPO_CONFIG.BEATS_PER_BAR < WAVEFORM_CONFIG.MIN_GRID_SPACING) return
+
+      layer.lineWidth = 1
+      for (const line of lines) {
+        if (line.time < view.start || line.time > view.start + view.span) continue
+        if (!line.isBar && !showBeats) continue
+        const x = Math.round(((line.time - view.start) / view.span) * layerWidth) + 0.5
+        layer.strokeStyle = line.isBar ? COLORS.barLine : COLORS.beatLine
+        layer.beginPath()
+        layer.moveTo(x, WAVEFORM_CONFIG.RULER_HEIGHT)
+        layer.lineTo(x, layerHeight)
+        layer.stroke()
+      }
+    }
+
+    /**
+     * Min/max envelope with the RMS body inside it, one column per device pixel
+     */
+    const drawPeaks = (
+      layer: CanvasRenderingContext2D,
+      state: WaveformRenderState,
+      layerWidth: number,
+      layerHeight: number,
+      colors: { peak: string; rms: string }
+    ): void => {
+      const { peaks: trackPeaks, viewport: view } = state
+      const top = WAVEFORM_CONFIG.RULER_HEIGHT + 2
+      const centre = (top + layerHeight - 2) / 2
+      const half = (layerHeight - 2 - top) / 2
+
+      if (!trackPeaks || state.loudest <= 0 || view.span <= 0) {
+        layer.fillStyle = COLORS.centre
+        layer.fillRect(0, centre - 0.5, layerWidth, 1)
+        return
+      }
+
+      const columns = Math.round(layerWidth * ratio)
+      const columnWidth = 1 / ratio
+      const samplesPerColumn = (view.span * trackPeaks.sampleRate) / columns
+      const range = getPeakWindowRange(trackPeaks, view.start, view.span, columns)
+      const level = state.peakWindow && range && peakWindowCovers(state.peakWindow, range)
+        ? state.peakWindow
+        : selectPeakLevelForScale(trackPeaks, samplesPerColumn)
+      const levelEnd = level.offset + level.min.length
+      const scale = half / state.loudest
+      const firstSample = view.start * trackPeaks.sampleRate
+      const peakPath = new Path2D()
+      const rmsPath = new Path2D()
+
+      for (let column = 0; column < columns; column++) {
+        const startSample = firstSample + column * samplesPerColumn
+        const first = Math.max(level.offset, Math.floor(startSample / level.samplesPerPeak))
+        if (first >= levelEnd) break
+        const end = Math.min(levelEnd, Math.max(first + 1, Math.floor((startSample + samplesPerColumn) / level.samplesPerPeak)))
+
+        let low = 0
+        let high = 0
+        let sumOfSquares = 0
+        for (let i = first - level.offset; i < end - level.offset; i++) {
+          if (level.min[i] < low) low = level.min[i]
+          if (level.max[i] > high) high = level.max[i]
+          sumOfSquares += level.rms[i] * level.rms[i]
+        }
+        const rms = Math.sqrt(sumOfSquares / (end - first))
+
+        const x = column * columnWidth
+        const peakTop = centre - high * scale
+        const peakHeight = Math.max(columnWidth, (high - low) * scale)
+        peakPath.rect(x, peakTop, columnWidth, peakHeight)
+
+        // The body never pokes out of the envelope, which is lopsided for asymmetric waves
+        const rmsTop = Math.max(peakTop, centre - rms * scale)
+        const rmsBottom = Math.min(peakTop + peakHeight, centre + rms * scale)
+        if (rmsBottom > rmsTop) rmsPath.rect(x, rmsTop, columnWidth, rmsBottom - rmsTop)
+      }
+
+      layer.fillStyle = colors.peak
+      layer.fill(peakPath)
+      layer.fillStyle = colors.rms
+      layer.fill(rmsPath)
+    }
+
+    /**
+     * Redraws the offscreen layers when anything they show has changed
+     */
+    const updateLayers = (state: WaveformRenderState, layerWidth: number, layerHeight: number): void => {
+      const inputs = [state.peaks, state.peakWindow, state.loudest, state.viewport.start, state.viewport.span, state.gridLines, layerWidth, layerHeight, ratio]
+      if (inputs.length === layerInputs.length && inputs.every((input, index) => input === layerInputs[index])) return
+      layerInputs = inputs
+
+      const base = baseLayer.getContext('2d')
+      const played = playedLayer.getContext('2d')
+      if (!base || !played) return
+
+      for (const layer of [base, played]) {
+        layer.setTransform(ratio, 0, 0, ratio, 0, 0)
+        layer.clearRect(0, 0, layerWidth, layerHeight)
+      }
+      drawRuler(base, state.viewport, layerWidth)
+      drawGrid(base, state, layerWidth, layerHeight)
+      drawPeaks(base, state, layerWidth, layerHeight, { peak: COLORS.peak, rms: COLORS.rms })
+      drawPeaks(played, state, layerWidth, layerHeight, { peak: COLORS.playedPeak, rms: COLORS.playedRms })
+    }
+
+    const drawLoop = (loop: LoopRegion, view: WaveformViewport, layerWidth: number, layerHeight: number): void => {
+      const top = WAVEFORM_CONFIG.RULER_HEIGHT
+      const startX = ((loop.start - view.start) / view.span) * layerWidth
+      const endX = ((loop.end - view.start) / view.span) * layerWidth
+      if (endX < 0 || startX > layerWidth) return
+
+      context.fillStyle = COLORS.loopFill
+      context.fillRect(startX, top, endX - startX, layerHeight - top)
+      context.fillStyle = COLORS.loopEdge
+      context.fillRect(startX - 1, top, 2, layerHeight - top)
+      context.fillRect(endX - 1, top, 2, layerHeight - top)
+
+      context.fillStyle = COLORS.loopLabel
+      context.font = '600 10px ui-sans-serif, system-ui, sans-serif'
+      context.textBaseline = 'top'
+      context.textAlign = 'left'
+      context.fillText('A', startX + 3, top + 2)
+      context.textAlign = 'right'
+      context.fillText('B', endX - 3, top + 2)
+    }
+
+    const render = (): void => {
+      const state = renderStateRef.current
+      const layerWidth = canvas.clientWidth
+      const layerHeight = canvas.clientHeight
+      const time = state.engine?.currentTime ?? 0
+
+      // Follow the playhead onto the next page while playing - not while scrubbing, or the view would run away from the pointer
+      if (state.isFollowing && !dragRef.current && state.engine?.state === 'playing' && state.duration > 0) {
+        const next = followPlayhead(state.viewport, time, state.duration)
+        if (next !== state.viewport) {
+          state.viewport = next
+          setViewport(next)
+        }
+      }
+
+      updateLayers(state, layerWidth, layerHeight)
+      context.setTransform(ratio, 0, 0, ratio, 0, 0)
+      context.clearRect(0, 0, layerWidth, layerHeight)
+      context.drawImage(baseLayer, 0, 0, layerWidth, layerHeight)
+
+      const { viewport: view } = state
+      if (view.span > 0) {
+        const playheadX = ((time - view.start) / view.span) * layerWidth
+
+        // Played part in colour
+        if (playheadX > 0) {
+          context.save()
+          context.beginPath()
+          context.rect(0, 0, Math.min(playheadX, layerWidth), layerHeight)
+          context.clip()
+          context.drawImage(playedLayer, 0, 0, layerWidth, layerHeight)
+          context.restore()
+        }
+
+        if (state.loopRegion) drawLoop(state.loopRegion, view, layerWidth, layerHeight)
+
+        if (state.hoverX !== null) {
+          context.fillStyle = COLORS.hover
+          context.fillRect(Math.round(state.hoverX), WAVEFORM_CONFIG.RULER_HEIGHT, 1, layerHeight - WAVEFORM_CONFIG.RULER_HEIGHT)
+        }
+
+        if (playheadX >= -1 && playheadX <= layerWidth + 1) {
+          context.fillStyle = COLORS.playhead
+          context.fillRect(playheadX - 1, 0, 2, layerHeight)
+        }
+      }
+
+      frameId = requestAnimationFrame(render)
+    }
+    frameId = requestAnimationFrame(render)
+
+    return () => {
+      cancelAnimationFrame(frameId)
+      resizeObserver.disconnect()
+    }
+  }, [])
+
+  /**
+   * Converts a pointer position to a track time in the current view
+   */
+  const getPointerTime = useCallback((clientX: number): { x: number; time: number } => {
+    const rect = canvasRef.current?.getBoundingClientRect()
+    if (!rect || rect.width <= 0) return { x: 0, time: 0 }
+    const x = Math.min(Math.max(clientX - rect.left, 0), rect.width)
+    return { x, time: Math.min(duration, viewport.start + (x / rect.width) * viewport.span) }
+  }, [duration, viewport])
+
+  /**
+   * Moves a time to the beat grid when snapping is on
+   */
+  const snapTime = useCallback((time: number): number => {
+    return tempo && snapUnit !== 'off' && duration > 0 ? snapToGrid(time, tempo, snapUnit, duration) : time
+  }, [tempo, snapUnit, duration])
+
+  /**
+   * What a press at this point would do - loop edges move, the ruler and playhead scrub
+   * Edges win over the playhead, which often sits on A after a loop wraps
+   */
+  const getPressMode = useCallback((x: number, y: number): WaveformDragMode => {
+    const { HANDLE_HIT_WIDTH, RULER_HEIGHT } = WAVEFORM_CONFIG
+    const toX = (time: number): number => ((time - viewport.start) / viewport.span) * width
+    if (y < RULER_HEIGHT) return 'scrub'
+    if (loopRegion && Math.abs(x - toX(loopRegion.start)) <= HANDLE_HIT_WIDTH) return 'start'
+    if (loopRegion && Math.abs(x - toX(loopRegion.end)) <= HANDLE_HIT_WIDTH) return 'end'
+    if (engine && Math.abs(x - toX(engine.currentTime)) <= HANDLE_HIT_WIDTH) return 'scrub'
+    return 'select'
+  }, [engine, loopRegion, viewport, width])
+
+  /**
+   * Starts a scrub, a loop selection or a loop edge drag
+   */
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>): void => {
+    if (event.button !== 0 || duration <= 0) return
+    const { x, time } = getPointerTime(event.clientX)
+    const mode = getPressMode(x, event.clientY - event.currentTarget.getBoundingClientRect().top)
+    const wasPlaying = engine?.state === 'playing'
+
+    const drag: WaveformDrag = {
+      mode,
+      startX: event.clientX,
+      anchorTime: snapTime(time),
+      hasMoved: false,
+      wasPlaying,
+      lastSeekAt: performance.now(),
+      playback: null
+    }
+    dragRef.current = drag
+    event.currentTarget.setPointerCapture(event.pointerId)
+
+    // Scrubbing a paused track plays it while the pointer is down, so every move is heard
+    if (mode === 'scrub' && engine) {
+      setIsScrubbing(true)
+      engine.seek(time)
+      if (!wasPlaying) {
+        drag.playback = engine.play().catch(error => console.error('Scrub playback failed:', error))
+      }
+    }
+  }, [duration, engine, getPointerTime, getPressMode, snapTime])
+
+  /**
+   * Updates the hover readout, and the scrub position or loop while dragging
+   */
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>): void => {
+    const { x, time } = getPointerTime(event.clientX)
+    const drag = dragRef.current
+    setHover({
+      x,
+      time,
+      mode: drag?.mode ?? getPressMode(x, event.clientY - event.currentTarget.getBoundingClientRect().top)
+    })
+    if (!drag) return
+
+    if (drag.mode === 'scrub') {
+      const now = performance.now()
+      if (engine && now - drag.lastSeekAt >= WAVEFORM_CONFIG.SCRUB_SEEK_INTERVAL) {
+        drag.lastSeekAt = now
+        engine.seek(time)
+      }
+      return
+    }
+
+    if (!drag.hasMoved && Math.abs(event.clientX - drag.startX) < WAVEFORM_CONFIG.DRAG_THRESHOLD) return
+    drag.hasMoved = true
+    const { mode } = drag
+
+    if (mode === 'select') {
+      onLoopRegionChange(createLoopRegion(drag.anchorTime, snapTime(time), duration))
+    } else if (loopRegion) {
+      onLoopRegionChange(moveLoopEdge(loopRegion, mode, snapTime(time), duration))
+    }
+  }, [duration, engine, getPointerTime, getPressMode, loopRegion, onLoopRegionChange, snapTime])
+
+  /**
+   * Finishes a drag; a press that never moved seeks
+   */
+  const handlePointerUp = useCallback((event: React.PointerEvent<HTMLCanvasElement>): void => {
+    const drag = dragRef.current
+    if (!drag) return
+    dragRef.current = null
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    }
+    if (!engine) return
+
+    const { time } = getPointerTime(event.clientX)
+    if (drag.mode === 'scrub') {
+      setIsScrubbing(false)
+      engine.seek(time)
+      // Wait for the playback the scrub started, or it would begin after this pause
+      drag.playback?.then(() => {
+        if (!dragRef.current) engine.pause()
+      })
+    } else if (!drag.hasMoved && event.type === 'pointerup') {
+      const seekTime = snapTime(time)
+      console.log('Waveform seek:', formatWaveformTime(seekTime))
+      engine.seek(seekTime)
+    }
+  }, [engine, getPointerTime, snapTime])
+
+  /**
+   * Zooms by a factor around a time, the playhead by default
+   */
+  const zoom = useCallback((factor: number, anchor?: number): void => {
+    setViewport(prev => zoomViewport(prev, factor, anchor ?? engine?.currentTime ?? prev.start, duration, minSpan))
+  }, [duration, engine, minSpan])
+
+  /**
+   * Ctrl/Cmd + wheel (and trackpad pinch) zooms around the pointer; horizontal
+   * or Shift + wheel scrolls. A plain wheel is left to scroll the page.
+   * Attached natively, as React wheel listeners cannot prevent the default
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const handleWheel = (event: WheelEvent): void => {
+      const { viewport: view, duration: trackDuration } = renderStateRef.current
+      if (trackDuration <= 0 || view.span <= 0) return
+      const unit = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16 : 1
+      const rect = canvas.getBoundingClientRect()
+
+      if (event.ctrlKey || event.metaKey) {
+        event.preventDefault()
+        const anchor = view.start + ((event.clientX - rect.left) / rect.width) * view.span
+        zoom(2 ** ((-event.deltaY * unit) / WAVEFORM_CONFIG.WHEEL_ZOOM_DISTANCE), anchor)
+        return
+      }
+
+      const delta = event.shiftKey ? event.deltaY || event.deltaX : event.deltaX
+      if (delta === 0 || (!event.shiftKey && Math.abs(event.deltaX) < Math.abs(event.deltaY))) return
+      event.preventDefault()
+      // Scrolling by hand stops the view jumping back to the playhead
+      setIsFollowing(false)
+      setViewport(prev => clampViewport(
+        { start: prev.start + ((delta * unit) / rect.width) * prev.span, span: prev.span },
+        trackDuration,
+        minSpan
+      ))
+    }
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    return () => canvas.removeEventListener('wheel', handleWheel)
+  }, [minSpan, zoom])
+
+  /**
+   * Arrow keys seek, + and - zoom around the playhead, 0 shows the whole track
+   */
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLDivElement>): void => {
+    if (!engine || duration <= 0 || event.ctrlKey || event.metaKey || event.altKey) return
+
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      const direction = event.key === 'ArrowLeft' ? -1 : 1
+      engine.seek(Math.min(Math.max(engine.currentTime + direction * WAVEFORM_CONFIG.KEY_SEEK_STEP, 0), duration))
+    } else if (event.key === '+' || event.key === '=') {
+      zoom(VIEWPORT_CONFIG.ZOOM_STEP)
+    } else if (event.key === '-') {
+      zoom(1 / VIEWPORT_CONFIG.ZOOM_STEP)
+    } else if (event.key === '0') {
+      setViewport(fitViewport(duration))
+    } else {
+      return
+    }
+    event.preventDefault()
+  }, [duration, engine, zoom])
+
+  const secondsPerPixel = viewport.span / Math.max(1, width)
+  const tooltipPrecision = getTimePrecision(secondsPerPixel * 10)
+
+  return (
+    <div className={className}>
+      <div
+        className="h-24 bg-gray-100/80 border border-gray-200 rounded-lg relative overflow-hidden shadow-sm outline-none focus-visible:ring-2 focus-visible:ring-orange-400"
+        role="slider"
+        tabIndex={0}
+        aria-label="Seek through track - drag to set a loop, drag the ruler to scrub"
+        aria-valuemin={0}
+        aria-valuemax={duration}
+        aria-valuenow={currentTime}
+        aria-valuetext={formatWaveformTime(currentTime)}
+        onKeyDown={handleKeyDown}
+      >
+        <canvas
+          ref={canvasRef}
+          className={cn(
+            "absolute inset-0 w-full h-full touch-none select-none",
+            isScrubbing ? "cursor-grabbing"
+              : hover?.mode === 'scrub' ? "cursor-grab"
+                : hover?.mode === 'start' || hover?.mode === 'end' ? "cursor-ew-resize"
+                  : "cursor-pointer"
+          )}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={() => setHover(null)}
+        />
+
+        {/* Time under the pointer */}
+        {hover && duration > 0 && (
+          <div
+            className="absolute bottom-1 -translate-x-1/2 rounded bg-gray-900/80 px-1.5 py-0.5 text-[10px] text-white tabular-nums pointer-events-none"
+            style={{ left: Math.min(Math.max(hover.x, 28), Math.max(28, width - 28)) }}
+          >
+            {formatWaveformTime(hover.time, tooltipPrecision)}
+          </div>
+        )}
+      </div>
+
+      {/* Position, scroll and zoom */}
+      <div className="mt-1 flex items-center gap-3 text-xs text-gray-600">
+        <span className="tabular-nums">{formatWaveformTime(currentTime)}</span>
+        <div className="flex-1 min-w-0">
+          {isZoomed && (
+            <Slider
+              value={[viewport.start]}
+              min={0}
+              max={duration - viewport.span}
+              step={viewport.span / 100}
+              onValueChange={(values) => {
+                setIsFollowing(false)
+                setViewport(prev => clampViewport({ start: values[0], span: prev.span }, duration, minSpan))
+              }}
+              aria-label="Scroll the waveform"
+            />
+          )}
+        </div>
+        <div className="flex items-center gap-0.5">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => zoom(1 / VIEWPORT_CONFIG.ZOOM_STEP)}
+            disabled={!isZoomed}
+            className="h-7 px-1.5 text-gray-600 hover:text-gray-900"
+            aria-label="Zoom out"
+            title="Zoom out (-, or Ctrl + wheel)"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => zoom(VIEWPORT_CONFIG.ZOOM_STEP)}
+            disabled={duration <= 0 || viewport.span <= Math.min(minSpan, duration)}
+            className="h-7 px-1.5 text-gray-600 hover:text-gray-900"
+            aria-label="Zoom in"
+            title="Zoom in around the playhead (+, or Ctrl + wheel)"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setViewport(fitViewport(duration))}
+            disabled={!isZoomed}
+            className="h-7 px-1.5 text-gray-600 hover:text-gray-900"
+            aria-label="Show the whole track"
+            title="Show the whole track (0)"
+          >
+            <Maximize2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsFollowing(!isFollowing)}
+            className={cn("h-7 px-1.5 text-gray-600 hover:text-gray-900", isFollowing && "text-orange-600 hover:text-orange-700")}
+            aria-label="Follow the playhead"
+            aria-pressed={isFollowing}
+            title={isFollowing ? 'Following the playhead - scroll to stop' : 'Follow the playhead'}
+          >
+            <Crosshair className="w-4 h-4" />
+          </Button>
+        </div>
+        <span className="tabular-nums">{formatWaveformTime(duration)}</span>
+      </div>
+    </div>
+  )
+}
+
+export { WaveformView }
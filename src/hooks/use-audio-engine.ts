@@ -0,0 +1,69 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { type AudioEngine, type EnginePlaybackState, createAudioEngine } from '@/lib/audio/engine'
+
+/**
+ * Audio Engine State
+ * Engine events mirrored into React state
+ */
+export interface AudioEngineState {
+  /** Null until the engine is created on the client, or if Web Audio is unavailable */
+  engine: AudioEngine | null
+  playbackState: EnginePlaybackState
+  currentTime: number
+  duration: number
+}
+
+/**
+ * Creates a streaming audio engine for the lifetime of the component
+ *
+ * The engine gets its own detached media element and AudioContext on every
+ * mount, so a strict-mode remount never tries to attach one element to a
+ * second context.
+ *
+ * @returns The engine and its transport state
+ */
+export function useAudioEngine(): AudioEngineState {
+  const [engine, setEngine] = useState<AudioEngine | null>(null)
+  const [playbackState, setPlaybackState] = useState<EnginePlaybackState>('empty')
+  const [currentTime, setCurrentTime] = useState<number>(0)
+  const [duration, setDuration] = useState<number>(0)
+
+  useEffect(() => {
+    let created: AudioEngine
+    try {
+      // Two decks that take turns holding the next track, so both buffer ahead for a prompt start
+      const [mediaElement, nextMediaElement] = [new Audio(), new Audio()]
+      for (const element of [mediaElement, nextMediaElement]) {
+        element.crossOrigin = 'anonymous'
+        element.preload = 'auto'
+      }
+      created = createAudioEngine({ mediaElement, nextMediaElement })
+    } catch (error) {
+      console.error('Failed to initialize audio engine:', error)
+      return
+    }
+
+    const unsubscribers = [
+      created.on('statechange', setPlaybackState),
+      created.on('timeupdate', setCurrentTime),
+      created.on('durationchange', setDuration),
+      created.on('error', error => console.error('Audio playback error:', error))
+    ]
+
+    setEngine(created)
+    console.log('Audio engine initialized')
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+      created.dispose()
+      setEngine(null)
+      setPlaybackState('empty')
+      setCurrentTime(0)
+      setDuration(0)
+    }
+  }, [])
+
+  return { engine, playbackState, currentTime, duration }
+}
@@ -0,0 +1,188 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { type AudioEngine } from '@/lib/audio/engine'
+import { isRealtimeContext } from '@/lib/audio/context'
+import {
+  type InputLatencyHint,
+  type LiveInput,
+  createLiveInput,
+  createTestToneStream,
+  listInputDevices,
+  requestInputStream
+} from '@/lib/audio/live-input'
+
+/**
+ * What feeds the effect chain: the track transport, an input device, or a
+ * generated tone standing in for one
+ */
+export type InputSource =
+  | { type: 'playback' }
+  | { type: 'device'; deviceId: string }
+  | { type: 'test-tone' }
+
+/**
+ * Live Input State
+ */
+export interface LiveInputState {
+  source: InputSource
+  /** Audio inputs - unnamed until microphone access has been granted */
+  devices: MediaDeviceInfo[]
+  /** Input gain in dB */
+  gain: number
+  /** Whether the processed live signal reaches the speakers */
+  isMonitoring: boolean
+  latencyHint: InputLatencyHint
+  /** Opening asks for permission first, so it can take a while */
+  status: 'idle' | 'opening' | 'live'
+  /** Name and estimated latency of the open input */
+  openInput: { label: string; latency: number } | null
+  error: string | null
+  selectSource: (source: InputSource) => void
+  setGain: (db: number) => void
+  setIsMonitoring: (isMonitoring: boolean) => void
+  setLatencyHint: (hint: InputLatencyHint) => void
+}
+
+/**
+ * Explains a getUserMedia failure in a sentence
+ */
+function describeInputError(error: unknown): string {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError') return 'Microphone access was denied'
+    if (error.name === 'NotFoundError' || error.name === 'OverconstrainedError') return 'The input device is not available'
+    if (error.name === 'NotReadableError') return 'The input device is in use by another application'
+  }
+  return error instanceof Error ? error.message : 'The input could not be opened'
+}
+
+/**
+ * Swaps the engine's source between track playback and a live input
+ *
+ * The engine keeps its effect chain; only the node feeding it changes. A new
+ * device or latency hint reopens the input, while gain and monitoring apply
+ * to the open one.
+ */
+export function useLiveInput(engine: AudioEngine | null): LiveInputState {
+  const [source, setSource] = useState<InputSource>({ type: 'playback' })
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [gain, setGain] = useState<number>(0)
+  const [isMonitoring, setIsMonitoring] = useState<boolean>(false)
+  const [latencyHint, setLatencyHint] = useState<InputLatencyHint>('interactive')
+  const [status, setStatus] = useState<'idle' | 'opening' | 'live'>('idle')
+  const [openInput, setOpenInput] = useState<{ label: string; latency: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /** The open input, for gain changes that must not reopen it */
+  const liveInputRef = useRef<LiveInput | null>(null)
+  /** Latest gain for an input that finishes opening later */
+  const gainRef = useRef(gain)
+
+  const refreshDevices = useCallback((): void => {
+    listInputDevices()
+      .then(setDevices)
+      .catch(listError => console.warn('Failed to list input devices:', listError))
+  }, [])
+
+  // List inputs now and whenever one is plugged in or removed
+  useEffect(() => {
+    refreshDevices()
+    if (!navigator.mediaDevices) return
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices)
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices)
+  }, [refreshDevices])
+
+  /**
+   * Opens the selected input and hands it to the engine
+   * Cleaning up gives the chain back to the transport
+   */
+  useEffect(() => {
+    if (!engine || source.type === 'playback') return
+
+    let isCancelled = false
+    const context = engine.context
+    setStatus('opening')
+    setError(null)
+
+    const open = async (): Promise<LiveInput> => {
+      if (!isRealtimeContext(context)) {
+        throw new Error('Live input needs a realtime audio context')
+      }
+      if (source.type === 'test-tone') {
+        const tone = createTestToneStream(context)
+        return createLiveInput(context, tone.stream, tone.stop)
+      }
+      return createLiveInput(context, await requestInputStream(source.deviceId || null, latencyHint))
+    }
+
+    open()
+      .then(input => {
+        if (isCancelled) {
+          input.dispose()
+          return
+        }
+        liveInputRef.current = input
+        input.setGain(gainRef.current)
+        engine.setInput(input.output)
+        setOpenInput({ label: input.label, latency: input.latency })
+        setStatus('live')
+        console.log('Live input connected:', input.label)
+        // Device names become readable once access is granted
+        refreshDevices()
+      })
+      .catch(openError => {
+        if (isCancelled) return
+        console.error('Failed to open live input:', openError)
+        setError(describeInputError(openError))
+        setSource({ type: 'playback' })
+      })
+
+    return () => {
+      isCancelled = true
+      const input = liveInputRef.current
+      liveInputRef.current = null
+      if (input) {
+        engine.setInput(null)
+        input.dispose()
+      }
+      setOpenInput(null)
+      setStatus('idle')
+    }
+  }, [engine, source, latencyHint, refreshDevices])
+
+  // Gain applies to the open input without reopening it
+  useEffect(() => {
+    gainRef.current = gain
+    liveInputRef.current?.setGain(gain)
+  }, [gain])
+
+  // Monitoring only ever mutes a live input - playback is always heard
+  useEffect(() => {
+    engine?.setMonitoring(source.type === 'playback' || isMonitoring)
+  }, [engine, source.type, isMonitoring])
+
+  /**
+   * Switches the source, muting the speakers when a device is picked
+   * An open microphone would otherwise feed the speakers back into itself
+   */
+  const selectSource = useCallback((next: InputSource): void => {
+    setError(null)
+    if (next.type !== source.type) setIsMonitoring(next.type !== 'device')
+    setSource(next)
+  }, [source.type])
+
+  return {
+    source,
+    devices,
+    gain,
+    isMonitoring,
+    latencyHint,
+    status,
+    openInput,
+    error,
+    selectSource,
+    setGain,
+    setIsMonitoring,
+    setLatencyHint
+  }
+}
@@ -0,0 +1,174 @@
+"use client"
+
+import { useEffect, useRef } from 'react'
+import { type AudioEngine } from '@/lib/audio/engine'
+import { type TrackInfo } from '@/lib/track'
+
+/**
+ * Media Session Options
+ */
+export interface MediaSessionOptions {
+  engine: AudioEngine | null
+  /** Published as the session's metadata; null clears it */
+  trackInfo: TrackInfo | null
+  /** Playback rate reported to the OS, i.e. `effects.speed` */
+  speed: number
+  onPrevious: () => void
+  /** Null when there is no next track, which hides the OS button */
+  onNext: (() => void) | null
+}
+
+/**
+ * Media Session Constants
+ */
+const SESSION_CONFIG = {
+  /** Seconds skipped by seekbackward/seekforward when the OS does not say */
+  DEFAULT_SEEK_OFFSET: 10,
+  /** Seconds the position may stray from the OS's extrapolation before it is re-sent, e.g. after a seek or loop wrap */
+  POSITION_TOLERANCE: 0.5
+} as const
+
+/** Transport actions the player handles */
+type TransportAction = 'play' | 'pause' | 'seekto' | 'seekbackward' | 'seekforward' | 'previoustrack' | 'nexttrack'
+
+/**
+ * Sets or clears one action handler; browsers throw for actions they do not support
+ */
+function setActionHandler(action: TransportAction, handler: MediaSessionActionHandler | null): void {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler)
+  } catch (error) {
+    console.warn(`Media session action "${action}" is not supported:`, error)
+  }
+}
+
+/**
+ * Publishes the current track to the OS media controls and routes hardware
+ * media keys, headset buttons and lock-screen controls to the engine
+ *
+ * Position state is sent when playback starts or stops, the duration or speed
+ * changes, or the position jumps, and the OS extrapolates in between.
+ */
+export function useMediaSession({ engine, trackInfo, speed, onPrevious, onNext }: MediaSessionOptions): void {
+  // Latest callbacks for handlers registered once per engine
+  const previousRef = useRef(onPrevious)
+  const nextRef = useRef(onNext)
+  useEffect(() => {
+    previousRef.current = onPrevious
+    nextRef.current = onNext
+  }, [onPrevious, onNext])
+
+  const isSupported = typeof navigator !== 'undefined' && 'mediaSession' in navigator
+  const hasNext = onNext !== null
+
+  /**
+   * Publishes title, artist, album and artwork
+   */
+  useEffect(() => {
+    if (!isSupported) return
+    if (!trackInfo) {
+      navigator.mediaSession.metadata = null
+      return
+    }
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: trackInfo.title,
+      artist: trackInfo.artist,
+      album: trackInfo.album,
+      // Relative library URLs must be absolute outside the page
+      artwork: trackInfo.artworkUrl ? [{ src: new URL(trackInfo.artworkUrl, window.location.href).href }] : []
+    })
+  }, [isSupported, trackInfo])
+
+  /**
+   * Routes transport actions to the engine and the queue
+   */
+  useEffect(() => {
+    if (!isSupported || !engine) return
+
+    const seekBy = (offset: number): void => {
+      engine.seek(Math.min(Math.max(engine.currentTime + offset, 0), engine.duration))
+    }
+
+    setActionHandler('play', () => {
+      engine.play().catch(error => console.error('Media session play failed:', error))
+    })
+    setActionHandler('pause', () => engine.pause())
+    setActionHandler('seekto', details => {
+      if (details.seekTime !== undefined) engine.seek(Math.min(Math.max(details.seekTime, 0), engine.duration))
+    })
+    setActionHandler('seekbackward', details => seekBy(-(details.seekOffset ?? SESSION_CONFIG.DEFAULT_SEEK_OFFSET)))
+    setActionHandler('seekforward', details => seekBy(details.seekOffset ?? SESSION_CONFIG.DEFAULT_SEEK_OFFSET))
+    setActionHandler('previoustrack', () => previousRef.current())
+
+    return () => {
+      const actions: TransportAction[] = ['play', 'pause', 'seekto', 'seekbackward', 'seekforward', 'previoustrack']
+      actions.forEach(action => setActionHandler(action, null))
+    }
+  }, [isSupported, engine])
+
+  /**
+   * Offers "next track" only when there is one
+   */
+  useEffect(() => {
+    if (!isSupported || !hasNext) return
+    setActionHandler('nexttrack', () => nextRef.current?.())
+    return () => setActionHandler('nexttrack', null)
+  }, [isSupported, hasNext])
+
+  /**
+   * Keeps the OS playback state and position in step with the engine
+   * Re-runs on a speed change so the position is re-sent at the new rate
+   */
+  useEffect(() => {
+    if (!isSupported || !engine) return
+
+    // Position last sent, and when, to tell seeks from normal progress
+    let sent: { position: number; at: number; isPlaying: boolean } | null = null
+
+    const sendPosition = (): void => {
+      const { duration, currentTime, state } = engine
+      const isPlaying = state === 'playing'
+      navigator.mediaSession.playbackState = state === 'empty' ? 'none' : isPlaying ? 'playing' : 'paused'
+
+      try {
+        if (duration > 0 && Number.isFinite(duration)) {
+          const position = Math.min(Math.max(currentTime, 0), duration)
+          navigator.mediaSession.setPositionState({ duration, playbackRate: speed, position })
+          sent = { position, at: performance.now(), isPlaying }
+        } else {
+          navigator.mediaSession.setPositionState()
+          sent = null
+        }
+      } catch (error) {
+        console.warn('Media session position update failed:', error)
+      }
+    }
+
+    const checkPosition = (time: number): void => {
+      if (!sent) return
+      const elapsed = sent.isPlaying ? ((performance.now() - sent.at) / 1000) * speed : 0
+      if (Math.abs(time - (sent.position + elapsed)) > SESSION_CONFIG.POSITION_TOLERANCE) sendPosition()
+    }
+
+    sendPosition()
+    const unsubscribers = [
+      engine.on('statechange', sendPosition),
+      engine.on('durationchange', sendPosition),
+      engine.on('timeupdate', checkPosition)
+    ]
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+      navigator.mediaSession.playbackState = 'none'
+    }
+  }, [isSupported, engine, speed])
+
+  // Clear the metadata when the player goes away
+  useEffect(() => {
+    if (!isSupported) return
+    return () => {
+      navigator.mediaSession.metadata = null
+    }
+  }, [isSupported])
+}
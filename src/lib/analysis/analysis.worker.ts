@@ -0,0 +1,40 @@
+/**
+ * Track Analysis Worker
+ * Runs tempo and key detection off the main thread, and hands the decoded PCM
+ * back for the next pipeline that shares the decode
+ */
+
+import { estimateKey } from './key'
+import { mixDown } from './spectrum'
+import { estimateTempo } from './tempo'
+import type { TrackAnalysis } from './index'
+
+/** Message sent to the worker */
+export interface AnalysisWorkerRequest {
+  id: number
+  channels: Float32Array[]
+  sampleRate: number
+  /** Decoded samples per analysed sample */
+  factor: number
+}
+
+/** Message sent back from the worker */
+export type AnalysisWorkerResponse =
+  | { id: number; result: TrackAnalysis; channels: Float32Array[] }
+  | { id: number; error: string }
+
+addEventListener('message', (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { id, channels, sampleRate, factor } = event.data
+
+  try {
+    const mono = mixDown(channels, factor)
+    const result: TrackAnalysis = {
+      tempo: estimateTempo(mono, sampleRate / factor),
+      key: estimateKey(mono, sampleRate / factor)
+    }
+    const transfer = channels.map(channel => channel.buffer)
+    postMessage({ id, result, channels } satisfies AnalysisWorkerResponse, { transfer })
+  } catch (error) {
+    postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies AnalysisWorkerResponse)
+  }
+})
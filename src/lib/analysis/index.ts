@@ -0,0 +1,109 @@
+/**
+ * Track Analysis
+ * Estimates tempo, beat grid and key from the decoded audio in a worker, and
+ * caches the result per file in IndexedDB
+ */
+
+import { type DecodedAudio, withDecodedAudio } from '@/lib/audio/decode'
+import { STORES, idbGet, idbPut } from '@/lib/idb'
+import { type Track } from '@/lib/track'
+import { type KeyEstimate } from './key'
+import { type TempoEstimate } from './tempo'
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './analysis.worker'
+
+export { type KeyEstimate, type KeyMode, formatKey, toCamelot } from './key'
+export {
+  type GridLine,
+  type SnapUnit,
+  type TempoEstimate,
+  TEMPO_CONFIG,
+  getBeatInterval,
+  getGridLines,
+  snapToGrid
+} from './tempo'
+
+/**
+ * Track Analysis Result
+ */
+export interface TrackAnalysis {
+  /** Null when the track has no steady pulse */
+  tempo: TempoEstimate | null
+  /** Null for silence or unpitched material */
+  key: KeyEstimate | null
+}
+
+/** Cache format version - bump when the detectors change their output */
+const CACHE_VERSION = 2
+
+/** Rate the detectors run at - beats and pitch classes need nothing above 11 kHz */
+const ANALYSIS_SAMPLE_RATE = 22050
+
+let worker: Worker | null = null
+let nextRequestId = 0
+const pendingRequests = new Map<number, {
+  resolve: (reply: { result: TrackAnalysis; channels: Float32Array[] }) => void
+  reject: (error: Error) => void
+}>()
+
+/**
+ * Lazily starts the shared analysis worker
+ */
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' })
+    worker.addEventListener('message', (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const pending = pendingRequests.get(event.data.id)
+      if (!pending) return
+      pendingRequests.delete(event.data.id)
+
+      if ('error' in event.data) {
+        pending.reject(new Error(event.data.error))
+      } else {
+        pending.resolve(event.data)
+      }
+    })
+  }
+  return worker
+}
+
+/**
+ * Transfers (not copies) decoded channel data to the worker, which transfers it back with the result
+ */
+function analyseInWorker(audio: DecodedAudio): Promise<{ result: TrackAnalysis; channels: Float32Array[] }> {
+  const { channels, sampleRate } = audio
+  const factor = Math.max(1, Math.round(sampleRate / ANALYSIS_SAMPLE_RATE))
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++
+    pendingRequests.set(id, { resolve, reject })
+
+    const request: AnalysisWorkerRequest = { id, channels, sampleRate, factor }
+    getWorker().postMessage(request, channels.map(channel => channel.buffer))
+  })
+}
+
+/**
+ * Loads the tempo and key of a track, analysing only on a cache miss
+ * Cache failures are logged and otherwise ignored
+ *
+ * @param track - Track to analyse
+ */
+export async function loadTrackAnalysis(track: Track): Promise<TrackAnalysis> {
+  const cacheKey = `v${CACHE_VERSION}:${track.cacheKey}`
+
+  try {
+    const cached = await idbGet<TrackAnalysis>(STORES.TRACK_ANALYSIS, cacheKey)
+    if (cached) return cached
+  } catch (error) {
+    console.warn('Track analysis cache unavailable:', error)
+  }
+
+  // Shares the waveform's decode, when both are missing from the cache
+  const analysis = await withDecodedAudio(track.cacheKey, track.src, analyseInWorker)
+
+  idbPut(STORES.TRACK_ANALYSIS, cacheKey, analysis).catch(error => {
+    console.warn('Failed to cache track analysis:', error)
+  })
+
+  return analysis
+}
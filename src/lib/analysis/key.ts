@@ -0,0 +1,138 @@
+/**
+ * Key Detection
+ * Builds a chroma profile - energy per pitch class over the whole track - and
+ * matches it against the Krumhansl-Kessler major and minor key profiles
+ */
+
+import { createFrameAnalyser } from './spectrum'
+
+/**
+ * Key Constants
+ */
+export const KEY_CONFIG = {
+  /** Samples per spectrum frame - 2.7 Hz bins at 22.05 kHz, fine enough to separate semitones in the bass */
+  FRAME_SIZE: 8192,
+  /** Samples between frames */
+  HOP_SIZE: 4096,
+  /** Lowest frequency counted, C2 */
+  MIN_FREQUENCY: 65.4,
+  /** Highest frequency counted, C7 - above it harmonics blur the profile */
+  MAX_FREQUENCY: 2093,
+  /** Frames quieter than this, relative to the loudest, are skipped */
+  SILENCE_RATIO: 0.01
+} as const
+
+/** Pitch class names, C = 0, spelled the way key signatures usually are */
+export const PITCH_CLASS_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'] as const
+
+export type KeyMode = 'major' | 'minor'
+
+/**
+ * Key Estimate
+ */
+export interface KeyEstimate {
+  /** Pitch class of the tonic, C = 0 */
+  tonic: number
+  mode: KeyMode
+  /** Correlation of the track's chroma with the key's profile, -1 to 1 */
+  confidence: number
+}
+
+/**
+ * Krumhansl-Kessler probe-tone ratings for C major and C minor
+ */
+const KEY_PROFILES: Readonly<Record<KeyMode, readonly number[]>> = {
+  major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+  minor: [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17]
+}
+
+/**
+ * Pearson correlation of a chroma vector with a profile rotated to a tonic
+ */
+function correlate(chroma: Float64Array, profile: readonly number[], tonic: number): number {
+  const chromaMean = chroma.reduce((sum, value) => sum + value, 0) / 12
+  const profileMean = profile.reduce((sum, value) => sum + value, 0) / 12
+  let product = 0
+  let chromaSquares = 0
+  let profileSquares = 0
+
+  for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+    const x = chroma[pitchClass] - chromaMean
+    const y = profile[(pitchClass - tonic + 12) % 12] - profileMean
+    product += x * y
+    chromaSquares += x * x
+    profileSquares += y * y
+  }
+  return chromaSquares > 0 ? product / Math.sqrt(chromaSquares * profileSquares) : 0
+}
+
+/**
+ * Estimates the key of a mono signal
+ * @returns The estimate, or null for silence or unpitched material
+ */
+export function estimateKey(signal: Float32Array, sampleRate: number): KeyEstimate | null {
+  const { FRAME_SIZE, HOP_SIZE, MIN_FREQUENCY, MAX_FREQUENCY } = KEY_CONFIG
+  const analyser = createFrameAnalyser(FRAME_SIZE)
+
+  // Pitch class of every bin in range, -1 outside it
+  const binPitchClass = Int8Array.from({ length: FRAME_SIZE / 2 + 1 }, (_, bin) => {
+    const frequency = (bin * sampleRate) / FRAME_SIZE
+    if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) return -1
+    const midi = Math.round(12 * Math.log2(frequency / 440) + 69)
+    return ((midi % 12) + 12) % 12
+  })
+
+  // Each frame's chroma is normalised, so loud passages do not outvote quiet ones
+  const frames: Float64Array[] = []
+  const frameLevels: number[] = []
+  for (let start = 0; start < signal.length; start += HOP_SIZE) {
+    const magnitudes = analyser.magnitudes(signal, start)
+    const chroma = new Float64Array(12)
+    for (let bin = 0; bin < magnitudes.length; bin++) {
+      const pitchClass = binPitchClass[bin]
+      if (pitchClass >= 0) chroma[pitchClass] += magnitudes[bin]
+    }
+    frames.push(chroma)
+    frameLevels.push(Math.max(...chroma))
+  }
+
+  const loudest = Math.max(0, ...frameLevels)
+  if (loudest <= 0) return null
+
+  const total = new Float64Array(12)
+  frames.forEach((chroma, index) => {
+    const level = frameLevels[index]
+    if (level < loudest * KEY_CONFIG.SILENCE_RATIO) return
+    for (let pitchClass = 0; pitchClass < 12; pitchClass++) total[pitchClass] += chroma[pitchClass] / level
+  })
+
+  let best: KeyEstimate | null = null
+  for (const mode of ['major', 'minor'] as const) {
+    for (let tonic = 0; tonic < 12; tonic++) {
+      const confidence = correlate(total, KEY_PROFILES[mode], tonic)
+      if (!best || confidence > best.confidence) best = { tonic, mode, confidence }
+    }
+  }
+  return best && best.confidence > 0 ? best : null
+}
+
+/**
+ * Names a key
+ * @returns e.g. "A minor"
+ */
+export function formatKey(key: KeyEstimate): string {
+  return `${PITCH_CLASS_NAMES[key.tonic]} ${key.mode}`
+}
+
+/**
+ * Camelot wheel code, which DJs use to find compatible keys
+ * Neighbouring numbers, and the same number across A/B, mix harmonically
+ * @returns e.g. "8A" for A minor, "8B" for C major
+ */
+export function toCamelot(key: KeyEstimate): string {
+  // Minor keys share the number of their relative major, three semitones up
+  const majorTonic = key.mode === 'major' ? key.tonic : (key.tonic + 3) % 12
+  // Each step round the circle of fifths is one number; C major is 8B
+  const number = ((majorTonic * 7 + 7) % 12) + 1
+  return `${number}${key.mode === 'major' ? 'B' : 'A'}`
+}
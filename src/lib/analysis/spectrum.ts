@@ -0,0 +1,102 @@
+/**
+ * Short-Time Spectrum
+ * A radix-2 FFT and a Hann-windowed frame analyser shared by the tempo and key
+ * detectors. Buffers are allocated once per analyser, not per frame.
+ */
+
+/**
+ * Frame Spectrum Analyser
+ */
+export interface FrameAnalyser {
+  /** Frame length in samples, a power of two */
+  size: number
+  /**
+   * Magnitudes of the frame starting at `start`, bins 0 to size / 2
+   * Samples past the end of the signal count as silence. The returned array is
+   * reused by the next call
+   */
+  magnitudes: (signal: Float32Array, start: number) => Float32Array
+}
+
+/**
+ * Creates an analyser for frames of the given size
+ * @param size - Frame length, a power of two
+ */
+export function createFrameAnalyser(size: number): FrameAnalyser {
+  if (size < 2 || (size & (size - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${size}`)
+  }
+
+  const window = Float32Array.from({ length: size }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size))
+  const real = new Float32Array(size)
+  const imaginary = new Float32Array(size)
+  const output = new Float32Array(size / 2 + 1)
+
+  // Bit-reversed index of every position, for the in-place reordering
+  const bits = Math.log2(size)
+  const reversed = Uint32Array.from({ length: size }, (_, i) => {
+    let result = 0
+    for (let bit = 0; bit < bits; bit++) result = (result << 1) | ((i >> bit) & 1)
+    return result
+  })
+
+  const cosines = Float32Array.from({ length: size / 2 }, (_, i) => Math.cos((-2 * Math.PI * i) / size))
+  const sines = Float32Array.from({ length: size / 2 }, (_, i) => Math.sin((-2 * Math.PI * i) / size))
+
+  return {
+    size,
+    magnitudes(signal, start) {
+      for (let i = 0; i < size; i++) {
+        const index = start + i
+        real[reversed[i]] = index < signal.length ? signal[index] * window[i] : 0
+        imaginary[i] = 0
+      }
+
+      for (let length = 2; length <= size; length <<= 1) {
+        const half = length >> 1
+        const step = size / length
+        for (let offset = 0; offset < size; offset += length) {
+          for (let k = 0; k < half; k++) {
+            const twiddleReal = cosines[k * step]
+            const twiddleImaginary = sines[k * step]
+            const even = offset + k
+            const odd = even + half
+            const oddReal = real[odd] * twiddleReal - imaginary[odd] * twiddleImaginary
+            const oddImaginary = real[odd] * twiddleImaginary + imaginary[odd] * twiddleReal
+            real[odd] = real[even] - oddReal
+            imaginary[odd] = imaginary[even] - oddImaginary
+            real[even] += oddReal
+            imaginary[even] += oddImaginary
+          }
+        }
+      }
+
+      for (let bin = 0; bin < output.length; bin++) {
+        output[bin] = Math.hypot(real[bin], imaginary[bin])
+      }
+      return output
+    }
+  }
+}
+
+/**
+ * Averages the channels into one signal at a whole fraction of their rate
+ * Each output sample is the mean of `factor` input samples - a box filter, which
+ * is rough as an anti-alias filter but plenty for onsets and pitch classes
+ *
+ * @param channels - One Float32Array per channel, equal lengths; left untouched
+ * @param factor - Input samples per output sample
+ */
+export function mixDown(channels: Float32Array[], factor: number): Float32Array {
+  const length = Math.floor((channels[0]?.length ?? 0) / factor)
+  const scale = 1 / (channels.length * factor)
+  const mono = new Float32Array(length)
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      let sum = 0
+      for (let j = i * factor; j < (i + 1) * factor; j++) sum += channel[j]
+      mono[i] += sum * scale
+    }
+  }
+  return mono
+}
@@ -0,0 +1,260 @@
+/**
+ * Tempo Detection and Beat Grid
+ * Estimates BPM from the autocorrelation of a spectral-flux onset envelope,
+ * places a fixed beat grid on the strongest onsets, and snaps times to it
+ */
+
+import { createFrameAnalyser } from './spectrum'
+
+/**
+ * Tempo Constants
+ */
+export const TEMPO_CONFIG = {
+  /** Samples per spectrum frame - about 46 ms at 22.05 kHz */
+  FRAME_SIZE: 1024,
+  /** Samples between frames - about 86 envelope values a second at 22.05 kHz */
+  HOP_SIZE: 256,
+  MIN_BPM: 60,
+  MAX_BPM: 200,
+  /** Tempo the prior favours, so half- and double-time readings lean towards the usual range */
+  PRIOR_BPM: 120,
+  /** Standard deviation of the prior in octaves */
+  PRIOR_WIDTH: 1,
+  /** Seconds over which the envelope's local mean is removed */
+  MEAN_WINDOW: 0.5,
+  /** Highest frequency of the low band that marks downbeats, in Hz - kick drums and bass */
+  LOW_BAND_MAX: 200,
+  /** Periodicity, relative to the envelope's power, below which there is no steady pulse */
+  MIN_CONFIDENCE: 0.05,
+  /** Frames either side of the autocorrelation period searched when fitting the grid */
+  PERIOD_SEARCH: 1,
+  /** Step of that search in frames - small enough that the grid drifts under a frame over a long track */
+  PERIOD_STEP: 0.005,
+  /** The grid assumes common time */
+  BEATS_PER_BAR: 4
+} as const
+
+/**
+ * Tempo Estimate
+ * A fixed grid: beat n falls at firstBeat + n × 60 / bpm
+ */
+export interface TempoEstimate {
+  bpm: number
+  /** Seconds from the start to the first beat */
+  firstBeat: number
+  /** Which of the first BEATS_PER_BAR beats starts a bar */
+  downbeat: number
+  /** Strength of the pulse, 0-1 */
+  confidence: number
+}
+
+/** Grid resolution times snap to */
+export type SnapUnit = 'beat' | 'bar'
+
+/**
+ * One line of the beat grid
+ */
+export interface GridLine {
+  time: number
+  /** Whether this beat starts a bar */
+  isBar: boolean
+}
+
+/**
+ * Onset strength over time: the positive change in log magnitude per frame,
+ * with the local mean removed so only sudden rises remain
+ */
+function computeOnsetEnvelopes(signal: Float32Array, sampleRate: number): { full: Float32Array; low: Float32Array } {
+  const { FRAME_SIZE, HOP_SIZE } = TEMPO_CONFIG
+  const analyser = createFrameAnalyser(FRAME_SIZE)
+  const frameCount = Math.ceil(signal.length / HOP_SIZE)
+  const lowBins = Math.ceil((TEMPO_CONFIG.LOW_BAND_MAX * FRAME_SIZE) / sampleRate)
+
+  const full = new Float32Array(frameCount)
+  const low = new Float32Array(frameCount)
+  const previous = new Float32Array(FRAME_SIZE / 2 + 1)
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const magnitudes = analyser.magnitudes(signal, frame * HOP_SIZE)
+    let flux = 0
+    let lowFlux = 0
+    for (let bin = 1; bin < magnitudes.length; bin++) {
+      const level = Math.log1p(magnitudes[bin])
+      const rise = level - previous[bin]
+      if (rise > 0) {
+        flux += rise
+        if (bin <= lowBins) lowFlux += rise
+      }
+      previous[bin] = level
+    }
+    full[frame] = flux
+    low[frame] = lowFlux
+  }
+
+  const frameRate = sampleRate / HOP_SIZE
+  const meanFrames = Math.max(1, Math.round(TEMPO_CONFIG.MEAN_WINDOW * frameRate))
+  return { full: removeLocalMean(full, meanFrames), low: removeLocalMean(low, meanFrames) }
+}
+
+/**
+ * Subtracts a centred moving average and keeps what rises above it
+ */
+function removeLocalMean(envelope: Float32Array, window: number): Float32Array {
+  const result = new Float32Array(envelope.length)
+  const half = Math.floor(window / 2)
+  let sum = 0
+  let start = 0
+  let end = 0
+
+  for (let i = 0; i < envelope.length; i++) {
+    while (end < Math.min(envelope.length, i + half + 1)) sum += envelope[end++]
+    while (start < i - half) sum -= envelope[start++]
+    result[i] = Math.max(0, envelope[i] - sum / (end - start))
+  }
+  return result
+}
+
+/**
+ * Mean of envelope[n] × envelope[n + lag]
+ */
+function autocorrelate(envelope: Float32Array, lag: number): number {
+  let sum = 0
+  for (let i = 0; i + lag < envelope.length; i++) sum += envelope[i] * envelope[i + lag]
+  return sum / Math.max(1, envelope.length - lag)
+}
+
+/**
+ * Envelope value at a fractional frame position, interpolated linearly
+ */
+function valueAt(envelope: Float32Array, position: number): number {
+  const index = Math.floor(position)
+  const fraction = position - index
+  return (envelope[index] ?? 0) * (1 - fraction) + (envelope[index + 1] ?? 0) * fraction
+}
+
+/**
+ * Onset strength collected by beats at phase, phase + period, ...
+ */
+function combScore(envelope: Float32Array, period: number, phase: number): number {
+  let score = 0
+  for (let position = phase; position < envelope.length; position += period) score += valueAt(envelope, position)
+  return score
+}
+
+/**
+ * Finds the period near an estimate, and the phase, whose beats collect the
+ * most onset strength - the autocorrelation peak alone drifts off the beat
+ * over a long track
+ */
+function fitGrid(envelope: Float32Array, estimate: number): { period: number; phase: number } {
+  const { PERIOD_SEARCH, PERIOD_STEP } = TEMPO_CONFIG
+  let best = { period: estimate, phase: 0, score: -1 }
+
+  for (let period = estimate - PERIOD_SEARCH; period <= estimate + PERIOD_SEARCH; period += PERIOD_STEP) {
+    for (let phase = 0; phase < period; phase++) {
+      const score = combScore(envelope, period, phase)
+      if (score > best.score) best = { period, phase, score }
+    }
+  }
+
+  // Settle the phase to a fraction of a frame
+  let { phase } = best
+  for (let offset = -0.5; offset <= 0.5; offset += 0.1) {
+    const score = combScore(envelope, best.period, best.phase + offset)
+    if (best.phase + offset >= 0 && score > best.score) {
+      best = { ...best, score }
+      phase = best.phase + offset
+    }
+  }
+  return { period: best.period, phase }
+}
+
+/**
+ * Estimates the tempo and beat grid of a mono signal
+ * @returns The estimate, or null when there is no steady pulse (e.g. ambient or spoken material)
+ */
+export function estimateTempo(signal: Float32Array, sampleRate: number): TempoEstimate | null {
+  const { full, low } = computeOnsetEnvelopes(signal, sampleRate)
+  const frameRate = sampleRate / TEMPO_CONFIG.HOP_SIZE
+  const minLag = Math.floor((60 * frameRate) / TEMPO_CONFIG.MAX_BPM)
+  const maxLag = Math.ceil((60 * frameRate) / TEMPO_CONFIG.MIN_BPM)
+  if (full.length <= maxLag * 2) return null
+
+  const power = autocorrelate(full, 0)
+  if (power <= 0) return null
+
+  // Lag with the strongest periodicity, weighted towards the prior tempo
+  const correlations = new Float32Array(maxLag + 2)
+  let bestLag = 0
+  let bestScore = 0
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    correlations[lag] = autocorrelate(full, lag)
+    if (lag < minLag || lag > maxLag) continue
+    const octaves = Math.log2((60 * frameRate) / lag / TEMPO_CONFIG.PRIOR_BPM) / TEMPO_CONFIG.PRIOR_WIDTH
+    const score = correlations[lag] * Math.exp(-0.5 * octaves * octaves)
+    if (score > bestScore) {
+      bestScore = score
+      bestLag = lag
+    }
+  }
+
+  const confidence = Math.min(1, correlations[bestLag] / power)
+  if (bestLag === 0 || confidence < TEMPO_CONFIG.MIN_CONFIDENCE) return null
+
+  // Parabolic interpolation between the neighbouring lags for a fractional period
+  const before = correlations[bestLag - 1]
+  const peak = correlations[bestLag]
+  const after = correlations[bestLag + 1]
+  const curvature = before - 2 * peak + after
+  const { period, phase } = fitGrid(full, bestLag + (curvature < 0 ? (0.5 * (before - after)) / curvature : 0))
+
+  // Downbeats usually carry the most low-end attack
+  const barStrength = new Float32Array(TEMPO_CONFIG.BEATS_PER_BAR)
+  for (let beat = 0, position = phase; position < low.length; beat++, position += period) {
+    barStrength[beat % TEMPO_CONFIG.BEATS_PER_BAR] += valueAt(low, position)
+  }
+  const downbeat = barStrength.indexOf(Math.max(...barStrength))
+
+  // Frame n is centred half a frame after its first sample
+  const frameOffset = TEMPO_CONFIG.FRAME_SIZE / 2 / sampleRate
+  return {
+    bpm: Math.round(((60 * frameRate) / period) * 100) / 100,
+    firstBeat: phase / frameRate + frameOffset,
+    downbeat,
+    confidence
+  }
+}
+
+/**
+ * Seconds between beats
+ */
+export function getBeatInterval(tempo: TempoEstimate): number {
+  return 60 / tempo.bpm
+}
+
+/**
+ * Every beat of the grid within a track, extended back to its start
+ */
+export function getGridLines(tempo: TempoEstimate, duration: number): GridLine[] {
+  const interval = getBeatInterval(tempo)
+  const lines: GridLine[] = []
+  const firstIndex = -Math.floor(tempo.firstBeat / interval)
+
+  for (let index = firstIndex; ; index++) {
+    const time = tempo.firstBeat + index * interval
+    if (time > duration) break
+    const beatInBar = (((index - tempo.downbeat) % TEMPO_CONFIG.BEATS_PER_BAR) + TEMPO_CONFIG.BEATS_PER_BAR) % TEMPO_CONFIG.BEATS_PER_BAR
+    lines.push({ time, isBar: beatInBar === 0 })
+  }
+  return lines
+}
+
+/**
+ * Moves a time to the nearest beat or bar line, within the track
+ */
+export function snapToGrid(time: number, tempo: TempoEstimate, unit: SnapUnit, duration: number): number {
+  const step = getBeatInterval(tempo) * (unit === 'bar' ? TEMPO_CONFIG.BEATS_PER_BAR : 1)
+  const origin = tempo.firstBeat + (unit === 'bar' ? tempo.downbeat * getBeatInterval(tempo) : 0)
+  const snapped = origin + Math.round((time - origin) / step) * step
+  return Math.min(Math.max(snapped, 0), duration)
+}
@@ -0,0 +1,32 @@
+/**
+ * Bitcrusher Utilities
+ * Loads the bitcrusher AudioWorklet used by the distortion module
+ */
+
+/** Public URL of the worklet module served from /public */
+export const BITCRUSHER_MODULE_URL = '/worklets/bitcrusher-processor.js'
+
+/** Name the processor registers itself under */
+export const BITCRUSHER_PROCESSOR_NAME = 'bitcrusher'
+
+/**
+ * Creates a bitcrusher node on the given context
+ * Registers the worklet module first; repeated calls on the same context reuse it
+ *
+ * @param context - Audio context the node will live in
+ * @returns The worklet node, or null when AudioWorklet is unavailable
+ */
+export async function createBitcrusherNode(context: BaseAudioContext): Promise<AudioWorkletNode | null> {
+  if (!context.audioWorklet) {
+    console.warn('AudioWorklet not supported - bitcrusher disabled')
+    return null
+  }
+
+  await context.audioWorklet.addModule(BITCRUSHER_MODULE_URL)
+
+  return new AudioWorkletNode(context, BITCRUSHER_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2]
+  })
+}
@@ -0,0 +1,22 @@
+/**
+ * Audio Context Helpers
+ */
+
+/**
+ * Creates a realtime context, with the prefixed fallback for older browsers
+ * @throws Error when the Web Audio API is unavailable
+ */
+export function createRealtimeContext(): AudioContext {
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext
+  if (!AudioContextClass) {
+    throw new Error('Web Audio API not supported in this browser')
+  }
+  return new AudioContextClass()
+}
+
+/**
+ * Narrows to a realtime context - offline contexts also have resume(), but only for suspend points
+ */
+export function isRealtimeContext(context: BaseAudioContext): context is AudioContext {
+  return typeof AudioContext !== 'undefined' && context instanceof AudioContext
+}
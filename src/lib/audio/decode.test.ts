@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakeAudioContext, stubAudioFetch } from '@/test/fake-audio-context'
+import { type DecodedAudio, withDecodedAudio } from './decode'
+
+/**
+ * A task that records the audio it was lent and passes the channels on unchanged
+ */
+function borrow(seen: DecodedAudio[]) {
+  return async (audio: DecodedAudio) => {
+    seen.push(audio)
+    return { result: audio.duration, channels: audio.channels }
+  }
+}
+
+// Each test uses its own key, as shared decodes outlive a test by design
+describe('withDecodedAudio', () => {
+  let fetchMock: ReturnType<typeof stubAudioFetch>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    fetchMock = stubAudioFetch({ '/track.mp3': 2 })
+    const { context } = createFakeAudioContext()
+    vi.stubGlobal('OfflineAudioContext', vi.fn(() => context))
+    // Idle at once, so decodes start without waiting on a timer
+    vi.stubGlobal('requestIdleCallback', (callback: () => void) => {
+      callback()
+      return 0
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('decodes once for users that overlap, lending them the same channels in turn', async () => {
+    const seen: DecodedAudio[] = []
+
+    const results = Promise.all([
+      withDecodedAudio('track-1', '/track.mp3', borrow(seen)),
+      withDecodedAudio('track-1', '/track.mp3', borrow(seen))
+    ])
+
+    expect(await results).toEqual([2, 2])
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(seen[1].channels).toBe(seen[0].channels)
+    expect(seen[1].sampleRate).toBe(44100)
+  })
+
+  it('passes on the channels a user hands back', async () => {
+    const replaced = [new Float32Array(4), new Float32Array(4)]
+    const seen: DecodedAudio[] = []
+
+    const first = withDecodedAudio('track-2', '/track.mp3', async () => ({ result: null, channels: replaced }))
+    const second = withDecodedAudio('track-2', '/track.mp3', borrow(seen))
+    await Promise.all([first, second])
+
+    expect(seen[0].channels).toBe(replaced)
+  })
+
+  it('decodes again for the next user when a task fails', async () => {
+    const first = withDecodedAudio('track-3', '/track.mp3', async () => {
+      throw new Error('Worker failed')
+    }).catch((error: Error) => error.message)
+    const second = withDecodedAudio('track-3', '/track.mp3', borrow([]))
+
+    expect(await first).toBe('Worker failed')
+    expect(await second).toBe(2)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps the audio briefly after the last user, then drops it', async () => {
+    await withDecodedAudio('track-4', '/track.mp3', borrow([]))
+    await withDecodedAudio('track-4', '/track.mp3', borrow([]))
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(10000)
+    await withDecodedAudio('track-4', '/track.mp3', borrow([]))
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
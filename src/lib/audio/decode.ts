@@ -0,0 +1,145 @@
+/**
+ * Audio Decoding
+ * Fetches a track source and decodes it to PCM for offline analysis, and shares
+ * one decode between the background pipelines that need the same track
+ */
+
+/** Sample rate analysis runs at - decodeAudioData resamples to it */
+export const ANALYSIS_SAMPLE_RATE = 44100
+
+/** Longest wait for an idle period before background decoding starts anyway, in ms */
+const IDLE_TIMEOUT = 2000
+
+/** How long a shared decode is kept after its last user, for a pipeline that asks a moment later, in ms */
+const SHARED_DECODE_LINGER = 5000
+
+/**
+ * Decoded Audio
+ * A track's PCM outside of its AudioBuffer, so the channels can be transferred
+ * to a worker and back rather than copied
+ */
+export interface DecodedAudio {
+  channels: Float32Array[]
+  sampleRate: number
+  duration: number
+}
+
+/**
+ * Shared Decode
+ * The audio passes from user to user; a null turn means the next user decodes afresh
+ */
+interface SharedDecode {
+  turn: Promise<DecodedAudio | null>
+  users: number
+  releaseTimer?: ReturnType<typeof setTimeout>
+}
+
+const sharedDecodes = new Map<string, SharedDecode>()
+
+/**
+ * Resolves in the next idle period, so a background decode does not start on
+ * top of rendering or input handling. Browsers without requestIdleCallback
+ * (Safari) wait for the next task instead
+ */
+export function whenIdle(): Promise<void> {
+  return new Promise(resolve => {
+    if (typeof requestIdleCallback === 'function') {
+      requestIdleCallback(() => resolve(), { timeout: IDLE_TIMEOUT })
+    } else {
+      setTimeout(resolve, 0)
+    }
+  })
+}
+
+/**
+ * Fetches and decodes an audio source
+ *
+ * decodeAudioData is not exposed to worker scopes, so decoding is requested
+ * from the main thread. Browsers run most of the codec on another thread, but
+ * resampling and copying out a long file can still hold up the page - start
+ * background decodes with whenIdle().
+ *
+ * @param src - Static path or object URL of the track
+ * @param sampleRate - Rate to resample to, the analysis rate by default
+ * @returns The fully decoded buffer
+ */
+export async function decodeAudioSource(src: string, sampleRate: number = ANALYSIS_SAMPLE_RATE): Promise<AudioBuffer> {
+  const response = await fetch(src)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audio (${response.status})`)
+  }
+
+  const encoded = await response.arrayBuffer()
+
+  // A one-frame offline context is the cheapest way to get a decoder
+  const context = new OfflineAudioContext(1, 1, sampleRate)
+  return context.decodeAudioData(encoded)
+}
+
+/**
+ * Lends a track's decoded audio to one user at a time
+ *
+ * Background pipelines that need the same track around the same time (the
+ * waveform, tempo and key) share one fetch and decode, started in an idle
+ * period. Each user has the channels to itself and may transfer them to a
+ * worker, but must resolve with them - transferred back - for the next user.
+ * The audio is dropped a few seconds after the last user finishes.
+ *
+ * @param key - Identifies the audio, e.g. the track's cache key
+ * @param src - Static path or object URL to decode on first use
+ * @param task - Works with the audio; resolves with a result and the channels to pass on
+ * @returns The result of the task
+ */
+export async function withDecodedAudio<T>(
+  key: string,
+  src: string,
+  task: (audio: DecodedAudio) => Promise<{ result: T; channels: Float32Array[] }>
+): Promise<T> {
+  let entry = sharedDecodes.get(key)
+  if (!entry) {
+    entry = { turn: Promise.resolve(null), users: 0 }
+    sharedDecodes.set(key, entry)
+  }
+  const current = entry
+  clearTimeout(current.releaseTimer)
+  current.users++
+
+  // Queue behind earlier users, and keep the next one waiting until this one hands the audio on
+  const turn = current.turn
+  let handOn!: (audio: DecodedAudio | null) => void
+  current.turn = new Promise(resolve => {
+    handOn = resolve
+  })
+
+  try {
+    const audio = (await turn) ?? await decodeForSharing(src)
+    const { result, channels } = await task(audio)
+    handOn({ ...audio, channels })
+    return result
+  } catch (error) {
+    // The channels may have been lost in a failed transfer
+    handOn(null)
+    throw error
+  } finally {
+    current.users--
+    if (current.users === 0) {
+      current.releaseTimer = setTimeout(() => {
+        if (sharedDecodes.get(key) === current && current.users === 0) sharedDecodes.delete(key)
+      }, SHARED_DECODE_LINGER)
+    }
+  }
+}
+
+/**
+ * Decodes in an idle period and takes the channels out of the AudioBuffer
+ * The buffer itself is dropped, so transferring the channels may detach its storage
+ */
+async function decodeForSharing(src: string): Promise<DecodedAudio> {
+  await whenIdle()
+  const buffer = await decodeAudioSource(src)
+  return {
+    channels: Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index)),
+    sampleRate: buffer.sampleRate,
+    duration: buffer.duration
+  }
+}
@@ -0,0 +1,999 @@
+/**
+ * Effects Chain
+ * Builds the effect modules, master gain and output limiter on any audio
+ * context, so live playback and offline export process audio identically.
+ * Modules run in the order given by AudioEffects.chain and can be reordered
+ * and bypassed live
+ */
+
+import {
+  type AudioEffects,
+  type DistortionModel,
+  type EffectModuleId,
+  type EffectStage,
+  type EqBand,
+  EFFECT_MODULES,
+  getDelaySeconds
+} from '@/lib/effects'
+import { createBitcrusherNode } from '@/lib/audio/bitcrusher'
+import { isRealtimeContext } from '@/lib/audio/context'
+import { createImpulseBuffer, getImpulseKey } from '@/lib/audio/impulse-responses'
+import { createNoiseGateNode } from '@/lib/audio/noise-gate'
+
+/**
+ * Effects Chain Constants
+ */
+export const EFFECTS_CHAIN_CONFIG = {
+  /** Points on each distortion curve - odd, so silence maps to silence */
+  DISTORTION_CURVE_SAMPLES: 8193,
+  /** Bitcrusher bit depth at no drive and at full drive */
+  BITCRUSHER_MAX_BITS: 16,
+  BITCRUSHER_MIN_BITS: 1,
+  /** Longest delay repeat in seconds - a bar of four beats at the slowest tempo */
+  MAX_DELAY_TIME: 6,
+  /** Chorus delay line centre and largest sweep either side, in seconds */
+  CHORUS_BASE_DELAY: 0.02,
+  CHORUS_MAX_DEPTH: 0.008,
+  /** Flanger delay line centre and largest sweep either side, in seconds */
+  FLANGER_BASE_DELAY: 0.003,
+  FLANGER_MAX_DEPTH: 0.0025,
+  /** Number of all-pass stages in the phaser; each pair adds one notch */
+  PHASER_STAGES: 6,
+  /** Phaser all-pass centre frequency and largest sweep either side, in Hz */
+  PHASER_BASE_FREQUENCY: 1000,
+  PHASER_MAX_DEPTH: 900,
+  /** Limiter ratio and release in seconds; the attack is as fast as the compressor allows */
+  LIMITER_RATIO: 20,
+  LIMITER_RELEASE: 0.1,
+  /** Points on the limiter's hard-clip curve */
+  LIMITER_CURVE_SAMPLES: 4097,
+  /** Analyser size for the level meters - about 46 ms at 44.1 kHz */
+  METER_FFT_SIZE: 2048,
+  /** Time constant in seconds for bypass and mix changes - short enough to feel instant, long enough not to click */
+  MIX_TIME_CONSTANT: 0.01,
+  /** Time constant in seconds for every other parameter, so slider drags and automation do not zipper */
+  PARAM_TIME_CONSTANT: 0.02,
+  /** Time constant in seconds of the fade around a reorder or a change in the number of EQ bands */
+  REWIRE_FADE_TIME_CONSTANT: 0.005,
+  /** Milliseconds between starting the fade-out and rewiring; about five time constants, so the signal is silent */
+  REWIRE_DELAY: 25
+} as const
+
+/**
+ * Effect Module Nodes
+ * Every module has the same wrapper: input feeds a dry path and the module's
+ * processing, and both are summed at output. Bypass and wet/dry mix only move
+ * the two gains, so neither interrupts the signal
+ */
+export interface EffectModuleNodes {
+  input: GainNode
+  output: GainNode
+  dryGain: GainNode
+  wetGain: GainNode
+}
+
+/**
+ * Delay Nodes
+ * A delay line per side with a damping filter in its feedback path. Straight
+ * feedback keeps repeats on their own side (stereo); cross feedback bounces
+ * them between the sides (ping-pong)
+ */
+export interface DelayNodes {
+  /** Feed each input channel to its own delay line */
+  leftInput: GainNode
+  rightInput: GainNode
+  /** Adds the right channel to the left line, for the mono sum ping-pong starts from */
+  crossInput: GainNode
+  delays: [DelayNode, DelayNode]
+  dampers: [BiquadFilterNode, BiquadFilterNode]
+  straightFeedback: [GainNode, GainNode]
+  crossFeedback: [GainNode, GainNode]
+}
+
+/**
+ * Modulated Delay Nodes
+ * A short delay line per side swept by a shared LFO - chorus and flanger differ
+ * only in delay length, sweep and feedback
+ */
+export interface ModulatedDelayNodes {
+  delays: [DelayNode, DelayNode]
+  feedback: [GainNode, GainNode]
+  lfo: OscillatorNode
+  /** Sweep in seconds per side; the right side is inverted for stereo width */
+  depth: [GainNode, GainNode]
+}
+
+/**
+ * Phaser Nodes
+ * All-pass stages swept by an LFO, with feedback from the last stage to the first
+ */
+export interface PhaserNodes {
+  stages: BiquadFilterNode[]
+  feedback: GainNode
+  lfo: OscillatorNode
+  /** Sweep in Hz */
+  depth: GainNode
+}
+
+/**
+ * Distortion Nodes
+ * A wave shaper and the bitcrusher worklet side by side, one fed at a time,
+ * then a tone filter and output level. The bitcrusher arrives after the chain
+ * is built; until then its send feeds the tone filter directly
+ */
+export interface DistortionNodes {
+  input: GainNode
+  shaperSend: GainNode
+  shaper: WaveShaperNode
+  crusherSend: GainNode
+  crusher: AudioWorkletNode | null
+  tone: BiquadFilterNode
+  level: GainNode
+  /** Curve the shaper holds, as `<model>:<drive>`, so it is only replaced when that changes */
+  curveKey: string | null
+  /** Parameters last applied to the bitcrusher, sent again when the worklet arrives */
+  crusherSettings: { bits: number; rate: number }
+}
+
+/**
+ * Noise Gate Nodes
+ * The gate is an AudioWorklet, so it arrives after the chain is built; until
+ * then input feeds output directly
+ */
+export interface NoiseGateNodes {
+  input: GainNode
+  output: GainNode
+  node: AudioWorkletNode | null
+  /** Latest gain reduction reported by the worklet, in dB */
+  reduction: number
+  /** Parameters last applied, sent again when the worklet arrives */
+  settings: { threshold: number; attack: number; release: number }
+}
+
+/**
+ * Limiter Nodes
+ * Brick-wall output stage in the usual dry/wet wrapper: a fast compressor does
+ * the work and a hard clipper at the same ceiling catches whatever its attack
+ * lets through
+ */
+export interface LimiterNodes extends EffectModuleNodes {
+  compressor: DynamicsCompressorNode
+  /** Cancels the makeup gain DynamicsCompressorNode adds by itself */
+  trim: GainNode
+  clipper: WaveShaperNode
+  isEnabled: boolean
+  /** Ceiling the clip curve was built for, null before the first update */
+  ceiling: number | null
+}
+
+/**
+ * Gain Reduction
+ * Current reduction of each dynamics stage in dB - 0 when idle, negative when acting
+ */
+export interface GainReduction {
+  gate: number
+  compressor: number
+  limiter: number
+}
+
+/**
+ * Effects Chain Nodes
+ * Input is `input`, output is `output`
+ */
+export interface EffectsChainNodes {
+  /** Fixed entry point, so modules can be reordered without touching upstream nodes */
+  input: GainNode
+  modules: Record<EffectModuleId, EffectModuleNodes>
+  /** Stages the chain is set up for, in signal order */
+  stages: EffectStage[]
+  /** Fades the modules' output around a reorder */
+  rewireGain: GainNode
+  /** Entry point of the EQ filters inside the EQ module, so they can be replaced without touching its wrapper */
+  eqInput: GainNode
+  /** One filter per EQ band, rebuilt when the band count changes */
+  eqFilters: BiquadFilterNode[]
+  highPassFilter: BiquadFilterNode
+  lowPassFilter: BiquadFilterNode
+  distortion: DistortionNodes
+  reverbNode: ConvolverNode
+  gate: NoiseGateNodes
+  compressor: DynamicsCompressorNode
+  compressorMakeup: GainNode
+  delay: DelayNodes
+  chorus: ModulatedDelayNodes
+  flanger: ModulatedDelayNodes
+  phaser: PhaserNodes
+  /** Master gain, after every module */
+  gainNode: GainNode
+  /** Output limiter, after master gain */
+  limiter: LimiterNodes
+  /** End of the chain */
+  output: GainNode
+  /** Taps for the level meters, before the first module and after the limiter */
+  inputMeter: AnalyserNode
+  outputMeter: AnalyserNode
+  /** Settles once the noise gate and bitcrusher worklets are in place, or have failed to load */
+  ready: Promise<void>
+}
+
+/** Rewires waiting for their fade-out to finish */
+const pendingRewires = new WeakMap<EffectsChainNodes, ReturnType<typeof setTimeout>>()
+
+/** EQ bands a pending rewire rebuilds the filters for, when their number changed */
+const pendingEqBands = new WeakMap<EffectsChainNodes, readonly EqBand[]>()
+
+/** Last value each parameter was sent towards, so unrelated updates do not pile up automation events */
+const paramTargets = new WeakMap<AudioParam, number>()
+
+/** Impulse each convolver holds, as a getImpulseKey key, so it is only rebuilt when that changes */
+const impulseKeys = new WeakMap<ConvolverNode, string>()
+
+/** Distortion curves already built, by `<model>:<drive>` */
+const distortionCurves = new Map<string, Float32Array<ArrayBuffer>>()
+
+/**
+ * Wave-shaping functions for each curve-based model
+ * Each maps an input in -1..1 to an output in -1..1 at a drive of 0-1. All but
+ * fuzz pass the signal unchanged at no drive
+ */
+const DISTORTION_SHAPES: Record<Exclude<DistortionModel, 'bitcrusher'>, (x: number, drive: number) => number> = {
+  // Saturates the negative half a little later than the positive, for even harmonics
+  tube: (x, drive) => {
+    const k = (x < 0 ? 0.7 : 1) * (0.01 + drive * 20)
+    return Math.tanh(k * x) / Math.tanh(k)
+  },
+  'hard-clip': (x, drive) => Math.max(-1, Math.min(1, x * (1 + drive * 29))),
+  // Exponential saturation steep enough to square the wave off at full drive
+  fuzz: (x, drive) => {
+    const k = 1 + drive * 99
+    return (Math.sign(x) * (1 - Math.exp(-k * Math.abs(x)))) / (1 - Math.exp(-k))
+  },
+  // Reflects anything beyond ±1 back into range, as a triangle wave of the driven input
+  foldback: (x, drive) => {
+    const driven = x * (1 + drive * 9)
+    return 1 - Math.abs((((driven + 1) % 4) + 4) % 4 - 2)
+  }
+}
+
+/**
+ * Wave-shaper curve for a distortion model and drive
+ * Curves are cached, so moving a slider back and forth reuses them
+ *
+ * @param drive - Drive percentage (0-100), rounded to whole percent
+ */
+export function getDistortionCurve(model: Exclude<DistortionModel, 'bitcrusher'>, drive: number): Float32Array<ArrayBuffer> {
+  const amount = Math.round(drive)
+  const key = `${model}:${amount}`
+  const cached = distortionCurves.get(key)
+  if (cached) return cached
+
+  const samples = EFFECTS_CHAIN_CONFIG.DISTORTION_CURVE_SAMPLES
+  const shape = DISTORTION_SHAPES[model]
+  const curve = new Float32Array(samples)
+  for (let i = 0; i < samples; i++) {
+    curve[i] = shape((i * 2) / (samples - 1) - 1, amount / 100)
+  }
+
+  distortionCurves.set(key, curve)
+  return curve
+}
+
+/**
+ * Creates a gain that always carries two channels, so mono sources reach both
+ * sides of a stereo effect
+ */
+function createStereoInput(context: BaseAudioContext): GainNode {
+  const input = context.createGain()
+  input.channelCount = 2
+  input.channelCountMode = 'explicit'
+  input.channelInterpretation = 'speakers'
+  return input
+}
+
+/**
+ * Creates the stereo/ping-pong delay
+ * @returns The nodes, plus the entry and exit of the processing path
+ */
+function createDelayNodes(context: BaseAudioContext): { nodes: DelayNodes; input: AudioNode; output: AudioNode } {
+  const input = createStereoInput(context)
+  const splitter = context.createChannelSplitter(2)
+  const merger = context.createChannelMerger(2)
+  const [leftInput, rightInput, crossInput] = [context.createGain(), context.createGain(), context.createGain()]
+  const delays: [DelayNode, DelayNode] = [
+    context.createDelay(EFFECTS_CHAIN_CONFIG.MAX_DELAY_TIME),
+    context.createDelay(EFFECTS_CHAIN_CONFIG.MAX_DELAY_TIME)
+  ]
+  const dampers: [BiquadFilterNode, BiquadFilterNode] = [context.createBiquadFilter(), context.createBiquadFilter()]
+  const straightFeedback: [GainNode, GainNode] = [context.createGain(), context.createGain()]
+  const crossFeedback: [GainNode, GainNode] = [context.createGain(), context.createGain()]
+
+  input.connect(splitter)
+  splitter.connect(leftInput, 0)
+  splitter.connect(rightInput, 1)
+  splitter.connect(crossInput, 1)
+  leftInput.connect(delays[0])
+  crossInput.connect(delays[0])
+  rightInput.connect(delays[1])
+
+  delays.forEach((delay, side) => {
+    dampers[side].type = 'lowpass'
+    delay.connect(dampers[side])
+    dampers[side].connect(straightFeedback[side])
+    straightFeedback[side].connect(delay)
+    dampers[side].connect(crossFeedback[side])
+    crossFeedback[side].connect(delays[1 - side])
+    delay.connect(merger, 0, side)
+  })
+
+  return {
+    nodes: { leftInput, rightInput, crossInput, delays, dampers, straightFeedback, crossFeedback },
+    input,
+    output: merger
+  }
+}
+
+/**
+ * Creates a stereo LFO-swept delay for chorus or flanger
+ * @param maxDelay - Longest delay the sweep can reach, in seconds
+ */
+function createModulatedDelayNodes(
+  context: BaseAudioContext,
+  maxDelay: number
+): { nodes: ModulatedDelayNodes; input: AudioNode; output: AudioNode } {
+  const input = createStereoInput(context)
+  const splitter = context.createChannelSplitter(2)
+  const merger = context.createChannelMerger(2)
+  const delays: [DelayNode, DelayNode] = [context.createDelay(maxDelay), context.createDelay(maxDelay)]
+  const feedback: [GainNode, GainNode] = [context.createGain(), context.createGain()]
+  const depth: [GainNode, GainNode] = [context.createGain(), context.createGain()]
+  const lfo = context.createOscillator()
+
+  input.connect(splitter)
+  delays.forEach((delay, side) => {
+    splitter.connect(delay, side)
+    delay.connect(feedback[side])
+    feedback[side].connect(delay)
+    delay.connect(merger, 0, side)
+    lfo.connect(depth[side])
+    depth[side].connect(delay.delayTime)
+  })
+  lfo.start()
+
+  return { nodes: { delays, feedback, lfo, depth }, input, output: merger }
+}
+
+/**
+ * Creates the phaser's swept all-pass stages
+ */
+function createPhaserNodes(context: BaseAudioContext): PhaserNodes {
+  const stages = Array.from({ length: EFFECTS_CHAIN_CONFIG.PHASER_STAGES }, () => {
+    const stage = context.createBiquadFilter()
+    stage.type = 'allpass'
+    stage.frequency.value = EFFECTS_CHAIN_CONFIG.PHASER_BASE_FREQUENCY
+    return stage
+  })
+  const feedback = context.createGain()
+  // Web Audio mutes cycles without a delay, so the feedback path needs one (a single render quantum)
+  const feedbackDelay = context.createDelay()
+  const depth = context.createGain()
+  const lfo = context.createOscillator()
+
+  stages.forEach((stage, index) => {
+    if (index > 0) stages[index - 1].connect(stage)
+    depth.connect(stage.frequency)
+  })
+  stages[stages.length - 1].connect(feedback)
+  feedback.connect(feedbackDelay)
+  feedbackDelay.connect(stages[0])
+  lfo.connect(depth)
+  lfo.start()
+
+  return { stages, feedback, lfo, depth }
+}
+
+/**
+ * Creates a hard-clip curve at a ceiling
+ * Inputs beyond ±1 map to the curve ends, so every level is clipped
+ *
+ * @param ceiling - Highest output level in dBFS
+ */
+function createClipperCurve(ceiling: number): Float32Array {
+  const samples = EFFECTS_CHAIN_CONFIG.LIMITER_CURVE_SAMPLES
+  const limit = Math.pow(10, ceiling / 20)
+  const curve = new Float32Array(samples)
+
+  for (let i = 0; i < samples; i++) {
+    const x = (i * 2) / (samples - 1) - 1
+    curve[i] = Math.max(-limit, Math.min(limit, x))
+  }
+
+  return curve
+}
+
+/**
+ * Gain that undoes DynamicsCompressorNode's automatic makeup for a hard knee
+ * The node boosts by (1 / full-range gain)^0.6, where the full-range gain is
+ * its gain for a 0 dBFS input
+ */
+function getMakeupCompensation(threshold: number, ratio: number): number {
+  const fullRangeGainDb = -threshold * (1 - 1 / ratio)
+  return Math.pow(10, (-0.6 * fullRangeGainDb) / 20)
+}
+
+/**
+ * Creates the output limiter, wrapped so it can be switched off without a click
+ */
+function createLimiterNodes(context: BaseAudioContext): LimiterNodes {
+  const compressor = context.createDynamicsCompressor()
+  compressor.knee.value = 0
+  compressor.ratio.value = EFFECTS_CHAIN_CONFIG.LIMITER_RATIO
+  compressor.attack.value = 0
+  compressor.release.value = EFFECTS_CHAIN_CONFIG.LIMITER_RELEASE
+
+  const trim = context.createGain()
+  const clipper = context.createWaveShaper()
+  // Oversampling would filter the whole signal, not just the clipped peaks
+  clipper.oversample = 'none'
+
+  compressor.connect(trim)
+  trim.connect(clipper)
+
+  return { ...createModuleNodes(context, compressor, clipper), compressor, trim, clipper, isEnabled: false, ceiling: null }
+}
+
+/**
+ * Creates the noise gate's placeholder path and starts loading its worklet
+ * @returns The gate nodes, and a promise that settles once the worklet is connected or has failed
+ */
+function createNoiseGateNodes(context: BaseAudioContext): { nodes: NoiseGateNodes; ready: Promise<void> } {
+  const input = context.createGain()
+  const output = context.createGain()
+  input.connect(output)
+
+  const nodes: NoiseGateNodes = {
+    input,
+    output,
+    node: null,
+    reduction: 0,
+    settings: { threshold: -100, attack: 0.001, release: 0.1 }
+  }
+
+  // The gate is optional - the chain works without it
+  const ready = createNoiseGateNode(context, isRealtimeContext(context))
+    .then(node => {
+      if (!node) return
+      node.port.onmessage = (event: MessageEvent<number>) => {
+        nodes.reduction = event.data
+      }
+      nodes.node = node
+      input.disconnect()
+      input.connect(node)
+      node.connect(output)
+      syncNoiseGate(nodes)
+    })
+    .catch(error => console.warn('Noise gate unavailable:', error))
+
+  return { nodes, ready }
+}
+
+/**
+ * Sends the gate's current settings to its worklet, if loaded
+ */
+function syncNoiseGate(gate: NoiseGateNodes): void {
+  if (!gate.node) return
+  const { threshold, attack, release } = gate.settings
+  gate.node.parameters.get('threshold')?.setValueAtTime(threshold, 0)
+  gate.node.parameters.get('attack')?.setValueAtTime(attack, 0)
+  gate.node.parameters.get('release')?.setValueAtTime(release, 0)
+}
+
+/**
+ * Sends the bitcrusher's current settings to its worklet, if loaded
+ */
+function syncBitcrusher(distortion: DistortionNodes): void {
+  if (!distortion.crusher) return
+  const { bits, rate } = distortion.crusherSettings
+  distortion.crusher.parameters.get('bits')?.setValueAtTime(bits, 0)
+  distortion.crusher.parameters.get('rate')?.setValueAtTime(rate, 0)
+}
+
+/**
+ * Creates the distortion's shaper, tone and level, and starts loading the bitcrusher worklet
+ * @returns The distortion nodes, and a promise that settles once the worklet is connected or has failed
+ */
+function createDistortionNodes(context: BaseAudioContext): { nodes: DistortionNodes; ready: Promise<void> } {
+  const input = context.createGain()
+  const shaperSend = context.createGain()
+  const shaper = context.createWaveShaper()
+  const crusherSend = context.createGain()
+  const tone = context.createBiquadFilter()
+  tone.type = 'lowpass'
+  const level = context.createGain()
+
+  input.connect(shaperSend)
+  shaperSend.connect(shaper)
+  shaper.connect(tone)
+  input.connect(crusherSend)
+  crusherSend.connect(tone)
+  tone.connect(level)
+
+  const nodes: DistortionNodes = {
+    input,
+    shaperSend,
+    shaper,
+    crusherSend,
+    crusher: null,
+    tone,
+    level,
+    curveKey: null,
+    crusherSettings: { bits: EFFECTS_CHAIN_CONFIG.BITCRUSHER_MAX_BITS, rate: context.sampleRate }
+  }
+
+  // Only the bitcrusher model needs the worklet - the others work without it
+  const ready = createBitcrusherNode(context)
+    .then(node => {
+      if (!node) return
+      nodes.crusher = node
+      crusherSend.disconnect()
+      crusherSend.connect(node)
+      node.connect(tone)
+      syncBitcrusher(nodes)
+    })
+    .catch(error => console.warn('Bitcrusher unavailable:', error))
+
+  return { nodes, ready }
+}
+
+/**
+ * Wraps a module's processing in the standard dry/wet wrapper
+ * @param processInput - First node of the processing path
+ * @param processOutput - Last node of the processing path
+ */
+function createModuleNodes(context: BaseAudioContext, processInput: AudioNode, processOutput: AudioNode): EffectModuleNodes {
+  const input = context.createGain()
+  const output = context.createGain()
+  const dryGain = context.createGain()
+  const wetGain = context.createGain()
+
+  input.connect(dryGain)
+  dryGain.connect(output)
+  input.connect(processInput)
+  processOutput.connect(wetGain)
+  wetGain.connect(output)
+
+  return { input, output, dryGain, wetGain }
+}
+
+/**
+ * Creates and connects the effects chain
+ *
+ * @param context - Realtime or offline context to build the nodes in
+ * @param effects - Initial settings
+ * @returns The connected nodes; callers connect into input and out of output
+ */
+export function createEffectsChain(context: BaseAudioContext, effects: Readonly<AudioEffects>): EffectsChainNodes {
+  // Parametric EQ - the filters themselves are created by syncEqFilters
+  const eqInput = context.createGain()
+
+  // Frequency filtering nodes
+  const highPassFilter = context.createBiquadFilter()
+  highPassFilter.type = 'highpass'
+
+  const lowPassFilter = context.createBiquadFilter()
+  lowPassFilter.type = 'lowpass'
+
+  // Harmonic distortion - wave-shaper models and the bitcrusher worklet
+  const distortion = createDistortionNodes(context)
+
+  // Reverb - its wet/dry balance is the module mix; the impulse is built by updateEffectsChain
+  const reverbNode = context.createConvolver()
+
+  // Dynamics - noise gate worklet, compressor with makeup gain
+  const gate = createNoiseGateNodes(context)
+  const compressor = context.createDynamicsCompressor()
+  const compressorMakeup = context.createGain()
+  compressor.connect(compressorMakeup)
+
+  // Time-based modulation effects
+  const delay = createDelayNodes(context)
+  const chorus = createModulatedDelayNodes(
+    context, EFFECTS_CHAIN_CONFIG.CHORUS_BASE_DELAY + EFFECTS_CHAIN_CONFIG.CHORUS_MAX_DEPTH
+  )
+  const flanger = createModulatedDelayNodes(
+    context, EFFECTS_CHAIN_CONFIG.FLANGER_BASE_DELAY + EFFECTS_CHAIN_CONFIG.FLANGER_MAX_DEPTH
+  )
+  const phaser = createPhaserNodes(context)
+
+  const modules: Record<EffectModuleId, EffectModuleNodes> = {
+    gate: createModuleNodes(context, gate.nodes.input, gate.nodes.output),
+    // Starts with no bands: eqInput feeds the wet gain directly until syncEqFilters inserts them
+    eq: createModuleNodes(context, eqInput, eqInput),
+    highpass: createModuleNodes(context, highPassFilter, highPassFilter),
+    lowpass: createModuleNodes(context, lowPassFilter, lowPassFilter),
+    compressor: createModuleNodes(context, compressor, compressorMakeup),
+    distortion: createModuleNodes(context, distortion.nodes.input, distortion.nodes.level),
+    chorus: createModuleNodes(context, chorus.input, chorus.output),
+    flanger: createModuleNodes(context, flanger.input, flanger.output),
+    phaser: createModuleNodes(context, phaser.stages[0], phaser.stages[phaser.stages.length - 1]),
+    delay: createModuleNodes(context, delay.input, delay.output),
+    reverb: createModuleNodes(context, reverbNode, reverbNode)
+  }
+
+  // Chain entry, the fade used while rewiring, master gain and the output limiter
+  const input = context.createGain()
+  const rewireGain = context.createGain()
+  const gainNode = context.createGain()
+  const limiter = createLimiterNodes(context)
+  rewireGain.connect(gainNode)
+  gainNode.connect(limiter.input)
+
+  // Level meter taps - analysers need no onward connection
+  const inputMeter = context.createAnalyser()
+  const outputMeter = context.createAnalyser()
+  inputMeter.fftSize = EFFECTS_CHAIN_CONFIG.METER_FFT_SIZE
+  outputMeter.fftSize = EFFECTS_CHAIN_CONFIG.METER_FFT_SIZE
+  input.connect(inputMeter)
+  limiter.output.connect(outputMeter)
+
+  const nodes: EffectsChainNodes = {
+    input, modules, stages: [], rewireGain, eqInput, eqFilters: [],
+    highPassFilter, lowPassFilter, distortion: distortion.nodes, reverbNode,
+    gate: gate.nodes, compressor, compressorMakeup,
+    delay: delay.nodes, chorus: chorus.nodes, flanger: flanger.nodes, phaser,
+    gainNode, limiter, output: limiter.output, inputMeter, outputMeter,
+    ready: Promise.all([gate.ready, distortion.ready]).then(() => undefined)
+  }
+  updateEffectsChain(nodes, effects, true)
+  return nodes
+}
+
+/**
+ * Matches the EQ filters to a band list
+ * Parameters are ramped in place. A change in the number of bands recreates the
+ * filters, under the same fade as a reorder on a realtime context, and new
+ * filters start at their settings
+ */
+export function syncEqFilters(nodes: EffectsChainNodes, bands: readonly EqBand[], immediate: boolean): void {
+  const context = nodes.eqInput.context
+  if (nodes.eqFilters.length !== bands.length || pendingEqBands.has(nodes)) {
+    if (immediate || !isRealtimeContext(context)) {
+      pendingEqBands.delete(nodes)
+      rebuildEqFilters(nodes, bands)
+    } else {
+      // The newest bands are read when the fade-out ends
+      pendingEqBands.set(nodes, bands)
+      if (!pendingRewires.has(nodes)) rewireModules(nodes, false)
+    }
+    return
+  }
+
+  bands.forEach((band, index) => {
+    const filter = nodes.eqFilters[index]
+    filter.type = band.type
+    setParam(filter.frequency, band.frequency, immediate, context)
+    setParam(filter.gain, band.gain, immediate, context)
+    setParam(filter.Q, band.q, immediate, context)
+  })
+}
+
+/**
+ * Replaces the EQ filters with a fresh series set to the bands
+ */
+function rebuildEqFilters(nodes: EffectsChainNodes, bands: readonly EqBand[]): void {
+  const context = nodes.eqInput.context
+  nodes.eqInput.disconnect()
+  nodes.eqFilters.forEach(filter => filter.disconnect())
+  nodes.eqFilters = bands.map(band => {
+    const filter = context.createBiquadFilter()
+    filter.type = band.type
+    setParam(filter.frequency, band.frequency, true, context)
+    setParam(filter.gain, band.gain, true, context)
+    setParam(filter.Q, band.q, true, context)
+    return filter
+  })
+
+  let currentNode: AudioNode = nodes.eqInput
+  nodes.eqFilters.forEach(filter => {
+    currentNode.connect(filter)
+    currentNode = filter
+  })
+  currentNode.connect(nodes.modules.eq.wetGain)
+}
+
+/**
+ * Whether a module is in the chain and not bypassed
+ */
+function isModuleActive(nodes: EffectsChainNodes, module: EffectModuleId): boolean {
+  return !nodes.stages.find(stage => stage.module === module)?.bypassed
+}
+
+/**
+ * Every active filter shaping the frequency response
+ * Bypassed modules are left out; order does not matter for the combined magnitude
+ */
+export function getChainFilters(nodes: EffectsChainNodes): BiquadFilterNode[] {
+  return [
+    ...(isModuleActive(nodes, 'eq') ? nodes.eqFilters : []),
+    ...(isModuleActive(nodes, 'highpass') ? [nodes.highPassFilter] : []),
+    ...(isModuleActive(nodes, 'lowpass') ? [nodes.lowPassFilter] : [])
+  ]
+}
+
+/**
+ * Connects the modules in the given order between input and the rewire fade
+ */
+function wireModules(nodes: EffectsChainNodes, order: readonly EffectModuleId[]): void {
+  nodes.input.disconnect()
+  nodes.input.connect(nodes.inputMeter)
+  Object.values(nodes.modules).forEach(module => module.output.disconnect())
+
+  let currentNode: AudioNode = nodes.input
+  order.forEach(id => {
+    currentNode.connect(nodes.modules[id].input)
+    currentNode = nodes.modules[id].output
+  })
+  currentNode.connect(nodes.rewireGain)
+}
+
+/**
+ * Rebuilds any pending EQ series, then connects the modules in the current order
+ */
+function applyRewire(nodes: EffectsChainNodes): void {
+  const bands = pendingEqBands.get(nodes)
+  if (bands) {
+    pendingEqBands.delete(nodes)
+    rebuildEqFilters(nodes, bands)
+  }
+  wireModules(nodes, nodes.stages.map(stage => stage.module))
+}
+
+/**
+ * Reorders the modules without a click
+ * On a realtime context the chain fades out over a few milliseconds, is rewired
+ * while silent and fades back in. Other contexts are rewired immediately
+ */
+function rewireModules(nodes: EffectsChainNodes, immediate: boolean): void {
+  const context = nodes.input.context
+  clearTimeout(pendingRewires.get(nodes))
+
+  if (immediate || !isRealtimeContext(context)) {
+    applyRewire(nodes)
+    return
+  }
+
+  const fade = nodes.rewireGain.gain
+  fade.setTargetAtTime(0, context.currentTime, EFFECTS_CHAIN_CONFIG.REWIRE_FADE_TIME_CONSTANT)
+
+  pendingRewires.set(nodes, setTimeout(() => {
+    pendingRewires.delete(nodes)
+    // Wire whatever order and bands are current by now, in case they changed again during the fade
+    applyRewire(nodes)
+    fade.setTargetAtTime(1, context.currentTime, EFFECTS_CHAIN_CONFIG.REWIRE_FADE_TIME_CONSTANT)
+  }, EFFECTS_CHAIN_CONFIG.REWIRE_DELAY))
+}
+
+/**
+ * Moves a parameter towards a value, smoothly unless immediate
+ */
+function setParam(
+  param: AudioParam,
+  value: number,
+  immediate: boolean,
+  context: BaseAudioContext,
+  timeConstant: number = EFFECTS_CHAIN_CONFIG.PARAM_TIME_CONSTANT
+): void {
+  if (immediate) {
+    param.value = value
+  } else if (paramTargets.get(param) !== value) {
+    param.setTargetAtTime(value, context.currentTime, timeConstant)
+  }
+  paramTargets.set(param, value)
+}
+
+/**
+ * Moves a mix gain towards a value, smoothly unless immediate
+ */
+function setMixGain(param: AudioParam, value: number, immediate: boolean, context: BaseAudioContext): void {
+  setParam(param, value, immediate, context, EFFECTS_CHAIN_CONFIG.MIX_TIME_CONSTANT)
+}
+
+/**
+ * Wet level of a stage (0-1): nothing when bypassed, the module mix where it has one
+ */
+function getStageWet(stage: Readonly<EffectStage>, effects: Readonly<AudioEffects>): number {
+  if (stage.bypassed) return 0
+  const { hasMix, mixKey } = EFFECT_MODULES[stage.module]
+  if (mixKey) return effects[mixKey] / 100
+  return hasMix ? stage.mix / 100 : 1
+}
+
+/**
+ * Sets a chorus or flanger's rate, sweep and feedback
+ * @param baseDelay - Centre of the sweep in seconds
+ * @param maxDepth - Sweep either side at 100% depth, in seconds
+ */
+function setModulatedDelay(
+  nodes: ModulatedDelayNodes,
+  rate: number,
+  depth: number,
+  feedback: number,
+  baseDelay: number,
+  maxDepth: number,
+  immediate: boolean
+): void {
+  const context = nodes.lfo.context
+  setParam(nodes.lfo.frequency, rate, immediate, context)
+  nodes.delays.forEach(delay => setParam(delay.delayTime, baseDelay, immediate, context))
+  setParam(nodes.depth[0].gain, (depth / 100) * maxDepth, immediate, context)
+  setParam(nodes.depth[1].gain, -(depth / 100) * maxDepth, immediate, context)
+  nodes.feedback.forEach(gain => setParam(gain.gain, feedback / 100, immediate, context))
+}
+
+/**
+ * Applies the distortion model, drive, tone, level and oversampling
+ * Switching between the shaper and the bitcrusher crossfades their sends
+ */
+function updateDistortion(nodes: EffectsChainNodes, effects: Readonly<AudioEffects>, immediate: boolean): void {
+  const { distortion } = nodes
+  const context = distortion.input.context
+  const isCrusher = effects.distortionModel === 'bitcrusher'
+
+  setMixGain(distortion.shaperSend.gain, isCrusher ? 0 : 1, immediate, context)
+  setMixGain(distortion.crusherSend.gain, isCrusher ? 1 : 0, immediate, context)
+
+  if (effects.distortionModel !== 'bitcrusher') {
+    const curveKey = `${effects.distortionModel}:${Math.round(effects.distortion)}`
+    if (distortion.curveKey !== curveKey) {
+      distortion.curveKey = curveKey
+      distortion.shaper.curve = getDistortionCurve(effects.distortionModel, effects.distortion)
+    }
+  }
+  if (distortion.shaper.oversample !== effects.distortionOversample) {
+    distortion.shaper.oversample = effects.distortionOversample
+  }
+
+  const { BITCRUSHER_MAX_BITS, BITCRUSHER_MIN_BITS } = EFFECTS_CHAIN_CONFIG
+  distortion.crusherSettings = {
+    bits: BITCRUSHER_MAX_BITS - (effects.distortion / 100) * (BITCRUSHER_MAX_BITS - BITCRUSHER_MIN_BITS),
+    rate: effects.bitcrusherRate
+  }
+  syncBitcrusher(distortion)
+
+  setParam(distortion.tone.frequency, effects.distortionTone, immediate, context)
+  setParam(distortion.level.gain, Math.pow(10, effects.distortionLevel / 20), immediate, context)
+}
+
+/**
+ * Applies the noise gate, compressor and limiter settings
+ */
+function updateDynamics(nodes: EffectsChainNodes, effects: Readonly<AudioEffects>, immediate: boolean): void {
+  const { compressor, limiter } = nodes
+  const context = compressor.context
+
+  nodes.gate.settings = {
+    threshold: effects.gateThreshold,
+    attack: effects.gateAttack / 1000,
+    release: effects.gateRelease / 1000
+  }
+  syncNoiseGate(nodes.gate)
+
+  setParam(compressor.threshold, effects.compressorThreshold, immediate, context)
+  setParam(compressor.ratio, effects.compressorRatio, immediate, context)
+  setParam(compressor.knee, effects.compressorKnee, immediate, context)
+  setParam(compressor.attack, effects.compressorAttack / 1000, immediate, context)
+  setParam(compressor.release, effects.compressorRelease / 1000, immediate, context)
+  setParam(nodes.compressorMakeup.gain, Math.pow(10, effects.compressorMakeup / 20), immediate, context)
+
+  // The clip curve is only rebuilt when the ceiling moves
+  if (limiter.ceiling !== effects.limiterCeiling) {
+    limiter.ceiling = effects.limiterCeiling
+    setParam(limiter.compressor.threshold, effects.limiterCeiling, immediate, context)
+    setParam(limiter.trim.gain, getMakeupCompensation(effects.limiterCeiling, EFFECTS_CHAIN_CONFIG.LIMITER_RATIO), immediate, context)
+    limiter.clipper.curve = createClipperCurve(effects.limiterCeiling)
+  }
+  limiter.isEnabled = effects.limiter
+  setMixGain(limiter.wetGain.gain, effects.limiter ? 1 : 0, immediate, context)
+  setMixGain(limiter.dryGain.gain, effects.limiter ? 0 : 1, immediate, context)
+}
+
+/**
+ * Current gain reduction of the gate, compressor and limiter
+ * Bypassed or switched-off stages read 0
+ */
+export function getGainReduction(nodes: EffectsChainNodes): GainReduction {
+  return {
+    gate: isModuleActive(nodes, 'gate') && nodes.gate.node ? nodes.gate.reduction : 0,
+    compressor: isModuleActive(nodes, 'compressor') ? nodes.compressor.reduction : 0,
+    limiter: nodes.limiter.isEnabled ? nodes.limiter.compressor.reduction : 0
+  }
+}
+
+/**
+ * Applies the delay, chorus, flanger and phaser settings
+ */
+function updateModulationEffects(nodes: EffectsChainNodes, effects: Readonly<AudioEffects>, immediate: boolean): void {
+  const { delay, phaser } = nodes
+  const context = phaser.lfo.context
+  const isPingPong = effects.delayMode === 'ping-pong'
+  const delayTime = Math.min(getDelaySeconds(effects), EFFECTS_CHAIN_CONFIG.MAX_DELAY_TIME)
+  const feedback = effects.delayFeedback / 100
+
+  // Ping-pong starts from a mono sum on the left and only feeds back across
+  setMixGain(delay.leftInput.gain, isPingPong ? 0.5 : 1, immediate, context)
+  setMixGain(delay.crossInput.gain, isPingPong ? 0.5 : 0, immediate, context)
+  setMixGain(delay.rightInput.gain, isPingPong ? 0 : 1, immediate, context)
+  // A ramped delay time glides the pitch of the repeats, like a tape echo, instead of clicking
+  delay.delays.forEach(node => setParam(node.delayTime, delayTime, immediate, context))
+  delay.dampers.forEach(damper => setParam(damper.frequency, effects.delayDamping, immediate, context))
+  delay.straightFeedback.forEach(gain => setParam(gain.gain, isPingPong ? 0 : feedback, immediate, context))
+  delay.crossFeedback.forEach(gain => setParam(gain.gain, isPingPong ? feedback : 0, immediate, context))
+
+  setModulatedDelay(
+    nodes.chorus, effects.chorusRate, effects.chorusDepth, effects.chorusFeedback,
+    EFFECTS_CHAIN_CONFIG.CHORUS_BASE_DELAY, EFFECTS_CHAIN_CONFIG.CHORUS_MAX_DEPTH, immediate
+  )
+  setModulatedDelay(
+    nodes.flanger, effects.flangerRate, effects.flangerDepth, effects.flangerFeedback,
+    EFFECTS_CHAIN_CONFIG.FLANGER_BASE_DELAY, EFFECTS_CHAIN_CONFIG.FLANGER_MAX_DEPTH, immediate
+  )
+
+  setParam(phaser.lfo.frequency, effects.phaserRate, immediate, context)
+  setParam(phaser.depth.gain, (effects.phaserDepth / 100) * EFFECTS_CHAIN_CONFIG.PHASER_MAX_DEPTH, immediate, context)
+  setParam(phaser.feedback.gain, effects.phaserFeedback / 100, immediate, context)
+}
+
+/**
+ * Applies settings, rewiring only when the module order changed
+ */
+function updateEffectsChain(nodes: EffectsChainNodes, effects: Readonly<AudioEffects>, immediate: boolean): void {
+  const context = nodes.input.context
+
+  // Update master gain (volume * gain multiplier)
+  setParam(nodes.gainNode.gain, effects.volume * effects.gain, immediate, context)
+
+  // Apply parametric EQ bands
+  syncEqFilters(nodes, effects.eqBands, immediate)
+
+  // Update frequency filters
+  setParam(nodes.lowPassFilter.frequency, effects.lowPass, immediate, context)
+  setParam(nodes.highPassFilter.frequency, effects.highPass, immediate, context)
+
+  // Distortion model, drive, tone and level
+  updateDistortion(nodes, effects, immediate)
+
+  // Rebuild the reverb impulse when its source or parameters change
+  const impulseKey = getImpulseKey(effects)
+  if (impulseKeys.get(nodes.reverbNode) !== impulseKey) {
+    impulseKeys.set(nodes.reverbNode, impulseKey)
+    nodes.reverbNode.buffer = createImpulseBuffer(context, effects)
+  }
+
+  // Gate, compressor and output limiter
+  updateDynamics(nodes, effects, immediate)
+
+  // Delay, chorus, flanger and phaser
+  updateModulationEffects(nodes, effects, immediate)
+
+  // Module order, bypass and wet/dry mix
+  const isReordered = effects.chain.length !== nodes.stages.length ||
+    effects.chain.some((stage, index) => stage.module !== nodes.stages[index].module)
+  nodes.stages = effects.chain.map(stage => ({ ...stage }))
+  if (isReordered) {
+    rewireModules(nodes, immediate)
+  }
+
+  effects.chain.forEach(stage => {
+    const { dryGain, wetGain } = nodes.modules[stage.module]
+    const wet = getStageWet(stage, effects)
+    setMixGain(wetGain.gain, wet, immediate, context)
+    setMixGain(dryGain.gain, 1 - wet, immediate, context)
+  })
+}
+
+/**
+ * Applies effect settings to an existing chain
+ * The output gain is volume × gain, so pass volume 1 to render at full level
+ */
+export function applyEffectsChain(nodes: EffectsChainNodes, effects: Readonly<AudioEffects>): void {
+  updateEffectsChain(nodes, effects, false)
+}
@@ -0,0 +1,385 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_EFFECTS } from '@/lib/effects'
+import { createLiveInput, createTestToneStream } from '@/lib/audio/live-input'
+import { type FakeAudioContext, type FakeParam, createFakeAudioContext, isRoutedTo, stubAudioFetch } from '@/test/fake-audio-context'
+import { type AudioEngine, type AudioEngineEvents, createAudioEngine } from '.'
+
+const TRACKS = {
+  '/first.mp3': 10,
+  '/second.mp3': 6,
+  '/third.mp3': 8
+}
+
+/**
+ * Records every engine event as `type:payload`, in emission order
+ * Times are rounded to the millisecond, as the fake clock steps in floats
+ */
+function recordEvents(engine: AudioEngine): string[] {
+  const events: string[] = []
+  const types: (keyof AudioEngineEvents)[] = ['statechange', 'durationchange', 'timeupdate', 'trackchange', 'ended', 'error']
+  types.forEach(type => engine.on(type, (payload: unknown) => {
+    if (payload === undefined) return events.push(type)
+    const value = payload instanceof Error ? payload.message : typeof payload === 'number' ? Number(payload.toFixed(3)) : payload
+    events.push(`${type}:${value}`)
+  }))
+  return events
+}
+
+/**
+ * Events other than the position reports made while playing
+ */
+function withoutTimeUpdates(events: string[]): string[] {
+  return events.filter(event => !event.startsWith('timeupdate'))
+}
+
+/**
+ * Buffer sources that have been started and not stopped or ended
+ */
+function getPlayingSources(fake: FakeAudioContext) {
+  return fake.sources.filter(source => source.startTime !== null && !source.isStopped)
+}
+
+describe('createAudioEngine', () => {
+  let fake: FakeAudioContext
+  let fetchMock: ReturnType<typeof stubAudioFetch>
+  let engine: AudioEngine
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    // The fake context has no AudioWorklet, so the optional worklet nodes warn and fall back
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    fake = createFakeAudioContext()
+    fetchMock = stubAudioFetch(TRACKS)
+    engine = createAudioEngine({ context: fake.context })
+  })
+
+  afterEach(() => {
+    engine.dispose()
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  // ==========================================================================
+  // EVENTS
+  // ==========================================================================
+
+  describe('events', () => {
+    it('reports a load as loading, reset position, duration, then paused', async () => {
+      const events = recordEvents(engine)
+
+      await engine.load('/first.mp3')
+
+      expect(events).toEqual(['statechange:loading', 'timeupdate:0', 'durationchange:10', 'statechange:paused'])
+      expect(engine.state).toBe('paused')
+      expect(engine.duration).toBe(10)
+    })
+
+    it('reports play, pause and seek in order', async () => {
+      await engine.load('/first.mp3')
+      const events = recordEvents(engine)
+
+      await engine.play()
+      expect(events).toEqual(['statechange:playing'])
+
+      await fake.advance(1)
+      events.length = 0
+      engine.pause()
+      engine.seek(4)
+
+      expect(events).toEqual(['statechange:paused', 'timeupdate:1', 'timeupdate:4'])
+      expect(engine.currentTime).toBe(4)
+    })
+
+    it('waits for a pending load before playing', async () => {
+      const events = recordEvents(engine)
+
+      const load = engine.load('/first.mp3')
+      await engine.play()
+      await load
+
+      expect(events).toEqual([
+        'statechange:loading', 'timeupdate:0', 'durationchange:10', 'statechange:paused', 'statechange:playing'
+      ])
+      expect(getPlayingSources(fake)).toHaveLength(1)
+    })
+
+    it('reports the end of the last track as paused, final position, then ended', async () => {
+      await engine.load('/second.mp3')
+      await engine.play()
+      const events = recordEvents(engine)
+
+      await fake.advance(6.1)
+
+      expect(events.slice(-3)).toEqual(['statechange:paused', 'timeupdate:6', 'ended'])
+      expect(engine.state).toBe('paused')
+    })
+
+    it('only reports the newest of overlapping loads', async () => {
+      const events = recordEvents(engine)
+
+      const first = engine.load('/first.mp3')
+      const second = engine.load('/second.mp3')
+      await Promise.all([first, second])
+
+      expect(events.filter(event => event.startsWith('durationchange'))).toEqual(['durationchange:6'])
+      expect(events[events.length - 1]).toBe('statechange:paused')
+      expect(engine.duration).toBe(6)
+    })
+
+    it('empties the engine and reports an error when a load fails', async () => {
+      await expect(engine.load('/missing.mp3')).rejects.toThrow('Failed to fetch audio (404)')
+      expect(engine.state).toBe('empty')
+    })
+
+    it('clamps seeks to the track and ignores them while loading', async () => {
+      const load = engine.load('/first.mp3')
+      engine.seek(3)
+      await load
+      expect(engine.currentTime).toBe(0)
+
+      engine.seek(25)
+      expect(engine.currentTime).toBe(10)
+      engine.seek(-2)
+      expect(engine.currentTime).toBe(0)
+    })
+
+    it('stops calling a listener once unsubscribed', async () => {
+      const listener = vi.fn()
+      const unsubscribe = engine.on('statechange', listener)
+      unsubscribe()
+
+      await engine.load('/first.mp3')
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  // ==========================================================================
+  // TRANSPORT SWITCHING
+  // ==========================================================================
+
+  describe('track switching', () => {
+    it('starts a preloaded track on the sample the current one ends on', async () => {
+      await engine.load('/second.mp3')
+      engine.preload('/first.mp3')
+      await engine.play()
+      const events = recordEvents(engine)
+
+      await fake.advance(6.5)
+
+      const [current, next] = fake.sources
+      expect(next.startTime).toBeCloseTo(current.startTime! + 6, 9)
+      expect(next.startOffset).toBe(0)
+      expect(withoutTimeUpdates(events)).toEqual(['durationchange:10', 'trackchange:/first.mp3'])
+      expect(engine.state).toBe('playing')
+      expect(engine.duration).toBe(10)
+      expect(engine.currentTime).toBeCloseTo(0.5, 2)
+    })
+
+    it('joins at the end of the track even when the switch timer runs late', async () => {
+      await engine.load('/second.mp3')
+      engine.preload('/first.mp3')
+      await engine.play()
+      await fake.advance(5.8)
+      const events = recordEvents(engine)
+
+      fake.advanceClock(0.3)
+
+      expect(withoutTimeUpdates(events)).toEqual(['durationchange:10', 'trackchange:/first.mp3'])
+      expect(engine.state).toBe('playing')
+      await fake.advance(1)
+      expect(withoutTimeUpdates(events)).toEqual(['durationchange:10', 'trackchange:/first.mp3'])
+    })
+
+    it('keeps joining a track to itself for repeat-one', async () => {
+      await engine.load('/second.mp3')
+      engine.preload('/second.mp3')
+      await engine.play()
+      const events = recordEvents(engine)
+
+      await fake.advance(6.5)
+      await fake.advance(6)
+
+      expect(withoutTimeUpdates(events)).toEqual(['trackchange:/second.mp3', 'trackchange:/second.mp3'])
+      expect(fake.sources.map(source => source.startTime)).toEqual([0, 6, 12])
+      expect(engine.state).toBe('playing')
+    })
+
+    it('overlaps the tracks for the crossfade length', async () => {
+      engine.setTransition({ mode: 'crossfade', crossfadeDuration: 2 })
+      await engine.load('/first.mp3')
+      engine.preload('/second.mp3')
+      await engine.play()
+
+      await fake.advance(8.5)
+
+      const [current, next] = fake.sources
+      // Crossfades start on the first end check inside the fade length
+      expect(next.startTime).toBeGreaterThanOrEqual(8 - 0.05)
+      expect(next.startTime).toBeLessThanOrEqual(8 + 0.05)
+      expect(current.isStopped).toBe(false)
+
+      await fake.advance(2)
+      expect(current.isStopped).toBe(true)
+      expect(getPlayingSources(fake)).toEqual([next])
+    })
+
+    it('ends normally when transitions are off', async () => {
+      engine.setTransition({ mode: 'off', crossfadeDuration: 2 })
+      await engine.load('/second.mp3')
+      engine.preload('/first.mp3')
+      await engine.play()
+      const events = recordEvents(engine)
+
+      await fake.advance(6.5)
+
+      expect(events).toContain('ended')
+      expect(events).not.toContain('trackchange:/first.mp3')
+      expect(fake.sources).toHaveLength(1)
+    })
+
+    it('switches to a preloaded track on load without fetching it again', async () => {
+      await engine.load('/first.mp3')
+      engine.preload('/second.mp3')
+      await vi.advanceTimersByTimeAsync(0)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+
+      await engine.load('/second.mp3')
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(engine.duration).toBe(6)
+      await engine.play()
+      expect(getPlayingSources(fake)).toHaveLength(1)
+    })
+
+    it('keeps the next track waiting when paused before the join', async () => {
+      await engine.load('/second.mp3')
+      engine.preload('/first.mp3')
+      await engine.play()
+      await fake.advance(5.85)
+
+      engine.pause()
+      engine.seek(1)
+      await engine.play()
+      await fake.advance(5.5)
+
+      expect(engine.duration).toBe(10)
+      expect(engine.state).toBe('playing')
+    })
+  })
+
+  // ==========================================================================
+  // EFFECTS
+  // ==========================================================================
+
+  describe('effects', () => {
+    it('applies volume and gain to the output gain', () => {
+      engine.setEffects({ volume: 0.5, gain: 1.5 })
+
+      expect((engine.chain.gainNode.gain as unknown as FakeParam).value).toBe(0.75)
+      expect(engine.effects.volume).toBe(0.5)
+      expect(engine.effects.lowPass).toBe(DEFAULT_EFFECTS.lowPass)
+    })
+
+    it('applies filter settings to the chain', () => {
+      engine.setEffects({ lowPass: 4000, highPass: 120 })
+
+      expect(engine.chain.lowPassFilter.frequency.value).toBe(4000)
+      expect(engine.chain.highPassFilter.frequency.value).toBe(120)
+    })
+
+    it('resamples playing audio to the speed', async () => {
+      await engine.load('/first.mp3')
+      await engine.play()
+
+      engine.setEffects({ speed: 1.5 })
+      await fake.advance(2)
+
+      expect(getPlayingSources(fake)[0].playbackRate.value).toBe(1.5)
+      expect(engine.currentTime).toBeCloseTo(3, 2)
+    })
+
+    it('keeps the speed on the next track after a join', async () => {
+      engine.setEffects({ speed: 2 })
+      await engine.load('/second.mp3')
+      engine.preload('/first.mp3')
+      await engine.play()
+
+      await fake.advance(3.5)
+
+      const [current, next] = fake.sources
+      expect(next.playbackRate.value).toBe(2)
+      expect(next.startTime).toBeCloseTo(current.startTime! + 3, 9)
+    })
+
+    it('follows automation lanes at the playback position', async () => {
+      await engine.load('/first.mp3')
+      engine.setAutomation({ lowPass: [{ time: 0, value: 1000 }, { time: 4, value: 5000 }] })
+      expect(engine.chain.lowPassFilter.frequency.value).toBe(1000)
+
+      await engine.play()
+      await fake.advance(2)
+      expect(engine.chain.lowPassFilter.frequency.value).toBeCloseTo(3000, -2)
+
+      engine.seek(8)
+      expect(engine.chain.lowPassFilter.frequency.value).toBe(5000)
+    })
+  })
+
+  // ==========================================================================
+  // LIVE INPUT
+  // ==========================================================================
+
+  describe('live input', () => {
+    it('pauses the transport and feeds the chain from the input', async () => {
+      await engine.load('/first.mp3')
+      await engine.play()
+      const [source] = getPlayingSources(fake)
+      const events = recordEvents(engine)
+      const input = fake.context.createGain()
+
+      engine.setInput(input)
+
+      expect(events).toContain('statechange:paused')
+      expect(getPlayingSources(fake)).toEqual([])
+      expect(isRoutedTo(input, engine.chain.input)).toBe(true)
+      expect(isRoutedTo(source, engine.chain.input)).toBe(false)
+    })
+
+    it('does not play the track while an input is set', async () => {
+      await engine.load('/first.mp3')
+      engine.setInput(fake.context.createGain())
+
+      await engine.play()
+
+      expect(engine.state).toBe('paused')
+      expect(getPlayingSources(fake)).toEqual([])
+    })
+
+    it('gives the chain back to the transport when the input is removed', async () => {
+      await engine.load('/first.mp3')
+      const input = fake.context.createGain()
+      engine.setInput(input)
+
+      engine.setInput(null)
+      await engine.play()
+
+      expect(isRoutedTo(input, engine.chain.input)).toBe(false)
+      expect(isRoutedTo(getPlayingSources(fake)[0], engine.chain.input)).toBe(true)
+      expect(engine.state).toBe('playing')
+    })
+
+    it('takes a generated tone in place of a device', () => {
+      const context = fake.context as AudioContext
+      const tone = createTestToneStream(context)
+      const input = createLiveInput(context, tone.stream, tone.stop)
+
+      engine.setInput(input.output)
+
+      expect(isRoutedTo(input.output, engine.chain.input)).toBe(true)
+      input.dispose()
+      expect(tone.stream.getTracks()[0].stop).toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,365 @@
+/**
+ * Audio Engine
+ * Framework-agnostic playback and effects processing. Builds the whole graph
+ * on an injected BaseAudioContext, so it runs the same under a realtime,
+ * offline or fake context
+ */
+
+import { type AudioEffects, DEFAULT_EFFECTS } from '@/lib/effects'
+import { type AutomationLanes, AUTOMATION_CONFIG, applyAutomation, hasAutomation } from '@/lib/automation'
+import { EFFECTS_CHAIN_CONFIG, applyEffectsChain, createEffectsChain } from '@/lib/audio/effects-chain'
+import { createPitchShifterNode, semitonesToRatio } from '@/lib/audio/pitch-shifter'
+import { createRealtimeContext, isRealtimeContext } from '@/lib/audio/context'
+import { createBufferTransport, createMediaElementTransport } from './transports'
+import { createTrackSwitcher } from './track-switcher'
+import {
+  type AudioEngine,
+  type AudioEngineEventListener,
+  type AudioEngineEvents,
+  type AudioEngineOptions,
+  type EnginePlaybackState,
+  type TrackSwitcher,
+  type TransportCallbacks
+} from './types'
+
+export type {
+  AudioEngine,
+  AudioEngineEventListener,
+  AudioEngineEvents,
+  AudioEngineOptions,
+  EnginePlaybackState,
+  EngineTransport,
+  TrackSwitcher,
+  TrackTransition,
+  TransitionMode
+} from './types'
+export { createBufferTransport, createMediaElementTransport } from './transports'
+export { CROSSFADE_LIMITS, DEFAULT_TRACK_TRANSITION, createTrackSwitcher } from './track-switcher'
+
+/**
+ * Engine Defaults
+ */
+export const ENGINE_CONFIG = {
+  /** FFT size for frequency analysis - higher values = more frequency resolution */
+  FFT_SIZE: 1024,
+  /** Analyser smoothing factor - higher values = smoother but less responsive */
+  ANALYSER_SMOOTHING: 0.8
+} as const
+
+/**
+ * Creates an audio engine
+ *
+ * With a media element, sources stream and speed changes keep the pitch. Without
+ * one, sources are decoded into memory and played from a buffer, which works on
+ * any context; speed then resamples, and the pitch shifter corrects for it.
+ * Either way a second deck preloads the next source, so tracks can follow each
+ * other gaplessly or crossfade inside the same graph. Buffer decks join on the
+ * exact sample; media elements only start from a timer, so their joins are best-effort.
+ *
+ * @param options - Context, media element, initial effects and analyser settings
+ * @returns The engine, empty and paused
+ */
+export function createAudioEngine(options: AudioEngineOptions = {}): AudioEngine {
+  const ownsContext = !options.context
+  const context = options.context ?? createRealtimeContext()
+
+  let effects: AudioEffects = { ...(options.effects ?? DEFAULT_EFFECTS) }
+  let automation: Readonly<AutomationLanes> = {}
+  let automationTimer: ReturnType<typeof setInterval> | undefined
+  let state: EnginePlaybackState = 'empty'
+  let duration = 0
+  let pendingLoad: Promise<void> | null = null
+  let liveInput: AudioNode | null = null
+  let isDisposed = false
+
+  // ==========================================================================
+  // EVENTS
+  // ==========================================================================
+
+  const listeners = new Map<keyof AudioEngineEvents, Set<(payload: never) => void>>()
+
+  const emit = <K extends keyof AudioEngineEvents>(type: K, payload: AudioEngineEvents[K]): void => {
+    listeners.get(type)?.forEach(listener => {
+      try {
+        (listener as AudioEngineEventListener<K>)(payload)
+      } catch (error) {
+        console.error(`Audio engine ${type} listener failed:`, error)
+      }
+    })
+  }
+
+  const setState = (next: EnginePlaybackState): void => {
+    if (state === next) return
+    state = next
+    emit('statechange', next)
+    syncAutomationTimer()
+  }
+
+  const setDuration = (next: number): void => {
+    if (duration === next) return
+    duration = next
+    emit('durationchange', next)
+  }
+
+  // ==========================================================================
+  // GRAPH CONSTRUCTION
+  // ==========================================================================
+
+  const callbacks: TransportCallbacks = {
+    onTimeUpdate: time => emit('timeupdate', time),
+    onEnded: () => {
+      setState('paused')
+      emit('timeupdate', transport.currentTime)
+      emit('ended', undefined)
+    },
+    onPause: () => {
+      if (state === 'playing') setState('paused')
+    },
+    onError: error => emit('error', error),
+    onAdvance: (src, nextDuration) => {
+      setDuration(nextDuration)
+      emit('timeupdate', transport.currentTime)
+      emit('trackchange', src)
+      if (hasAutomation(automation)) applyEffects()
+    }
+  }
+
+  const { mediaElement, nextMediaElement } = options
+  if (mediaElement && !isRealtimeContext(context)) {
+    throw new Error('Streaming from a media element needs a realtime AudioContext')
+  }
+
+  // Two decks of the same kind; a streaming engine has a second only when given a second element
+  const transport: TrackSwitcher = createTrackSwitcher(context, (index, deckCallbacks) => {
+    if (!mediaElement) return createBufferTransport(context, deckCallbacks)
+    const element = index === 0 ? mediaElement : nextMediaElement
+    return element ? createMediaElementTransport(context as AudioContext, element, deckCallbacks) : null
+  }, callbacks)
+
+  // Fixed entry point, so the pitch shifter can be spliced in once its worklet loads
+  const input = context.createGain()
+  const chain = createEffectsChain(context, effects)
+
+  const analyser = context.createAnalyser()
+  analyser.fftSize = options.fftSize ?? ENGINE_CONFIG.FFT_SIZE
+  analyser.smoothingTimeConstant = options.smoothingTimeConstant ?? ENGINE_CONFIG.ANALYSER_SMOOTHING
+
+  // Mutes the speakers only, so the analyser and recordings keep the signal
+  const monitor = context.createGain()
+
+  // Source → [pitch shifter] → effect modules → gain → limiter → analyser → monitor → output
+  transport.output.connect(input)
+  input.connect(chain.input)
+  chain.output.connect(analyser)
+  analyser.connect(monitor)
+  monitor.connect(context.destination)
+
+  let pitchShifter: AudioWorkletNode | null = null
+
+  const applyEffects = (): void => {
+    transport.setSpeed(effects.speed)
+
+    // Automated fields follow their lanes at the current position
+    const applied = applyAutomation(effects, automation, transport.currentTime)
+
+    // A resampling transport shifts pitch with speed, so divide that back out
+    const pitchRatio = semitonesToRatio(applied.pitch) / (transport.preservesPitch ? 1 : effects.speed)
+    const pitchParam = pitchShifter?.parameters.get('pitchRatio')
+    if (pitchParam) {
+      pitchParam.setTargetAtTime(pitchRatio, context.currentTime, EFFECTS_CHAIN_CONFIG.PARAM_TIME_CONSTANT)
+    }
+
+    applyEffectsChain(chain, applied)
+  }
+
+  /**
+   * Runs automation updates while playing with any lanes, and stops them otherwise
+   */
+  const syncAutomationTimer = (): void => {
+    const shouldRun = state === 'playing' && !isDisposed && hasAutomation(automation)
+    if (shouldRun && automationTimer === undefined) {
+      automationTimer = setInterval(() => {
+        try {
+          applyEffects()
+        } catch (error) {
+          console.error('Error applying automation:', error)
+        }
+      }, AUTOMATION_CONFIG.UPDATE_INTERVAL)
+    } else if (!shouldRun && automationTimer !== undefined) {
+      clearInterval(automationTimer)
+      automationTimer = undefined
+    }
+  }
+
+  // Pitch shifting is optional - the chain works without it
+  const pitchShifterReady = createPitchShifterNode(context)
+    .then(node => {
+      if (!node || isDisposed) return
+      pitchShifter = node
+      input.disconnect()
+      input.connect(node)
+      node.connect(chain.input)
+      applyEffects()
+    })
+    .catch(error => console.warn('Pitch shifter unavailable:', error))
+  const ready = Promise.all([pitchShifterReady, chain.ready]).then(() => undefined)
+
+  applyEffects()
+
+  // ==========================================================================
+  // PUBLIC API
+  // ==========================================================================
+
+  const engine: AudioEngine = {
+    context,
+    analyser,
+    chain,
+    ready,
+    get state() {
+      return state
+    },
+    get currentTime() {
+      return transport.currentTime
+    },
+    get duration() {
+      return duration
+    },
+    get effects() {
+      return effects
+    },
+    get automation() {
+      return automation
+    },
+
+    load(src) {
+      setState(src ? 'loading' : 'empty')
+      setDuration(0)
+      emit('timeupdate', 0)
+
+      const load = transport.load(src).then(
+        loadedDuration => {
+          // A newer load owns the state now
+          if (pendingLoad !== load) return
+          pendingLoad = null
+          setDuration(loadedDuration)
+          if (src) setState('paused')
+        },
+        (error: unknown) => {
+          if (error instanceof DOMException && error.name === 'AbortError') return
+          if (pendingLoad === load) {
+            pendingLoad = null
+            setState('empty')
+          }
+          throw error
+        }
+      )
+      pendingLoad = load
+      return load
+    },
+
+    async play() {
+      if (pendingLoad) await pendingLoad
+      // A live input has the chain - the transport stays silent until it is removed
+      if (state === 'empty' || isDisposed || liveInput) return
+
+      if (isRealtimeContext(context) && context.state === 'suspended') {
+        await context.resume()
+      }
+      await transport.play()
+      setState('playing')
+    },
+
+    pause() {
+      transport.pause()
+      if (state === 'playing') setState('paused')
+      emit('timeupdate', transport.currentTime)
+    },
+
+    seek(time) {
+      if (state === 'empty' || state === 'loading') return
+      transport.seek(Math.max(0, duration > 0 ? Math.min(time, duration) : time))
+      emit('timeupdate', transport.currentTime)
+      // Land on the automated values at once rather than on the next update
+      if (hasAutomation(automation)) applyEffects()
+    },
+
+    preload(src) {
+      transport.preload(src)
+    },
+
+    setTransition(transition) {
+      transport.setTransition(transition)
+    },
+
+    setInput(node) {
+      if (node === liveInput || isDisposed) return
+
+      if (liveInput) {
+        liveInput.disconnect(input)
+      } else {
+        engine.pause()
+        transport.output.disconnect(input)
+      }
+      liveInput = node
+      const source = node ?? transport.output
+      source.connect(input)
+
+      // A live input has no play() to resume the context with
+      if (node && isRealtimeContext(context) && context.state === 'suspended') {
+        context.resume().catch(error => console.error('Failed to resume audio context for live input:', error))
+      }
+    },
+
+    setMonitoring(isEnabled) {
+      monitor.gain.setTargetAtTime(isEnabled ? 1 : 0, context.currentTime, EFFECTS_CHAIN_CONFIG.PARAM_TIME_CONSTANT)
+    },
+
+    setEffects(changes) {
+      effects = { ...effects, ...changes }
+      try {
+        applyEffects()
+      } catch (error) {
+        console.error('Error applying audio effects:', error)
+      }
+    },
+
+    setAutomation(lanes) {
+      automation = lanes
+      syncAutomationTimer()
+      try {
+        applyEffects()
+      } catch (error) {
+        console.error('Error applying automation:', error)
+      }
+    },
+
+    on(type, listener) {
+      const set = listeners.get(type) ?? new Set()
+      listeners.set(type, set)
+      set.add(listener)
+      return () => {
+        set.delete(listener)
+      }
+    },
+
+    dispose() {
+      if (isDisposed) return
+      isDisposed = true
+      syncAutomationTimer()
+      transport.dispose()
+      liveInput?.disconnect(input)
+      input.disconnect()
+      pitchShifter?.disconnect()
+      chain.output.disconnect()
+      analyser.disconnect()
+      monitor.disconnect()
+      listeners.clear()
+
+      if (ownsContext && isRealtimeContext(context) && context.state !== 'closed') {
+        context.close().catch(error => console.error('Failed to close audio context:', error))
+      }
+    }
+  }
+
+  return engine
+}
@@ -0,0 +1,421 @@
+/**
+ * Track Switcher
+ * Two transports ("decks") behind one: the active deck plays while the other
+ * preloads the next source, and the two are joined gaplessly or with an
+ * equal-power crossfade. Both decks feed one output, so the processing graph
+ * after it never changes
+ */
+
+import {
+  type EngineTransport,
+  type TrackSwitcher,
+  type TrackTransition,
+  type TransportCallbacks
+} from './types'
+
+/**
+ * Switcher Constants
+ */
+export const SWITCHER_CONFIG = {
+  /** Milliseconds between checks for the end of the active track */
+  CHECK_INTERVAL: 50,
+  /** Seconds before the end at which a gapless start is scheduled - several checks' worth */
+  SCHEDULE_AHEAD: 0.3,
+  /** Seconds from the end within which a deck counts as finished */
+  END_TOLERANCE: 0.05,
+  /** Milliseconds after a handover before the outgoing deck is unloaded, so it has surely finished */
+  RELEASE_DELAY: 100,
+  /** Points in each fade curve */
+  FADE_CURVE_POINTS: 64
+} as const
+
+/** Gapless by default; the crossfade length applies once crossfading is chosen */
+export const DEFAULT_TRACK_TRANSITION: Readonly<TrackTransition> = {
+  mode: 'gapless',
+  crossfadeDuration: 4
+}
+
+/** Range of TrackTransition.crossfadeDuration */
+export const CROSSFADE_LIMITS = { min: 0.5, max: 12 } as const
+
+/**
+ * One side of the switcher and the gain that fades it
+ */
+interface Deck {
+  transport: EngineTransport
+  gain: GainNode
+}
+
+/**
+ * Handover in progress from the active deck to the idle one
+ */
+interface Handover {
+  outgoing: number
+  incoming: number
+  src: string
+  duration: number
+  /** Whether the incoming deck has taken over as the active one */
+  hasSwitched: boolean
+  switchTimer: ReturnType<typeof setTimeout>
+  releaseTimer: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Equal-power fade: the outgoing deck follows a cosine and the incoming one a
+ * sine, so the summed power stays constant through the overlap
+ */
+function createFadeCurve(direction: 'in' | 'out'): Float32Array {
+  const points = SWITCHER_CONFIG.FADE_CURVE_POINTS
+  return Float32Array.from({ length: points }, (_, index) => {
+    const phase = (index / (points - 1)) * (Math.PI / 2)
+    return direction === 'in' ? Math.sin(phase) : Math.cos(phase)
+  })
+}
+
+/**
+ * Whether a transport has played to (or within a hair of) its end
+ */
+function isAtEnd(transport: EngineTransport): boolean {
+  return transport.duration > 0 && transport.currentTime >= transport.duration - SWITCHER_CONFIG.END_TOLERANCE
+}
+
+/**
+ * Creates a track switcher over one or two decks
+ *
+ * With a single deck nothing is preloaded and every track ends normally, so
+ * the switcher behaves exactly like that deck.
+ *
+ * @param context - Context the decks play in
+ * @param createDeck - Makes deck 0 or 1 reporting through the given callbacks; null when deck 1 cannot exist
+ * @param callbacks - Reporting for whichever deck is active, plus handovers
+ */
+export function createTrackSwitcher(
+  context: BaseAudioContext,
+  createDeck: (index: number, callbacks: TransportCallbacks) => EngineTransport | null,
+  callbacks: TransportCallbacks
+): TrackSwitcher {
+  const output = context.createGain()
+  const decks: Deck[] = []
+
+  let active = 0
+  let transition: TrackTransition = { ...DEFAULT_TRACK_TRANSITION }
+  let speed = 1
+  let isPlaying = false
+  /** Source open on the active deck */
+  let activeSrc: string | null = null
+  /** Source the caller wants preloaded; applied once no handover holds the idle deck */
+  let wanted: string | null = null
+  /** Source open on the idle deck - its duration is null while it loads */
+  let next: { src: string; duration: number | null } | null = null
+  let preloadId = 0
+  let handover: Handover | null = null
+  let monitor: ReturnType<typeof setInterval> | undefined
+
+  const setGainNow = (gain: GainNode, value: number): void => {
+    gain.gain.cancelScheduledValues(0)
+    gain.gain.setValueAtTime(value, context.currentTime)
+  }
+
+  // ==========================================================================
+  // HANDOVER
+  // ==========================================================================
+
+  /**
+   * Starts the idle deck and fades or cuts over to it
+   * @param startAt - Context time the incoming deck starts at
+   * @param fade - Crossfade length in seconds, 0 for a gapless cut
+   */
+  const startHandover = (startAt: number, fade: number): void => {
+    if (!next || next.duration === null) return
+
+    const outgoing = active
+    const incoming = 1 - active
+    const src = next.src
+    const duration = next.duration
+    next = null
+    // Repeat-one joins a track to itself, so the caller sees no change to preload for -
+    // keep it wanted, and the idle deck opens it again once this handover is released
+    wanted = src === activeSrc ? src : null
+    stopMonitor()
+
+    const incomingDeck = decks[incoming]
+    incomingDeck.transport.setSpeed(speed)
+    incomingDeck.transport.play(startAt).catch(error => callbacks.onError(
+      error instanceof Error ? error : new Error('The next track failed to start')
+    ))
+
+    const outgoingGain = decks[outgoing].gain.gain
+    const incomingGain = incomingDeck.gain.gain
+    outgoingGain.cancelScheduledValues(0)
+    incomingGain.cancelScheduledValues(0)
+    if (fade > 0) {
+      outgoingGain.setValueCurveAtTime(createFadeCurve('out'), startAt, fade)
+      incomingGain.setValueCurveAtTime(createFadeCurve('in'), startAt, fade)
+    } else {
+      outgoingGain.setValueAtTime(0, startAt)
+      incomingGain.setValueAtTime(1, startAt)
+    }
+
+    const switchDelay = Math.max(0, (startAt - context.currentTime) * 1000)
+    const current: Handover = {
+      outgoing,
+      incoming,
+      src,
+      duration,
+      hasSwitched: false,
+      switchTimer: setTimeout(() => switchDecks(current), switchDelay),
+      releaseTimer: setTimeout(() => {
+        releaseOutgoing(current)
+        handover = null
+        applyPreload()
+      }, switchDelay + fade * 1000 + SWITCHER_CONFIG.RELEASE_DELAY)
+    }
+    handover = current
+  }
+
+  /**
+   * Makes the incoming deck of a handover the active one
+   */
+  const switchDecks = (current: Handover): void => {
+    if (current.hasSwitched) return
+    clearTimeout(current.switchTimer)
+    current.hasSwitched = true
+    active = current.incoming
+    activeSrc = current.src
+    callbacks.onAdvance(current.src, current.duration)
+  }
+
+  /**
+   * Stops and unloads the deck a handover moved away from
+   */
+  const releaseOutgoing = ({ outgoing }: Handover): void => {
+    const deck = decks[outgoing]
+    deck.transport.pause()
+    deck.transport.load(null).catch(error => console.warn('Failed to unload the previous track:', error))
+    setGainNow(deck.gain, 0)
+  }
+
+  /**
+   * Ends a handover at once, for a pause, seek or load in the middle of one
+   * Before the switch the incoming deck goes back to waiting; after it the fading track is dropped
+   */
+  const settleHandover = (): void => {
+    if (!handover) return
+    const current = handover
+    handover = null
+    clearTimeout(current.switchTimer)
+    clearTimeout(current.releaseTimer)
+
+    if (current.hasSwitched) {
+      releaseOutgoing(current)
+      applyPreload()
+    } else {
+      const incoming = decks[current.incoming].transport
+      incoming.pause()
+      incoming.seek(0)
+      next = { src: current.src, duration: current.duration }
+      wanted = current.src
+      setGainNow(decks[current.incoming].gain, 0)
+    }
+    setGainNow(decks[active].gain, 1)
+  }
+
+  /**
+   * Starts the handover once the active track is close enough to its end
+   */
+  const checkHandover = (): void => {
+    const current = decks[active].transport
+    if (!next || next.duration === null || current.duration <= 0) return
+
+    const remaining = Math.max(0, current.duration - current.currentTime) / speed
+    if (transition.mode === 'crossfade') {
+      const fade = Math.min(transition.crossfadeDuration, current.duration / 2, next.duration / 2)
+      if (remaining <= fade) startHandover(context.currentTime, remaining)
+    } else if (remaining <= SWITCHER_CONFIG.SCHEDULE_AHEAD) {
+      startHandover(context.currentTime + remaining, 0)
+    }
+  }
+
+  const stopMonitor = (): void => {
+    clearInterval(monitor)
+    monitor = undefined
+  }
+
+  /**
+   * Watches for the end of the active track only while a handover could happen
+   */
+  const syncMonitor = (): void => {
+    const shouldRun = isPlaying && transition.mode !== 'off' && !handover && next?.duration != null
+    if (shouldRun && monitor === undefined) {
+      monitor = setInterval(checkHandover, SWITCHER_CONFIG.CHECK_INTERVAL)
+    } else if (!shouldRun) {
+      stopMonitor()
+    }
+  }
+
+  /**
+   * Opens the wanted source on the idle deck
+   */
+  const applyPreload = (): void => {
+    if (decks.length < 2 || handover || wanted === (next?.src ?? null)) return
+
+    const src = wanted
+    const deck = decks[1 - active].transport
+    const id = ++preloadId
+    next = src ? { src, duration: null } : null
+    syncMonitor()
+
+    deck.load(src).then(
+      duration => {
+        if (id !== preloadId || !next) return
+        next.duration = duration
+        syncMonitor()
+      },
+      (error: unknown) => {
+        if (id !== preloadId || (error instanceof DOMException && error.name === 'AbortError')) return
+        console.warn('Preloading the next track failed:', error)
+        next = null
+        syncMonitor()
+      }
+    )
+  }
+
+  // ==========================================================================
+  // DECKS
+  // ==========================================================================
+
+  /**
+   * Passes on reports from the active deck only
+   */
+  const createDeckCallbacks = (index: number): TransportCallbacks => ({
+    onTimeUpdate: time => {
+      if (index === active) callbacks.onTimeUpdate(time)
+    },
+    onEnded: () => {
+      if (index !== active) return
+      // Ended on the audio clock before the switch timer ran, e.g. on a busy page - the incoming deck is already playing
+      if (handover && !handover.hasSwitched) {
+        switchDecks(handover)
+        return
+      }
+      // Reached the end before a handover was scheduled, e.g. under a throttled timer - hand over late
+      if (transition.mode !== 'off' && !handover && next?.duration != null) {
+        startHandover(context.currentTime, 0)
+        return
+      }
+      isPlaying = false
+      syncMonitor()
+      callbacks.onEnded()
+    },
+    onPause: () => {
+      // Elements pause themselves just before they end; the ended report decides what happens
+      if (index !== active || isAtEnd(decks[index].transport)) return
+      isPlaying = false
+      syncMonitor()
+      callbacks.onPause()
+    },
+    onError: error => {
+      if (index === active) callbacks.onError(error)
+    },
+    onAdvance: () => {}
+  })
+
+  for (const index of [0, 1]) {
+    const transport = createDeck(index, createDeckCallbacks(index))
+    if (!transport) break
+    const gain = context.createGain()
+    gain.gain.value = index === active ? 1 : 0
+    transport.output.connect(gain)
+    gain.connect(output)
+    decks.push({ transport, gain })
+  }
+
+  // ==========================================================================
+  // TRANSPORT
+  // ==========================================================================
+
+  return {
+    output,
+    preservesPitch: decks[0].transport.preservesPitch,
+    get currentTime() {
+      return decks[active].transport.currentTime
+    },
+    get duration() {
+      return decks[active].transport.duration
+    },
+
+    load(src) {
+      settleHandover()
+      isPlaying = false
+      syncMonitor()
+
+      // Already open on the idle deck - switch to it without loading again
+      if (src && next?.src === src && next.duration !== null) {
+        const previous = decks[active]
+        const { duration } = next
+        active = 1 - active
+        activeSrc = src
+        next = null
+        wanted = null
+        previous.transport.load(null).catch(error => console.warn('Failed to unload the previous track:', error))
+        setGainNow(previous.gain, 0)
+        setGainNow(decks[active].gain, 1)
+        return Promise.resolve(duration)
+      }
+
+      activeSrc = src
+      return decks[active].transport.load(src)
+    },
+
+    async play() {
+      await decks[active].transport.play()
+      isPlaying = true
+      syncMonitor()
+    },
+
+    pause() {
+      settleHandover()
+      decks[active].transport.pause()
+      isPlaying = false
+      syncMonitor()
+    },
+
+    seek(time) {
+      settleHandover()
+      decks[active].transport.seek(time)
+      syncMonitor()
+    },
+
+    setSpeed(nextSpeed) {
+      speed = nextSpeed
+      decks.forEach(deck => deck.transport.setSpeed(nextSpeed))
+    },
+
+    preload(src) {
+      wanted = src
+      applyPreload()
+    },
+
+    setTransition(nextTransition) {
+      transition = { ...nextTransition }
+      // A cut scheduled under the old settings would no longer match them
+      if (handover && !handover.hasSwitched) settleHandover()
+      syncMonitor()
+    },
+
+    dispose() {
+      preloadId++
+      stopMonitor()
+      if (handover) {
+        clearTimeout(handover.switchTimer)
+        clearTimeout(handover.releaseTimer)
+        handover = null
+      }
+      decks.forEach(deck => {
+        deck.transport.dispose()
+        deck.gain.disconnect()
+      })
+      output.disconnect()
+    }
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * Engine Transports
+ * Source nodes with position and speed control: a streaming media element for
+ * the browser, and a decoded buffer that works on any context
+ */
+
+import { type EngineTransport, type TransportCallbacks } from './types'
+
+/** How often the buffer transport reports its position while playing, in milliseconds */
+const BUFFER_TIME_UPDATE_INTERVAL = 250
+
+function createAbortError(): DOMException {
+  return new DOMException('Load superseded by a newer one', 'AbortError')
+}
+
+/**
+ * Describes a media element failure for error messages
+ */
+function describeMediaError(error: MediaError | null): string {
+  switch (error?.code) {
+    case MediaError.MEDIA_ERR_ABORTED:
+      return 'Loading was aborted'
+    case MediaError.MEDIA_ERR_NETWORK:
+      return 'A network error interrupted loading'
+    case MediaError.MEDIA_ERR_DECODE:
+      return 'The file could not be decoded'
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+      return 'The format is not supported'
+    default:
+      return error?.message || 'Media playback failed'
+  }
+}
+
+/**
+ * Streams through an HTMLMediaElement
+ * The element time-stretches on speed changes, so pitch is preserved. It cannot
+ * be started on the audio clock, so a scheduled play() waits on a timer and
+ * lands within a few milliseconds of its start time rather than on the sample
+ *
+ * @param context - Realtime context; a media element can only ever be attached to one
+ * @param element - Element to play through, usually detached from the DOM
+ * @param callbacks - Time, end and error reporting
+ */
+export function createMediaElementTransport(
+  context: AudioContext,
+  element: HTMLMediaElement,
+  callbacks: TransportCallbacks
+): EngineTransport {
+  const output = context.createMediaElementSource(element)
+  element.preservesPitch = true
+
+  let loadId = 0
+  let isLoadPending = false
+  /** A play() waiting for its start time, and how to settle it if cancelled */
+  let pendingStart: { timer: ReturnType<typeof setTimeout>; release: () => void } | null = null
+
+  const cancelPendingStart = (): void => {
+    if (!pendingStart) return
+    clearTimeout(pendingStart.timer)
+    pendingStart.release()
+    pendingStart = null
+  }
+
+  const handleTimeUpdate = (): void => callbacks.onTimeUpdate(element.currentTime)
+  const handleEnded = (): void => callbacks.onEnded()
+  const handlePause = (): void => callbacks.onPause()
+  const handleError = (): void => {
+    // Load failures reject the load call instead
+    if (isLoadPending || !element.getAttribute('src')) return
+    callbacks.onError(new Error(describeMediaError(element.error)))
+  }
+
+  element.addEventListener('timeupdate', handleTimeUpdate)
+  element.addEventListener('ended', handleEnded)
+  element.addEventListener('pause', handlePause)
+  element.addEventListener('error', handleError)
+
+  return {
+    output,
+    preservesPitch: true,
+    get currentTime() {
+      return element.currentTime
+    },
+    get duration() {
+      return Number.isFinite(element.duration) ? element.duration : 0
+    },
+
+    load(src) {
+      const id = ++loadId
+      cancelPendingStart()
+      element.pause()
+
+      if (!src) {
+        isLoadPending = false
+        element.removeAttribute('src')
+        element.load()
+        return Promise.resolve(0)
+      }
+
+      isLoadPending = true
+      return new Promise<number>((resolve, reject) => {
+        const cleanup = (): void => {
+          element.removeEventListener('loadedmetadata', handleLoaded)
+          element.removeEventListener('error', handleLoadError)
+        }
+        const handleLoaded = (): void => {
+          cleanup()
+          if (id !== loadId) return reject(createAbortError())
+          isLoadPending = false
+          resolve(Number.isFinite(element.duration) ? element.duration : 0)
+        }
+        const handleLoadError = (): void => {
+          cleanup()
+          if (id !== loadId) return reject(createAbortError())
+          isLoadPending = false
+          reject(new Error(describeMediaError(element.error)))
+        }
+
+        element.addEventListener('loadedmetadata', handleLoaded)
+        element.addEventListener('error', handleLoadError)
+        element.src = src
+        element.load()
+      })
+    },
+
+    play(when) {
+      cancelPendingStart()
+      const delay = when === undefined ? 0 : (when - context.currentTime) * 1000
+      if (delay <= 0) return element.play()
+
+      // An element cannot be started on the audio clock, so wait on a timer instead
+      return new Promise<void>((resolve, reject) => {
+        pendingStart = {
+          timer: setTimeout(() => {
+            pendingStart = null
+            element.play().then(resolve, reject)
+          }, delay),
+          release: resolve
+        }
+      })
+    },
+
+    pause() {
+      cancelPendingStart()
+      element.pause()
+    },
+
+    seek(time) {
+      element.currentTime = time
+    },
+
+    setSpeed(speed) {
+      element.playbackRate = speed
+    },
+
+    dispose() {
+      loadId++
+      cancelPendingStart()
+      element.removeEventListener('timeupdate', handleTimeUpdate)
+      element.removeEventListener('ended', handleEnded)
+      element.removeEventListener('pause', handlePause)
+      element.removeEventListener('error', handleError)
+      element.pause()
+      element.removeAttribute('src')
+      element.load()
+      output.disconnect()
+    }
+  }
+}
+
+/**
+ * Plays a decoded AudioBuffer
+ * Works on any BaseAudioContext, including offline and fake ones. Speed is the
+ * source's playbackRate, which also shifts pitch
+ *
+ * @param context - Context to decode and play in
+ * @param callbacks - Time and end reporting
+ */
+export function createBufferTransport(context: BaseAudioContext, callbacks: TransportCallbacks): EngineTransport {
+  const output = context.createGain()
+
+  let buffer: AudioBuffer | null = null
+  let source: AudioBufferSourceNode | null = null
+  let speed = 1
+  let loadId = 0
+  let timer: ReturnType<typeof setInterval> | undefined
+
+  /** Track position when the current source started, or the paused position */
+  let offset = 0
+  /** Context time the current source started, or is scheduled to start, at */
+  let startedAt = 0
+
+  const getTime = (): number => {
+    if (!source || !buffer) return offset
+    return Math.min(buffer.duration, offset + Math.max(0, context.currentTime - startedAt) * speed)
+  }
+
+  const stopSource = (): void => {
+    if (!source) return
+    offset = getTime()
+    const stopping = source
+    source = null
+    stopping.onended = null
+    stopping.stop()
+    stopping.disconnect()
+    clearInterval(timer)
+  }
+
+  const startSource = (when = 0): void => {
+    if (!buffer) return
+    const started = context.createBufferSource()
+    started.buffer = buffer
+    started.playbackRate.value = speed
+    started.connect(output)
+    started.onended = () => {
+      if (source !== started) return
+      stopSource()
+      offset = buffer?.duration ?? 0
+      callbacks.onEnded()
+    }
+    started.start(when, offset)
+    startedAt = Math.max(when, context.currentTime)
+    source = started
+    timer = setInterval(() => callbacks.onTimeUpdate(getTime()), BUFFER_TIME_UPDATE_INTERVAL)
+  }
+
+  return {
+    output,
+    preservesPitch: false,
+    get currentTime() {
+      return getTime()
+    },
+    get duration() {
+      return buffer?.duration ?? 0
+    },
+
+    async load(src) {
+      const id = ++loadId
+      stopSource()
+      buffer = null
+      offset = 0
+      if (!src) return 0
+
+      const response = await fetch(src)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch audio (${response.status})`)
+      }
+      const decoded = await context.decodeAudioData(await response.arrayBuffer())
+      if (id !== loadId) throw createAbortError()
+
+      buffer = decoded
+      return decoded.duration
+    },
+
+    async play(when) {
+      if (!buffer || source) return
+      // Playing from the end starts over, as a media element does
+      if (offset >= buffer.duration) offset = 0
+      startSource(when)
+    },
+
+    pause() {
+      stopSource()
+    },
+
+    seek(time) {
+      const isPlaying = source !== null
+      stopSource()
+      offset = Math.max(0, Math.min(time, buffer?.duration ?? 0))
+      if (isPlaying) startSource()
+    },
+
+    setSpeed(nextSpeed) {
+      // Rebase the clock so the position stays continuous across the change
+      offset = getTime()
+      startedAt = Math.max(startedAt, context.currentTime)
+      speed = nextSpeed
+      if (source) source.playbackRate.value = speed
+    },
+
+    dispose() {
+      loadId++
+      stopSource()
+      buffer = null
+      output.disconnect()
+    }
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Audio Engine Types
+ * Public API of the headless playback engine and the transports behind it
+ */
+
+import { type AudioEffects } from '@/lib/effects'
+import { type AutomationLanes } from '@/lib/automation'
+import { type EffectsChainNodes } from '@/lib/audio/effects-chain'
+
+/**
+ * Playback State
+ * - empty: nothing loaded
+ * - loading: a source is being opened or decoded
+ * - paused: loaded and stopped, including after the track ends
+ * - playing: audio is running
+ */
+export type EnginePlaybackState = 'empty' | 'loading' | 'paused' | 'playing'
+
+/**
+ * Engine Events
+ * Payload passed to listeners of each event
+ */
+export interface AudioEngineEvents {
+  /** Playback position in seconds, a few times a second while playing and after every seek */
+  timeupdate: number
+  /** Duration in seconds of the loaded source, 0 when empty */
+  durationchange: number
+  statechange: EnginePlaybackState
+  /** The source played to its end; the state is already paused */
+  ended: undefined
+  /** The preloaded source took over without stopping, gaplessly or by crossfade; carries its URL */
+  trackchange: string
+  /** Failures not tied to a call, such as a stream that breaks during playback */
+  error: Error
+}
+
+export type AudioEngineEventListener<K extends keyof AudioEngineEvents> = (payload: AudioEngineEvents[K]) => void
+
+/**
+ * Track Transition Modes
+ * - off: stop at the end of a track and let the caller load the next
+ * - gapless: start the preloaded track where the current one ends - on the exact
+ *   sample with buffer decks, within a few milliseconds with media element decks
+ * - crossfade: overlap the two with an equal-power fade
+ */
+export type TransitionMode = 'off' | 'gapless' | 'crossfade'
+
+/**
+ * Track Transition
+ */
+export interface TrackTransition {
+  mode: TransitionMode
+  /** Crossfade length in seconds (0.5-12) */
+  crossfadeDuration: number
+}
+
+/**
+ * Audio Engine
+ * Source (transport or live input) → pitch shifter → effects chain → analyser → destination, with transport controls
+ */
+export interface AudioEngine {
+  readonly context: BaseAudioContext
+  /** Analyser after the effects chain, for visualisations */
+  readonly analyser: AnalyserNode
+  readonly chain: EffectsChainNodes
+  readonly state: EnginePlaybackState
+  /** Current position in seconds, read directly from the transport */
+  readonly currentTime: number
+  readonly duration: number
+  /** Settings as last set, before automation */
+  readonly effects: Readonly<AudioEffects>
+  readonly automation: Readonly<AutomationLanes>
+  /** Settles once optional parts of the graph (the pitch shifter, noise gate and bitcrusher worklets) are in place */
+  readonly ready: Promise<void>
+
+  /**
+   * Opens a source, stopping whatever was playing
+   * Resolves once the duration is known; pass null to unload
+   */
+  load: (src: string | null) => Promise<void>
+  /** Starts or resumes playback, resuming a suspended realtime context first */
+  play: () => Promise<void>
+  pause: () => void
+  /** Moves to a position in seconds, clamped to the source */
+  seek: (time: number) => void
+  /**
+   * Opens the source expected to play next, so a transition can start it
+   * without a gap and a later load of it starts at once. Null cancels it
+   */
+  preload: (src: string | null) => void
+  /** Sets how the current source hands over to the preloaded one */
+  setTransition: (transition: Readonly<TrackTransition>) => void
+  /**
+   * Feeds a live source, such as a microphone, into the chain in place of the
+   * transport. Playback pauses and play() does nothing until null switches back
+   */
+  setInput: (node: AudioNode | null) => void
+  /** Whether the processed signal reaches the speakers; the analyser and recordings get it either way */
+  setMonitoring: (isEnabled: boolean) => void
+  /** Merges settings into the current effects and applies them */
+  setEffects: (effects: Partial<AudioEffects>) => void
+  /**
+   * Replaces the automation lanes; automated fields follow them at the current
+   * position, overriding setEffects, and are updated continuously while playing
+   */
+  setAutomation: (lanes: Readonly<AutomationLanes>) => void
+  /** Subscribes to an event; returns the unsubscribe function */
+  on: <K extends keyof AudioEngineEvents>(type: K, listener: AudioEngineEventListener<K>) => () => void
+  /** Stops playback and disconnects the graph; a context the engine created is closed */
+  dispose: () => void
+}
+
+/**
+ * Engine Options
+ */
+export interface AudioEngineOptions {
+  /** Context to build the graph in - a realtime, offline or fake context. One is created when omitted */
+  context?: BaseAudioContext
+  /**
+   * Media element to stream through - requires a realtime AudioContext.
+   * Without one, sources are fetched and decoded into memory
+   */
+  mediaElement?: HTMLMediaElement
+  /**
+   * Second media element, which the next source is preloaded into. Streaming
+   * engines without one cannot preload, so they never make a transition
+   */
+  nextMediaElement?: HTMLMediaElement
+  /** Initial settings, DEFAULT_EFFECTS when omitted */
+  effects?: Readonly<AudioEffects>
+  /** Analyser FFT size */
+  fftSize?: number
+  /** Analyser smoothing (0-1) */
+  smoothingTimeConstant?: number
+}
+
+/**
+ * Transport Callbacks
+ * How a transport reports back to the engine
+ */
+export interface TransportCallbacks {
+  onTimeUpdate: (time: number) => void
+  onEnded: () => void
+  /** Playback stopped without the engine asking, e.g. by the browser or the OS */
+  onPause: () => void
+  onError: (error: Error) => void
+  /** A preloaded source took over without stopping - only the track switcher reports this */
+  onAdvance: (src: string, duration: number) => void
+}
+
+/**
+ * Engine Transport
+ * Produces the source signal and owns position and speed
+ */
+export interface EngineTransport {
+  /** Node the engine connects into the processing graph */
+  readonly output: AudioNode
+  readonly currentTime: number
+  readonly duration: number
+  /**
+   * True when speed changes keep the pitch (media element time-stretching);
+   * false when they resample, so the engine corrects pitch by 1 / speed
+   */
+  readonly preservesPitch: boolean
+  /** Opens a source and resolves with its duration in seconds */
+  load: (src: string | null) => Promise<number>
+  /** Starts playback, at a context time when given */
+  play: (when?: number) => Promise<void>
+  pause: () => void
+  seek: (time: number) => void
+  setSpeed: (speed: number) => void
+  dispose: () => void
+}
+
+/**
+ * Track Switcher
+ * A transport over two decks: one plays while the other preloads the next
+ * source, and the two are joined gaplessly or crossfaded into one output
+ */
+export interface TrackSwitcher extends EngineTransport {
+  preload: (src: string | null) => void
+  setTransition: (transition: Readonly<TrackTransition>) => void
+}
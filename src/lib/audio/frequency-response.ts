@@ -0,0 +1,76 @@
+/**
+ * Frequency Response Helpers
+ * Log-frequency axis mapping and combined filter curves for spectrum and EQ views
+ */
+
+/** Lowest frequency shown on log-frequency graphs */
+export const GRAPH_MIN_FREQUENCY = 20
+
+/** Highest frequency shown on log-frequency graphs */
+export const GRAPH_MAX_FREQUENCY = 20000
+
+/** Gridline frequencies for log-frequency graphs */
+export const GRAPH_FREQUENCY_TICKS = [50, 100, 200, 500, 1000, 2000, 5000, 10000] as const
+
+/**
+ * Maps a frequency to its 0-1 position on a log axis
+ */
+export function frequencyToPosition(
+  frequency: number,
+  min: number = GRAPH_MIN_FREQUENCY,
+  max: number = GRAPH_MAX_FREQUENCY
+): number {
+  return Math.log(frequency / min) / Math.log(max / min)
+}
+
+/**
+ * Maps a 0-1 position on a log axis back to a frequency
+ */
+export function positionToFrequency(
+  position: number,
+  min: number = GRAPH_MIN_FREQUENCY,
+  max: number = GRAPH_MAX_FREQUENCY
+): number {
+  return min * Math.pow(max / min, position)
+}
+
+/**
+ * Generates log-spaced frequencies across the graph range
+ * @param count - Number of points, at least 2
+ */
+export function logFrequencies(count: number): Float32Array {
+  const frequencies = new Float32Array(count)
+  for (let i = 0; i < count; i++) {
+    frequencies[i] = positionToFrequency(i / (count - 1))
+  }
+  return frequencies
+}
+
+/**
+ * Formats a frequency for axis labels (e.g. 500, 2k, 10k)
+ */
+export function formatFrequency(frequency: number): string {
+  return frequency >= 1000 ? `${Number((frequency / 1000).toFixed(1))}k` : `${Math.round(frequency)}`
+}
+
+/**
+ * Computes the response of filters in series, in dB
+ *
+ * @param filters - Filters the signal passes through one after another
+ * @param frequencies - Frequencies to evaluate, in Hz
+ * @returns Gain in dB at each frequency
+ */
+export function combinedResponseDb(filters: readonly BiquadFilterNode[], frequencies: Float32Array): Float32Array {
+  const totalMagnitude = new Float32Array(frequencies.length).fill(1)
+  const magnitude = new Float32Array(frequencies.length)
+  const phase = new Float32Array(frequencies.length)
+
+  filters.forEach(filter => {
+    filter.getFrequencyResponse(frequencies, magnitude, phase)
+    for (let i = 0; i < frequencies.length; i++) {
+      totalMagnitude[i] *= magnitude[i]
+    }
+  })
+
+  return totalMagnitude.map(value => 20 * Math.log10(Math.max(value, 1e-6)))
+}
@@ -0,0 +1,307 @@
+/**
+ * Reverb Impulse Responses
+ * Generates the parametric and built-in impulses, and decodes, stores and
+ * resamples impulse responses loaded by the user
+ */
+
+import { type AudioEffects, type ReverbLibraryId } from '@/lib/effects'
+import { decodeAudioSource } from '@/lib/audio/decode'
+import { STORES, idbDelete, idbGetAll, idbPut } from '@/lib/idb'
+
+/**
+ * Impulse Response Constants
+ */
+export const IMPULSE_CONFIG = {
+  /** Rate user files are decoded at; other contexts get a resampled copy */
+  DECODE_SAMPLE_RATE: 48000,
+  /** Longest impulse file accepted, in seconds */
+  MAX_FILE_DURATION: 15,
+  /** Discrete early reflections per channel in the parametric impulse */
+  EARLY_REFLECTIONS: 12
+} as const
+
+/** Decay of a -60 dB tail, as a natural-log amplitude ratio */
+const DECAY_60_DB = Math.log(1000)
+
+/** Reverb fields the parametric generator reads */
+export type ReverbParameters = Pick<AudioEffects, 'reverbDecay' | 'reverbPreDelay' | 'reverbSize' | 'reverbDamping' | 'reverbWidth'>
+
+/**
+ * Impulse Response
+ * A user-loaded impulse, kept as plain channel data so any context can use it
+ */
+export interface ImpulseResponse {
+  id: `user:${string}`
+  name: string
+  sampleRate: number
+  /** One or two channels */
+  channels: Float32Array<ArrayBuffer>[]
+}
+
+/** User impulses available in this page, by id */
+const userImpulses = new Map<string, ImpulseResponse>()
+
+/** Built-in and resampled user impulses, by `<id>@<sample rate>` */
+const impulseCache = new Map<string, Float32Array<ArrayBuffer>[]>()
+
+/**
+ * Generates a room-like impulse from the parametric reverb settings
+ * Exponentially decaying noise reaches -60 dB at the decay time. A one-pole
+ * low-pass closes over the tail to darken it, a handful of discrete early
+ * reflections come first, and the side signal is scaled for width
+ *
+ * @returns Left and right channels
+ */
+export function generateParametricImpulse(settings: Readonly<ReverbParameters>, sampleRate: number): Float32Array<ArrayBuffer>[] {
+  const preDelay = Math.round((settings.reverbPreDelay / 1000) * sampleRate)
+  const tailLength = Math.max(1, Math.round(settings.reverbDecay * sampleRate))
+  const length = preDelay + tailLength
+  const size = settings.reverbSize / 100
+  const damping = settings.reverbDamping / 100
+  const width = settings.reverbWidth / 100
+
+  // Larger rooms take longer to build up a dense tail and spread their reflections further
+  const buildUp = (0.002 + size * 0.05) * sampleRate
+  const reflectionSpan = (0.005 + size * 0.06) * sampleRate
+
+  const [left, right] = [0, 1].map(() => {
+    const channel = new Float32Array(length)
+    let filtered = 0
+
+    for (let i = 0; i < tailLength; i++) {
+      const progress = i / tailLength
+      // 1 leaves the noise untouched; lower values are a lower cutoff
+      const coefficient = 1 - damping * 0.95 * Math.sqrt(progress)
+      filtered += coefficient * (Math.random() * 2 - 1 - filtered)
+      // Restore the power the low-pass removes from white noise
+      const compensation = Math.sqrt((2 - coefficient) / coefficient)
+      const envelope = Math.exp(-DECAY_60_DB * progress) * Math.min(1, i / buildUp)
+      channel[preDelay + i] = filtered * compensation * envelope
+    }
+
+    for (let tap = 0; tap < IMPULSE_CONFIG.EARLY_REFLECTIONS; tap++) {
+      const position = preDelay + Math.floor(Math.random() * Math.min(reflectionSpan, tailLength))
+      const amplitude = (1 - tap / IMPULSE_CONFIG.EARLY_REFLECTIONS) * 0.8
+      channel[position] += Math.random() < 0.5 ? -amplitude : amplitude
+    }
+
+    return channel
+  })
+
+  for (let i = 0; i < length; i++) {
+    const mid = (left[i] + right[i]) / 2
+    const side = ((left[i] - right[i]) / 2) * width
+    left[i] = mid + side
+    right[i] = mid - side
+  }
+
+  return [left, right]
+}
+
+/**
+ * Generates a spring tank impulse: a train of dispersed chirps, one per trip along the spring
+ * High frequencies travel along a spring faster than low ones, which gives the
+ * familiar falling "boing". The channels use springs of slightly different lengths
+ */
+function generateSpringImpulse(sampleRate: number): Float32Array<ArrayBuffer>[] {
+  const length = Math.round(3 * sampleRate)
+  const chirpLength = Math.round(0.03 * sampleRate)
+  const chirpDuration = chirpLength / sampleRate
+  const [startFrequency, endFrequency] = [4000, 200]
+
+  return [0.033, 0.041].map(tripTime => {
+    const channel = new Float32Array(length)
+    const tripLength = Math.round(tripTime * sampleRate)
+
+    for (let start = 0, trip = 0; start + chirpLength < length; start += tripLength, trip++) {
+      // Each reflection off the end of the spring inverts the wave
+      const amplitude = Math.exp((-DECAY_60_DB * start) / length) * (trip % 2 === 0 ? 1 : -1)
+      for (let i = 0; i < chirpLength; i++) {
+        const t = i / sampleRate
+        const phase = 2 * Math.PI * (startFrequency * t + ((endFrequency - startFrequency) * t * t) / (2 * chirpDuration))
+        const window = Math.pow(Math.sin((Math.PI * i) / chirpLength), 2)
+        channel[start + i] += Math.sin(phase) * window * amplitude
+      }
+    }
+
+    // A little diffuse noise, so the repeats blur together as they fade
+    for (let i = 0; i < length; i++) {
+      channel[i] += (Math.random() * 2 - 1) * 0.1 * Math.exp((-DECAY_60_DB * i) / length)
+    }
+
+    return channel
+  })
+}
+
+/**
+ * Built-in impulse generators
+ */
+const LIBRARY_GENERATORS: Record<ReverbLibraryId, (sampleRate: number) => Float32Array<ArrayBuffer>[]> = {
+  'small-room': sampleRate => generateParametricImpulse(
+    { reverbDecay: 0.5, reverbPreDelay: 3, reverbSize: 15, reverbDamping: 60, reverbWidth: 70 }, sampleRate
+  ),
+  hall: sampleRate => generateParametricImpulse(
+    { reverbDecay: 2.6, reverbPreDelay: 20, reverbSize: 75, reverbDamping: 45, reverbWidth: 100 }, sampleRate
+  ),
+  // No distinct reflections and an immediate, bright, dense onset
+  plate: sampleRate => generateParametricImpulse(
+    { reverbDecay: 2, reverbPreDelay: 0, reverbSize: 0, reverbDamping: 15, reverbWidth: 100 }, sampleRate
+  ),
+  cathedral: sampleRate => generateParametricImpulse(
+    { reverbDecay: 7, reverbPreDelay: 45, reverbSize: 100, reverbDamping: 60, reverbWidth: 100 }, sampleRate
+  ),
+  spring: generateSpringImpulse
+}
+
+/**
+ * Resamples one channel by linear interpolation
+ * Crude for program material, but impulse tails are noise-like and forgiving
+ */
+function resampleChannel(channel: Float32Array<ArrayBuffer>, fromRate: number, toRate: number): Float32Array<ArrayBuffer> {
+  if (fromRate === toRate) return channel
+
+  const ratio = fromRate / toRate
+  const resampled = new Float32Array(Math.max(1, Math.round(channel.length / ratio)))
+  for (let i = 0; i < resampled.length; i++) {
+    const position = i * ratio
+    const index = Math.floor(position)
+    const next = Math.min(index + 1, channel.length - 1)
+    resampled[i] = channel[index] + (channel[next] - channel[index]) * (position - index)
+  }
+  return resampled
+}
+
+/**
+ * Channel data for the current impulse at a sample rate
+ * A user impulse that is not loaded in this browser falls back to the parametric reverb
+ */
+function getImpulseChannels(effects: Readonly<AudioEffects>, sampleRate: number): Float32Array<ArrayBuffer>[] {
+  const id = effects.reverbImpulse
+  const cacheKey = `${id}@${sampleRate}`
+  const cached = impulseCache.get(cacheKey)
+  if (cached) return cached
+
+  let channels: Float32Array<ArrayBuffer>[] | null = null
+  if (id.startsWith('library:')) {
+    channels = LIBRARY_GENERATORS[id.slice('library:'.length) as ReverbLibraryId](sampleRate)
+  } else if (id.startsWith('user:')) {
+    const impulse = userImpulses.get(id)
+    if (impulse) {
+      channels = impulse.channels.map(channel => resampleChannel(channel, impulse.sampleRate, sampleRate))
+    } else {
+      console.warn(`Impulse response ${id} is not available in this browser - using the parametric reverb`)
+    }
+  }
+
+  if (!channels) return generateParametricImpulse(effects, sampleRate)
+  impulseCache.set(cacheKey, channels)
+  return channels
+}
+
+/**
+ * Identifies the impulse the settings produce, so it is only rebuilt when this changes
+ */
+export function getImpulseKey(effects: Readonly<AudioEffects>): string {
+  const id = effects.reverbImpulse
+  if (id.startsWith('library:') || userImpulses.has(id)) return id
+
+  const { reverbDecay, reverbPreDelay, reverbSize, reverbDamping, reverbWidth } = effects
+  return `${id}:${reverbDecay}:${reverbPreDelay}:${reverbSize}:${reverbDamping}:${reverbWidth}`
+}
+
+/**
+ * Builds the stereo impulse for the current reverb settings
+ * Mono impulses are copied to both channels
+ */
+export function createImpulseBuffer(context: BaseAudioContext, effects: Readonly<AudioEffects>): AudioBuffer {
+  const channels = getImpulseChannels(effects, context.sampleRate)
+  const buffer = context.createBuffer(2, channels[0].length, context.sampleRate)
+  buffer.copyToChannel(channels[0], 0)
+  buffer.copyToChannel(channels[channels.length - 1], 1)
+  return buffer
+}
+
+/**
+ * Length of the current impulse in seconds - how long the reverb rings after the input stops
+ */
+export function getImpulseDuration(effects: Readonly<AudioEffects>): number {
+  const impulse = userImpulses.get(effects.reverbImpulse)
+  if (impulse) return impulse.channels[0].length / impulse.sampleRate
+  if (effects.reverbImpulse.startsWith('library:')) {
+    return getImpulseChannels(effects, IMPULSE_CONFIG.DECODE_SAMPLE_RATE)[0].length / IMPULSE_CONFIG.DECODE_SAMPLE_RATE
+  }
+  return effects.reverbPreDelay / 1000 + effects.reverbDecay
+}
+
+/**
+ * Decodes an audio file as an impulse response
+ * Any format the browser decodes is accepted; only the first two channels are kept
+ *
+ * @returns A new user impulse, not yet saved
+ * @throws Error with a message suitable for showing to the user
+ */
+export async function decodeImpulseResponseFile(file: File): Promise<ImpulseResponse> {
+  const url = URL.createObjectURL(file)
+  let buffer: AudioBuffer
+  try {
+    buffer = await decodeAudioSource(url, IMPULSE_CONFIG.DECODE_SAMPLE_RATE)
+  } catch (error) {
+    console.error('Impulse response decode failed:', error)
+    throw new Error(`"${file.name}" could not be read as audio`)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+
+  if (buffer.duration > IMPULSE_CONFIG.MAX_FILE_DURATION) {
+    throw new Error(`"${file.name}" is ${buffer.duration.toFixed(1)}s long; impulse responses can be up to ${IMPULSE_CONFIG.MAX_FILE_DURATION}s`)
+  }
+
+  return {
+    id: `user:${crypto.randomUUID()}`,
+    name: file.name.replace(/\.[^.]+$/, '') || file.name,
+    sampleRate: buffer.sampleRate,
+    channels: Array.from({ length: Math.min(buffer.numberOfChannels, 2) }, (_, channel) => buffer.getChannelData(channel).slice())
+  }
+}
+
+/**
+ * Reads the user's impulses from IndexedDB and makes them available to the reverb
+ * @returns The impulses sorted by name, or none when storage is unavailable
+ */
+export async function loadStoredImpulseResponses(): Promise<ImpulseResponse[]> {
+  try {
+    const stored = await idbGetAll<ImpulseResponse>(STORES.IMPULSE_RESPONSES)
+    stored.forEach(impulse => userImpulses.set(impulse.id, impulse))
+    return stored.sort((a, b) => a.name.localeCompare(b.name))
+  } catch (error) {
+    console.warn('Failed to read stored impulse responses:', error)
+    return []
+  }
+}
+
+/**
+ * Makes an impulse available to the reverb and stores it for later visits
+ */
+export async function saveImpulseResponse(impulse: ImpulseResponse): Promise<void> {
+  userImpulses.set(impulse.id, impulse)
+  try {
+    await idbPut(STORES.IMPULSE_RESPONSES, impulse.id, impulse)
+  } catch (error) {
+    console.warn('Impulse response kept for this session only:', error)
+  }
+}
+
+/**
+ * Removes a user impulse from the page and from storage
+ */
+export async function deleteImpulseResponse(id: string): Promise<void> {
+  userImpulses.delete(id)
+  for (const key of impulseCache.keys()) {
+    if (key.startsWith(`${id}@`)) impulseCache.delete(key)
+  }
+  try {
+    await idbDelete(STORES.IMPULSE_RESPONSES, id)
+  } catch (error) {
+    console.warn('Failed to delete stored impulse response:', error)
+  }
+}
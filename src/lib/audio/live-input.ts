@@ -0,0 +1,152 @@
+/**
+ * Live Input
+ * Microphone and line-in sources for the effect chain: device listing, capture
+ * with the browser's voice processing turned off, and an input gain stage the
+ * engine takes as its source in place of the transport
+ */
+
+import { EFFECTS_CHAIN_CONFIG } from '@/lib/audio/effects-chain'
+
+/**
+ * Capture latency the device is asked for - lower reacts faster, higher
+ * drops out less on a busy machine
+ */
+export type InputLatencyHint = 'interactive' | 'balanced' | 'playback'
+
+/**
+ * Latency Hints
+ * Seconds requested through the `latency` constraint; browsers treat it as a preference
+ */
+export const INPUT_LATENCY_HINTS: Readonly<Record<InputLatencyHint, { label: string; latency: number }>> = {
+  interactive: { label: 'Lowest', latency: 0.005 },
+  balanced: { label: 'Balanced', latency: 0.02 },
+  playback: { label: 'Stable', latency: 0.1 }
+}
+
+/**
+ * Live Input Constants
+ */
+export const LIVE_INPUT_CONFIG = {
+  /** Input gain range in dB */
+  GAIN_LIMITS: { min: -24, max: 24 },
+  /** Pitch of the generated test tone in Hz */
+  TEST_TONE_FREQUENCY: 440,
+  /** Level of the generated test tone, well below full scale */
+  TEST_TONE_LEVEL: 0.25
+} as const
+
+/**
+ * Live Input Source
+ */
+export interface LiveInput {
+  /** Node to pass to engine.setInput */
+  readonly output: AudioNode
+  /** Device name, or a description for a generated stream */
+  readonly label: string
+  /** Estimated seconds from the input to the speakers, where the browser reports it */
+  readonly latency: number
+  /** Sets the input gain in dB */
+  setGain: (db: number) => void
+  /** Disconnects and stops the stream's tracks */
+  dispose: () => void
+}
+
+/**
+ * Lists audio inputs
+ * Labels stay empty until the page has been allowed to use a microphone once
+ */
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return []
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices.filter(device => device.kind === 'audioinput')
+}
+
+/**
+ * Opens an input device
+ * Echo cancellation, noise suppression and auto gain are for calls and would
+ * colour instruments, so they are turned off
+ *
+ * @param deviceId - Device to open, null for the system default
+ * @throws Error when capture is unsupported, or the DOMException from getUserMedia (e.g. NotAllowedError)
+ */
+export async function requestInputStream(deviceId: string | null, latencyHint: InputLatencyHint): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error('Audio input is not supported in this browser')
+  }
+
+  // `latency` is a valid constraint that the DOM typings leave out
+  const constraints = {
+    deviceId: deviceId ? { exact: deviceId } : undefined,
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+    latency: { ideal: INPUT_LATENCY_HINTS[latencyHint].latency }
+  } as MediaTrackConstraints
+
+  return navigator.mediaDevices.getUserMedia({ audio: constraints })
+}
+
+/**
+ * Generates a sine stream that stands in for a device, for demos and testing
+ * without a microphone
+ * @returns The stream, and a stop function that also ends the oscillator
+ */
+export function createTestToneStream(context: AudioContext): { stream: MediaStream; stop: () => void } {
+  const oscillator = context.createOscillator()
+  oscillator.frequency.value = LIVE_INPUT_CONFIG.TEST_TONE_FREQUENCY
+  const level = context.createGain()
+  level.gain.value = LIVE_INPUT_CONFIG.TEST_TONE_LEVEL
+  const destination = context.createMediaStreamDestination()
+
+  oscillator.connect(level)
+  level.connect(destination)
+  oscillator.start()
+
+  return {
+    stream: destination.stream,
+    stop: () => {
+      oscillator.stop()
+      oscillator.disconnect()
+      level.disconnect()
+      destination.stream.getTracks().forEach(track => track.stop())
+    }
+  }
+}
+
+/**
+ * Wraps a captured stream in an input gain stage
+ *
+ * @param context - The engine's context
+ * @param stream - A device stream, or any other audio stream such as a test tone
+ * @param onDispose - Extra cleanup for the stream's owner, e.g. stopping a test tone
+ */
+export function createLiveInput(context: AudioContext, stream: MediaStream, onDispose?: () => void): LiveInput {
+  const source = context.createMediaStreamSource(stream)
+  const gain = context.createGain()
+  source.connect(gain)
+
+  const [track] = stream.getAudioTracks()
+  // Chromium reports the capture latency; other browsers leave it out
+  const captureLatency = (track?.getSettings() as (MediaTrackSettings & { latency?: number }) | undefined)?.latency ?? 0
+
+  return {
+    output: gain,
+    label: track?.label ?? '',
+    get latency() {
+      return captureLatency + context.baseLatency + (context.outputLatency || 0)
+    },
+
+    setGain(db) {
+      const { min, max } = LIVE_INPUT_CONFIG.GAIN_LIMITS
+      const clamped = Math.min(Math.max(db, min), max)
+      gain.gain.setTargetAtTime(Math.pow(10, clamped / 20), context.currentTime, EFFECTS_CHAIN_CONFIG.PARAM_TIME_CONSTANT)
+    },
+
+    dispose() {
+      source.disconnect()
+      gain.disconnect()
+      stream.getTracks().forEach(streamTrack => streamTrack.stop())
+      onDispose?.()
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Level Metering
+ * Peak and RMS readings from an analyser's time-domain data
+ */
+
+/** Level reported for silence, in dBFS */
+export const METER_FLOOR_DB = -96
+
+/**
+ * Level Reading
+ * Both values are in dBFS, no lower than METER_FLOOR_DB
+ */
+export interface LevelReading {
+  peak: number
+  rms: number
+}
+
+/**
+ * Converts a linear amplitude to dBFS, floored for silence
+ */
+export function amplitudeToDb(amplitude: number): number {
+  return amplitude > 0 ? Math.max(METER_FLOOR_DB, 20 * Math.log10(amplitude)) : METER_FLOOR_DB
+}
+
+/**
+ * Reads the analyser's current window
+ * @param samples - Scratch buffer of the analyser's fftSize, reused between calls
+ */
+export function readLevel(analyser: AnalyserNode, samples: Float32Array<ArrayBuffer>): LevelReading {
+  analyser.getFloatTimeDomainData(samples)
+
+  let peak = 0
+  let sumOfSquares = 0
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i])
+    if (value > peak) peak = value
+    sumOfSquares += value * value
+  }
+
+  return { peak: amplitudeToDb(peak), rms: amplitudeToDb(Math.sqrt(sumOfSquares / samples.length)) }
+}
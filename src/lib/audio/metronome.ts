@@ -0,0 +1,78 @@
+/**
+ * Metronome Clicks
+ * Sample-accurate click scheduling for practice count-ins
+ */
+
+/** Click length in seconds */
+const CLICK_LENGTH = 0.05
+
+/** Pitches for the first beat and the rest, in Hz */
+const ACCENT_FREQUENCY = 1760
+const BEAT_FREQUENCY = 1320
+
+/** Click peak level (0-1) */
+const CLICK_LEVEL = 0.5
+
+/**
+ * Scheduled Count-in
+ */
+export interface CountIn {
+  /** Context time at which the downbeat after the count-in falls */
+  endTime: number
+  /** Silences any clicks that have not played yet */
+  stop: () => void
+}
+
+/**
+ * Schedules a single click
+ * @param context - Audio context to play on
+ * @param destination - Node to connect to, usually the context destination
+ * @param time - Context time to sound at
+ * @param isAccent - Higher pitch for the first beat of the bar
+ * @returns The click's oscillator, so it can be stopped early
+ */
+function scheduleClick(context: BaseAudioContext, destination: AudioNode, time: number, isAccent: boolean): OscillatorNode {
+  const oscillator = context.createOscillator()
+  const envelope = context.createGain()
+
+  oscillator.frequency.value = isAccent ? ACCENT_FREQUENCY : BEAT_FREQUENCY
+  envelope.gain.setValueAtTime(0, time)
+  envelope.gain.linearRampToValueAtTime(CLICK_LEVEL, time + 0.002)
+  envelope.gain.exponentialRampToValueAtTime(0.001, time + CLICK_LENGTH)
+
+  oscillator.connect(envelope)
+  envelope.connect(destination)
+  oscillator.start(time)
+  oscillator.stop(time + CLICK_LENGTH)
+  oscillator.onended = () => envelope.disconnect()
+  return oscillator
+}
+
+/**
+ * Plays a count-in
+ *
+ * @param context - Running audio context
+ * @param beats - Number of clicks
+ * @param bpm - Tempo of the clicks
+ * @param destination - Where the clicks go; defaults to the output, bypassing effects
+ * @returns When the count-in ends, and a way to cancel it
+ */
+export function scheduleCountIn(
+  context: BaseAudioContext,
+  beats: number,
+  bpm: number,
+  destination: AudioNode = context.destination
+): CountIn {
+  const beatLength = 60 / bpm
+  // A short lead time so the first click is not clipped
+  const startTime = context.currentTime + 0.05
+
+  const clicks = Array.from({ length: beats }, (_, beat) =>
+    scheduleClick(context, destination, startTime + beat * beatLength, beat === 0)
+  )
+
+  return {
+    endTime: startTime + beats * beatLength,
+    stop: () => clicks.forEach(click => click.stop())
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Noise Gate Utilities
+ * Loads the noise gate AudioWorklet
+ */
+
+/** Public URL of the worklet module served from /public */
+export const NOISE_GATE_MODULE_URL = '/worklets/noise-gate-processor.js'
+
+/** Name the processor registers itself under */
+export const NOISE_GATE_PROCESSOR_NAME = 'noise-gate'
+
+/** Samples between gain reduction reports - about 40 a second at 44.1 kHz, enough for a meter */
+const NOISE_GATE_REPORT_INTERVAL = 1024
+
+/**
+ * Creates a noise gate node on the given context
+ * Registers the worklet module first; repeated calls on the same context reuse it
+ *
+ * @param context - Audio context the node will live in
+ * @param reportReduction - Post the gate's gain in dB to the node's port, for metering
+ * @returns The worklet node, or null when AudioWorklet is unavailable
+ */
+export async function createNoiseGateNode(context: BaseAudioContext, reportReduction: boolean): Promise<AudioWorkletNode | null> {
+  if (!context.audioWorklet) {
+    console.warn('AudioWorklet not supported - noise gate disabled')
+    return null
+  }
+
+  await context.audioWorklet.addModule(NOISE_GATE_MODULE_URL)
+
+  return new AudioWorkletNode(context, NOISE_GATE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2],
+    processorOptions: { reportInterval: reportReduction ? NOISE_GATE_REPORT_INTERVAL : 0 }
+  })
+}
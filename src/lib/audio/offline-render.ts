@@ -0,0 +1,152 @@
+/**
+ * Offline Rendering
+ * Runs a decoded track through the effects chain on an OfflineAudioContext,
+ * as fast as the machine allows instead of in realtime
+ */
+
+import { type AudioEffects } from '@/lib/effects'
+import { type AutomationLanes, AUTOMATION_CONFIG, applyAutomation, hasAutomation } from '@/lib/automation'
+import { EFFECTS_CHAIN_CONFIG, applyEffectsChain, createEffectsChain } from '@/lib/audio/effects-chain'
+import { getImpulseDuration } from '@/lib/audio/impulse-responses'
+import { createPitchShifterNode, semitonesToRatio } from '@/lib/audio/pitch-shifter'
+
+/** Number of progress updates over a render */
+const PROGRESS_STEPS = 50
+
+/** Offline contexts render in blocks of this many frames; suspend times must fall on block edges */
+const RENDER_QUANTUM = 128
+
+export interface OfflineRenderOptions {
+  effects: Readonly<AudioEffects>
+  /** Lanes the automated fields follow, none by default */
+  automation?: Readonly<AutomationLanes>
+  /** Range start in track seconds, 0 by default */
+  start?: number
+  /** Range end in track seconds, the end of the track by default */
+  end?: number
+  /** Called with 0-1 as rendering advances */
+  onProgress?: (fraction: number) => void
+  /** Aborts the render; the promise rejects with an AbortError */
+  signal?: AbortSignal
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Render cancelled', 'AbortError')
+}
+
+/**
+ * Renders a track with effects applied
+ *
+ * Speed is applied as the buffer-source transport applies it during playback:
+ * the source's playbackRate resamples, which also shifts pitch, so the pitch
+ * shifter is given ratio pitch / speed to cancel that out. The player's
+ * streaming transport has the media element time-stretch instead, which gives
+ * the same length at the same pitch. Volume is a listening level
+ * and is not applied. A reverb tail is appended when reverb is on. Automation
+ * is applied at short intervals, ramped as it is during playback.
+ *
+ * @param source - Decoded track
+ * @param options - Effects, range, progress callback and abort signal
+ * @returns Stereo buffer at the source's sample rate
+ */
+export async function renderOffline(source: AudioBuffer, options: OfflineRenderOptions): Promise<AudioBuffer> {
+  const { effects, onProgress, signal } = options
+  const automation = options.automation ?? {}
+  const start = Math.min(Math.max(options.start ?? 0, 0), source.duration)
+  const end = Math.min(Math.max(options.end ?? source.duration, start), source.duration)
+  if (end - start <= 0) {
+    throw new Error('The export range is empty')
+  }
+  if (signal?.aborted) throw createAbortError()
+
+  const { sampleRate } = source
+  const hasReverb = effects.reverb > 0 || Boolean(automation.reverb?.some(point => point.value > 0))
+  const tail = hasReverb ? getImpulseDuration(effects) : 0
+  const renderDuration = (end - start) / effects.speed + tail
+  const context = new OfflineAudioContext(2, Math.ceil(renderDuration * sampleRate), sampleRate)
+
+  const bufferSource = context.createBufferSource()
+  bufferSource.buffer = source
+  bufferSource.playbackRate.value = effects.speed
+
+  let currentNode: AudioNode = bufferSource
+
+  // Effects at a render time, following the automation from the range start
+  const getEffectsAt = (time: number): AudioEffects => ({
+    ...applyAutomation(effects, automation, start + Math.min(time, (end - start) / effects.speed) * effects.speed),
+    volume: 1
+  })
+
+  // Pitch correction for the speed change plus the requested shift
+  const getPitchRatio = (pitch: number): number => semitonesToRatio(pitch) / effects.speed
+  let pitchShifter: AudioWorkletNode | null = null
+  if (Math.abs(getPitchRatio(effects.pitch) - 1) > 1e-6 || automation.pitch?.length) {
+    try {
+      pitchShifter = await createPitchShifterNode(context)
+      if (pitchShifter) {
+        pitchShifter.parameters.get('pitchRatio')?.setValueAtTime(getPitchRatio(getEffectsAt(0).pitch), 0)
+        currentNode.connect(pitchShifter)
+        currentNode = pitchShifter
+      }
+    } catch (error) {
+      console.warn('Pitch shifter unavailable for export - speed will also change pitch:', error)
+    }
+  }
+
+  const chain = createEffectsChain(context, getEffectsAt(0))
+  currentNode.connect(chain.input)
+  chain.output.connect(context.destination)
+
+  // Render with the noise gate in place rather than letting it pop in part-way
+  await chain.ready
+  if (signal?.aborted) throw createAbortError()
+  bufferSource.start(0, start, end - start)
+
+  // Suspend at regular points to report progress and honour cancellation, and to follow automation
+  let isAborted = false
+  const toSuspendTime = (time: number): number =>
+    (Math.floor((time * sampleRate) / RENDER_QUANTUM) * RENDER_QUANTUM) / sampleRate
+  const suspendTimes = new Set<number>()
+  for (let step = 1; step < PROGRESS_STEPS; step++) {
+    const time = toSuspendTime((renderDuration * step) / PROGRESS_STEPS)
+    if (time > 0) suspendTimes.add(time)
+  }
+  const isAutomated = hasAutomation(automation)
+  if (isAutomated) {
+    for (let time = AUTOMATION_CONFIG.RENDER_INTERVAL; time < renderDuration; time += AUTOMATION_CONFIG.RENDER_INTERVAL) {
+      const suspendTime = toSuspendTime(time)
+      if (suspendTime > 0) suspendTimes.add(suspendTime)
+    }
+  }
+  suspendTimes.forEach(time => {
+    context.suspend(time).then(() => {
+      // Leaving the context suspended stops the render; it is released with the context
+      if (isAborted) return
+      if (isAutomated) {
+        const automated = getEffectsAt(time)
+        applyEffectsChain(chain, automated)
+        pitchShifter?.parameters.get('pitchRatio')?.setTargetAtTime(
+          getPitchRatio(automated.pitch), context.currentTime, EFFECTS_CHAIN_CONFIG.PARAM_TIME_CONSTANT
+        )
+      }
+      onProgress?.(time / renderDuration)
+      context.resume()
+    })
+  })
+
+  return new Promise<AudioBuffer>((resolve, reject) => {
+    const handleAbort = (): void => {
+      isAborted = true
+      reject(createAbortError())
+    }
+    signal?.addEventListener('abort', handleAbort, { once: true })
+
+    context.startRendering()
+      .then(rendered => {
+        onProgress?.(1)
+        resolve(rendered)
+      })
+      .catch(reject)
+      .finally(() => signal?.removeEventListener('abort', handleAbort))
+  })
+}
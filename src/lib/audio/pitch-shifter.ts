@@ -0,0 +1,46 @@
+/**
+ * Pitch Shifter Utilities
+ * Loads the granular pitch-shifting AudioWorklet and converts semitone
+ * offsets into the resampling ratio the processor expects
+ */
+
+/** Public URL of the worklet module served from /public */
+export const PITCH_SHIFTER_MODULE_URL = '/worklets/pitch-shifter-processor.js'
+
+/** Name the processor registers itself under */
+export const PITCH_SHIFTER_PROCESSOR_NAME = 'pitch-shifter'
+
+/** Grain length in samples - longer grains smear transients, shorter ones buzz */
+const PITCH_SHIFTER_GRAIN_SIZE = 2048
+
+/**
+ * Converts a semitone offset into a frequency ratio
+ * @param semitones - Pitch offset in semitones (-12 to +12)
+ * @returns Ratio where 1 = unchanged, 2 = one octave up, 0.5 = one octave down
+ */
+export function semitonesToRatio(semitones: number): number {
+  return Math.pow(2, semitones / 12)
+}
+
+/**
+ * Creates a pitch shifter node on the given context
+ * Registers the worklet module first; repeated calls on the same context reuse it
+ *
+ * @param context - Audio context the node will live in
+ * @returns The worklet node, or null when AudioWorklet is unavailable
+ */
+export async function createPitchShifterNode(context: BaseAudioContext): Promise<AudioWorkletNode | null> {
+  if (!context.audioWorklet) {
+    console.warn('AudioWorklet not supported - pitch shifting disabled')
+    return null
+  }
+
+  await context.audioWorklet.addModule(PITCH_SHIFTER_MODULE_URL)
+
+  return new AudioWorkletNode(context, PITCH_SHIFTER_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2],
+    processorOptions: { grainSize: PITCH_SHIFTER_GRAIN_SIZE }
+  })
+}
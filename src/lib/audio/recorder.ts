@@ -0,0 +1,247 @@
+/**
+ * Live Output Recording
+ * Captures a node's output as it plays - live effect moves included - either
+ * losslessly through a PCM-capturing AudioWorklet written out as WAV, or
+ * compressed through MediaRecorder
+ */
+
+import { type WavFormat, encodeWav, getWavFileSize } from '@/lib/audio/wav'
+import { isRealtimeContext } from '@/lib/audio/context'
+
+/** Public URL of the worklet module served from /public */
+export const RECORDER_MODULE_URL = '/worklets/recorder-processor.js'
+
+/** Name the processor registers itself under */
+export const RECORDER_PROCESSOR_NAME = 'recorder'
+
+/**
+ * Recorder Constants
+ */
+export const RECORDER_CONFIG = {
+  /** Frames per batch the worklet posts - about 93 ms at 44.1 kHz */
+  BATCH_SIZE: 4096,
+  /** Milliseconds between MediaRecorder data events, so the size can be shown */
+  TIMESLICE: 1000,
+  /** Seconds a WAV recording may run; it is held in memory until it stops */
+  MAX_WAV_DURATION: 30 * 60
+} as const
+
+/** WAV at one of the export sample formats, or the browser's compressed codec */
+export type RecordingFormat = WavFormat | 'compressed'
+
+/** Channels every recording has */
+const CHANNEL_COUNT = 2
+
+/**
+ * Compressed containers in order of preference, with the file extension for each
+ */
+const COMPRESSED_TYPES = [
+  { mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+  { mimeType: 'audio/ogg;codecs=opus', extension: 'ogg' },
+  { mimeType: 'audio/mp4', extension: 'm4a' }
+] as const
+
+/**
+ * Finished Recording
+ */
+export interface Recording {
+  blob: Blob
+  /** File extension without the dot */
+  extension: string
+  /** Length in seconds */
+  duration: number
+}
+
+/**
+ * Recording In Progress
+ */
+export interface OutputRecorder {
+  readonly format: RecordingFormat
+  /** Seconds captured so far */
+  readonly elapsed: number
+  /** File size so far in bytes - exact for WAV, the encoded data received so far when compressed */
+  readonly size: number
+  /** Stops capturing and resolves with the file */
+  stop: () => Promise<Recording>
+  /** Stops capturing and drops what was captured */
+  cancel: () => void
+}
+
+/**
+ * The compressed container this browser can record, or null when there is none
+ */
+export function getCompressedRecordingType(): (typeof COMPRESSED_TYPES)[number] | null {
+  if (typeof MediaRecorder === 'undefined') return null
+  return COMPRESSED_TYPES.find(({ mimeType }) => MediaRecorder.isTypeSupported(mimeType)) ?? null
+}
+
+/**
+ * Starts recording everything the source node outputs
+ *
+ * The source keeps its other connections, so recording changes nothing that is
+ * heard. Capture follows the context clock: paused playback records silence.
+ *
+ * @param source - Node to tap, e.g. the engine's analyser after the limiter
+ * @param format - WAV sample format, or 'compressed'
+ * @throws Error when the browser cannot record in the chosen format
+ */
+export async function createOutputRecorder(source: AudioNode, format: RecordingFormat): Promise<OutputRecorder> {
+  return format === 'compressed'
+    ? createCompressedRecorder(source)
+    : createWavRecorder(source, format)
+}
+
+/**
+ * Collects PCM batches from the recorder worklet and writes them as WAV on stop
+ */
+async function createWavRecorder(source: AudioNode, format: WavFormat): Promise<OutputRecorder> {
+  const { context } = source
+  if (!context.audioWorklet) {
+    throw new Error('WAV recording needs AudioWorklet support')
+  }
+
+  await context.audioWorklet.addModule(RECORDER_MODULE_URL)
+
+  const node = new AudioWorkletNode(context, RECORDER_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [CHANNEL_COUNT],
+    channelCount: CHANNEL_COUNT,
+    channelCountMode: 'explicit',
+    processorOptions: { batchSize: RECORDER_CONFIG.BATCH_SIZE }
+  })
+
+  const chunks: Float32Array[][] = []
+  let frameCount = 0
+  let resolveStopped: (() => void) | null = null
+  let isStopped = false
+
+  node.port.onmessage = (event: MessageEvent<{ type: 'chunk'; channels: Float32Array[] } | { type: 'stopped' }>) => {
+    if (event.data.type === 'chunk') {
+      chunks.push(event.data.channels)
+      frameCount += event.data.channels[0].length
+    } else {
+      resolveStopped?.()
+    }
+  }
+
+  source.connect(node)
+  // The output is silent - the connection only keeps the node rendering
+  node.connect(context.destination)
+
+  const release = (): void => {
+    isStopped = true
+    source.disconnect(node)
+    node.disconnect()
+    node.port.onmessage = null
+  }
+
+  return {
+    format,
+    get elapsed() {
+      return frameCount / context.sampleRate
+    },
+    get size() {
+      return getWavFileSize(frameCount, CHANNEL_COUNT, format)
+    },
+
+    async stop() {
+      if (isStopped) throw new Error('The recording has already stopped')
+
+      // Wait for the worklet to send the rest of its batch
+      await new Promise<void>(resolve => {
+        resolveStopped = resolve
+        node.port.postMessage('stop')
+      })
+      release()
+
+      const buffer = new AudioBuffer({ length: Math.max(1, frameCount), numberOfChannels: CHANNEL_COUNT, sampleRate: context.sampleRate })
+      let offset = 0
+      for (const channels of chunks) {
+        channels.forEach((samples, channel) => buffer.copyToChannel(samples, channel, offset))
+        offset += channels[0].length
+      }
+      chunks.length = 0
+
+      return { blob: encodeWav(buffer, format), extension: 'wav', duration: frameCount / context.sampleRate }
+    },
+
+    cancel() {
+      if (isStopped) return
+      node.port.postMessage('stop')
+      release()
+      chunks.length = 0
+    }
+  }
+}
+
+/**
+ * Records through a MediaStream destination and MediaRecorder
+ */
+function createCompressedRecorder(source: AudioNode): OutputRecorder {
+  const { context } = source
+  const type = getCompressedRecordingType()
+  if (!type || !isRealtimeContext(context)) {
+    throw new Error('Compressed recording is not supported in this browser')
+  }
+
+  const destination = context.createMediaStreamDestination()
+  source.connect(destination)
+
+  const recorder = new MediaRecorder(destination.stream, { mimeType: type.mimeType })
+  const chunks: Blob[] = []
+  let size = 0
+  const startedAt = context.currentTime
+  let stoppedAt: number | null = null
+
+  recorder.ondataavailable = event => {
+    if (event.data.size === 0) return
+    chunks.push(event.data)
+    size += event.data.size
+  }
+  recorder.start(RECORDER_CONFIG.TIMESLICE)
+
+  const release = (): void => {
+    stoppedAt = context.currentTime
+    source.disconnect(destination)
+    destination.stream.getTracks().forEach(track => track.stop())
+  }
+
+  return {
+    format: 'compressed',
+    get elapsed() {
+      return (stoppedAt ?? context.currentTime) - startedAt
+    },
+    get size() {
+      return size
+    },
+
+    stop() {
+      if (recorder.state === 'inactive') return Promise.reject(new Error('The recording has already stopped'))
+
+      return new Promise<Recording>((resolve, reject) => {
+        recorder.onstop = () => {
+          release()
+          resolve({
+            blob: new Blob(chunks, { type: recorder.mimeType || type.mimeType }),
+            extension: type.extension,
+            duration: (stoppedAt ?? context.currentTime) - startedAt
+          })
+        }
+        recorder.onerror = () => {
+          release()
+          reject(new Error('The browser stopped the recording with an error'))
+        }
+        recorder.stop()
+      })
+    },
+
+    cancel() {
+      if (recorder.state === 'inactive') return
+      recorder.ondataavailable = null
+      recorder.stop()
+      release()
+      chunks.length = 0
+    }
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * WAV Encoding
+ * Writes an AudioBuffer as an uncompressed RIFF/WAVE file
+ */
+
+export type WavFormat = 'pcm16' | 'pcm24' | 'float32'
+
+/**
+ * WAV Sample Formats
+ */
+export const WAV_FORMATS: Readonly<Record<WavFormat, { label: string; bitsPerSample: number; formatTag: number }>> = {
+  pcm16: { label: '16-bit PCM', bitsPerSample: 16, formatTag: 1 },
+  pcm24: { label: '24-bit PCM', bitsPerSample: 24, formatTag: 1 },
+  float32: { label: '32-bit float', bitsPerSample: 32, formatTag: 3 }
+}
+
+/**
+ * Bytes before the sample data
+ * fmt is 16 bytes for PCM, 18 (with cbSize) plus a 12-byte fact chunk for float
+ */
+function getHeaderSize(format: WavFormat): number {
+  const isFloat = WAV_FORMATS[format].formatTag === 3
+  return 12 + 8 + (isFloat ? 18 : 16) + (isFloat ? 12 : 0) + 8
+}
+
+/**
+ * Size in bytes of a WAV file holding the given number of frames
+ */
+export function getWavFileSize(frameCount: number, channelCount: number, format: WavFormat): number {
+  return getHeaderSize(format) + frameCount * channelCount * (WAV_FORMATS[format].bitsPerSample / 8)
+}
+
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i))
+  }
+}
+
+/**
+ * Encodes a buffer as a WAV file
+ *
+ * Integer formats clip samples to [-1, 1]; float keeps overs intact so they can
+ * be fixed later. Float files carry the `fact` chunk WAVE_FORMAT_IEEE_FLOAT requires.
+ *
+ * @param buffer - Rendered audio, any channel count
+ * @param format - Sample format to write
+ * @returns A Blob with type audio/wav
+ */
+export function encodeWav(buffer: AudioBuffer, format: WavFormat): Blob {
+  const { bitsPerSample, formatTag } = WAV_FORMATS[format]
+  const isFloat = formatTag === 3
+  const channelCount = buffer.numberOfChannels
+  const frameCount = buffer.length
+  const bytesPerSample = bitsPerSample / 8
+  const blockAlign = channelCount * bytesPerSample
+  const dataSize = frameCount * blockAlign
+
+  const fmtSize = isFloat ? 18 : 16
+  const factSize = isFloat ? 12 : 0
+  const headerSize = getHeaderSize(format)
+
+  const view = new DataView(new ArrayBuffer(headerSize + dataSize))
+  let offset = 0
+
+  writeAscii(view, offset, 'RIFF')
+  view.setUint32(offset + 4, headerSize - 8 + dataSize, true)
+  writeAscii(view, offset + 8, 'WAVE')
+  offset += 12
+
+  writeAscii(view, offset, 'fmt ')
+  view.setUint32(offset + 4, fmtSize, true)
+  view.setUint16(offset + 8, formatTag, true)
+  view.setUint16(offset + 10, channelCount, true)
+  view.setUint32(offset + 12, buffer.sampleRate, true)
+  view.setUint32(offset + 16, buffer.sampleRate * blockAlign, true)
+  view.setUint16(offset + 20, blockAlign, true)
+  view.setUint16(offset + 22, bitsPerSample, true)
+  if (isFloat) {
+    view.setUint16(offset + 24, 0, true) // cbSize
+  }
+  offset += 8 + fmtSize
+
+  if (isFloat) {
+    writeAscii(view, offset, 'fact')
+    view.setUint32(offset + 4, 4, true)
+    view.setUint32(offset + 8, frameCount, true)
+    offset += factSize
+  }
+
+  writeAscii(view, offset, 'data')
+  view.setUint32(offset + 4, dataSize, true)
+  offset += 8
+
+  const channels = Array.from({ length: channelCount }, (_, channel) => buffer.getChannelData(channel))
+
+  // Interleave frame by frame
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      const sample = channels[channel][frame]
+
+      if (isFloat) {
+        view.setFloat32(offset, sample, true)
+      } else {
+        const clipped = Math.max(-1, Math.min(1, sample))
+        if (bitsPerSample === 16) {
+          view.setInt16(offset, Math.round(clipped < 0 ? clipped * 0x8000 : clipped * 0x7fff), true)
+        } else {
+          const value = Math.round(clipped < 0 ? clipped * 0x800000 : clipped * 0x7fffff)
+          view.setUint8(offset, value & 0xff)
+          view.setUint8(offset + 1, (value >> 8) & 0xff)
+          view.setUint8(offset + 2, (value >> 16) & 0xff)
+        }
+      }
+      offset += bytesPerSample
+    }
+  }
+
+  return new Blob([view.buffer], { type: 'audio/wav' })
+}
@@ -0,0 +1,206 @@
+/**
+ * Effect Automation
+ * Lanes of effect values recorded against track time, and the helpers that
+ * record, edit and play them back
+ */
+
+import { type AudioEffects, type NumericEffectKey, EFFECT_KEYS, EFFECT_LIMITS, formatEffectKey } from '@/lib/effects'
+import { omit } from '@/lib/utils'
+
+/**
+ * Automatable Effect Fields
+ * Volume is a listening level and speed moves track time itself, so neither can be automated
+ */
+export type AutomationKey = Exclude<NumericEffectKey, 'volume' | 'speed'>
+
+/**
+ * Automation Point
+ */
+export interface AutomationPoint {
+  /** Track time in seconds */
+  time: number
+  value: number
+}
+
+/**
+ * Automation Lanes
+ * Points per effect field, sorted by time. Values are interpolated linearly
+ * between points and held before the first and after the last
+ */
+export type AutomationLanes = Partial<Record<AutomationKey, AutomationPoint[]>>
+
+/**
+ * Automation Constants
+ */
+export const AUTOMATION_CONFIG = {
+  /** Closest two recorded points may be, in seconds - about one point per slider event at 60 Hz */
+  MIN_POINT_SPACING: 0.02,
+  /** Milliseconds between automation updates during live playback */
+  UPDATE_INTERVAL: 20,
+  /** Seconds between automation updates in an offline render */
+  RENDER_INTERVAL: 0.02,
+  /** Milliseconds without a change after which the next change starts a new touch */
+  TOUCH_TIMEOUT: 250
+} as const
+
+/** Every automatable field, in display order */
+export const AUTOMATION_KEYS = EFFECT_KEYS.filter(
+  (key): key is AutomationKey => key !== 'volume' && key !== 'speed'
+)
+
+/**
+ * Display name of an automated field, e.g. "Reverb pre delay" for reverbPreDelay
+ */
+export function formatAutomationKey(key: AutomationKey): string {
+  return formatEffectKey(key)
+}
+
+/**
+ * Whether any lane has points
+ */
+export function hasAutomation(lanes: Readonly<AutomationLanes>): boolean {
+  return Object.values(lanes).some(points => points && points.length > 0)
+}
+
+/**
+ * Value of a lane at a track time
+ * @returns The interpolated value, or null for an empty lane
+ */
+export function getAutomationValue(points: readonly AutomationPoint[], time: number): number | null {
+  if (points.length === 0) return null
+  if (time <= points[0].time) return points[0].value
+
+  const last = points[points.length - 1]
+  if (time >= last.time) return last.value
+
+  // Binary search for the segment holding time
+  let low = 0
+  let high = points.length - 1
+  while (high - low > 1) {
+    const middle = (low + high) >> 1
+    if (points[middle].time <= time) {
+      low = middle
+    } else {
+      high = middle
+    }
+  }
+
+  const before = points[low]
+  const after = points[high]
+  const span = after.time - before.time
+  return span > 0 ? before.value + ((after.value - before.value) * (time - before.time)) / span : after.value
+}
+
+/**
+ * Effects with every automated field replaced by its lane's value at a track time
+ * @returns The same object when no lane has points
+ */
+export function applyAutomation(
+  effects: Readonly<AudioEffects>,
+  lanes: Readonly<AutomationLanes>,
+  time: number
+): Readonly<AudioEffects> {
+  let automated: AudioEffects | null = null
+
+  for (const key of AUTOMATION_KEYS) {
+    const points = lanes[key]
+    const value = points ? getAutomationValue(points, time) : null
+    if (value === null) continue
+    automated ??= { ...effects }
+    automated[key] = value
+  }
+
+  return automated ?? effects
+}
+
+/**
+ * Clamps a value to an automated field's range
+ */
+export function clampAutomationValue(key: AutomationKey, value: number): number {
+  const { min, max } = EFFECT_LIMITS[key]
+  return Math.min(Math.max(value, min), max)
+}
+
+/**
+ * Records one slider value into a lane, overwriting what the touch passed over
+ *
+ * A touch is a run of recorded values without a pause. Points between the last
+ * one of the touch and this one are replaced, so moving a slider over existing
+ * automation writes over it. A new lane holds the field's previous value up to
+ * the first recorded point, so the track sounds unchanged before it.
+ *
+ * @param points - Current lane, if any
+ * @param point - Value and track time to record
+ * @param since - Time of the touch's last recorded point, null on the first value of a touch
+ * @param previousValue - Value the field had before this touch, used to start a new lane
+ * @returns The new lane, or null when the point is too close to the last one and is skipped
+ */
+export function recordAutomationPoint(
+  points: readonly AutomationPoint[] | undefined,
+  point: AutomationPoint,
+  since: number | null,
+  previousValue: number
+): AutomationPoint[] | null {
+  const { MIN_POINT_SPACING } = AUTOMATION_CONFIG
+  if (since !== null && point.time >= since && point.time - since < MIN_POINT_SPACING) return null
+
+  if (!points || points.length === 0) {
+    const lead = point.time > MIN_POINT_SPACING
+      ? [{ time: 0, value: previousValue }, { time: point.time - MIN_POINT_SPACING, value: previousValue }]
+      : []
+    return [...lead, point]
+  }
+
+  // Playback that jumped backwards starts a fresh overwrite range
+  const from = since !== null && since < point.time ? since : point.time - MIN_POINT_SPACING
+  return insertAutomationPoint(
+    points.filter(existing => existing.time <= from || existing.time > point.time),
+    point
+  ).points
+}
+
+/**
+ * Adds a point to a lane, keeping it sorted
+ * @returns The new lane and the point's index in it
+ */
+export function insertAutomationPoint(
+  points: readonly AutomationPoint[],
+  point: AutomationPoint
+): { points: AutomationPoint[]; index: number } {
+  const index = points.findIndex(existing => existing.time > point.time)
+  const position = index === -1 ? points.length : index
+  return { points: [...points.slice(0, position), point, ...points.slice(position)], index: position }
+}
+
+/**
+ * Moves a point, keeping it between its neighbours so the lane stays sorted
+ */
+export function moveAutomationPoint(
+  points: readonly AutomationPoint[],
+  index: number,
+  point: AutomationPoint
+): AutomationPoint[] {
+  const earliest = index > 0 ? points[index - 1].time : 0
+  const latest = index < points.length - 1 ? points[index + 1].time : Infinity
+  const time = Math.min(Math.max(point.time, earliest), latest)
+  return points.map((existing, pointIndex) => (pointIndex === index ? { time, value: point.value } : existing))
+}
+
+/**
+ * Removes a point from a lane
+ */
+export function removeAutomationPoint(points: readonly AutomationPoint[], index: number): AutomationPoint[] {
+  return points.filter((_, pointIndex) => pointIndex !== index)
+}
+
+/**
+ * Returns the lanes with one lane replaced, or removed when it has no points
+ */
+export function setAutomationLane(
+  lanes: Readonly<AutomationLanes>,
+  key: AutomationKey,
+  points: AutomationPoint[] | null
+): AutomationLanes {
+  const rest = omit(lanes, [key])
+  return points && points.length > 0 ? { ...rest, [key]: points } : rest
+}
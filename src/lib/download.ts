@@ -0,0 +1,27 @@
+/**
+ * File Download
+ * Saves generated data through a temporary object URL
+ */
+
+/**
+ * Prompts the browser to save a blob under the given file name
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * Turns a display name into a safe file name stem
+ */
+export function toFileNameStem(name: string, fallback: string = 'untitled'): string {
+  const stem = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return stem || fallback
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_EFFECTS } from '@/lib/effects'
+import { toPresetEffects } from '@/lib/presets'
+import { loadEffectsHistory } from './effects-history'
+
+const STORAGE_KEY = 'studio-player:effects-history'
+
+/**
+ * A stored step with a recognisable gain, or an invalid one
+ */
+function step(gain: number | null) {
+  return gain === null
+    ? { effects: { speed: 'fast' }, label: 'Broken' }
+    : { effects: { ...toPresetEffects(DEFAULT_EFFECTS), gain }, label: `Gain ${gain}` }
+}
+
+describe('loadEffectsHistory', () => {
+  let storage: Map<string, string>
+
+  beforeEach(() => {
+    storage = new Map()
+    vi.stubGlobal('sessionStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  const store = (entries: unknown[], index: number): void => {
+    storage.set(STORAGE_KEY, JSON.stringify({ entries, index }))
+  }
+
+  it('keeps the stored index when every step is valid', () => {
+    store([step(1), step(1.5), step(2)], 1)
+
+    expect(loadEffectsHistory()?.index).toBe(1)
+  })
+
+  it('moves the index back past dropped steps before it', () => {
+    store([step(null), step(1), step(null), step(1.5), step(2)], 3)
+
+    const history = loadEffectsHistory()
+
+    expect(history?.entries.map(entry => entry.effects.gain)).toEqual([1, 1.5, 2])
+    expect(history?.index).toBe(1)
+  })
+
+  it('lands on the nearest earlier step when the current one was dropped', () => {
+    store([step(1), step(1.5), step(null), step(2)], 2)
+
+    const history = loadEffectsHistory()
+
+    expect(history?.entries[history.index].effects.gain).toBe(1.5)
+  })
+
+  it('falls back to the first step when no earlier one survives', () => {
+    store([step(null), step(1), step(1.5)], 0)
+
+    expect(loadEffectsHistory()?.index).toBe(0)
+  })
+
+  it('returns null when no step is valid', () => {
+    store([step(null)], 0)
+
+    expect(loadEffectsHistory()).toBeNull()
+  })
+})
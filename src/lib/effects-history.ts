@@ -0,0 +1,418 @@
+/**
+ * Effects History
+ * Pure reducer for undo/redo of effect settings, with slider drags coalesced
+ * into single steps, readable descriptions of each step, and session persistence.
+ * Volume is a listening level, so like presets the history leaves it alone.
+ */
+
+import {
+  type AudioEffects,
+  type EqBand,
+  type NumericEffectKey,
+  DELAY_MODES,
+  DISTORTION_MODELS,
+  DISTORTION_OVERSAMPLING,
+  EFFECT_LIMITS,
+  EFFECT_MODULES,
+  EQ_BAND_TYPES,
+  REVERB_LIBRARY,
+  formatEffectKey
+} from '@/lib/effects'
+import { type PresetEffects, PRESET_EFFECT_KEYS, toPresetEffects, validatePresetEffects } from '@/lib/presets'
+
+/**
+ * History Step
+ */
+export interface EffectsHistoryEntry {
+  /** Settings after this step */
+  effects: PresetEffects
+  /** What the step changed, e.g. "Bass +6 dB → +9 dB" */
+  label: string
+}
+
+/**
+ * Effects History State
+ */
+export interface EffectsHistoryState {
+  /** Steps oldest first; the first is where the history starts */
+  entries: EffectsHistoryEntry[]
+  /** Index into `entries` of the step in effect */
+  index: number
+  /** Current effects - the step in effect plus the volume */
+  effects: AudioEffects
+  /** Fields and time of the last recorded change, so the next change to the same fields can join it */
+  lastChange: { fields: string; time: number } | null
+}
+
+export type EffectsHistoryAction =
+  /**
+   * Changes the effects. `time` (ms) makes coalescing deterministic so the reducer stays pure;
+   * `label` replaces the generated description; `record: false` folds the change into the current step
+   */
+  | {
+      type: 'change'
+      update: AudioEffects | ((effects: AudioEffects) => AudioEffects)
+      time: number
+      label?: string
+      record?: boolean
+    }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jump'; index: number }
+  /** Replaces the steps with ones saved earlier in the session, keeping the volume */
+  | { type: 'restore'; entries: EffectsHistoryEntry[]; index: number }
+
+/**
+ * History Constants
+ */
+export const HISTORY_CONFIG = {
+  /** Most steps kept; the oldest are dropped first */
+  MAX_ENTRIES: 100,
+  /** Milliseconds within which further changes to the same fields join the last step */
+  COALESCE_WINDOW: 1000,
+  /** Milliseconds the history must be idle before it is written to sessionStorage */
+  SAVE_DELAY: 500,
+  /** Changes listed individually in a step's description before it falls back to a count */
+  MAX_LABEL_CHANGES: 2
+} as const
+
+const STORAGE_KEY = 'studio-player:effects-history'
+
+/** Names of the bands behind the simple view's sliders */
+const SIMPLE_EQ_NAMES = ['Bass', 'Mid', 'Treble'] as const
+
+/**
+ * Units shown after each numeric field's value
+ */
+const FIELD_UNITS: Readonly<Record<Exclude<NumericEffectKey, 'volume'>, string>> = {
+  speed: 'x',
+  pitch: ' st',
+  reverb: '%',
+  reverbDecay: ' s',
+  reverbPreDelay: ' ms',
+  reverbSize: '%',
+  reverbDamping: '%',
+  reverbWidth: '%',
+  distortion: '%',
+  distortionTone: ' Hz',
+  distortionLevel: ' dB',
+  bitcrusherRate: ' Hz',
+  lowPass: ' Hz',
+  highPass: ' Hz',
+  gain: 'x',
+  gateThreshold: ' dB',
+  gateAttack: ' ms',
+  gateRelease: ' ms',
+  compressorThreshold: ' dB',
+  compressorRatio: ':1',
+  compressorKnee: ' dB',
+  compressorAttack: ' ms',
+  compressorRelease: ' ms',
+  compressorMakeup: ' dB',
+  limiterCeiling: ' dB',
+  delayTime: ' ms',
+  delayBeats: ' beats',
+  tempo: ' BPM',
+  delayFeedback: '%',
+  delayDamping: ' Hz',
+  delayMix: '%',
+  chorusRate: ' Hz',
+  chorusDepth: '%',
+  chorusFeedback: '%',
+  chorusMix: '%',
+  flangerRate: ' Hz',
+  flangerDepth: '%',
+  flangerFeedback: '%',
+  flangerMix: '%',
+  phaserRate: ' Hz',
+  phaserDepth: '%',
+  phaserFeedback: '%',
+  phaserMix: '%'
+}
+
+/**
+ * One changed field: a stable id for coalescing and its description
+ */
+interface FieldChange {
+  field: string
+  label: string
+}
+
+/**
+ * Formats a value with its unit, signed when the field can go negative, in kHz from 1000 Hz
+ */
+function formatValue(value: number, unit: string, signed: boolean, range: number): string {
+  if (unit === ' Hz' && value >= 1000) {
+    return `${Number((value / 1000).toFixed(1))} kHz`
+  }
+  const rounded = Number(value.toFixed(range >= 100 ? 0 : range >= 10 ? 1 : 2))
+  return `${signed && rounded > 0 ? '+' : ''}${rounded}${unit}`
+}
+
+/**
+ * Display name of a reverb impulse source
+ */
+function formatImpulse(id: string): string {
+  if (id === 'parametric') return 'Parametric'
+  return REVERB_LIBRARY.find(entry => id === `library:${entry.id}`)?.label ?? 'User impulse'
+}
+
+/**
+ * Changes between two sets of EQ bands, named like the simple view where it applies
+ */
+function describeEqChanges(before: readonly EqBand[], after: readonly EqBand[]): FieldChange[] {
+  if (before.length !== after.length) {
+    return [{ field: 'eqBands', label: after.length > before.length ? 'EQ band added' : 'EQ band removed' }]
+  }
+
+  return after.flatMap((band, index) => {
+    const previous = before[index]
+    const name = SIMPLE_EQ_NAMES[index] ?? `EQ band ${index + 1}`
+    const changes: FieldChange[] = []
+    if (band.type !== previous.type) {
+      const typeLabel = (type: string) => EQ_BAND_TYPES.find(entry => entry.type === type)?.label ?? type
+      changes.push({ field: `eq.${index}.type`, label: `${name} ${typeLabel(previous.type)} → ${typeLabel(band.type)}` })
+    }
+    if (Math.abs(band.gain - previous.gain) > 0.01) {
+      changes.push({
+        field: `eq.${index}.gain`,
+        label: `${name} ${formatValue(previous.gain, ' dB', true, 40)} → ${formatValue(band.gain, ' dB', true, 40)}`
+      })
+    }
+    if (Math.abs(band.frequency - previous.frequency) > 0.01) {
+      changes.push({
+        field: `eq.${index}.frequency`,
+        label: `${name} frequency ${formatValue(previous.frequency, ' Hz', false, 100)} → ${formatValue(band.frequency, ' Hz', false, 100)}`
+      })
+    }
+    if (Math.abs(band.q - previous.q) > 0.01) {
+      changes.push({ field: `eq.${index}.q`, label: `${name} Q ${formatValue(previous.q, '', false, 10)} → ${formatValue(band.q, '', false, 10)}` })
+    }
+    return changes
+  })
+}
+
+/**
+ * Every field that differs between two sets of settings
+ */
+function describeChanges(before: Readonly<PresetEffects>, after: Readonly<PresetEffects>): FieldChange[] {
+  const changes: FieldChange[] = []
+
+  for (const key of PRESET_EFFECT_KEYS) {
+    if (Math.abs(before[key] - after[key]) <= 0.01) continue
+    const { min, max } = EFFECT_LIMITS[key]
+    const format = (value: number) => formatValue(value, FIELD_UNITS[key], min < 0, max - min)
+    changes.push({ field: key, label: `${formatEffectKey(key)} ${format(before[key])} → ${format(after[key])}` })
+  }
+
+  changes.push(...describeEqChanges(before.eqBands, after.eqBands))
+
+  if (before.limiter !== after.limiter) {
+    changes.push({ field: 'limiter', label: `Limiter ${after.limiter ? 'on' : 'off'}` })
+  }
+  if (before.delayMode !== after.delayMode) {
+    const modeLabel = (mode: string) => DELAY_MODES.find(entry => entry.mode === mode)?.label ?? mode
+    changes.push({ field: 'delayMode', label: `Delay mode ${modeLabel(before.delayMode)} → ${modeLabel(after.delayMode)}` })
+  }
+  if (before.reverbImpulse !== after.reverbImpulse) {
+    changes.push({
+      field: 'reverbImpulse',
+      label: `Reverb impulse ${formatImpulse(before.reverbImpulse)} → ${formatImpulse(after.reverbImpulse)}`
+    })
+  }
+  if (before.distortionModel !== after.distortionModel) {
+    const modelLabel = (model: string) => DISTORTION_MODELS.find(entry => entry.model === model)?.label ?? model
+    changes.push({
+      field: 'distortionModel',
+      label: `Distortion model ${modelLabel(before.distortionModel)} → ${modelLabel(after.distortionModel)}`
+    })
+  }
+  if (before.distortionOversample !== after.distortionOversample) {
+    const oversampleLabel = (oversample: string) =>
+      DISTORTION_OVERSAMPLING.find(entry => entry.oversample === oversample)?.label ?? oversample
+    changes.push({
+      field: 'distortionOversample',
+      label: `Oversampling ${oversampleLabel(before.distortionOversample)} → ${oversampleLabel(after.distortionOversample)}`
+    })
+  }
+
+  const isReordered = before.chain.length !== after.chain.length ||
+    before.chain.some((stage, index) => stage.module !== after.chain[index].module)
+  if (isReordered) {
+    changes.push({ field: 'chain', label: 'Effect order changed' })
+  } else {
+    after.chain.forEach((stage, index) => {
+      const previous = before.chain[index]
+      const moduleLabel = EFFECT_MODULES[stage.module].label
+      if (stage.bypassed !== previous.bypassed) {
+        changes.push({ field: `chain.${stage.module}.bypassed`, label: `${moduleLabel} ${stage.bypassed ? 'bypassed' : 'enabled'}` })
+      }
+      if (Math.abs(stage.mix - previous.mix) > 0.01) {
+        changes.push({ field: `chain.${stage.module}.mix`, label: `${moduleLabel} mix ${Math.round(previous.mix)}% → ${Math.round(stage.mix)}%` })
+      }
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Describes what changed between two sets of settings
+ * @returns A label such as "Bass +6 dB → +9 dB", or null when nothing changed
+ */
+export function describeEffectsChange(before: Readonly<PresetEffects>, after: Readonly<PresetEffects>): string | null {
+  const changes = describeChanges(before, after)
+  if (changes.length === 0) return null
+  return changes.length <= HISTORY_CONFIG.MAX_LABEL_CHANGES
+    ? changes.map(change => change.label).join(', ')
+    : `${changes.length} settings changed`
+}
+
+/**
+ * Creates a history holding only the given effects
+ */
+export function createEffectsHistory(effects: Readonly<AudioEffects>): EffectsHistoryState {
+  return {
+    entries: [{ effects: toPresetEffects(effects), label: 'Session start' }],
+    index: 0,
+    effects: { ...effects },
+    lastChange: null
+  }
+}
+
+/**
+ * Moves to another step, keeping the current volume
+ */
+function goTo(state: EffectsHistoryState, index: number): EffectsHistoryState {
+  if (index === state.index || index < 0 || index >= state.entries.length) return state
+  return {
+    ...state,
+    index,
+    effects: { ...state.entries[index].effects, volume: state.effects.volume },
+    lastChange: null
+  }
+}
+
+/**
+ * Applies a change, adding a step, joining the last one or folding into the current one
+ */
+function applyChange(
+  state: EffectsHistoryState,
+  action: Extract<EffectsHistoryAction, { type: 'change' }>
+): EffectsHistoryState {
+  const effects = typeof action.update === 'function' ? action.update(state.effects) : action.update
+  if (effects === state.effects) return state
+
+  const current = state.entries[state.index]
+  const settings = toPresetEffects(effects)
+  const changes = describeChanges(current.effects, settings)
+
+  // Volume alone, or a change that is not a step of its own
+  if (changes.length === 0 || action.record === false) {
+    const entries = changes.length === 0
+      ? state.entries
+      : state.entries.map((entry, index) => (index === state.index ? { ...entry, effects: settings } : entry))
+    return { ...state, entries, effects, lastChange: changes.length === 0 ? state.lastChange : null }
+  }
+
+  const fields = changes.map(change => change.field).join(',')
+  const { lastChange } = state
+  const isJoined = lastChange !== null &&
+    state.index > 0 &&
+    lastChange.fields === fields &&
+    action.time - lastChange.time <= HISTORY_CONFIG.COALESCE_WINDOW
+
+  if (isJoined) {
+    const base = state.entries[state.index - 1]
+    const label = action.label ?? describeEffectsChange(base.effects, settings)
+    // Dragged back to where the step started - the step disappears
+    if (label === null) {
+      return { entries: state.entries.slice(0, state.index), index: state.index - 1, effects, lastChange: null }
+    }
+    return {
+      entries: [...state.entries.slice(0, state.index), { effects: settings, label }],
+      index: state.index,
+      effects,
+      lastChange: { fields, time: action.time }
+    }
+  }
+
+  const label = action.label ?? describeEffectsChange(current.effects, settings) ?? 'Effects changed'
+  const entries = [...state.entries.slice(0, state.index + 1), { effects: settings, label }]
+    .slice(-HISTORY_CONFIG.MAX_ENTRIES)
+  return { entries, index: entries.length - 1, effects, lastChange: { fields, time: action.time } }
+}
+
+/**
+ * Effects history reducer - every transition returns a new state object
+ */
+export function effectsHistoryReducer(state: EffectsHistoryState, action: EffectsHistoryAction): EffectsHistoryState {
+  switch (action.type) {
+    case 'change':
+      return applyChange(state, action)
+    case 'undo':
+      return goTo(state, state.index - 1)
+    case 'redo':
+      return goTo(state, state.index + 1)
+    case 'jump':
+      return goTo(state, action.index)
+    case 'restore': {
+      if (action.entries.length === 0) return state
+      const index = Math.min(Math.max(action.index, 0), action.entries.length - 1)
+      return {
+        entries: action.entries,
+        index,
+        effects: { ...action.entries[index].effects, volume: state.effects.volume },
+        lastChange: null
+      }
+    }
+    default:
+      return state
+  }
+}
+
+/**
+ * Reads the history saved earlier in this browser session
+ * Invalid steps are dropped rather than failing the whole history, and the
+ * index moves with the steps kept - onto the nearest earlier one when its own was dropped
+ * @returns The steps and the index in effect, or null when nothing usable is stored
+ */
+export function loadEffectsHistory(): { entries: EffectsHistoryEntry[]; index: number } | null {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? 'null') as { entries?: unknown; index?: unknown } | null
+    if (!stored || !Array.isArray(stored.entries)) return null
+
+    const storedIndex = typeof stored.index === 'number' && Number.isInteger(stored.index)
+      ? stored.index
+      : stored.entries.length - 1
+    let index = -1
+    const entries = stored.entries.flatMap((entry: { effects?: unknown; label?: unknown }, entryIndex: number) => {
+      try {
+        const label = typeof entry?.label === 'string' ? entry.label : 'Effects changed'
+        const kept = { effects: validatePresetEffects(entry?.effects, `History step ${entryIndex + 1}`), label }
+        if (entryIndex <= storedIndex) index++
+        return [kept]
+      } catch (error) {
+        console.warn('Skipping invalid effects history step:', error)
+        return []
+      }
+    })
+    if (entries.length === 0) return null
+
+    return { entries, index: Math.min(Math.max(index, 0), entries.length - 1) }
+  } catch (error) {
+    console.error('Failed to read effects history:', error)
+    return null
+  }
+}
+
+/**
+ * Writes the history to sessionStorage so it survives a reload
+ */
+export function saveEffectsHistory(state: Readonly<EffectsHistoryState>): void {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ entries: state.entries, index: state.index }))
+  } catch (error) {
+    console.error('Failed to save effects history:', error)
+  }
+}
@@ -0,0 +1,537 @@
+/**
+ * Audio Effects
+ * The serialisable effects model shared by the player, presets and export
+ */
+
+/**
+ * EQ Band Filter Types
+ * A subset of BiquadFilterType suited to equalisation
+ */
+export type EqBandType = 'peaking' | 'lowshelf' | 'highshelf' | 'notch' | 'bandpass'
+
+/**
+ * Parametric EQ Band
+ */
+export interface EqBand {
+  type: EqBandType
+  /** Centre or corner frequency in Hz (20-20000) */
+  frequency: number
+  /** Boost/cut in dB (-20 to +20) - used by peaking and shelf bands */
+  gain: number
+  /** Quality factor (0.1-18) - used by peaking, notch and band-pass bands */
+  q: number
+}
+
+/**
+ * Delay Stereo Modes
+ * Stereo repeats each channel on its own side; ping-pong bounces a mono sum between the sides
+ */
+export type DelayMode = 'stereo' | 'ping-pong'
+
+/**
+ * Distortion Models
+ * Wave-shaper curves, apart from the bitcrusher which quantises and holds samples in a worklet
+ */
+export type DistortionModel = 'tube' | 'hard-clip' | 'fuzz' | 'foldback' | 'bitcrusher'
+
+/**
+ * Distortion Oversampling
+ * The WaveShaperNode oversample settings offered
+ */
+export type DistortionOversample = 'none' | '2x' | '4x'
+
+/**
+ * Built-in Reverb Impulses
+ * Generated when first used rather than measured
+ */
+export type ReverbLibraryId = 'small-room' | 'hall' | 'plate' | 'cathedral' | 'spring'
+
+/**
+ * Reverb Impulse Source
+ * The parametric generator, a built-in impulse, or a file the user loaded
+ */
+export type ReverbImpulseId = 'parametric' | `library:${ReverbLibraryId}` | `user:${string}`
+
+/**
+ * Effect Module Identifiers
+ * The reorderable stages of the effects chain; master gain always comes last
+ */
+export type EffectModuleId =
+  | 'gate'
+  | 'eq'
+  | 'highpass'
+  | 'lowpass'
+  | 'compressor'
+  | 'distortion'
+  | 'chorus'
+  | 'flanger'
+  | 'phaser'
+  | 'delay'
+  | 'reverb'
+
+/**
+ * Effect Chain Stage
+ */
+export interface EffectStage {
+  module: EffectModuleId
+  /** Passes the signal through unprocessed */
+  bypassed: boolean
+  /** Wet/dry mix percentage (0-100) - only used by modules with a mix control */
+  mix: number
+}
+
+/**
+ * Audio Effects Configuration Interface
+ * Defines all available audio processing parameters with their acceptable ranges
+ */
+export interface AudioEffects {
+  /** Playback speed multiplier (0.5x to 2.0x) - changes tempo, pitch is preserved */
+  speed: number
+  /** Pitch shift in semitones (-12 to +12) - changes pitch, tempo is preserved */
+  pitch: number
+  /** Reverb wet/dry mix percentage (0-100%) */
+  reverb: number
+  reverbImpulse: ReverbImpulseId
+  /** Parametric reverb time to fall by 60 dB, in seconds (0.1-10) */
+  reverbDecay: number
+  /** Parametric reverb gap before the first reflection, in ms (0-200) */
+  reverbPreDelay: number
+  /** Parametric room size percentage (0-100%) - spreads early reflections and slows the build-up */
+  reverbSize: number
+  /** Parametric high-frequency damping percentage (0-100%) - how much faster treble decays */
+  reverbDamping: number
+  /** Parametric stereo width percentage (0-100%); 0 is mono */
+  reverbWidth: number
+  /** Distortion drive percentage (0-100%) - for the bitcrusher, how far the bit depth falls */
+  distortion: number
+  distortionModel: DistortionModel
+  /** Low-pass cutoff in Hz (500-20000) after the distortion, to tame its upper harmonics */
+  distortionTone: number
+  /** Distortion output level in dB (-24 to +12) */
+  distortionLevel: number
+  distortionOversample: DistortionOversample
+  /** Rate in Hz (1000-48000) the bitcrusher holds samples at; at or above the context rate nothing is held */
+  bitcrusherRate: number
+  /** Low-pass filter cutoff frequency in Hz (200-20000) */
+  lowPass: number
+  /** High-pass filter cutoff frequency in Hz (20-2000) */
+  highPass: number
+  /** Overall gain multiplier (0.1x to 3.0x) */
+  gain: number
+  /** Level in dBFS below which the noise gate closes (-100 to 0); -100 leaves it open */
+  gateThreshold: number
+  /** Noise gate opening time in ms (0.1-50) */
+  gateAttack: number
+  /** Noise gate closing time in ms (10-1000) */
+  gateRelease: number
+  /** Level in dBFS above which the compressor acts (-60 to 0) */
+  compressorThreshold: number
+  /** Compression ratio (1:1 to 20:1); 1 leaves the signal unchanged */
+  compressorRatio: number
+  /** Soft knee width in dB (0-40) */
+  compressorKnee: number
+  /** Compressor attack in ms (0-1000) */
+  compressorAttack: number
+  /** Compressor release in ms (10-1000) */
+  compressorRelease: number
+  /** Gain added after compression in dB (0-24) */
+  compressorMakeup: number
+  /** Brick-wall limiter on the final output */
+  limiter: boolean
+  /** Highest level the limiter lets through, in dBFS (-12 to 0) */
+  limiterCeiling: number
+  /** Delay repeat time in ms (10-2000) - used when delayBeats is 0 */
+  delayTime: number
+  /** Delay repeat time in beats of `tempo` (0-4); 0 leaves the delay free-running */
+  delayBeats: number
+  /** Tempo in BPM (40-240) that synced delays follow */
+  tempo: number
+  /** Share of each repeat fed back into the delay (0-90%) */
+  delayFeedback: number
+  /** Low-pass cutoff in Hz (500-20000) applied to each repeat, so echoes darken as they fade */
+  delayDamping: number
+  /** Delay wet/dry mix percentage (0-100%) */
+  delayMix: number
+  delayMode: DelayMode
+  /** Chorus LFO rate in Hz (0.1-5) */
+  chorusRate: number
+  /** Chorus sweep depth percentage (0-100%) */
+  chorusDepth: number
+  /** Chorus feedback percentage (0-90%) */
+  chorusFeedback: number
+  /** Chorus wet/dry mix percentage (0-100%) */
+  chorusMix: number
+  /** Flanger LFO rate in Hz (0.05-5) */
+  flangerRate: number
+  /** Flanger sweep depth percentage (0-100%) */
+  flangerDepth: number
+  /** Flanger feedback percentage (0-90%) */
+  flangerFeedback: number
+  /** Flanger wet/dry mix percentage (0-100%) */
+  flangerMix: number
+  /** Phaser LFO rate in Hz (0.05-5) */
+  phaserRate: number
+  /** Phaser sweep depth percentage (0-100%) */
+  phaserDepth: number
+  /** Phaser feedback percentage (0-90%) */
+  phaserFeedback: number
+  /** Phaser wet/dry mix percentage (0-100%) */
+  phaserMix: number
+  /** Parametric EQ bands in signal order (up to 10); the first three back the Bass/Mid/Treble sliders */
+  eqBands: EqBand[]
+  /** Effect modules in signal order - every module appears exactly once */
+  chain: EffectStage[]
+  /** Master volume level (0.0 to 1.0) */
+  volume: number
+}
+
+/** Effects fields holding a single number */
+export type NumericEffectKey = Exclude<keyof AudioEffects, 'eqBands' | 'chain' | OptionEffectKey>
+
+/** Effects fields holding a choice or switch rather than a number */
+export type OptionEffectKey = 'delayMode' | 'limiter' | 'reverbImpulse' | 'distortionModel' | 'distortionOversample'
+
+/**
+ * Default EQ Bands
+ * Low shelf, peak and high shelf at the classic Bass/Mid/Treble frequencies, all flat
+ */
+export const DEFAULT_EQ_BANDS: readonly Readonly<EqBand>[] = [
+  { type: 'lowshelf', frequency: 100, gain: 0, q: 1 },
+  { type: 'peaking', frequency: 1000, gain: 0, q: 1 },
+  { type: 'highshelf', frequency: 10000, gain: 0, q: 1 }
+]
+
+/**
+ * Effect Modules
+ * Display labels, and whether the module has its own wet/dry mix in the chain.
+ * Modules with a `mixKey` have none there because that effects field already
+ * is their wet/dry mix
+ */
+export const EFFECT_MODULES: Readonly<Record<EffectModuleId, { label: string; hasMix: boolean; mixKey?: NumericEffectKey }>> = {
+  gate: { label: 'Gate', hasMix: false },
+  eq: { label: 'EQ', hasMix: false },
+  highpass: { label: 'High pass', hasMix: false },
+  lowpass: { label: 'Low pass', hasMix: false },
+  compressor: { label: 'Compressor', hasMix: false },
+  distortion: { label: 'Distortion', hasMix: true },
+  chorus: { label: 'Chorus', hasMix: false, mixKey: 'chorusMix' },
+  flanger: { label: 'Flanger', hasMix: false, mixKey: 'flangerMix' },
+  phaser: { label: 'Phaser', hasMix: false, mixKey: 'phaserMix' },
+  delay: { label: 'Delay', hasMix: false, mixKey: 'delayMix' },
+  reverb: { label: 'Reverb', hasMix: false, mixKey: 'reverb' }
+}
+
+/** Every effect module, in the default signal order */
+export const EFFECT_MODULE_IDS = Object.keys(EFFECT_MODULES) as EffectModuleId[]
+
+/**
+ * Default Effect Chain
+ * Gate → EQ → filters → compressor → distortion → modulation → delay → reverb,
+ * nothing bypassed, fully wet
+ */
+export const DEFAULT_EFFECT_CHAIN: readonly Readonly<EffectStage>[] = EFFECT_MODULE_IDS.map(module => ({
+  module,
+  bypassed: false,
+  mix: 100
+}))
+
+/**
+ * Default Audio Effects Configuration
+ * Represents the neutral/baseline state for all audio processing
+ * These values provide optimal playback without any modifications
+ */
+export const DEFAULT_EFFECTS: Readonly<AudioEffects> = {
+  speed: 1.0,        // Normal playback speed
+  pitch: 0,          // No pitch adjustment
+  reverb: 0,         // No reverb effect
+  reverbImpulse: 'parametric',
+  reverbDecay: 2,    // Medium room tail
+  reverbPreDelay: 0,
+  reverbSize: 50,
+  reverbDamping: 0,  // Treble decays as fast as the rest
+  reverbWidth: 100,  // Fully decorrelated channels
+  distortion: 0,     // No distortion
+  distortionModel: 'tube',
+  distortionTone: 20000, // Harmonics untouched
+  distortionLevel: 0,
+  distortionOversample: '4x', // Least aliasing
+  bitcrusherRate: 48000, // No sample-rate reduction
+  lowPass: 20000,    // Full frequency range (no low-pass filtering)
+  highPass: 20,      // Full frequency range (no high-pass filtering)
+  gain: 1.0,         // Unity gain (no amplification)
+  gateThreshold: -100, // Gate always open
+  gateAttack: 1,
+  gateRelease: 100,
+  compressorThreshold: -24,
+  compressorRatio: 1, // No compression
+  compressorKnee: 6,
+  compressorAttack: 3,
+  compressorRelease: 250,
+  compressorMakeup: 0,
+  limiter: true,     // Protects ears and speakers from clipping
+  limiterCeiling: -1, // Just under full scale
+  delayTime: 350,    // Repeat time when not synced
+  delayBeats: 0,     // Free-running, not tempo-synced
+  tempo: 120,        // Moderate tempo for synced delays
+  delayFeedback: 35, // A few audible repeats
+  delayDamping: 6000, // Slightly darkened repeats
+  delayMix: 0,       // No delay
+  delayMode: 'stereo', // Repeats stay on their own side
+  chorusRate: 1.5,
+  chorusDepth: 30,
+  chorusFeedback: 0,
+  chorusMix: 0,      // No chorus
+  flangerRate: 0.25,
+  flangerDepth: 50,
+  flangerFeedback: 50,
+  flangerMix: 0,     // No flanger
+  phaserRate: 0.5,
+  phaserDepth: 60,
+  phaserFeedback: 40,
+  phaserMix: 0,      // No phaser
+  eqBands: DEFAULT_EQ_BANDS.map(band => ({ ...band })), // Flat three-band EQ
+  chain: DEFAULT_EFFECT_CHAIN.map(stage => ({ ...stage })), // EQ first, reverb last, all active
+  volume: 0.8        // 80% volume for comfortable listening
+}
+
+/**
+ * Effect Parameter Limits
+ * Inclusive ranges documented on each numeric AudioEffects field, used to validate imported settings
+ */
+export const EFFECT_LIMITS: Readonly<Record<NumericEffectKey, { min: number; max: number }>> = {
+  speed: { min: 0.5, max: 2 },
+  pitch: { min: -12, max: 12 },
+  reverb: { min: 0, max: 100 },
+  reverbDecay: { min: 0.1, max: 10 },
+  reverbPreDelay: { min: 0, max: 200 },
+  reverbSize: { min: 0, max: 100 },
+  reverbDamping: { min: 0, max: 100 },
+  reverbWidth: { min: 0, max: 100 },
+  distortion: { min: 0, max: 100 },
+  distortionTone: { min: 500, max: 20000 },
+  distortionLevel: { min: -24, max: 12 },
+  bitcrusherRate: { min: 1000, max: 48000 },
+  lowPass: { min: 200, max: 20000 },
+  highPass: { min: 20, max: 2000 },
+  gain: { min: 0.1, max: 3 },
+  gateThreshold: { min: -100, max: 0 },
+  gateAttack: { min: 0.1, max: 50 },
+  gateRelease: { min: 10, max: 1000 },
+  compressorThreshold: { min: -60, max: 0 },
+  compressorRatio: { min: 1, max: 20 },
+  compressorKnee: { min: 0, max: 40 },
+  compressorAttack: { min: 0, max: 1000 },
+  compressorRelease: { min: 10, max: 1000 },
+  compressorMakeup: { min: 0, max: 24 },
+  limiterCeiling: { min: -12, max: 0 },
+  delayTime: { min: 10, max: 2000 },
+  delayBeats: { min: 0, max: 4 },
+  tempo: { min: 40, max: 240 },
+  delayFeedback: { min: 0, max: 90 },
+  delayDamping: { min: 500, max: 20000 },
+  delayMix: { min: 0, max: 100 },
+  chorusRate: { min: 0.1, max: 5 },
+  chorusDepth: { min: 0, max: 100 },
+  chorusFeedback: { min: 0, max: 90 },
+  chorusMix: { min: 0, max: 100 },
+  flangerRate: { min: 0.05, max: 5 },
+  flangerDepth: { min: 0, max: 100 },
+  flangerFeedback: { min: 0, max: 90 },
+  flangerMix: { min: 0, max: 100 },
+  phaserRate: { min: 0.05, max: 5 },
+  phaserDepth: { min: 0, max: 100 },
+  phaserFeedback: { min: 0, max: 90 },
+  phaserMix: { min: 0, max: 100 },
+  volume: { min: 0, max: 1 }
+}
+
+/** Every numeric AudioEffects field, in display order */
+export const EFFECT_KEYS = Object.keys(EFFECT_LIMITS) as NumericEffectKey[]
+
+/**
+ * Display name of a numeric field, e.g. "Reverb pre delay" for reverbPreDelay
+ */
+export function formatEffectKey(key: NumericEffectKey): string {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * EQ Band Limits
+ * Inclusive ranges documented on each EqBand field
+ */
+export const EQ_BAND_LIMITS: Readonly<Record<Exclude<keyof EqBand, 'type'>, { min: number; max: number }>> = {
+  frequency: { min: 20, max: 20000 },
+  gain: { min: -20, max: 20 },
+  q: { min: 0.1, max: 18 }
+}
+
+/** Most bands the EQ accepts */
+export const MAX_EQ_BANDS = 10
+
+/** Band types in picker order, with display labels */
+export const EQ_BAND_TYPES: readonly { type: EqBandType; label: string }[] = [
+  { type: 'peaking', label: 'Peak' },
+  { type: 'lowshelf', label: 'Low shelf' },
+  { type: 'highshelf', label: 'High shelf' },
+  { type: 'notch', label: 'Notch' },
+  { type: 'bandpass', label: 'Band-pass' }
+]
+
+/** Delay stereo modes in picker order, with display labels */
+export const DELAY_MODES: readonly { mode: DelayMode; label: string }[] = [
+  { mode: 'stereo', label: 'Stereo' },
+  { mode: 'ping-pong', label: 'Ping-pong' }
+]
+
+/** Distortion models in picker order, with display labels */
+export const DISTORTION_MODELS: readonly { model: DistortionModel; label: string }[] = [
+  { model: 'tube', label: 'Tube' },
+  { model: 'hard-clip', label: 'Hard clip' },
+  { model: 'fuzz', label: 'Fuzz' },
+  { model: 'foldback', label: 'Foldback' },
+  { model: 'bitcrusher', label: 'Bitcrusher' }
+]
+
+/** Distortion oversampling settings in picker order, with display labels */
+export const DISTORTION_OVERSAMPLING: readonly { oversample: DistortionOversample; label: string }[] = [
+  { oversample: 'none', label: 'Off' },
+  { oversample: '2x', label: '2x' },
+  { oversample: '4x', label: '4x' }
+]
+
+/** Built-in reverb impulses in picker order, with display labels */
+export const REVERB_LIBRARY: readonly { id: ReverbLibraryId; label: string }[] = [
+  { id: 'small-room', label: 'Small room' },
+  { id: 'hall', label: 'Hall' },
+  { id: 'plate', label: 'Plate' },
+  { id: 'cathedral', label: 'Cathedral' },
+  { id: 'spring', label: 'Spring' }
+]
+
+/**
+ * Whether a value names a reverb impulse source
+ * User impulses are accepted whether or not they are loaded in this browser
+ */
+export function isReverbImpulseId(value: unknown): value is ReverbImpulseId {
+  if (typeof value !== 'string') return false
+  return value === 'parametric' ||
+    REVERB_LIBRARY.some(({ id }) => value === `library:${id}`) ||
+    /^user:.+/.test(value)
+}
+
+/** Tempo-synced delay lengths in beats, with display labels; 0 is free-running */
+export const DELAY_DIVISIONS: readonly { beats: number; label: string }[] = [
+  { beats: 0, label: 'Free' },
+  { beats: 0.25, label: '1/16' },
+  { beats: 0.5, label: '1/8' },
+  { beats: 0.75, label: '1/8 dotted' },
+  { beats: 1, label: '1/4' },
+  { beats: 1.5, label: '1/4 dotted' },
+  { beats: 2, label: '1/2' },
+  { beats: 4, label: '1 bar' }
+]
+
+/**
+ * Delay repeat time in seconds - the synced length when delayBeats is set, otherwise delayTime
+ */
+export function getDelaySeconds(effects: Readonly<Pick<AudioEffects, 'delayTime' | 'delayBeats' | 'tempo'>>): number {
+  return effects.delayBeats > 0 ? (effects.delayBeats * 60) / effects.tempo : effects.delayTime / 1000
+}
+
+/**
+ * Whether a band type boosts/cuts, i.e. its gain has any effect
+ */
+export function bandUsesGain(type: EqBandType): boolean {
+  return type === 'peaking' || type === 'lowshelf' || type === 'highshelf'
+}
+
+/**
+ * Whether a band type has an adjustable width (Web Audio shelves ignore Q)
+ */
+export function bandUsesQ(type: EqBandType): boolean {
+  return type === 'peaking' || type === 'notch' || type === 'bandpass'
+}
+
+/**
+ * Returns a copy of the bands with one band changed
+ */
+export function updateEqBand(bands: readonly EqBand[], index: number, changes: Partial<EqBand>): EqBand[] {
+  return bands.map((band, bandIndex) => (bandIndex === index ? { ...band, ...changes } : band))
+}
+
+/**
+ * Checks effect settings for equality on the given fields, ignoring floating-point slider noise
+ */
+export function effectsEqual<K extends NumericEffectKey>(
+  a: Readonly<Pick<AudioEffects, K>>,
+  b: Readonly<Pick<AudioEffects, K>>,
+  keys: readonly K[]
+): boolean {
+  return keys.every(key => Math.abs(a[key] - b[key]) <= 0.01)
+}
+
+/**
+ * Checks the option fields (delay mode, limiter switch, reverb impulse, distortion model and oversampling) for equality
+ */
+export function effectOptionsEqual(
+  a: Readonly<Pick<AudioEffects, OptionEffectKey>>,
+  b: Readonly<Pick<AudioEffects, OptionEffectKey>>
+): boolean {
+  return a.delayMode === b.delayMode &&
+    a.limiter === b.limiter &&
+    a.reverbImpulse === b.reverbImpulse &&
+    a.distortionModel === b.distortionModel &&
+    a.distortionOversample === b.distortionOversample
+}
+
+/**
+ * Checks two EQ band lists for equality with the same tolerance
+ */
+export function eqBandsEqual(a: readonly EqBand[], b: readonly EqBand[]): boolean {
+  return a.length === b.length && a.every((band, index) => {
+    const other = b[index]
+    return band.type === other.type &&
+      Math.abs(band.frequency - other.frequency) <= 0.01 &&
+      Math.abs(band.gain - other.gain) <= 0.01 &&
+      Math.abs(band.q - other.q) <= 0.01
+  })
+}
+
+/**
+ * Returns a copy of the chain with one stage moved
+ * @param from - Current index of the stage
+ * @param to - Index it should end up at
+ */
+export function moveEffectStage(chain: readonly EffectStage[], from: number, to: number): EffectStage[] {
+  if (from === to || from < 0 || to < 0 || from >= chain.length || to >= chain.length) {
+    return [...chain]
+  }
+  const moved = [...chain]
+  const [stage] = moved.splice(from, 1)
+  moved.splice(to, 0, stage)
+  return moved
+}
+
+/**
+ * Returns a copy of the chain with one module's stage changed
+ */
+export function updateEffectStage(
+  chain: readonly EffectStage[],
+  module: EffectModuleId,
+  changes: Partial<Omit<EffectStage, 'module'>>
+): EffectStage[] {
+  return chain.map(stage => (stage.module === module ? { ...stage, ...changes } : stage))
+}
+
+/**
+ * Checks two chains for the same order, bypass states and mixes
+ */
+export function effectChainsEqual(a: readonly EffectStage[], b: readonly EffectStage[]): boolean {
+  return a.length === b.length && a.every((stage, index) => {
+    const other = b[index]
+    return stage.module === other.module &&
+      stage.bypassed === other.bypassed &&
+      Math.abs(stage.mix - other.mix) <= 0.01
+  })
+}
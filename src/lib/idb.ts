@@ -0,0 +1,106 @@
+/**
+ * IndexedDB Helpers
+ * Minimal promise wrappers over the single database used for client-side caches
+ */
+
+const DB_NAME = 'studio-player'
+
+/** Bump whenever a store is added to STORES */
+const DB_VERSION = 3
+
+/**
+ * Object Store Names
+ * Every store uses out-of-line string keys
+ */
+export const STORES = {
+  /** Decoded waveform peaks, keyed by track cache key */
+  WAVEFORM_PEAKS: 'waveform-peaks',
+  /** User-loaded reverb impulse responses, keyed by impulse id */
+  IMPULSE_RESPONSES: 'impulse-responses',
+  /** Detected tempo, beat grid and key, keyed by track cache key */
+  TRACK_ANALYSIS: 'track-analysis'
+} as const
+
+export type StoreName = (typeof STORES)[keyof typeof STORES]
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Opens (and upgrades) the database once per page
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB not available'))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const database = request.result
+        for (const name of Object.values(STORES)) {
+          if (!database.objectStoreNames.contains(name)) {
+            database.createObjectStore(name)
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+
+    // Allow a retry on the next call instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+
+  return databasePromise
+}
+
+/**
+ * Wraps a single-request transaction in a promise
+ */
+async function runRequest<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  createRequest: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const database = await openDatabase()
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(store, mode)
+    const request = createRequest(transaction.objectStore(store))
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Reads a value by key
+ * @returns The stored value, or undefined when missing
+ */
+export function idbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  return runRequest<T | undefined>(store, 'readonly', objectStore => objectStore.get(key))
+}
+
+/**
+ * Reads every value in a store, in key order
+ */
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return runRequest<T[]>(store, 'readonly', objectStore => objectStore.getAll())
+}
+
+/**
+ * Writes a value under a key, replacing any existing entry
+ */
+export async function idbPut<T>(store: StoreName, key: string, value: T): Promise<void> {
+  await runRequest<IDBValidKey>(store, 'readwrite', objectStore => objectStore.put(value, key))
+}
+
+/**
+ * Removes a value by key
+ */
+export async function idbDelete(store: StoreName, key: string): Promise<void> {
+  await runRequest<undefined>(store, 'readwrite', objectStore => objectStore.delete(key))
+}
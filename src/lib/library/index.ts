@@ -0,0 +1,96 @@
+/**
+ * Music Library Client
+ * Fetches the server-side library and adapts it for the browser and the player
+ */
+
+import { type Track, formatDuration } from '@/lib/track'
+import { type LibraryAlbum, type LibraryArtist, type LibraryResponse, type LibraryTrack } from './types'
+
+export type { LibraryAlbum, LibraryArtist, LibraryResponse, LibraryTrack } from './types'
+
+/** Label used for files without an artist or album tag */
+const UNKNOWN_ARTIST = 'Unknown Artist'
+const UNKNOWN_ALBUM = 'Unknown Album'
+
+/**
+ * Loads the library index
+ * @param rescan - Ask the server to rescan the music directory first
+ */
+export async function fetchLibrary(rescan = false): Promise<LibraryResponse> {
+  const response = await fetch('/api/library', { method: rescan ? 'POST' : 'GET' })
+  if (!response.ok) {
+    throw new Error(`Library request failed (${response.status})`)
+  }
+  return response.json()
+}
+
+/**
+ * Groups tracks into artists and albums, sorted for browsing
+ * Albums are ordered by year, tracks by disc and track number
+ */
+export function groupLibrary(tracks: LibraryTrack[]): LibraryArtist[] {
+  const artists = new Map<string, Map<string, LibraryAlbum>>()
+
+  for (const track of tracks) {
+    const artistName = track.artist || UNKNOWN_ARTIST
+    const albumName = track.album || UNKNOWN_ALBUM
+
+    let albums = artists.get(artistName)
+    if (!albums) {
+      albums = new Map()
+      artists.set(artistName, albums)
+    }
+
+    let album = albums.get(albumName)
+    if (!album) {
+      album = { name: albumName, year: track.year, tracks: [] }
+      albums.set(albumName, album)
+    }
+    album.year ??= track.year
+    album.tracks.push(track)
+  }
+
+  return Array.from(artists, ([name, albums]) => ({
+    name,
+    albums: Array.from(albums.values())
+      .sort((a, b) => (a.year ?? Infinity) - (b.year ?? Infinity) || a.name.localeCompare(b.name))
+      .map(album => ({
+        ...album,
+        tracks: [...album.tracks].sort((a, b) =>
+          (a.discNumber ?? 1) - (b.discNumber ?? 1) ||
+          (a.trackNumber ?? Infinity) - (b.trackNumber ?? Infinity) ||
+          a.title.localeCompare(b.title)
+        )
+      }))
+  })).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Converts a library entry into a playable track streamed from the server
+ * Each call yields a new queue entry, so the same song can be queued twice
+ */
+export function libraryTrackToTrack(track: LibraryTrack): Track {
+  return {
+    id: crypto.randomUUID(),
+    cacheKey: `library:${track.id}:${track.version}`,
+    src: `/api/tracks/${track.id}/stream`,
+    info: {
+      title: track.title,
+      artist: track.artist || UNKNOWN_ARTIST,
+      album: track.album,
+      genre: track.genre,
+      duration: track.duration ? formatDuration(track.duration) : '',
+      year: track.year,
+      artworkUrl: track.hasArtwork ? `/api/tracks/${track.id}/artwork?v=${track.version}` : null
+    }
+  }
+}
+
+/**
+ * Library id of a queued track
+ * @returns The id, or null for a local file
+ */
+export function getLibraryTrackId(track: Track): string | null {
+  const match = /^library:([^:]+):/.exec(track.cacheKey)
+  return match ? match[1] : null
+}
@@ -0,0 +1,54 @@
+/**
+ * Music Library Types
+ * Shapes shared by the library API routes and the browser client
+ */
+
+/**
+ * Library Track
+ * One indexed file as exposed by GET /api/library
+ */
+export interface LibraryTrack {
+  /** Stable id derived from the file's path within the library */
+  id: string
+  /** Changes whenever the file is modified - keys client-side caches */
+  version: string
+  title: string
+  artist: string
+  album: string
+  genre: string
+  year: number | null
+  trackNumber: number | null
+  discNumber: number | null
+  /** Duration in seconds, null when the container does not state it */
+  duration: number | null
+  hasArtwork: boolean
+}
+
+/**
+ * Library Response
+ * Body of GET and POST /api/library
+ */
+export interface LibraryResponse {
+  /** False when no music directory is configured on the server */
+  configured: boolean
+  tracks: LibraryTrack[]
+  /** ISO timestamp of the last completed scan, null before the first one */
+  scannedAt: string | null
+}
+
+/**
+ * Album grouping used by the browser
+ */
+export interface LibraryAlbum {
+  name: string
+  year: number | null
+  tracks: LibraryTrack[]
+}
+
+/**
+ * Artist grouping used by the browser
+ */
+export interface LibraryArtist {
+  name: string
+  albums: LibraryAlbum[]
+}
@@ -0,0 +1,76 @@
+/**
+ * A-B Loop and Practice Mode
+ * Loop region helpers and the speed ramp used when practising a passage
+ */
+
+/**
+ * Loop Region
+ * Times in track seconds, start < end
+ */
+export interface LoopRegion {
+  start: number
+  end: number
+}
+
+/**
+ * Practice Mode Settings
+ */
+export interface PracticeSettings {
+  /** Speed the first repetition plays at (0.5-1.0) */
+  startSpeed: number
+  /** Speed added after each repetition, as a percentage of normal speed (1-25) */
+  stepPercent: number
+  /** Clicks before the loop starts, 0 to disable the count-in (0-8) */
+  countInBeats: number
+  /** Count-in tempo in beats per minute at normal speed (40-240) */
+  countInBpm: number
+}
+
+export const DEFAULT_PRACTICE_SETTINGS: Readonly<PracticeSettings> = {
+  startSpeed: 0.7,
+  stepPercent: 5,
+  countInBeats: 4,
+  countInBpm: 100
+}
+
+/** Shortest loop that can be created, in seconds */
+export const MIN_LOOP_LENGTH = 0.1
+
+/**
+ * Orders two points into a region clamped to the track
+ * @returns The region, or null when it would be shorter than MIN_LOOP_LENGTH
+ */
+export function createLoopRegion(a: number, b: number, duration: number): LoopRegion | null {
+  const start = Math.max(0, Math.min(a, b))
+  const end = Math.min(duration, Math.max(a, b))
+  return end - start >= MIN_LOOP_LENGTH ? { start, end } : null
+}
+
+/**
+ * Moves one edge of a region, keeping it at least MIN_LOOP_LENGTH long
+ */
+export function moveLoopEdge(region: LoopRegion, edge: 'start' | 'end', time: number, duration: number): LoopRegion {
+  if (edge === 'start') {
+    return { ...region, start: Math.max(0, Math.min(time, region.end - MIN_LOOP_LENGTH)) }
+  }
+  return { ...region, end: Math.min(duration, Math.max(time, region.start + MIN_LOOP_LENGTH)) }
+}
+
+/**
+ * Where playback continues after running past the loop end
+ * Carries the overshoot into the next pass so the loop keeps its length
+ */
+export function getLoopWrapTime(region: LoopRegion, currentTime: number): number {
+  const overshoot = Math.max(0, currentTime - region.end)
+  return region.start + Math.min(overshoot, region.end - region.start)
+}
+
+/**
+ * Speed for the next repetition of a practice loop
+ * Steps up by stepPercent of normal speed and stops at 1.0x
+ */
+export function getNextPracticeSpeed(speed: number, settings: Readonly<PracticeSettings>): number {
+  const next = speed + settings.stepPercent / 100
+  // Round away floating-point drift so repeated steps land on e.g. 0.85 exactly
+  return Math.min(1, Math.round(next * 1000) / 1000)
+}
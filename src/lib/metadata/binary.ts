@@ -0,0 +1,117 @@
+/**
+ * Binary Helpers
+ * Small byte-level readers shared by the tag parsers
+ */
+
+/**
+ * Random-access byte source
+ * Lets parsers pull only the regions they need from large audio files
+ */
+export interface ByteReader {
+  /** Total size of the underlying source in bytes */
+  size: number
+  /** Reads up to `length` bytes starting at `offset` (shorter at end of source) */
+  read(offset: number, length: number): Promise<Uint8Array>
+}
+
+/**
+ * Creates a ByteReader over a browser Blob or File
+ * @param blob - Source blob
+ */
+export function createBlobReader(blob: Blob): ByteReader {
+  return {
+    size: blob.size,
+    read: async (offset, length) => {
+      const buffer = await blob.slice(offset, offset + length).arrayBuffer()
+      return new Uint8Array(buffer)
+    }
+  }
+}
+
+/** Text encodings that appear in audio tag formats */
+export type TextEncoding = 'latin1' | 'utf-8' | 'utf-16' | 'utf-16le' | 'utf-16be'
+
+export function readUint16BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1]
+}
+
+export function readUint24BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2]
+}
+
+export function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return (
+    bytes[offset] * 0x1000000 +
+    ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3])
+  )
+}
+
+export function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (
+    bytes[offset + 3] * 0x1000000 +
+    ((bytes[offset + 2] << 16) | (bytes[offset + 1] << 8) | bytes[offset])
+  )
+}
+
+/**
+ * Reads an unsigned 64-bit big-endian integer
+ * Precision is lost above 2^53, which no realistic file size or duration reaches
+ */
+export function readUint64BE(bytes: Uint8Array, offset: number): number {
+  return readUint32BE(bytes, offset) * 0x100000000 + readUint32BE(bytes, offset + 4)
+}
+
+/**
+ * Reads an ID3v2 "synchsafe" integer (7 significant bits per byte)
+ */
+export function readSynchsafe(bytes: Uint8Array, offset: number): number {
+  return (
+    (bytes[offset] & 0x7f) * 0x200000 +
+    ((bytes[offset + 1] & 0x7f) << 14) +
+    ((bytes[offset + 2] & 0x7f) << 7) +
+    (bytes[offset + 3] & 0x7f)
+  )
+}
+
+/**
+ * Reads a fixed-length ASCII identifier such as a frame or atom name
+ */
+export function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let result = ''
+  for (let i = offset; i < offset + length && i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i])
+  }
+  return result
+}
+
+/**
+ * Decodes text and strips trailing NUL padding
+ */
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding): string {
+  const label = encoding === 'latin1' ? 'iso-8859-1' : encoding
+  return new TextDecoder(label).decode(bytes).replace(/\0+$/, '')
+}
+
+/**
+ * Finds the end of a NUL-terminated string
+ * @param width - Terminator width: 1 for single-byte encodings, 2 for UTF-16
+ * @returns Index of the terminator, or the end of the array when missing
+ */
+export function findTerminator(bytes: Uint8Array, offset: number, width: 1 | 2): number {
+  for (let i = offset; i + width <= bytes.length; i += width) {
+    if (bytes[i] === 0 && (width === 1 || bytes[i + 1] === 0)) return i
+  }
+  return bytes.length
+}
+
+/**
+ * Decodes standard base64 into bytes (used for embedded Vorbis pictures)
+ */
+export function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value.replace(/\s+/g, ''))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
@@ -0,0 +1,76 @@
+/**
+ * FLAC Parser
+ * Walks the metadata blocks at the start of a native FLAC stream
+ */
+
+import { type ByteReader, readAscii, readUint24BE, readUint32BE } from './binary'
+import { type AudioTags, type TagPicture } from './types'
+import { parseFlacPicture, parseVorbisComment } from './vorbis-comment'
+
+/** Metadata block types this parser reads */
+const BLOCK_STREAMINFO = 0
+const BLOCK_VORBIS_COMMENT = 4
+const BLOCK_PICTURE = 6
+
+/** Front cover picture type */
+const FRONT_COVER = 3
+
+/**
+ * Checks whether the bytes start with the FLAC stream marker
+ */
+export function isFlac(header: Uint8Array): boolean {
+  return readAscii(header, 0, 4) === 'fLaC'
+}
+
+/**
+ * Reads total duration from a STREAMINFO block body
+ */
+function parseStreamInfoDuration(block: Uint8Array): number | undefined {
+  // Sample rate is 20 bits starting at byte 10, total samples 36 bits starting mid byte 13
+  const sampleRate = (block[10] << 12) | (block[11] << 4) | (block[12] >> 4)
+  const totalSamples = (block[13] & 0x0f) * 0x100000000 + readUint32BE(block, 14)
+  return sampleRate > 0 && totalSamples > 0 ? totalSamples / sampleRate : undefined
+}
+
+/**
+ * Parses FLAC metadata
+ * @param reader - Byte source
+ * @param start - Offset of the "fLaC" marker (non-zero when an ID3v2 tag precedes it)
+ */
+export async function parseFlac(reader: ByteReader, start = 0): Promise<AudioTags> {
+  const marker = await reader.read(start, 4)
+  if (!isFlac(marker)) return {}
+
+  let tags: AudioTags = {}
+  let picture: (TagPicture & { type: number }) | undefined
+  let offset = start + 4
+  let isLast = false
+
+  while (!isLast && offset + 4 <= reader.size) {
+    const header = await reader.read(offset, 4)
+    isLast = (header[0] & 0x80) !== 0
+    const type = header[0] & 0x7f
+    const length = readUint24BE(header, 1)
+    offset += 4
+
+    if (type === BLOCK_STREAMINFO) {
+      tags.duration = parseStreamInfoDuration(await reader.read(offset, length))
+    } else if (type === BLOCK_VORBIS_COMMENT) {
+      tags = { ...parseVorbisComment(await reader.read(offset, length)), duration: tags.duration }
+    } else if (type === BLOCK_PICTURE) {
+      const candidate = parseFlacPicture(await reader.read(offset, length))
+      if (!picture || (picture.type !== FRONT_COVER && candidate.type === FRONT_COVER)) {
+        picture = candidate
+      }
+    }
+
+    offset += length
+  }
+
+  // PICTURE blocks take priority over pictures embedded in comments
+  if (picture && picture.data.length > 0) {
+    tags.picture = { mimeType: picture.mimeType, data: picture.data }
+  }
+
+  return tags
+}
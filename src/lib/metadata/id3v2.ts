@@ -0,0 +1,212 @@
+/**
+ * ID3v2 Parser
+ * Reads the text and picture frames of ID3v2.2, v2.3 and v2.4 tags (MP3, AAC, some WAV)
+ */
+
+import {
+  type ByteReader,
+  type TextEncoding,
+  decodeText,
+  findTerminator,
+  readAscii,
+  readSynchsafe,
+  readUint24BE,
+  readUint32BE
+} from './binary'
+import { type AudioTags, ID3V1_GENRES, cleanTagValue, parsePosition, parseYear } from './types'
+
+/** Size of the fixed ID3v2 tag header */
+const HEADER_SIZE = 10
+
+/** Encoding byte values used by text and picture frames */
+const ENCODINGS: Record<number, TextEncoding> = {
+  0: 'latin1',
+  1: 'utf-16',
+  2: 'utf-16be',
+  3: 'utf-8'
+}
+
+/** Frame IDs mapped to tag fields, v2.2 three-letter IDs included */
+const TEXT_FRAMES: Record<string, 'title' | 'artist' | 'album' | 'genre' | 'year' | 'trackNumber' | 'discNumber'> = {
+  TIT2: 'title',
+  TT2: 'title',
+  TPE1: 'artist',
+  TP1: 'artist',
+  TALB: 'album',
+  TAL: 'album',
+  TCON: 'genre',
+  TCO: 'genre',
+  TYER: 'year',
+  TYE: 'year',
+  TDRC: 'year',
+  TRCK: 'trackNumber',
+  TRK: 'trackNumber',
+  TPOS: 'discNumber',
+  TPA: 'discNumber'
+}
+
+/** APIC picture type for the front cover */
+const FRONT_COVER = 3
+
+/**
+ * Checks whether the bytes start with an ID3v2 tag header
+ */
+export function isId3v2(header: Uint8Array): boolean {
+  return readAscii(header, 0, 3) === 'ID3'
+}
+
+/**
+ * Returns the total tag length (header plus body) so callers can skip past it
+ */
+export function getId3v2Size(header: Uint8Array): number {
+  const hasFooter = (header[5] & 0x10) !== 0
+  return HEADER_SIZE + readSynchsafe(header, 6) + (hasFooter ? HEADER_SIZE : 0)
+}
+
+/**
+ * Reverses ID3 unsynchronisation (0xFF 0x00 -> 0xFF)
+ */
+function removeUnsynchronisation(bytes: Uint8Array): Uint8Array {
+  const result = new Uint8Array(bytes.length)
+  let length = 0
+  for (let i = 0; i < bytes.length; i++) {
+    result[length++] = bytes[i]
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++
+  }
+  return result.subarray(0, length)
+}
+
+/**
+ * Decodes a text frame, keeping only the first of multiple NUL-separated values
+ */
+function decodeTextFrame(data: Uint8Array): string | undefined {
+  const encoding = ENCODINGS[data[0]] ?? 'latin1'
+  const width = encoding === 'latin1' || encoding === 'utf-8' ? 1 : 2
+  const body = data.subarray(1)
+  const end = findTerminator(body, 0, width)
+  return cleanTagValue(decodeText(body.subarray(0, end), encoding))
+}
+
+/**
+ * Resolves ID3v1 genre references such as "(17)", "17" or "(17)Rock"
+ */
+function resolveGenre(value: string): string {
+  const match = value.match(/^\((\d+)\)(.*)$/) ?? value.match(/^(\d+)$/)
+  if (!match) return value
+  return cleanTagValue(match[2]) ?? ID3V1_GENRES[parseInt(match[1], 10)] ?? value
+}
+
+/**
+ * Decodes an APIC (v2.3/2.4) or PIC (v2.2) frame
+ */
+function decodePictureFrame(data: Uint8Array, isV22: boolean): { type: number; mimeType: string; data: Uint8Array } {
+  const encoding = ENCODINGS[data[0]] ?? 'latin1'
+  let offset = 1
+  let mimeType: string
+
+  if (isV22) {
+    const format = readAscii(data, offset, 3).toUpperCase()
+    mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg'
+    offset += 3
+  } else {
+    const end = findTerminator(data, offset, 1)
+    mimeType = readAscii(data, offset, end - offset).toLowerCase() || 'image/jpeg'
+    // Some taggers write bare "jpg"/"png" instead of a MIME type
+    if (!mimeType.includes('/')) mimeType = `image/${mimeType === 'jpg' ? 'jpeg' : mimeType}`
+    offset = end + 1
+  }
+
+  const type = data[offset]
+  offset += 1
+
+  // Skip the description, whose terminator width depends on the encoding
+  const width = encoding === 'latin1' || encoding === 'utf-8' ? 1 : 2
+  offset = findTerminator(data, offset, width) + width
+
+  return { type, mimeType, data: data.slice(offset) }
+}
+
+/**
+ * Parses an ID3v2 tag located at the start of the source
+ * @param reader - Byte source positioned at the tag header
+ * @returns Parsed tags, or an empty object when the tag is unreadable
+ */
+export async function parseId3v2(reader: ByteReader): Promise<AudioTags> {
+  const header = await reader.read(0, HEADER_SIZE)
+  if (!isId3v2(header)) return {}
+
+  const version = header[3]
+  const flags = header[5]
+  const isV22 = version === 2
+  const tagSize = readSynchsafe(header, 6)
+
+  let body = await reader.read(HEADER_SIZE, tagSize)
+  if (version < 4 && (flags & 0x80) !== 0) {
+    body = removeUnsynchronisation(body)
+  }
+
+  let offset = 0
+
+  // Skip the extended header when present
+  if ((flags & 0x40) !== 0 && !isV22) {
+    offset = version === 4 ? readSynchsafe(body, 0) : readUint32BE(body, 0) + 4
+  }
+
+  const idLength = isV22 ? 3 : 4
+  const frameHeaderSize = isV22 ? 6 : 10
+  const tags: AudioTags = {}
+  let picture: { type: number; mimeType: string; data: Uint8Array } | undefined
+
+  while (offset + frameHeaderSize <= body.length) {
+    const id = readAscii(body, offset, idLength)
+    // Padding (or garbage) - no more frames
+    if (!/^[A-Z0-9]+$/.test(id)) break
+
+    const size = isV22
+      ? readUint24BE(body, offset + 3)
+      : version === 4
+        ? readSynchsafe(body, offset + 4)
+        : readUint32BE(body, offset + 4)
+    const frameFlags = isV22 ? 0 : body[offset + 9]
+
+    let data = body.subarray(offset + frameHeaderSize, offset + frameHeaderSize + size)
+    offset += frameHeaderSize + size
+
+    // Compressed or encrypted frames are not worth supporting for display tags
+    const unsupportedFlags = version === 4 ? 0x0c : 0xc0
+    if (!isV22 && (frameFlags & unsupportedFlags) !== 0) continue
+    if (version === 4) {
+      if ((frameFlags & 0x01) !== 0) data = data.subarray(4)
+      if ((frameFlags & 0x02) !== 0) data = removeUnsynchronisation(data)
+    }
+
+    const field = TEXT_FRAMES[id]
+    if (field) {
+      const value = decodeTextFrame(data)
+      if (!value) continue
+      if (field === 'year') {
+        tags.year ??= parseYear(value)
+      } else if (field === 'trackNumber' || field === 'discNumber') {
+        tags[field] ??= parsePosition(value)
+      } else if (field === 'genre') {
+        tags.genre ??= resolveGenre(value)
+      } else {
+        tags[field] ??= value
+      }
+    } else if (id === 'APIC' || id === 'PIC') {
+      const candidate = decodePictureFrame(data, isV22)
+      if (!picture || (picture.type !== FRONT_COVER && candidate.type === FRONT_COVER)) {
+        picture = candidate
+      }
+    } else if (id === 'TLEN' || id === 'TLE') {
+      const milliseconds = parseInt(decodeTextFrame(data) ?? '', 10)
+      if (milliseconds > 0) tags.duration = milliseconds / 1000
+    }
+  }
+
+  if (picture && picture.data.length > 0) {
+    tags.picture = { mimeType: picture.mimeType, data: picture.data }
+  }
+
+  return tags
+}
@@ -0,0 +1,63 @@
+/**
+ * Audio Tag Reading
+ * Detects the container from its magic bytes and dispatches to the matching parser
+ */
+
+import { type ByteReader } from './binary'
+import { parseFlac, isFlac } from './flac'
+import { getId3v2Size, isId3v2, parseId3v2 } from './id3v2'
+import { isMp4, parseMp4 } from './mp4'
+import { isOgg, parseOgg } from './ogg'
+import { type AudioTags } from './types'
+
+export { type ByteReader, createBlobReader } from './binary'
+export { type AudioTags, type TagPicture } from './types'
+
+/** Enough bytes to recognise every supported container */
+const SNIFF_SIZE = 16
+
+/**
+ * Overlays the defined fields of `preferred` onto `fallback`
+ */
+function mergeTags(fallback: AudioTags, preferred: AudioTags): AudioTags {
+  const merged: AudioTags = { ...fallback }
+  for (const [key, value] of Object.entries(preferred)) {
+    if (value !== undefined) Object.assign(merged, { [key]: value })
+  }
+  return merged
+}
+
+/**
+ * Reads display tags from an audio file
+ * Never throws - unreadable or unsupported files simply yield no tags
+ *
+ * @param reader - Random-access byte source over the file
+ * @returns Whatever tags could be recovered
+ */
+export async function parseAudioTags(reader: ByteReader): Promise<AudioTags> {
+  try {
+    const header = await reader.read(0, SNIFF_SIZE)
+
+    if (isId3v2(header)) {
+      const tags = await parseId3v2(reader)
+
+      // FLAC files occasionally carry a stray ID3v2 tag in front of the stream
+      const flacStart = getId3v2Size(header)
+      const next = await reader.read(flacStart, 4)
+      if (isFlac(next)) {
+        return mergeTags(tags, await parseFlac(reader, flacStart))
+      }
+
+      return tags
+    }
+
+    if (isFlac(header)) return await parseFlac(reader)
+    if (isOgg(header)) return await parseOgg(reader)
+    if (isMp4(header)) return await parseMp4(reader)
+
+    return {}
+  } catch (error) {
+    console.warn('Failed to read audio tags:', error)
+    return {}
+  }
+}
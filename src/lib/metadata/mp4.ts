@@ -0,0 +1,190 @@
+/**
+ * MP4 Parser
+ * Reads iTunes-style metadata (moov > udta > meta > ilst) from M4A/MP4/ALAC files
+ */
+
+import {
+  type ByteReader,
+  decodeText,
+  readAscii,
+  readUint16BE,
+  readUint32BE,
+  readUint64BE
+} from './binary'
+import { type AudioTags, ID3V1_GENRES, cleanTagValue, parseYear } from './types'
+
+/** Standard box header: 32-bit size plus four-character type */
+const BOX_HEADER_SIZE = 8
+
+/** `data` atom type indicator for PNG artwork (JPEG is 13 and the fallback) */
+const DATA_TYPE_PNG = 14
+
+/** ilst item atoms mapped to tag fields (0xA9 is the copyright sign) */
+const TEXT_ATOMS: Record<string, 'title' | 'artist' | 'album' | 'genre' | 'year'> = {
+  '\xa9nam': 'title',
+  '\xa9ART': 'artist',
+  '\xa9alb': 'album',
+  '\xa9gen': 'genre',
+  '\xa9day': 'year'
+}
+
+interface Box {
+  type: string
+  /** Offset of the box payload, just past its header */
+  start: number
+  /** Offset one past the last payload byte */
+  end: number
+}
+
+/**
+ * Checks for an `ftyp` box at the start of the file
+ */
+export function isMp4(header: Uint8Array): boolean {
+  return readAscii(header, 4, 4) === 'ftyp'
+}
+
+/**
+ * Lists the child boxes within a byte range of an in-memory buffer
+ */
+function listBoxes(bytes: Uint8Array, start: number, end: number): Box[] {
+  const boxes: Box[] = []
+  let offset = start
+
+  while (offset + BOX_HEADER_SIZE <= end) {
+    let size = readUint32BE(bytes, offset)
+    const type = readAscii(bytes, offset + 4, 4)
+    let headerSize = BOX_HEADER_SIZE
+
+    if (size === 1) {
+      size = readUint64BE(bytes, offset + 8)
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize || offset + size > end) break
+
+    boxes.push({ type, start: offset + headerSize, end: offset + size })
+    offset += size
+  }
+
+  return boxes
+}
+
+/**
+ * Finds a top-level box by reading only box headers from the source
+ */
+async function findTopLevelBox(reader: ByteReader, type: string): Promise<Box | undefined> {
+  let offset = 0
+
+  while (offset + BOX_HEADER_SIZE <= reader.size) {
+    const header = await reader.read(offset, 16)
+    let size = readUint32BE(header, 0)
+    const boxType = readAscii(header, 4, 4)
+    let headerSize = BOX_HEADER_SIZE
+
+    if (size === 1) {
+      size = readUint64BE(header, 8)
+      headerSize = 16
+    } else if (size === 0) {
+      size = reader.size - offset
+    }
+    if (size < headerSize) return undefined
+
+    if (boxType === type) {
+      return { type, start: offset + headerSize, end: Math.min(offset + size, reader.size) }
+    }
+    offset += size
+  }
+
+  return undefined
+}
+
+/**
+ * Reads the payload of the `data` atom inside an ilst item
+ */
+function readDataAtom(bytes: Uint8Array, item: Box): { type: number; value: Uint8Array } | undefined {
+  const data = listBoxes(bytes, item.start, item.end).find(box => box.type === 'data')
+  if (!data) return undefined
+
+  // Version/flags word carries the type indicator, followed by a 4-byte locale
+  return {
+    type: readUint32BE(bytes, data.start) & 0xffffff,
+    value: bytes.subarray(data.start + 8, data.end)
+  }
+}
+
+/**
+ * Reads duration from a movie header (`mvhd`) box
+ */
+function parseMovieHeaderDuration(bytes: Uint8Array, box: Box): number | undefined {
+  const version = bytes[box.start]
+  const timescale = version === 1
+    ? readUint32BE(bytes, box.start + 20)
+    : readUint32BE(bytes, box.start + 12)
+  const duration = version === 1
+    ? readUint64BE(bytes, box.start + 24)
+    : readUint32BE(bytes, box.start + 16)
+  return timescale > 0 ? duration / timescale : undefined
+}
+
+/**
+ * Parses MP4 metadata
+ * Only the moov box is loaded, wherever it sits in the file
+ */
+export async function parseMp4(reader: ByteReader): Promise<AudioTags> {
+  const moovBox = await findTopLevelBox(reader, 'moov')
+  if (!moovBox) return {}
+
+  const moov = await reader.read(moovBox.start, moovBox.end - moovBox.start)
+  const tags: AudioTags = {}
+  const children = listBoxes(moov, 0, moov.length)
+
+  const mvhd = children.find(box => box.type === 'mvhd')
+  if (mvhd) tags.duration = parseMovieHeaderDuration(moov, mvhd)
+
+  const udta = children.find(box => box.type === 'udta')
+  const meta = udta && listBoxes(moov, udta.start, udta.end).find(box => box.type === 'meta')
+  if (!meta) return tags
+
+  // `meta` is a full box (4 version/flag bytes) in ISO files but not in older QuickTime files
+  const metaStart = readAscii(moov, meta.start + 4, 4) === 'hdlr' ? meta.start : meta.start + 4
+  const ilst = listBoxes(moov, metaStart, meta.end).find(box => box.type === 'ilst')
+  if (!ilst) return tags
+
+  for (const item of listBoxes(moov, ilst.start, ilst.end)) {
+    const data = readDataAtom(moov, item)
+    if (!data) continue
+
+    const field = TEXT_ATOMS[item.type]
+    if (field) {
+      const value = cleanTagValue(decodeText(data.value, 'utf-8'))
+      if (!value) continue
+      if (field === 'year') {
+        tags.year ??= parseYear(value)
+      } else {
+        tags[field] ??= value
+      }
+    } else if ((item.type === 'trkn' || item.type === 'disk') && data.value.length >= 4) {
+      // Two padding bytes, then the position and (ignored) total as 16-bit integers
+      const position = readUint16BE(data.value, 2)
+      if (position > 0) tags[item.type === 'trkn' ? 'trackNumber' : 'discNumber'] ??= position
+    } else if (item.type === 'gnre' && data.value.length >= 2) {
+      // Stored as ID3v1 genre index plus one
+      tags.genre ??= ID3V1_GENRES[readUint16BE(data.value, 0) - 1]
+    } else if (item.type === 'covr' && !tags.picture && data.value.length > 0) {
+      tags.picture = {
+        mimeType: data.type === DATA_TYPE_PNG ? 'image/png' : 'image/jpeg',
+        data: data.value.slice()
+      }
+    }
+  }
+
+  // Album artist only fills in for a missing track artist
+  if (!tags.artist) {
+    const albumArtist = listBoxes(moov, ilst.start, ilst.end).find(box => box.type === 'aART')
+    const data = albumArtist && readDataAtom(moov, albumArtist)
+    if (data) tags.artist = cleanTagValue(decodeText(data.value, 'utf-8'))
+  }
+
+  return tags
+}
@@ -0,0 +1,153 @@
+/**
+ * Ogg Parser
+ * Reassembles the header packets of the first logical stream to reach the
+ * comment header of Ogg Vorbis, Ogg Opus and Ogg FLAC files
+ */
+
+import { type ByteReader, readAscii, readUint32LE } from './binary'
+import { type AudioTags } from './types'
+import { parseVorbisComment } from './vorbis-comment'
+
+/** Fixed part of an Ogg page header, before the segment table */
+const PAGE_HEADER_SIZE = 27
+
+/** Bytes scanned at the end of the file to find the final granule position */
+const TAIL_SCAN_SIZE = 65536
+
+/** Header packets are small unless they carry artwork - refuse anything absurd */
+const MAX_PACKET_SIZE = 16 * 1024 * 1024
+
+/** Opus always runs its granule clock at 48kHz */
+const OPUS_SAMPLE_RATE = 48000
+
+/**
+ * Checks whether the bytes start with an Ogg page capture pattern
+ */
+export function isOgg(header: Uint8Array): boolean {
+  return readAscii(header, 0, 4) === 'OggS'
+}
+
+/**
+ * Reads a little-endian 64-bit granule position
+ */
+function readGranule(bytes: Uint8Array, offset: number): number {
+  return readUint32LE(bytes, offset + 4) * 0x100000000 + readUint32LE(bytes, offset)
+}
+
+/**
+ * Reads the first `count` packets of the stream that owns the first page
+ */
+async function readHeaderPackets(reader: ByteReader, count: number): Promise<{ packets: Uint8Array[]; serial: number }> {
+  const packets: Uint8Array[] = []
+  let pending: Uint8Array[] = []
+  let pendingSize = 0
+  let serial: number | undefined
+  let offset = 0
+
+  while (packets.length < count && offset + PAGE_HEADER_SIZE <= reader.size) {
+    const header = await reader.read(offset, PAGE_HEADER_SIZE)
+    if (!isOgg(header)) break
+
+    const pageSerial = readUint32LE(header, 14)
+    const segmentCount = header[26]
+    const segmentTable = await reader.read(offset + PAGE_HEADER_SIZE, segmentCount)
+    const bodySize = segmentTable.reduce((sum, size) => sum + size, 0)
+    const bodyOffset = offset + PAGE_HEADER_SIZE + segmentCount
+    offset = bodyOffset + bodySize
+
+    serial ??= pageSerial
+    // Pages of other multiplexed streams are irrelevant
+    if (pageSerial !== serial) continue
+
+    const body = await reader.read(bodyOffset, bodySize)
+    let position = 0
+
+    for (const segmentSize of segmentTable) {
+      pending.push(body.subarray(position, position + segmentSize))
+      pendingSize += segmentSize
+      position += segmentSize
+
+      if (pendingSize > MAX_PACKET_SIZE) {
+        throw new Error('Ogg header packet exceeds size limit')
+      }
+
+      // A segment shorter than 255 bytes terminates the packet
+      if (segmentSize < 255) {
+        const packet = new Uint8Array(pendingSize)
+        let cursor = 0
+        for (const part of pending) {
+          packet.set(part, cursor)
+          cursor += part.length
+        }
+        packets.push(packet)
+        pending = []
+        pendingSize = 0
+        if (packets.length >= count) break
+      }
+    }
+  }
+
+  return { packets, serial: serial ?? 0 }
+}
+
+/**
+ * Finds the granule position of the last page belonging to the stream
+ */
+async function readFinalGranule(reader: ByteReader, serial: number): Promise<number | undefined> {
+  const start = Math.max(0, reader.size - TAIL_SCAN_SIZE)
+  const tail = await reader.read(start, reader.size - start)
+
+  for (let i = tail.length - PAGE_HEADER_SIZE; i >= 0; i--) {
+    if (tail[i] === 0x4f && isOgg(tail.subarray(i)) && readUint32LE(tail, i + 14) === serial) {
+      return readGranule(tail, i + 6)
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Parses the comment header of an Ogg stream
+ * @param reader - Byte source positioned at the first page
+ */
+export async function parseOgg(reader: ByteReader): Promise<AudioTags> {
+  const { packets, serial } = await readHeaderPackets(reader, 2)
+  if (packets.length < 2) return {}
+
+  const [identification, comment] = packets
+  let tags: AudioTags = {}
+  let sampleRate: number | undefined
+  let preSkip = 0
+
+  if (readAscii(identification, 0, 7) === '\x01vorbis') {
+    sampleRate = readUint32LE(identification, 12)
+    if (readAscii(comment, 0, 7) === '\x03vorbis') {
+      tags = parseVorbisComment(comment.subarray(7))
+    }
+  } else if (readAscii(identification, 0, 8) === 'OpusHead') {
+    sampleRate = OPUS_SAMPLE_RATE
+    preSkip = identification[10] | (identification[11] << 8)
+    if (readAscii(comment, 0, 8) === 'OpusTags') {
+      tags = parseVorbisComment(comment.subarray(8))
+    }
+  } else if (readAscii(identification, 0, 5) === '\x7fFLAC') {
+    // Mapping header (9 bytes), "fLaC", then the STREAMINFO block header and body
+    const streamInfo = identification.subarray(17)
+    sampleRate = (streamInfo[10] << 12) | (streamInfo[11] << 4) | (streamInfo[12] >> 4)
+    if ((comment[0] & 0x7f) === 4) {
+      tags = parseVorbisComment(comment.subarray(4))
+    }
+  } else {
+    console.warn('Unrecognised Ogg codec:', readAscii(identification, 0, 8))
+    return {}
+  }
+
+  if (sampleRate) {
+    const granule = await readFinalGranule(reader, serial)
+    if (granule && granule > preSkip) {
+      tags.duration = (granule - preSkip) / sampleRate
+    }
+  }
+
+  return tags
+}
@@ -0,0 +1,79 @@
+/**
+ * Audio Tag Types
+ * Format-neutral result shared by every tag parser
+ */
+
+/**
+ * Embedded Picture
+ * Raw cover art bytes exactly as stored in the file
+ */
+export interface TagPicture {
+  /** MIME type such as image/jpeg or image/png */
+  mimeType: string
+  /** Encoded image bytes */
+  data: Uint8Array
+}
+
+/**
+ * Parsed Audio Tags
+ * Every field is optional - callers decide how to fall back
+ */
+export interface AudioTags {
+  title?: string
+  artist?: string
+  album?: string
+  genre?: string
+  year?: number
+  /** Position on the album (first number of "3/12") */
+  trackNumber?: number
+  /** Disc within a multi-disc release */
+  discNumber?: number
+  /** Duration in seconds, when the container states it cheaply */
+  duration?: number
+  /** Front cover (or first picture found) */
+  picture?: TagPicture
+}
+
+/**
+ * ID3v1 genre list, also referenced by ID3v2 "(n)" genres and MP4 `gnre` atoms
+ */
+export const ID3V1_GENRES: readonly string[] = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop',
+  'Jazz', 'Metal', 'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock',
+  'Techno', 'Industrial', 'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack',
+  'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk', 'Fusion', 'Trance',
+  'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'AlternRock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop',
+  'Instrumental Rock', 'Ethnic', 'Gothic', 'Darkwave', 'Techno-Industrial', 'Electronic',
+  'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret',
+  'New Wave', 'Psychadelic', 'Rave', 'Showtunes', 'Trailer', 'Lo-Fi', 'Tribal',
+  'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock'
+]
+
+/**
+ * Parses the leading year out of a date tag ("2014", "2014-12-09", "2014/12")
+ * @returns The year, or undefined when the value has none
+ */
+export function parseYear(value: string | undefined): number | undefined {
+  const match = value?.match(/\d{4}/)
+  return match ? parseInt(match[0], 10) : undefined
+}
+
+/**
+ * Parses the leading number of a position tag ("3", "3/12", "03 of 12")
+ * @returns The position, or undefined when the value has none
+ */
+export function parsePosition(value: string | undefined): number | undefined {
+  const match = value?.match(/^\s*(\d+)/)
+  const position = match ? parseInt(match[1], 10) : 0
+  return position > 0 ? position : undefined
+}
+
+/**
+ * Trims a tag value and turns empty strings into undefined
+ */
+export function cleanTagValue(value: string | undefined): string | undefined {
+  const trimmed = value?.trim()
+  return trimmed ? trimmed : undefined
+}
@@ -0,0 +1,124 @@
+/**
+ * Vorbis Comment Parser
+ * Shared by FLAC (VORBIS_COMMENT block), Ogg Vorbis and Ogg Opus
+ */
+
+import { decodeBase64, decodeText, readUint32BE, readUint32LE } from './binary'
+import { type AudioTags, type TagPicture, cleanTagValue, parsePosition, parseYear } from './types'
+
+/** FLAC picture type for the front cover */
+const FRONT_COVER = 3
+
+/**
+ * Decodes a FLAC PICTURE block body
+ * Also used for base64 METADATA_BLOCK_PICTURE comments in Ogg streams
+ *
+ * @returns The picture plus its APIC-style type
+ */
+export function parseFlacPicture(bytes: Uint8Array): TagPicture & { type: number } {
+  let offset = 0
+  const type = readUint32BE(bytes, offset)
+  offset += 4
+
+  const mimeLength = readUint32BE(bytes, offset)
+  offset += 4
+  const mimeType = decodeText(bytes.subarray(offset, offset + mimeLength), 'latin1') || 'image/jpeg'
+  offset += mimeLength
+
+  const descriptionLength = readUint32BE(bytes, offset)
+  // Description, then width, height, colour depth and palette size
+  offset += 4 + descriptionLength + 16
+
+  const dataLength = readUint32BE(bytes, offset)
+  offset += 4
+
+  return { type, mimeType, data: bytes.slice(offset, offset + dataLength) }
+}
+
+/**
+ * Parses a Vorbis comment block (vendor string followed by KEY=value pairs)
+ * @param bytes - Block body without any codec-specific packet prefix
+ */
+export function parseVorbisComment(bytes: Uint8Array): AudioTags {
+  const tags: AudioTags = {}
+  let picture: (TagPicture & { type: number }) | undefined
+  // Only used when no track artist is given
+  let albumArtist: string | undefined
+
+  let offset = 0
+  const vendorLength = readUint32LE(bytes, offset)
+  offset += 4 + vendorLength
+
+  const count = readUint32LE(bytes, offset)
+  offset += 4
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = readUint32LE(bytes, offset)
+    offset += 4
+    const comment = decodeText(bytes.subarray(offset, offset + length), 'utf-8')
+    offset += length
+
+    const separator = comment.indexOf('=')
+    if (separator <= 0) continue
+
+    const key = comment.slice(0, separator).toUpperCase()
+    const value = comment.slice(separator + 1)
+
+    switch (key) {
+      case 'TITLE':
+        tags.title ??= cleanTagValue(value)
+        break
+      case 'ARTIST':
+        tags.artist ??= cleanTagValue(value)
+        break
+      case 'ALBUMARTIST':
+        albumArtist ??= cleanTagValue(value)
+        break
+      case 'ALBUM':
+        tags.album ??= cleanTagValue(value)
+        break
+      case 'GENRE':
+        tags.genre ??= cleanTagValue(value)
+        break
+      case 'TRACKNUMBER':
+        tags.trackNumber ??= parsePosition(value)
+        break
+      case 'DISCNUMBER':
+        tags.discNumber ??= parsePosition(value)
+        break
+      case 'DATE':
+      case 'YEAR':
+        tags.year ??= parseYear(value)
+        break
+      case 'METADATA_BLOCK_PICTURE': {
+        try {
+          const candidate = parseFlacPicture(decodeBase64(value))
+          if (!picture || (picture.type !== FRONT_COVER && candidate.type === FRONT_COVER)) {
+            picture = candidate
+          }
+        } catch (error) {
+          console.warn('Skipping unreadable embedded picture:', error)
+        }
+        break
+      }
+      case 'COVERART':
+        // Legacy unofficial field holding a bare base64 image
+        if (!picture) {
+          try {
+            picture = { type: 0, mimeType: 'image/jpeg', data: decodeBase64(value) }
+          } catch (error) {
+            console.warn('Skipping unreadable embedded picture:', error)
+          }
+        }
+        break
+    }
+  }
+
+  tags.artist ??= albumArtist
+
+  if (picture && picture.data.length > 0) {
+    tags.picture = { mimeType: picture.mimeType, data: picture.data }
+  }
+
+  return tags
+}
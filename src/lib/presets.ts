@@ -0,0 +1,386 @@
+/**
+ * Effect Presets
+ * Factory presets, user presets persisted to localStorage, and versioned JSON import/export
+ */
+
+import {
+  type AudioEffects,
+  type DelayMode,
+  type DistortionModel,
+  type DistortionOversample,
+  type EffectModuleId,
+  type EffectStage,
+  type EqBand,
+  type EqBandType,
+  DEFAULT_EFFECT_CHAIN,
+  DEFAULT_EFFECTS,
+  DEFAULT_EQ_BANDS,
+  DELAY_MODES,
+  DISTORTION_MODELS,
+  DISTORTION_OVERSAMPLING,
+  EFFECT_KEYS,
+  EFFECT_LIMITS,
+  EFFECT_MODULES,
+  EFFECT_MODULE_IDS,
+  EQ_BAND_LIMITS,
+  EQ_BAND_TYPES,
+  MAX_EQ_BANDS,
+  effectChainsEqual,
+  effectOptionsEqual,
+  effectsEqual,
+  eqBandsEqual,
+  isReverbImpulseId
+} from '@/lib/effects'
+import { omit } from '@/lib/utils'
+
+/**
+ * Settings stored in a preset
+ * Volume is a listening level rather than part of a treatment, so presets leave it alone
+ */
+export type PresetEffects = Omit<AudioEffects, 'volume'>
+
+/**
+ * Named Effect Preset
+ */
+export interface EffectPreset {
+  /** `factory:<slug>` for built-in presets, `user:<uuid>` for saved ones */
+  id: string
+  name: string
+  effects: PresetEffects
+  /** Built-in presets cannot be deleted */
+  factory: boolean
+}
+
+/** Numeric fields captured by a preset, in display and file order */
+export const PRESET_EFFECT_KEYS = EFFECT_KEYS.filter((key): key is Exclude<typeof key, 'volume'> => key !== 'volume')
+
+/** Version 1 stored the three fixed EQ gains as flat fields, in DEFAULT_EQ_BANDS order */
+const LEGACY_EQ_KEYS = ['bass', 'mid', 'treble'] as const
+
+/** Identifies preset files so unrelated JSON is rejected early */
+const PRESET_FILE_FORMAT = 'studio-player-presets'
+
+/**
+ * Bump when the file layout changes; older versions must stay importable
+ * v2 replaced bass/mid/treble with eqBands, v3 added the effect chain
+ */
+export const PRESET_FILE_VERSION = 3
+
+/** Range of a chain stage's wet/dry mix */
+const STAGE_MIX_LIMITS = { min: 0, max: 100 }
+
+const STORAGE_KEY = 'studio-player:effect-presets'
+
+/**
+ * Versioned preset file layout
+ */
+interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT
+  version: number
+  presets: { name: string; effects: PresetEffects }[]
+}
+
+/**
+ * Extracts the preset fields from a full effects object
+ */
+export function toPresetEffects(effects: Readonly<AudioEffects>): PresetEffects {
+  return {
+    ...omit(effects, ['volume']),
+    eqBands: effects.eqBands.map(band => ({ ...band })),
+    chain: effects.chain.map(stage => ({ ...stage }))
+  }
+}
+
+/**
+ * Checks whether two sets of preset settings match, including EQ bands, option fields and chain
+ */
+export function presetEffectsEqual(a: Readonly<PresetEffects>, b: Readonly<PresetEffects>): boolean {
+  return effectsEqual(a, b, PRESET_EFFECT_KEYS) &&
+    effectOptionsEqual(a, b) &&
+    eqBandsEqual(a.eqBands, b.eqBands) &&
+    effectChainsEqual(a.chain, b.chain)
+}
+
+/**
+ * Default EQ bands with the Bass/Mid/Treble gains applied
+ */
+function simpleEqBands(bass: number, mid: number, treble: number): EqBand[] {
+  return DEFAULT_EQ_BANDS.map((band, index) => ({ ...band, gain: [bass, mid, treble][index] }))
+}
+
+/**
+ * Builds a factory preset from the fields it changes
+ */
+function factoryPreset(slug: string, name: string, changes: Partial<PresetEffects>): EffectPreset {
+  return {
+    id: `factory:${slug}`,
+    name,
+    effects: { ...toPresetEffects(DEFAULT_EFFECTS), ...changes },
+    factory: true
+  }
+}
+
+/**
+ * Built-in Presets
+ */
+export const FACTORY_PRESETS: readonly EffectPreset[] = [
+  // Narrow 300 Hz - 3.4 kHz voice band with a little line grit
+  factoryPreset('telephone', 'Telephone', {
+    highPass: 300, lowPass: 3400, eqBands: simpleEqBands(-12, 6, -6), distortion: 12, gain: 1.4
+  }),
+  // Dull top end, slight saturation and a small room
+  factoryPreset('lo-fi', 'Lo-fi', {
+    lowPass: 5000, highPass: 60, eqBands: simpleEqBands(3, 0, -8), distortion: 18, reverb: 12
+  }),
+  factoryPreset('bass-boost', 'Bass boost', {
+    eqBands: simpleEqBands(10, -2, 0), gain: 0.9
+  }),
+  factoryPreset('hall', 'Hall', {
+    reverb: 45, eqBands: simpleEqBands(1, 0, 2)
+  })
+]
+
+/**
+ * Checks that a value is a finite number within a range
+ * @throws Error naming the field
+ */
+function validateNumber(value: unknown, limits: { min: number; max: number }, label: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${label} must be a number`)
+  }
+  if (value < limits.min || value > limits.max) {
+    throw new Error(`${label} must be between ${limits.min} and ${limits.max} (got ${value})`)
+  }
+  return value
+}
+
+/**
+ * Validates an eqBands array against EQ_BAND_LIMITS
+ */
+function validateEqBands(value: unknown, presetName: string): EqBand[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Preset "${presetName}": eqBands must be a list`)
+  }
+  if (value.length > MAX_EQ_BANDS) {
+    throw new Error(`Preset "${presetName}": at most ${MAX_EQ_BANDS} EQ bands are supported`)
+  }
+
+  return value.map((entry, index) => {
+    const band = (entry ?? {}) as Record<string, unknown>
+    const label = `Preset "${presetName}": EQ band ${index + 1}`
+    if (!EQ_BAND_TYPES.some(({ type }) => type === band.type)) {
+      throw new Error(`${label} has an unknown type`)
+    }
+    return {
+      type: band.type as EqBandType,
+      frequency: validateNumber(band.frequency, EQ_BAND_LIMITS.frequency, `${label} frequency`),
+      gain: validateNumber(band.gain, EQ_BAND_LIMITS.gain, `${label} gain`),
+      q: validateNumber(band.q, EQ_BAND_LIMITS.q, `${label} Q`)
+    }
+  })
+}
+
+/**
+ * Validates an effect chain
+ * Each module may appear once; modules the file does not mention (files written
+ * before they existed) are inserted at their default position with default settings
+ */
+function validateEffectChain(value: unknown, presetName: string): EffectStage[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Preset "${presetName}": chain must be a list`)
+  }
+
+  const seen = new Set<EffectModuleId>()
+  const chain = value.map((entry, index) => {
+    const stage = (entry ?? {}) as Record<string, unknown>
+    const label = `Preset "${presetName}": chain stage ${index + 1}`
+    if (!EFFECT_MODULE_IDS.includes(stage.module as EffectModuleId)) {
+      throw new Error(`${label} has an unknown module`)
+    }
+    const moduleId = stage.module as EffectModuleId
+    if (seen.has(moduleId)) {
+      throw new Error(`${label} repeats the ${EFFECT_MODULES[moduleId].label} module`)
+    }
+    seen.add(moduleId)
+    if (typeof stage.bypassed !== 'boolean') {
+      throw new Error(`${label} bypass must be true or false`)
+    }
+    return { module: moduleId, bypassed: stage.bypassed, mix: validateNumber(stage.mix, STAGE_MIX_LIMITS, `${label} mix`) }
+  })
+
+  DEFAULT_EFFECT_CHAIN.forEach((stage, index) => {
+    if (!seen.has(stage.module)) chain.splice(Math.min(index, chain.length), 0, { ...stage })
+  })
+  return chain
+}
+
+/**
+ * Validates one preset's effects against EFFECT_LIMITS and EQ_BAND_LIMITS
+ * Missing fields fall back to their defaults; present fields must be finite and in range.
+ * Version 1 bass/mid/treble gains are moved onto the default three bands, and
+ * files before version 3 get the default chain.
+ * @throws Error naming the first offending field
+ */
+export function validatePresetEffects(value: unknown, presetName: string): PresetEffects {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Preset "${presetName}" has no effect settings`)
+  }
+
+  const source = value as Record<string, unknown>
+  const effects = toPresetEffects(DEFAULT_EFFECTS)
+
+  for (const key of PRESET_EFFECT_KEYS) {
+    if (!(key in source)) continue
+
+    effects[key] = validateNumber(source[key], EFFECT_LIMITS[key], `Preset "${presetName}": ${key}`)
+  }
+
+  if ('eqBands' in source) {
+    effects.eqBands = validateEqBands(source.eqBands, presetName)
+  } else if (LEGACY_EQ_KEYS.some(key => key in source)) {
+    const [bass, mid, treble] = LEGACY_EQ_KEYS.map(key =>
+      key in source ? validateNumber(source[key], EQ_BAND_LIMITS.gain, `Preset "${presetName}": ${key}`) : 0
+    )
+    effects.eqBands = simpleEqBands(bass, mid, treble)
+  }
+
+  if ('delayMode' in source) {
+    if (!DELAY_MODES.some(({ mode }) => mode === source.delayMode)) {
+      throw new Error(`Preset "${presetName}": delayMode must be ${DELAY_MODES.map(({ mode }) => `"${mode}"`).join(' or ')}`)
+    }
+    effects.delayMode = source.delayMode as DelayMode
+  }
+
+  if ('limiter' in source) {
+    if (typeof source.limiter !== 'boolean') {
+      throw new Error(`Preset "${presetName}": limiter must be true or false`)
+    }
+    effects.limiter = source.limiter
+  }
+
+  if ('reverbImpulse' in source) {
+    if (!isReverbImpulseId(source.reverbImpulse)) {
+      throw new Error(`Preset "${presetName}": reverbImpulse is not a known impulse`)
+    }
+    effects.reverbImpulse = source.reverbImpulse
+  }
+
+  if ('distortionModel' in source) {
+    if (!DISTORTION_MODELS.some(({ model }) => model === source.distortionModel)) {
+      throw new Error(`Preset "${presetName}": distortionModel must be one of ${DISTORTION_MODELS.map(({ model }) => `"${model}"`).join(', ')}`)
+    }
+    effects.distortionModel = source.distortionModel as DistortionModel
+  }
+
+  if ('distortionOversample' in source) {
+    if (!DISTORTION_OVERSAMPLING.some(({ oversample }) => oversample === source.distortionOversample)) {
+      throw new Error(`Preset "${presetName}": distortionOversample must be one of ${DISTORTION_OVERSAMPLING.map(({ oversample }) => `"${oversample}"`).join(', ')}`)
+    }
+    effects.distortionOversample = source.distortionOversample as DistortionOversample
+  }
+
+  if ('chain' in source) {
+    effects.chain = validateEffectChain(source.chain, presetName)
+  }
+
+  return effects
+}
+
+/**
+ * Validates a single stored or imported preset entry
+ */
+function validatePresetEntry(value: unknown): { name: string; effects: PresetEffects } {
+  const entry = value as { name?: unknown; effects?: unknown } | null
+  const name = typeof entry?.name === 'string' ? entry.name.trim() : ''
+  if (!name) {
+    throw new Error('Every preset needs a name')
+  }
+  return { name, effects: validatePresetEffects(entry?.effects, name) }
+}
+
+/**
+ * Creates a user preset with a fresh id
+ */
+export function createUserPreset(name: string, effects: PresetEffects): EffectPreset {
+  return { id: `user:${crypto.randomUUID()}`, name: name.trim(), effects: { ...effects }, factory: false }
+}
+
+/**
+ * Serialises presets to the versioned file format
+ */
+export function serializePresets(presets: readonly EffectPreset[]): string {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, effects }) => ({ name, effects }))
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Parses and validates a preset file
+ * @returns New user presets, one per entry in the file
+ * @throws Error with a message suitable for showing to the user
+ */
+export function parsePresetFile(text: string): EffectPreset[] {
+  let file: Partial<PresetFile>
+  try {
+    file = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  if (file?.format !== PRESET_FILE_FORMAT) {
+    throw new Error('The file is not a Studio Player preset file')
+  }
+  if (typeof file.version !== 'number' || file.version < 1) {
+    throw new Error('The preset file has no valid version')
+  }
+  if (file.version > PRESET_FILE_VERSION) {
+    throw new Error(`The preset file is version ${file.version}; this player reads up to version ${PRESET_FILE_VERSION}`)
+  }
+  if (!Array.isArray(file.presets) || file.presets.length === 0) {
+    throw new Error('The preset file contains no presets')
+  }
+
+  return file.presets.map(entry => {
+    const { name, effects } = validatePresetEntry(entry)
+    return createUserPreset(name, effects)
+  })
+}
+
+/**
+ * Reads user presets from localStorage
+ * Invalid entries are dropped rather than failing the whole list
+ */
+export function loadUserPresets(): EffectPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    if (!Array.isArray(stored)) return []
+
+    return stored.flatMap((entry: { id?: unknown }) => {
+      try {
+        const { name, effects } = validatePresetEntry(entry)
+        const id = typeof entry.id === 'string' && entry.id.startsWith('user:') ? entry.id : createUserPreset(name, effects).id
+        return [{ id, name, effects, factory: false }]
+      } catch (error) {
+        console.warn('Skipping invalid stored preset:', error)
+        return []
+      }
+    })
+  } catch (error) {
+    console.error('Failed to read user presets:', error)
+    return []
+  }
+}
+
+/**
+ * Writes user presets to localStorage
+ */
+export function saveUserPresets(presets: readonly EffectPreset[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.map(({ id, name, effects }) => ({ id, name, effects }))))
+  } catch (error) {
+    console.error('Failed to save user presets:', error)
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Playback Queue
+ * Pure reducer and selectors for the ordered track queue with shuffle and repeat.
+ * Shuffle keeps a stable order of track ids so toggling it or editing the
+ * queue never reshuffles what is left to play.
+ */
+
+import { type Track } from '@/lib/track'
+
+/** Repeat behaviour once the current track (or the whole queue) ends */
+export type RepeatMode = 'off' | 'all' | 'one'
+
+/**
+ * Queue State Interface
+ */
+export interface QueueState {
+  /** Tracks in user-visible order */
+  tracks: Track[]
+  /** Index into `tracks` of the loaded track, -1 when the queue is empty */
+  currentIndex: number
+  shuffle: boolean
+  /** Play order while shuffling, as track ids - stable until shuffle is re-enabled */
+  shuffleOrder: string[]
+  repeat: RepeatMode
+}
+
+export type QueueAction =
+  /** Appends tracks; `select` jumps to the first of them */
+  | { type: 'add'; tracks: Track[]; select?: boolean }
+  | { type: 'remove'; trackId: string }
+  | { type: 'move'; from: number; to: number }
+  | { type: 'select'; index: number }
+  /** Moves a queued track so it plays straight after the current one */
+  | { type: 'playNext'; trackId: string }
+  /** `seed` makes the shuffle deterministic so the reducer stays pure */
+  | { type: 'toggleShuffle'; seed: number }
+  | { type: 'cycleRepeat' }
+
+/** Order the repeat button cycles through */
+const REPEAT_CYCLE: readonly RepeatMode[] = ['off', 'all', 'one']
+
+/**
+ * Creates the initial queue holding the given tracks
+ */
+export function createQueue(tracks: Track[]): QueueState {
+  return {
+    tracks,
+    currentIndex: tracks.length > 0 ? 0 : -1,
+    shuffle: false,
+    shuffleOrder: [],
+    repeat: 'off'
+  }
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so a shuffle can be replayed from its seed
+ */
+function createRandom(seed: number): () => number {
+  let state = Math.floor(seed * 0xffffffff) >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Builds a shuffled play order that starts with the current track
+ */
+function createShuffleOrder(tracks: Track[], currentIndex: number, seed: number): string[] {
+  const random = createRandom(seed)
+  const current = tracks[currentIndex]
+  const rest = tracks.filter((_, index) => index !== currentIndex).map(track => track.id)
+
+  // Fisher-Yates
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[rest[i], rest[j]] = [rest[j], rest[i]]
+  }
+
+  return current ? [current.id, ...rest] : rest
+}
+
+/**
+ * Returns the play order as indices into `tracks`
+ */
+export function getPlayOrder(state: QueueState): number[] {
+  if (!state.shuffle) {
+    return state.tracks.map((_, index) => index)
+  }
+  return state.shuffleOrder
+    .map(id => state.tracks.findIndex(track => track.id === id))
+    .filter(index => index !== -1)
+}
+
+/**
+ * Works out which track follows the current one
+ * @param auto - True when advancing because the track ended (honours repeat-one)
+ * @returns Index of the next track, or null when playback should stop
+ */
+export function getNextIndex(state: QueueState, auto: boolean): number | null {
+  if (state.currentIndex === -1) return null
+  if (auto && state.repeat === 'one') return state.currentIndex
+
+  const order = getPlayOrder(state)
+  const position = order.indexOf(state.currentIndex)
+
+  if (position + 1 < order.length) return order[position + 1]
+  return state.repeat === 'off' ? null : order[0]
+}
+
+/**
+ * Works out which track precedes the current one
+ * @returns Index of the previous track, or null at the start without repeat-all
+ */
+export function getPreviousIndex(state: QueueState): number | null {
+  if (state.currentIndex === -1) return null
+
+  const order = getPlayOrder(state)
+  const position = order.indexOf(state.currentIndex)
+
+  if (position > 0) return order[position - 1]
+  return state.repeat === 'off' ? null : order[order.length - 1]
+}
+
+/**
+ * Queue reducer - use with React's useReducer
+ */
+export function queueReducer(state: QueueState, action: QueueAction): QueueState {
+  switch (action.type) {
+    case 'add': {
+      if (action.tracks.length === 0) return state
+      const tracks = [...state.tracks, ...action.tracks]
+      return {
+        ...state,
+        tracks,
+        currentIndex: action.select || state.currentIndex === -1 ? state.tracks.length : state.currentIndex,
+        // New tracks play after everything already shuffled
+        shuffleOrder: state.shuffle ? [...state.shuffleOrder, ...action.tracks.map(track => track.id)] : state.shuffleOrder
+      }
+    }
+
+    case 'remove': {
+      const index = state.tracks.findIndex(track => track.id === action.trackId)
+      if (index === -1) return state
+
+      const tracks = state.tracks.filter((_, i) => i !== index)
+      let currentIndex = state.currentIndex
+      if (index < currentIndex) {
+        currentIndex -= 1
+      } else if (index === currentIndex) {
+        // Removing the loaded track falls through to whatever took its place
+        currentIndex = Math.min(currentIndex, tracks.length - 1)
+      }
+
+      return {
+        ...state,
+        tracks,
+        currentIndex,
+        shuffleOrder: state.shuffleOrder.filter(id => id !== action.trackId)
+      }
+    }
+
+    case 'move': {
+      const { from, to } = action
+      if (from === to || from < 0 || to < 0 || from >= state.tracks.length || to >= state.tracks.length) {
+        return state
+      }
+
+      const tracks = [...state.tracks]
+      const [moved] = tracks.splice(from, 1)
+      tracks.splice(to, 0, moved)
+
+      // Keep pointing at the same track
+      const currentId = state.tracks[state.currentIndex]?.id
+      return {
+        ...state,
+        tracks,
+        currentIndex: tracks.findIndex(track => track.id === currentId)
+      }
+    }
+
+    case 'select':
+      if (action.index < 0 || action.index >= state.tracks.length) return state
+      return { ...state, currentIndex: action.index }
+
+    case 'playNext': {
+      const index = state.tracks.findIndex(track => track.id === action.trackId)
+      if (index === -1 || index === state.currentIndex) return state
+
+      if (state.shuffle) {
+        const currentId = state.tracks[state.currentIndex]?.id
+        const order = state.shuffleOrder.filter(id => id !== action.trackId)
+        order.splice(order.indexOf(currentId ?? '') + 1, 0, action.trackId)
+        return { ...state, shuffleOrder: order }
+      }
+
+      const target = index < state.currentIndex ? state.currentIndex : state.currentIndex + 1
+      return queueReducer(state, { type: 'move', from: index, to: target })
+    }
+
+    case 'toggleShuffle':
+      return state.shuffle
+        ? { ...state, shuffle: false, shuffleOrder: [] }
+        : { ...state, shuffle: true, shuffleOrder: createShuffleOrder(state.tracks, state.currentIndex, action.seed) }
+
+    case 'cycleRepeat': {
+      const next = REPEAT_CYCLE[(REPEAT_CYCLE.indexOf(state.repeat) + 1) % REPEAT_CYCLE.length]
+      return { ...state, repeat: next }
+    }
+
+    default:
+      return state
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * File Reader
+ * Node-side ByteReader so the shared tag parsers can read files from disk
+ */
+
+import { open } from 'fs/promises'
+import { type ByteReader } from '@/lib/metadata'
+
+/**
+ * Opens a file for random-access reads and runs `task` against it
+ * The handle is always closed, even when the task throws
+ *
+ * @param filePath - Absolute path of the file
+ * @param task - Work to perform with the reader
+ */
+export async function withFileReader<T>(filePath: string, task: (reader: ByteReader) => Promise<T>): Promise<T> {
+  const handle = await open(filePath, 'r')
+
+  try {
+    const { size } = await handle.stat()
+    const reader: ByteReader = {
+      size,
+      read: async (offset, length) => {
+        const available = Math.max(0, Math.min(length, size - offset))
+        const buffer = new Uint8Array(available)
+        if (available > 0) {
+          await handle.read(buffer, 0, available, offset)
+        }
+        return buffer
+      }
+    }
+
+    return await task(reader)
+  } finally {
+    await handle.close()
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * HTTP Range Parsing
+ * Single-range support for the `Range: bytes=...` header (RFC 9110 §14)
+ */
+
+/**
+ * Inclusive byte range within a resource
+ */
+export interface ByteRange {
+  start: number
+  end: number
+}
+
+/**
+ * Parses a Range header against a resource size
+ *
+ * Multi-range requests are answered with their first range only, which every
+ * media element accepts; players never ask for more than one.
+ *
+ * @param header - Raw Range header value, or null when absent
+ * @param size - Resource size in bytes
+ * @returns The range, null when the whole resource should be sent, or
+ *          'unsatisfiable' when the range lies outside the resource
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | null | 'unsatisfiable' {
+  if (!header) return null
+
+  const match = header.match(/^bytes=\s*(\d*)\s*-\s*(\d*)/)
+  if (!match) return null
+
+  const [, startText, endText] = match
+  if (!startText && !endText) return null
+
+  let start: number
+  let end: number
+
+  if (!startText) {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(endText, 10)
+    if (suffixLength === 0) return 'unsatisfiable'
+    start = Math.max(0, size - suffixLength)
+    end = size - 1
+  } else {
+    start = parseInt(startText, 10)
+    end = endText ? Math.min(parseInt(endText, 10), size - 1) : size - 1
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable'
+  return { start, end }
+}
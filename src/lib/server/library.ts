@@ -0,0 +1,274 @@
+/**
+ * Music Library Index (server only)
+ *
+ * Scans the directory named by MUSIC_LIBRARY_DIR, reads each file's tags with
+ * the shared parsers and keeps the result in a small JSON database so restarts
+ * and rescans only re-read files whose size or modification time changed.
+ */
+
+import { createHash } from 'crypto'
+import { mkdir, readFile, readdir, rename, stat, writeFile } from 'fs/promises'
+import path from 'path'
+import { type AudioTags, type TagPicture, parseAudioTags } from '@/lib/metadata'
+import { type LibraryResponse, type LibraryTrack } from '@/lib/library/types'
+import { omit } from '@/lib/utils'
+import { withFileReader } from './file-reader'
+
+/** MIME types served for each supported extension */
+const MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.wav': 'audio/wav',
+  '.aif': 'audio/aiff',
+  '.aiff': 'audio/aiff',
+  '.webm': 'audio/webm'
+}
+
+/** Bump when the stored record shape changes to force a full re-read */
+const DATABASE_VERSION = 1
+
+/**
+ * Indexed File
+ * A library track plus the on-disk details needed to serve and re-validate it
+ */
+interface IndexedFile extends LibraryTrack {
+  /** Path relative to the library root, always with forward slashes */
+  relativePath: string
+  size: number
+  mtimeMs: number
+}
+
+interface LibraryDatabase {
+  version: number
+  root: string
+  scannedAt: string | null
+  files: IndexedFile[]
+}
+
+/**
+ * Resolved file ready to be streamed
+ */
+export interface LibraryFile {
+  absolutePath: string
+  mimeType: string
+  size: number
+  mtimeMs: number
+}
+
+let database: LibraryDatabase | null = null
+let scanPromise: Promise<LibraryDatabase> | null = null
+
+/**
+ * Returns the configured library root, or null when unset
+ */
+export function getLibraryRoot(): string | null {
+  const root = process.env.MUSIC_LIBRARY_DIR
+  return root ? path.resolve(root) : null
+}
+
+/**
+ * Location of the JSON database (MUSIC_LIBRARY_DB, default .library/library.json)
+ */
+function getDatabasePath(): string {
+  return path.resolve(process.env.MUSIC_LIBRARY_DB ?? path.join('.library', 'library.json'))
+}
+
+/**
+ * Derives a URL-safe id that stays stable while the file keeps its path
+ */
+function createTrackId(relativePath: string): string {
+  return createHash('sha1').update(relativePath).digest('base64url').slice(0, 16)
+}
+
+/**
+ * Loads the database from disk, starting fresh when it is missing, stale or for another root
+ */
+async function loadDatabase(root: string): Promise<LibraryDatabase> {
+  if (database?.root === root) return database
+
+  const empty: LibraryDatabase = { version: DATABASE_VERSION, root, scannedAt: null, files: [] }
+
+  try {
+    const stored = JSON.parse(await readFile(getDatabasePath(), 'utf-8')) as LibraryDatabase
+    database = stored.version === DATABASE_VERSION && stored.root === root ? stored : empty
+  } catch {
+    // First run - nothing stored yet
+    database = empty
+  }
+
+  return database
+}
+
+/**
+ * Persists the database, writing to a temporary file first so a crash never truncates it
+ */
+async function saveDatabase(data: LibraryDatabase): Promise<void> {
+  const databasePath = getDatabasePath()
+  await mkdir(path.dirname(databasePath), { recursive: true })
+  await writeFile(`${databasePath}.tmp`, JSON.stringify(data))
+  await rename(`${databasePath}.tmp`, databasePath)
+}
+
+/**
+ * Recursively lists supported audio files, skipping hidden entries
+ */
+async function listAudioFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true })
+  const files: string[] = []
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue
+
+    const fullPath = path.join(directory, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...(await listAudioFiles(fullPath)))
+    } else if (entry.isFile() && MIME_TYPES[path.extname(entry.name).toLowerCase()]) {
+      files.push(fullPath)
+    }
+  }
+
+  return files
+}
+
+/**
+ * Builds an index record from freshly parsed tags
+ */
+function createRecord(relativePath: string, size: number, mtimeMs: number, tags: AudioTags): IndexedFile {
+  const fileName = path.basename(relativePath)
+
+  return {
+    id: createTrackId(relativePath),
+    version: `${size.toString(36)}-${Math.floor(mtimeMs).toString(36)}`,
+    title: tags.title ?? fileName.replace(/\.[^.]+$/, '').replace(/_+/g, ' ').trim(),
+    artist: tags.artist ?? '',
+    album: tags.album ?? '',
+    genre: tags.genre ?? '',
+    year: tags.year ?? null,
+    trackNumber: tags.trackNumber ?? null,
+    discNumber: tags.discNumber ?? null,
+    duration: tags.duration ?? null,
+    hasArtwork: Boolean(tags.picture),
+    relativePath,
+    size,
+    mtimeMs
+  }
+}
+
+/**
+ * Rescans the library directory
+ * Concurrent callers share one scan; unchanged files reuse their stored tags
+ */
+export function scanLibrary(): Promise<LibraryDatabase> {
+  const root = getLibraryRoot()
+  if (!root) {
+    return Promise.reject(new Error('MUSIC_LIBRARY_DIR is not configured'))
+  }
+
+  scanPromise ??= (async () => {
+    const previous = await loadDatabase(root)
+    const known = new Map(previous.files.map(file => [file.relativePath, file]))
+    const files: IndexedFile[] = []
+
+    for (const absolutePath of await listAudioFiles(root)) {
+      const relativePath = path.relative(root, absolutePath).split(path.sep).join('/')
+
+      try {
+        const { size, mtimeMs } = await stat(absolutePath)
+        const existing = known.get(relativePath)
+
+        if (existing && existing.size === size && existing.mtimeMs === mtimeMs) {
+          files.push(existing)
+          continue
+        }
+
+        const tags = await withFileReader(absolutePath, parseAudioTags)
+        files.push(createRecord(relativePath, size, mtimeMs, tags))
+      } catch (error) {
+        console.warn(`Skipping unreadable library file ${relativePath}:`, error)
+      }
+    }
+
+    const next: LibraryDatabase = {
+      version: DATABASE_VERSION,
+      root,
+      scannedAt: new Date().toISOString(),
+      files
+    }
+
+    database = next
+    await saveDatabase(next)
+    console.log(`Library scan complete: ${files.length} tracks`)
+    return next
+  })().finally(() => {
+    scanPromise = null
+  })
+
+  return scanPromise
+}
+
+/**
+ * Strips server-only fields before sending records to the client
+ */
+function toLibraryTrack(file: IndexedFile): LibraryTrack {
+  return omit(file, ['relativePath', 'size', 'mtimeMs'])
+}
+
+/**
+ * Returns the library, scanning on first use
+ */
+export async function getLibrary(): Promise<LibraryResponse> {
+  const root = getLibraryRoot()
+  if (!root) {
+    return { configured: false, tracks: [], scannedAt: null }
+  }
+
+  let data = await loadDatabase(root)
+  if (!data.scannedAt) {
+    data = await scanLibrary()
+  }
+
+  return { configured: true, tracks: data.files.map(toLibraryTrack), scannedAt: data.scannedAt }
+}
+
+/**
+ * Resolves a track id to its file on disk
+ * Only indexed files can be resolved, so ids can never escape the library root
+ *
+ * @returns The file, or null when the id is unknown or the file has gone
+ */
+export async function findLibraryFile(id: string): Promise<LibraryFile | null> {
+  const root = getLibraryRoot()
+  if (!root) return null
+
+  const data = await loadDatabase(root)
+  const record = data.files.find(file => file.id === id)
+  if (!record) return null
+
+  const absolutePath = path.join(root, ...record.relativePath.split('/'))
+
+  try {
+    const { size, mtimeMs } = await stat(absolutePath)
+    const mimeType = MIME_TYPES[path.extname(absolutePath).toLowerCase()] ?? 'application/octet-stream'
+    return { absolutePath, mimeType, size, mtimeMs }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads the embedded cover art of a library track
+ * @returns The picture, or null when the track has none
+ */
+export async function readLibraryArtwork(id: string): Promise<TagPicture | null> {
+  const file = await findLibraryFile(id)
+  if (!file) return null
+
+  const tags = await withFileReader(file.absolutePath, parseAudioTags)
+  return tags.picture ?? null
+}
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_EFFECT_CHAIN, DEFAULT_EFFECTS, EFFECT_LIMITS, EQ_BAND_LIMITS } from '@/lib/effects'
+import { toPresetEffects } from '@/lib/presets'
+import { createShareUrl, decodeEffects, parseShareHash } from './share'
+
+const PAGE_URL = 'https://player.example/'
+
+/**
+ * A link hash carrying the given text as its effect settings
+ */
+function effectsHash(text: string): string {
+  return `#fx=${Buffer.from(text).toString('base64url')}`
+}
+
+describe('decodeEffects', () => {
+  it('clamps out-of-range numbers to the effect limits', () => {
+    const effects = decodeEffects({ gain: 50, speed: 0.01, lowPass: -3 })
+
+    expect(effects.gain).toBe(EFFECT_LIMITS.gain.max)
+    expect(effects.speed).toBe(EFFECT_LIMITS.speed.min)
+    expect(effects.lowPass).toBe(EFFECT_LIMITS.lowPass.min)
+  })
+
+  it('keeps the default for numbers that are not finite', () => {
+    const effects = decodeEffects({ gain: null, speed: '1.5', pitch: Number.NaN, reverb: Number.POSITIVE_INFINITY })
+
+    expect(effects.gain).toBe(DEFAULT_EFFECTS.gain)
+    expect(effects.speed).toBe(DEFAULT_EFFECTS.speed)
+    expect(effects.pitch).toBe(DEFAULT_EFFECTS.pitch)
+    expect(effects.reverb).toBe(DEFAULT_EFFECTS.reverb)
+  })
+
+  it('drops EQ bands of unknown type and clamps the rest', () => {
+    const effects = decodeEffects({
+      eqBands: [
+        { type: 'shelf', frequency: 100, gain: 3, q: 1 },
+        { type: 'peaking', frequency: 50000, gain: -40, q: 'wide' }
+      ]
+    })
+
+    expect(effects.eqBands).toEqual([
+      { type: 'peaking', frequency: EQ_BAND_LIMITS.frequency.max, gain: EQ_BAND_LIMITS.gain.min, q: 1 }
+    ])
+  })
+
+  it('drops unknown and repeated chain modules, restoring missing ones in place', () => {
+    const effects = decodeEffects({
+      chain: [
+        { module: 'reverb', bypassed: true, mix: 100 },
+        { module: 'wah', bypassed: false, mix: 100 },
+        { module: 'reverb', bypassed: false, mix: 50 }
+      ]
+    })
+
+    expect(effects.chain.map(stage => stage.module).sort()).toEqual(DEFAULT_EFFECT_CHAIN.map(stage => stage.module).sort())
+    expect(effects.chain.filter(stage => stage.module === 'reverb')).toEqual([{ module: 'reverb', bypassed: true, mix: 100 }])
+  })
+
+  it('returns the defaults for anything but an object', () => {
+    expect(decodeEffects('loud')).toEqual(toPresetEffects(DEFAULT_EFFECTS))
+    expect(decodeEffects(null)).toEqual(toPresetEffects(DEFAULT_EFFECTS))
+  })
+})
+
+describe('parseShareHash', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('is null for a hash that is not a share link', () => {
+    expect(parseShareHash('#section')).toBeNull()
+    expect(parseShareHash('')).toBeNull()
+  })
+
+  it('reads effects as null when they are not base64', () => {
+    expect(parseShareHash('#fx=%%%')?.effects).toBeNull()
+  })
+
+  it('reads effects as null when they are not JSON', () => {
+    expect(parseShareHash(effectsHash('{"gain": 2'))?.effects).toBeNull()
+  })
+
+  it('reads a loop given start first', () => {
+    expect(parseShareHash('#loop=1.5-4')?.loop).toEqual({ start: 1.5, end: 4 })
+  })
+
+  it('ignores reversed, empty and half-specified loops', () => {
+    for (const loop of ['5-', '-5', '5-2', '3-3', 'a-b', '']) {
+      expect(parseShareHash(`#loop=${loop}`)?.loop).toBeNull()
+    }
+  })
+
+  it('ignores invalid track ids and positions', () => {
+    const state = parseShareHash('#track=../etc&t=-4')
+
+    expect(state?.trackId).toBeNull()
+    expect(state?.position).toBeNull()
+  })
+
+  it('reads back what a share link was made from', () => {
+    const effects = {
+      ...toPresetEffects(DEFAULT_EFFECTS),
+      gain: 1.25,
+      limiter: !DEFAULT_EFFECTS.limiter,
+      eqBands: [{ type: 'notch' as const, frequency: 3150, gain: 0, q: 8 }],
+      chain: [...DEFAULT_EFFECT_CHAIN].reverse().map(stage => ({ ...stage, mix: 80 }))
+    }
+    const state = { trackId: 'abc_123', position: 12.5, loop: { start: 10, end: 20.25 }, effects }
+
+    const url = new URL(createShareUrl(PAGE_URL, state))
+
+    expect(parseShareHash(url.hash)).toEqual(state)
+  })
+})
@@ -0,0 +1,253 @@
+/**
+ * Shareable Links
+ * Encodes a library track, playback position, loop and effect settings into a
+ * URL hash, and decodes such links defensively - every value is validated and
+ * clamped, so a hand-edited link can never put the player out of range
+ */
+
+import {
+  type DelayMode,
+  type DistortionModel,
+  type DistortionOversample,
+  type EffectModuleId,
+  type EffectStage,
+  type EqBand,
+  type EqBandType,
+  DEFAULT_EFFECT_CHAIN,
+  DEFAULT_EFFECTS,
+  DELAY_MODES,
+  DISTORTION_MODELS,
+  DISTORTION_OVERSAMPLING,
+  EFFECT_LIMITS,
+  EFFECT_MODULE_IDS,
+  EQ_BAND_LIMITS,
+  EQ_BAND_TYPES,
+  MAX_EQ_BANDS,
+  effectChainsEqual,
+  eqBandsEqual,
+  isReverbImpulseId
+} from '@/lib/effects'
+import { type LoopRegion } from '@/lib/loop'
+import { type PresetEffects, PRESET_EFFECT_KEYS, toPresetEffects } from '@/lib/presets'
+
+/**
+ * Shared Player State
+ */
+export interface SharedState {
+  /** Library track id, null when the link carries settings only */
+  trackId: string | null
+  /** Playback position in seconds, null to start at the beginning */
+  position: number | null
+  loop: LoopRegion | null
+  /**
+   * Effect settings - volume is a listening level and is never shared.
+   * Null when a decoded link's settings could not be read at all
+   */
+  effects: PresetEffects | null
+}
+
+/**
+ * Hash parameter names, kept short so links stay readable
+ */
+const PARAMS = {
+  TRACK: 'track',
+  POSITION: 't',
+  LOOP: 'loop',
+  EFFECTS: 'fx'
+} as const
+
+/** Library ids are base64url hashes of the file path */
+const TRACK_ID_PATTERN = /^[\w-]{1,64}$/
+
+/** A loop as `start-end` in seconds, start first */
+const LOOP_PATTERN = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/
+
+/** Decimal places kept for times and effect values */
+const PRECISION = 3
+
+/** Chain stage mix range */
+const STAGE_MIX_LIMITS = { min: 0, max: 100 }
+
+/**
+ * Clamps a value into a range
+ */
+const clamp = (value: number, { min, max }: { min: number; max: number }): number => Math.min(Math.max(value, min), max)
+
+/**
+ * Reads a finite number, or null for anything else
+ */
+const readNumber = (value: unknown): number | null => (typeof value === 'number' && Number.isFinite(value) ? value : null)
+
+/**
+ * Drops slider noise such as 0.7000000001 so the link stays short
+ */
+const round = (value: number): number => Number(value.toFixed(PRECISION))
+
+/**
+ * Encodes text as URL-safe base64
+ */
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('')
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decodes URL-safe base64 text
+ * @throws Error when the value is not base64
+ */
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return new TextDecoder().decode(Uint8Array.from(binary, character => character.charCodeAt(0)))
+}
+
+/**
+ * The settings that differ from DEFAULT_EFFECTS
+ * EQ bands and the chain are included whole when any part of them differs
+ */
+export function diffEffects(effects: Readonly<PresetEffects>): Partial<PresetEffects> {
+  const defaults = toPresetEffects(DEFAULT_EFFECTS)
+  const diff: Partial<Record<keyof PresetEffects, unknown>> = {}
+
+  for (const key of PRESET_EFFECT_KEYS) {
+    if (Math.abs(effects[key] - defaults[key]) > 0.001) diff[key] = round(effects[key])
+  }
+  if (effects.limiter !== defaults.limiter) diff.limiter = effects.limiter
+  if (effects.delayMode !== defaults.delayMode) diff.delayMode = effects.delayMode
+  if (effects.reverbImpulse !== defaults.reverbImpulse) diff.reverbImpulse = effects.reverbImpulse
+  if (effects.distortionModel !== defaults.distortionModel) diff.distortionModel = effects.distortionModel
+  if (effects.distortionOversample !== defaults.distortionOversample) diff.distortionOversample = effects.distortionOversample
+  if (!eqBandsEqual(effects.eqBands, defaults.eqBands)) {
+    diff.eqBands = effects.eqBands.map(band => ({ ...band, frequency: round(band.frequency), gain: round(band.gain), q: round(band.q) }))
+  }
+  if (!effectChainsEqual(effects.chain, defaults.chain)) {
+    diff.chain = effects.chain.map(stage => ({ ...stage, mix: round(stage.mix) }))
+  }
+
+  return diff as Partial<PresetEffects>
+}
+
+/**
+ * Reads EQ bands, dropping bands of unknown type and clamping the rest
+ */
+function decodeEqBands(value: unknown[]): EqBand[] {
+  return value.slice(0, MAX_EQ_BANDS).flatMap(entry => {
+    const band = (entry ?? {}) as Record<string, unknown>
+    if (!EQ_BAND_TYPES.some(({ type }) => type === band.type)) return []
+    return [{
+      type: band.type as EqBandType,
+      frequency: clamp(readNumber(band.frequency) ?? 1000, EQ_BAND_LIMITS.frequency),
+      gain: clamp(readNumber(band.gain) ?? 0, EQ_BAND_LIMITS.gain),
+      q: clamp(readNumber(band.q) ?? 1, EQ_BAND_LIMITS.q)
+    }]
+  })
+}
+
+/**
+ * Reads an effect chain, dropping unknown and repeated modules
+ * Modules the link leaves out are inserted at their default position
+ */
+function decodeEffectChain(value: unknown[]): EffectStage[] {
+  const seen = new Set<EffectModuleId>()
+  const chain = value.flatMap(entry => {
+    const stage = (entry ?? {}) as Record<string, unknown>
+    const moduleId = stage.module as EffectModuleId
+    if (!EFFECT_MODULE_IDS.includes(moduleId) || seen.has(moduleId)) return []
+    seen.add(moduleId)
+    return [{ module: moduleId, bypassed: stage.bypassed === true, mix: clamp(readNumber(stage.mix) ?? 100, STAGE_MIX_LIMITS) }]
+  })
+
+  DEFAULT_EFFECT_CHAIN.forEach((stage, index) => {
+    if (!seen.has(stage.module)) chain.splice(Math.min(index, chain.length), 0, { ...stage })
+  })
+  return chain
+}
+
+/**
+ * Reads shared settings on top of DEFAULT_EFFECTS
+ * Numbers are clamped to EFFECT_LIMITS; fields that are missing or unreadable keep their default
+ */
+export function decodeEffects(value: unknown): PresetEffects {
+  const effects = toPresetEffects(DEFAULT_EFFECTS)
+  if (typeof value !== 'object' || value === null) return effects
+  const source = value as Record<string, unknown>
+
+  for (const key of PRESET_EFFECT_KEYS) {
+    const number = readNumber(source[key])
+    if (number !== null) effects[key] = clamp(number, EFFECT_LIMITS[key])
+  }
+
+  if (typeof source.limiter === 'boolean') effects.limiter = source.limiter
+  if (DELAY_MODES.some(({ mode }) => mode === source.delayMode)) {
+    effects.delayMode = source.delayMode as DelayMode
+  }
+  if (isReverbImpulseId(source.reverbImpulse)) effects.reverbImpulse = source.reverbImpulse
+  if (DISTORTION_MODELS.some(({ model }) => model === source.distortionModel)) {
+    effects.distortionModel = source.distortionModel as DistortionModel
+  }
+  if (DISTORTION_OVERSAMPLING.some(({ oversample }) => oversample === source.distortionOversample)) {
+    effects.distortionOversample = source.distortionOversample as DistortionOversample
+  }
+  if (Array.isArray(source.eqBands)) effects.eqBands = decodeEqBands(source.eqBands)
+  if (Array.isArray(source.chain)) effects.chain = decodeEffectChain(source.chain)
+
+  return effects
+}
+
+/**
+ * Builds a link to the given state on top of a page URL
+ * Only settings that differ from the defaults are written
+ */
+export function createShareUrl(pageUrl: string, state: Readonly<SharedState>): string {
+  const url = new URL(pageUrl)
+  const params = new URLSearchParams()
+
+  if (state.trackId) params.set(PARAMS.TRACK, state.trackId)
+  if (state.position !== null && state.position > 0) params.set(PARAMS.POSITION, String(round(state.position)))
+  if (state.loop) params.set(PARAMS.LOOP, `${round(state.loop.start)}-${round(state.loop.end)}`)
+  if (state.effects) {
+    const diff = diffEffects(state.effects)
+    if (Object.keys(diff).length > 0) params.set(PARAMS.EFFECTS, toBase64Url(JSON.stringify(diff)))
+  }
+
+  url.hash = params.toString()
+  return url.toString()
+}
+
+/**
+ * Reads a link's hash
+ * @returns The shared state, or null when the hash is not a share link
+ */
+export function parseShareHash(hash: string): SharedState | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  if (!Object.values(PARAMS).some(name => params.has(name))) return null
+
+  const track = params.get(PARAMS.TRACK)
+  const trackId = track && TRACK_ID_PATTERN.test(track) ? track : null
+  if (track && !trackId) console.warn('Ignoring invalid shared track id:', track)
+
+  const position = Number(params.get(PARAMS.POSITION))
+  const loopParam = params.get(PARAMS.LOOP)
+  const loopMatch = LOOP_PATTERN.exec(loopParam ?? '')
+  const loop = loopMatch && Number(loopMatch[1]) < Number(loopMatch[2])
+    ? { start: Number(loopMatch[1]), end: Number(loopMatch[2]) }
+    : null
+  if (loopParam !== null && !loop) console.warn('Ignoring invalid shared loop:', loopParam)
+
+  let effects: PresetEffects | null = toPresetEffects(DEFAULT_EFFECTS)
+  const encodedEffects = params.get(PARAMS.EFFECTS)
+  if (encodedEffects) {
+    try {
+      effects = decodeEffects(JSON.parse(fromBase64Url(encodedEffects)))
+    } catch (error) {
+      console.warn('Ignoring unreadable shared effect settings:', error)
+      effects = null
+    }
+  }
+
+  return {
+    trackId,
+    position: Number.isFinite(position) && position > 0 ? position : null,
+    loop,
+    effects
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Track Model
+ * Shared track types plus helpers for turning local files into playable tracks
+ */
+
+import { createBlobReader, parseAudioTags } from '@/lib/metadata'
+
+/**
+ * Track Information Interface
+ * Contains metadata about the currently playing track
+ */
+export interface TrackInfo {
+  title: string
+  artist: string
+  album: string
+  genre: string
+  /** Display duration (M:SS), empty until known */
+  duration: string
+  /** Release year, null when untagged */
+  year: number | null
+  /** Cover art URL (an object URL for local files), null when there is none */
+  artworkUrl: string | null
+}
+
+/**
+ * Playable Track
+ * Pairs an audio source with its display metadata
+ */
+export interface Track {
+  /** Unique identifier for the lifetime of the page */
+  id: string
+  /** Stable identity across reloads, used to key analysis caches */
+  cacheKey: string
+  /** Audio element source - a static path or an object URL */
+  src: string
+  info: TrackInfo
+}
+
+/**
+ * Placeholder info shown while the queue is empty
+ */
+export const EMPTY_TRACK_INFO: Readonly<TrackInfo> = {
+  title: 'No track loaded',
+  artist: 'Open or drop audio files to start',
+  album: '',
+  genre: '',
+  duration: '',
+  year: null,
+  artworkUrl: null
+}
+
+/** File extensions accepted when the browser reports no MIME type */
+const AUDIO_EXTENSIONS = /\.(mp3|m4a|mp4|aac|flac|ogg|oga|opus|wav|aiff?|webm)$/i
+
+/**
+ * Formats a duration in seconds as M:SS
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const remainder = Math.floor(seconds % 60)
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`
+}
+
+/**
+ * Checks whether a file looks like something the audio element can play
+ */
+export function isAudioFile(file: File): boolean {
+  return file.type.startsWith('audio/') || AUDIO_EXTENSIONS.test(file.name)
+}
+
+/**
+ * Derives a readable title from a file name ("01_my_song.flac" -> "01 my song")
+ */
+export function titleFromFileName(fileName: string): string {
+  const title = fileName.replace(/\.[^.]+$/, '').replace(/_+/g, ' ').trim()
+  return title || fileName
+}
+
+/**
+ * Creates a playable track from a local file, filling metadata from its tags
+ * Object URLs are allocated for the audio and artwork - pass the track to
+ * releaseTrack once it is no longer needed
+ *
+ * @param file - Audio file from a file input or drop event
+ */
+export async function createTrackFromFile(file: File): Promise<Track> {
+  const tags = await parseAudioTags(createBlobReader(file))
+
+  const artworkUrl = tags.picture
+    ? URL.createObjectURL(new Blob([tags.picture.data], { type: tags.picture.mimeType }))
+    : null
+
+  return {
+    id: crypto.randomUUID(),
+    // Object URLs change every load, so identify local files by their attributes
+    cacheKey: `file:${file.name}:${file.size}:${file.lastModified}`,
+    src: URL.createObjectURL(file),
+    info: {
+      title: tags.title ?? titleFromFileName(file.name),
+      artist: tags.artist ?? 'Unknown Artist',
+      album: tags.album ?? '',
+      genre: tags.genre ?? '',
+      duration: tags.duration ? formatDuration(tags.duration) : '',
+      year: tags.year ?? null,
+      artworkUrl
+    }
+  }
+}
+
+/**
+ * Frees the object URLs held by a track created from a local file
+ */
+export function releaseTrack(track: Track): void {
+  if (track.src.startsWith('blob:')) URL.revokeObjectURL(track.src)
+  if (track.info.artworkUrl?.startsWith('blob:')) URL.revokeObjectURL(track.info.artworkUrl)
+}
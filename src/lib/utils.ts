@@ -4,3 +4,12 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Copies an object without the given keys
+ */
+export function omit<T extends object, K extends keyof T>(object: T, keys: readonly K[]): Omit<T, K> {
+  const result: Partial<T> = { ...object }
+  keys.forEach(key => delete result[key])
+  return result as Omit<T, K>
+}
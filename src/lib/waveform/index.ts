@@ -0,0 +1,179 @@
+/**
+ * Waveform Peaks Loading
+ * Reduces a track's decoded audio in a worker and caches the result per file in
+ * IndexedDB, with the detail levels of long tracks in separate chunk records
+ */
+
+import { withDecodedAudio } from '@/lib/audio/decode'
+import { STORES, idbGet, idbPut } from '@/lib/idb'
+import { type Track } from '@/lib/track'
+import {
+  type DetailLevel,
+  type PeakLevel,
+  type WaveformPeaks,
+  PEAK_CHUNK_SIZE,
+  PEAK_RESOLUTIONS,
+  computePeakWindow,
+  joinPeakChunks
+} from './peaks'
+import type { PeaksWorkerRequest, PeaksWorkerResponse } from './peaks.worker'
+
+export {
+  type DetailLevel,
+  type PeakLevel,
+  type WaveformPeaks,
+  getLoudestPeak,
+  getPeakWindowRange,
+  peakWindowCovers,
+  selectPeakLevelForScale
+} from './peaks'
+export {
+  type WaveformViewport,
+  VIEWPORT_CONFIG,
+  clampViewport,
+  fitViewport,
+  followPlayhead,
+  formatWaveformTime,
+  getMinSpan,
+  getRulerStep,
+  getTimePrecision,
+  zoomViewport
+} from './viewport'
+
+/** Cache format version - bump when PEAK_RESOLUTIONS, MAX_PEAKS_PER_LEVEL, PEAK_CHUNK_SIZE or the level layout changes */
+const CACHE_VERSION = 4
+
+/**
+ * Worker Reply
+ * Whole levels, detail chunks, and the channels handed back
+ */
+interface PeaksReply {
+  levels: PeakLevel[]
+  detailLevels: DetailLevel[]
+  chunks: PeakLevel[]
+  channels: Float32Array[]
+}
+
+let worker: Worker | null = null
+let nextRequestId = 0
+const pendingRequests = new Map<number, {
+  resolve: (reply: PeaksReply) => void
+  reject: (error: Error) => void
+}>()
+
+/**
+ * Cache key of the track's peaks record
+ */
+function getPeaksKey(track: Track): string {
+  return `v${CACHE_VERSION}:${track.cacheKey}`
+}
+
+/**
+ * Cache key of one chunk of a detail level
+ */
+function getChunkKey(track: Track, samplesPerPeak: number, index: number): string {
+  return `${getPeaksKey(track)}:${samplesPerPeak}:${index}`
+}
+
+/**
+ * Lazily starts the shared peaks worker
+ */
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./peaks.worker.ts', import.meta.url), { type: 'module' })
+    worker.addEventListener('message', (event: MessageEvent<PeaksWorkerResponse>) => {
+      const pending = pendingRequests.get(event.data.id)
+      if (!pending) return
+      pendingRequests.delete(event.data.id)
+
+      if ('error' in event.data) {
+        pending.reject(new Error(event.data.error))
+      } else {
+        pending.resolve(event.data)
+      }
+    })
+  }
+  return worker
+}
+
+/**
+ * Transfers (not copies) decoded channel data to the worker, which transfers it back with the peaks
+ */
+function computeLevelsInWorker(channels: Float32Array[]): Promise<PeaksReply> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++
+    pendingRequests.set(id, { resolve, reject })
+
+    const request: PeaksWorkerRequest = { id, channels, resolutions: PEAK_RESOLUTIONS }
+    getWorker().postMessage(request, channels.map(channel => channel.buffer))
+  })
+}
+
+/**
+ * Loads waveform peaks for a track, decoding only on a cache miss
+ * Cache failures are logged and otherwise ignored
+ *
+ * @param track - Track to analyse
+ * @returns The levels kept whole; detail levels are read with loadPeakWindow
+ */
+export async function loadWaveformPeaks(track: Track): Promise<WaveformPeaks> {
+  const cacheKey = getPeaksKey(track)
+
+  try {
+    const cached = await idbGet<WaveformPeaks>(STORES.WAVEFORM_PEAKS, cacheKey)
+    if (cached) return cached
+  } catch (error) {
+    console.warn('Waveform cache unavailable:', error)
+  }
+
+  // One decode serves the waveform and track analysis alike
+  const { peaks, chunks } = await withDecodedAudio(track.cacheKey, track.src, async audio => {
+    const { levels, detailLevels, chunks, channels } = await computeLevelsInWorker(audio.channels)
+    const result = { peaks: { duration: audio.duration, sampleRate: audio.sampleRate, levels, detailLevels }, chunks }
+    return { result, channels }
+  })
+
+  // The peaks record goes in last, so a cached one always has its chunks
+  Promise.all(chunks.map(chunk => (
+    idbPut(STORES.WAVEFORM_PEAKS, getChunkKey(track, chunk.samplesPerPeak, chunk.offset / PEAK_CHUNK_SIZE), chunk)
+  )))
+    .then(() => idbPut(STORES.WAVEFORM_PEAKS, cacheKey, peaks))
+    .catch(error => {
+      console.warn('Failed to cache waveform peaks:', error)
+    })
+
+  return peaks
+}
+
+/**
+ * Loads peaks [firstPeak, endPeak) of a detail level, whole chunks at a time
+ * Chunks missing from the cache are reduced from the decoded audio instead
+ *
+ * @param track - Track the peaks belong to
+ * @param samplesPerPeak - Resolution of one of the track's detail levels
+ * @returns A window of the level covering at least the range
+ */
+export async function loadPeakWindow(
+  track: Track,
+  samplesPerPeak: number,
+  firstPeak: number,
+  endPeak: number
+): Promise<PeakLevel> {
+  const firstChunk = Math.floor(firstPeak / PEAK_CHUNK_SIZE)
+  const endChunk = Math.max(firstChunk + 1, Math.ceil(endPeak / PEAK_CHUNK_SIZE))
+  const indices = Array.from({ length: endChunk - firstChunk }, (_, index) => firstChunk + index)
+
+  try {
+    const chunks = await Promise.all(indices.map(index => (
+      idbGet<PeakLevel>(STORES.WAVEFORM_PEAKS, getChunkKey(track, samplesPerPeak, index))
+    )))
+    if (chunks.every(chunk => chunk)) return joinPeakChunks(chunks as PeakLevel[])
+  } catch (error) {
+    console.warn('Waveform cache unavailable:', error)
+  }
+
+  return withDecodedAudio(track.cacheKey, track.src, async audio => ({
+    result: computePeakWindow(audio.channels, samplesPerPeak, firstChunk * PEAK_CHUNK_SIZE, endChunk * PEAK_CHUNK_SIZE),
+    channels: audio.channels
+  }))
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_PEAKS_PER_LEVEL,
+  PEAK_CHUNK_SIZE,
+  PEAK_RESOLUTIONS,
+  type PeakLevel,
+  computePeakLevels,
+  computePeakWindow,
+  getPeakWindowRange,
+  joinPeakChunks,
+  selectPeakLevelForScale,
+  splitPeakLevels
+} from './peaks'
+
+/**
+ * A level of the given length with recognisable values
+ */
+function fakeLevel(samplesPerPeak: number, length: number): PeakLevel {
+  const values = Float32Array.from({ length }, (_, index) => index)
+  return { samplesPerPeak, offset: 0, min: values.map(value => -value), max: values, rms: values.map(value => value / 2) }
+}
+
+describe('splitPeakLevels', () => {
+  it('keeps every level whole for a short track', () => {
+    const levels = [fakeLevel(32, 1000), fakeLevel(128, 250)]
+
+    const split = splitPeakLevels(levels)
+
+    expect(split.levels).toEqual(levels)
+    expect(split.detailLevels).toEqual([])
+    expect(split.chunks).toEqual([])
+  })
+
+  it('chunks the levels too long to keep whole', () => {
+    const length = MAX_PEAKS_PER_LEVEL * 2
+    const levels = PEAK_RESOLUTIONS.map((samplesPerPeak, index) => fakeLevel(samplesPerPeak, Math.ceil(length / 4 ** index)))
+
+    const split = splitPeakLevels(levels)
+
+    expect(split.levels.map(level => level.samplesPerPeak)).toEqual([128, 512, 2048, 8192, 32768])
+    expect(split.detailLevels).toEqual([{ samplesPerPeak: 32, peakCount: length }])
+    expect(split.chunks).toHaveLength(length / PEAK_CHUNK_SIZE)
+    expect(split.chunks[3].offset).toBe(3 * PEAK_CHUNK_SIZE)
+    expect(split.chunks[3].max[0]).toBe(3 * PEAK_CHUNK_SIZE)
+  })
+
+  it('keeps the coarsest level whole however long the track', () => {
+    const split = splitPeakLevels([fakeLevel(32, MAX_PEAKS_PER_LEVEL * 8), fakeLevel(128, MAX_PEAKS_PER_LEVEL * 2)])
+
+    expect(split.levels.map(level => level.samplesPerPeak)).toEqual([128])
+    expect(split.detailLevels.map(level => level.samplesPerPeak)).toEqual([32])
+  })
+
+  it('joins chunks back into the level they were cut from', () => {
+    const level = fakeLevel(32, MAX_PEAKS_PER_LEVEL + 10)
+    const { chunks } = splitPeakLevels([level, fakeLevel(128, 100)])
+
+    const window = joinPeakChunks(chunks.slice(1, 3))
+
+    expect(window.offset).toBe(PEAK_CHUNK_SIZE)
+    expect(window.max).toEqual(level.max.slice(PEAK_CHUNK_SIZE, 3 * PEAK_CHUNK_SIZE))
+  })
+})
+
+describe('computePeakLevels', () => {
+  it('merges coarse levels from the finest, matching a direct reduction', () => {
+    const channel = Float32Array.from({ length: 1000 }, (_, index) => Math.sin(index / 7) * (index / 1000))
+
+    const [fine, coarse] = computePeakLevels([channel], [4, 16])
+    const [direct] = computePeakLevels([channel], [16])
+
+    expect(fine.min).toHaveLength(250)
+    expect(coarse.samplesPerPeak).toBe(16)
+    expect(coarse.min).toEqual(direct.min)
+    expect(coarse.max).toEqual(direct.max)
+    coarse.rms.forEach((value, index) => expect(value).toBeCloseTo(direct.rms[index], 6))
+  })
+
+  it('reduces a window to the same peaks as the whole level', () => {
+    const channel = Float32Array.from({ length: 1000 }, (_, index) => Math.cos(index / 5))
+    const [whole] = computePeakLevels([channel], [8])
+
+    const window = computePeakWindow([channel], 8, 40, 200)
+
+    expect(window.offset).toBe(40)
+    expect(window.max).toEqual(whole.max.slice(40, 125))
+  })
+
+  it('picks the coarsest level no wider than a pixel', () => {
+    const levels = computePeakLevels([new Float32Array(4096)], [32, 128, 512])
+    const peaks = { duration: 1, sampleRate: 4096, levels, detailLevels: [] }
+
+    expect(selectPeakLevelForScale(peaks, 200).samplesPerPeak).toBe(128)
+    expect(selectPeakLevelForScale(peaks, 8).samplesPerPeak).toBe(32)
+  })
+})
+
+describe('getPeakWindowRange', () => {
+  const peaks = {
+    duration: 100,
+    sampleRate: 1000,
+    levels: [fakeLevel(512, 196)],
+    detailLevels: [{ samplesPerPeak: 32, peakCount: 3125 }, { samplesPerPeak: 128, peakCount: 782 }]
+  }
+
+  it('needs no window while the whole levels are fine enough', () => {
+    expect(getPeakWindowRange(peaks, 0, 100, 100)).toBeNull()
+  })
+
+  it('picks the coarsest detail level no wider than a column', () => {
+    expect(getPeakWindowRange(peaks, 10, 20, 100)).toEqual({ samplesPerPeak: 128, firstPeak: 78, endPeak: 235 })
+  })
+
+  it('uses the finest detail level when zoomed past it', () => {
+    expect(getPeakWindowRange(peaks, 99, 1, 1000)).toEqual({ samplesPerPeak: 32, firstPeak: 3093, endPeak: 3125 })
+  })
+})
@@ -0,0 +1,267 @@
+/**
+ * Waveform Peak Reduction
+ * Pure functions that reduce PCM to a pyramid of min/max/RMS peaks, finest
+ * first, split the levels too long to keep whole into chunks, and pick the
+ * level or window a zoomed canvas view should draw from. Shared by the peaks
+ * worker, the loader and the waveform view
+ */
+
+/**
+ * Peak Level
+ * One resolution of the reduced waveform, or a window of one; entry i covers
+ * samples [(offset + i) * samplesPerPeak, (offset + i + 1) * samplesPerPeak)
+ * of every channel combined
+ */
+export interface PeakLevel {
+  samplesPerPeak: number
+  /** Index of the first peak held - 0 for a whole level */
+  offset: number
+  min: Float32Array
+  max: Float32Array
+  rms: Float32Array
+}
+
+/**
+ * Detail Level
+ * A level too long to keep whole, stored in chunks of PEAK_CHUNK_SIZE peaks
+ * and loaded a window at a time
+ */
+export interface DetailLevel {
+  samplesPerPeak: number
+  peakCount: number
+}
+
+/**
+ * Waveform Peaks
+ * Every resolution of a decoded track, finest first
+ */
+export interface WaveformPeaks {
+  /** Duration of the decoded audio in seconds */
+  duration: number
+  sampleRate: number
+  /** Levels kept whole, finest first */
+  levels: PeakLevel[]
+  /** Finer levels kept in chunks, finest first - empty for a short track */
+  detailLevels: DetailLevel[]
+}
+
+/**
+ * Samples per peak for each level of every track. Each level must be an
+ * integer multiple of the previous one so coarse levels can be merged from fine
+ * ones. The finest sets how far the waveform zooms in - under a millisecond
+ * per peak at 44.1 kHz.
+ */
+export const PEAK_RESOLUTIONS = [32, 128, 512, 2048, 8192, 32768] as const
+
+/**
+ * Most peaks in a level kept whole - about 1.5 MB across min, max and RMS.
+ * Longer levels are kept in chunks, so however long the track, only the
+ * coarse overview and the chunks in view are held in memory
+ */
+export const MAX_PEAKS_PER_LEVEL = 131072
+
+/** Peaks in each stored chunk of a detail level - about 384 KB */
+export const PEAK_CHUNK_SIZE = 32768
+
+/**
+ * Reduces the channel data to peaks [firstPeak, endPeak) of one resolution
+ */
+export function computePeakWindow(
+  channels: Float32Array[],
+  samplesPerPeak: number,
+  firstPeak: number,
+  endPeak: number
+): PeakLevel {
+  const length = channels[0]?.length ?? 0
+  const count = Math.max(0, Math.min(endPeak, Math.ceil(length / samplesPerPeak)) - firstPeak)
+  const min = new Float32Array(count)
+  const max = new Float32Array(count)
+  const rms = new Float32Array(count)
+
+  for (let peak = 0; peak < count; peak++) {
+    const start = (firstPeak + peak) * samplesPerPeak
+    const end = Math.min(start + samplesPerPeak, length)
+    let low = 0
+    let high = 0
+    let sumOfSquares = 0
+
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) {
+        const sample = channel[i]
+        if (sample < low) low = sample
+        if (sample > high) high = sample
+        sumOfSquares += sample * sample
+      }
+    }
+
+    min[peak] = low
+    max[peak] = high
+    rms[peak] = Math.sqrt(sumOfSquares / ((end - start) * channels.length))
+  }
+
+  return { samplesPerPeak, offset: firstPeak, min, max, rms }
+}
+
+/**
+ * Merges groups of `factor` peaks into one coarser level
+ * Min/max merge exactly; RMS merges through the mean of squares
+ */
+function mergeLevel(source: PeakLevel, factor: number): PeakLevel {
+  const count = Math.ceil(source.min.length / factor)
+  const min = new Float32Array(count)
+  const max = new Float32Array(count)
+  const rms = new Float32Array(count)
+
+  for (let peak = 0; peak < count; peak++) {
+    const start = peak * factor
+    const end = Math.min(start + factor, source.min.length)
+    let low = 0
+    let high = 0
+    let sumOfSquares = 0
+
+    for (let i = start; i < end; i++) {
+      if (source.min[i] < low) low = source.min[i]
+      if (source.max[i] > high) high = source.max[i]
+      sumOfSquares += source.rms[i] * source.rms[i]
+    }
+
+    min[peak] = low
+    max[peak] = high
+    rms[peak] = Math.sqrt(sumOfSquares / (end - start))
+  }
+
+  return { samplesPerPeak: source.samplesPerPeak * factor, offset: 0, min, max, rms }
+}
+
+/**
+ * Reduces decoded channel data to every level in `resolutions`
+ * @param channels - One Float32Array per channel, equal lengths
+ * @param resolutions - Ascending samples-per-peak values
+ */
+export function computePeakLevels(channels: Float32Array[], resolutions: readonly number[]): PeakLevel[] {
+  const levels: PeakLevel[] = []
+
+  resolutions.forEach((samplesPerPeak, index) => {
+    if (index === 0) {
+      levels.push(computePeakWindow(channels, samplesPerPeak, 0, Infinity))
+    } else {
+      const previous = levels[index - 1]
+      levels.push(mergeLevel(previous, samplesPerPeak / previous.samplesPerPeak))
+    }
+  })
+
+  return levels
+}
+
+/**
+ * Splits levels into those kept whole and chunks of the finer ones that are too long
+ * The coarsest level is always kept whole, so there is an overview to draw
+ * @param levels - Whole levels, finest first
+ */
+export function splitPeakLevels(levels: PeakLevel[]): { levels: PeakLevel[]; detailLevels: DetailLevel[]; chunks: PeakLevel[] } {
+  const whole = levels.findIndex(level => level.min.length <= MAX_PEAKS_PER_LEVEL)
+  const split = whole === -1 ? levels.length - 1 : whole
+  const detail = levels.slice(0, split)
+
+  const chunks = detail.flatMap(level => {
+    const count = Math.ceil(level.min.length / PEAK_CHUNK_SIZE)
+    return Array.from({ length: count }, (_, index): PeakLevel => {
+      const start = index * PEAK_CHUNK_SIZE
+      const end = start + PEAK_CHUNK_SIZE
+      return {
+        samplesPerPeak: level.samplesPerPeak,
+        offset: start,
+        min: level.min.slice(start, end),
+        max: level.max.slice(start, end),
+        rms: level.rms.slice(start, end)
+      }
+    })
+  })
+
+  return {
+    levels: levels.slice(split),
+    detailLevels: detail.map(level => ({ samplesPerPeak: level.samplesPerPeak, peakCount: level.min.length })),
+    chunks
+  }
+}
+
+/**
+ * Joins consecutive chunks of one level into a single window
+ */
+export function joinPeakChunks(chunks: PeakLevel[]): PeakLevel {
+  const count = chunks.reduce((total, chunk) => total + chunk.min.length, 0)
+  const window: PeakLevel = {
+    samplesPerPeak: chunks[0].samplesPerPeak,
+    offset: chunks[0].offset,
+    min: new Float32Array(count),
+    max: new Float32Array(count),
+    rms: new Float32Array(count)
+  }
+
+  let position = 0
+  for (const chunk of chunks) {
+    window.min.set(chunk.min, position)
+    window.max.set(chunk.max, position)
+    window.rms.set(chunk.rms, position)
+    position += chunk.min.length
+  }
+  return window
+}
+
+/**
+ * Picks the detail level and range of peaks a view needs, when it is zoomed in
+ * past the finest whole level - the coarsest detail level no wider than a
+ * column, or the finest when zoomed past that too
+ *
+ * @param start - Start of the view in seconds
+ * @param span - Length of the view in seconds
+ * @param columns - Device pixels across the view
+ * @returns The level and peaks [firstPeak, endPeak), or null when the whole levels suffice
+ */
+export function getPeakWindowRange(
+  peaks: WaveformPeaks,
+  start: number,
+  span: number,
+  columns: number
+): { samplesPerPeak: number; firstPeak: number; endPeak: number } | null {
+  const samplesPerColumn = (span * peaks.sampleRate) / Math.max(1, columns)
+  const finestWhole = peaks.levels[0]?.samplesPerPeak ?? Infinity
+  if (peaks.detailLevels.length === 0 || samplesPerColumn >= finestWhole) return null
+
+  const level = [...peaks.detailLevels].reverse().find(detail => detail.samplesPerPeak <= samplesPerColumn) ?? peaks.detailLevels[0]
+  const firstPeak = Math.max(0, Math.floor((start * peaks.sampleRate) / level.samplesPerPeak))
+  const endPeak = Math.min(level.peakCount, Math.ceil(((start + span) * peaks.sampleRate) / level.samplesPerPeak))
+  return { samplesPerPeak: level.samplesPerPeak, firstPeak, endPeak }
+}
+
+/**
+ * Whether a window holds every peak of a range
+ */
+export function peakWindowCovers(window: PeakLevel, range: { samplesPerPeak: number; firstPeak: number; endPeak: number }): boolean {
+  return window.samplesPerPeak === range.samplesPerPeak &&
+    window.offset <= range.firstPeak &&
+    window.offset + window.min.length >= range.endPeak
+}
+
+/**
+ * Picks the coarsest level whose peaks are no wider than `samplesPerPixel`,
+ * so each pixel reads a handful of peaks at most; the finest when zoomed past it
+ */
+export function selectPeakLevelForScale(peaks: WaveformPeaks, samplesPerPixel: number): PeakLevel {
+  for (let i = peaks.levels.length - 1; i >= 0; i--) {
+    if (peaks.levels[i].samplesPerPeak <= samplesPerPixel) return peaks.levels[i]
+  }
+  return peaks.levels[0]
+}
+
+/**
+ * Largest absolute sample value of the track, for normalising the display
+ */
+export function getLoudestPeak(peaks: WaveformPeaks): number {
+  const level = peaks.levels[peaks.levels.length - 1]
+  let loudest = 0
+  for (let i = 0; i < (level?.min.length ?? 0); i++) {
+    loudest = Math.max(loudest, -level.min[i], level.max[i])
+  }
+  return loudest
+}
@@ -0,0 +1,35 @@
+/**
+ * Waveform Peaks Worker
+ * Reduces decoded PCM to multi-resolution peaks off the main thread, split into
+ * whole levels and detail chunks, and hands the PCM back for the next pipeline
+ * that shares the decode
+ */
+
+import { type DetailLevel, type PeakLevel, computePeakLevels, splitPeakLevels } from './peaks'
+
+/** Message sent to the worker */
+export interface PeaksWorkerRequest {
+  id: number
+  channels: Float32Array[]
+  resolutions: readonly number[]
+}
+
+/** Message sent back from the worker */
+export type PeaksWorkerResponse =
+  | { id: number; levels: PeakLevel[]; detailLevels: DetailLevel[]; chunks: PeakLevel[]; channels: Float32Array[] }
+  | { id: number; error: string }
+
+addEventListener('message', (event: MessageEvent<PeaksWorkerRequest>) => {
+  const { id, channels, resolutions } = event.data
+
+  try {
+    const { levels, detailLevels, chunks } = splitPeakLevels(computePeakLevels(channels, resolutions))
+    const transfer = [
+      ...[...levels, ...chunks].flatMap(level => [level.min.buffer, level.max.buffer, level.rms.buffer]),
+      ...channels.map(channel => channel.buffer)
+    ]
+    postMessage({ id, levels, detailLevels, chunks, channels } satisfies PeaksWorkerResponse, { transfer })
+  } catch (error) {
+    postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies PeaksWorkerResponse)
+  }
+})
@@ -0,0 +1,125 @@
+/**
+ * Waveform Viewport
+ * The visible window of a zoomable waveform, in track seconds, and the
+ * zoom, scroll, follow and ruler helpers that move and label it
+ */
+
+/**
+ * Waveform Viewport
+ * Shows [start, start + span) of the track
+ */
+export interface WaveformViewport {
+  start: number
+  span: number
+}
+
+/**
+ * Viewport Constants
+ */
+export const VIEWPORT_CONFIG = {
+  /** Deepest zoom, in CSS pixels per peak of the finest level the track has */
+  MAX_PIXELS_PER_PEAK: 4,
+  /** Zoom factor of the zoom buttons; wheel zoom scales with the wheel distance */
+  ZOOM_STEP: 2,
+  /** Share of the view kept behind the playhead when following it onto the next page */
+  FOLLOW_MARGIN: 0.1,
+  /** Narrowest gap between ruler labels in CSS pixels */
+  MIN_RULER_SPACING: 72
+} as const
+
+/** Ruler intervals in seconds, from a millisecond to ten minutes */
+const RULER_STEPS = [
+  0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5,
+  1, 2, 5, 10, 15, 30, 60, 120, 300, 600
+] as const
+
+/**
+ * The whole track in view
+ */
+export function fitViewport(duration: number): WaveformViewport {
+  return { start: 0, span: Math.max(0, duration) }
+}
+
+/**
+ * Narrowest span the view zooms to, where each of the finest peaks is a few pixels wide
+ * @param width - Width of the view in CSS pixels
+ * @param samplesPerPeak - Resolution of the finest stored level
+ */
+export function getMinSpan(width: number, samplesPerPeak: number, sampleRate: number): number {
+  return (Math.max(1, width) * samplesPerPeak) / VIEWPORT_CONFIG.MAX_PIXELS_PER_PEAK / sampleRate
+}
+
+/**
+ * Keeps a viewport inside the track and between the deepest zoom and the whole track
+ * @returns The same object when nothing had to change
+ */
+export function clampViewport(viewport: WaveformViewport, duration: number, minSpan: number): WaveformViewport {
+  const span = Math.min(Math.max(viewport.span, Math.min(minSpan, duration)), duration)
+  const start = Math.min(Math.max(viewport.start, 0), Math.max(0, duration - span))
+  return start === viewport.start && span === viewport.span ? viewport : { start, span }
+}
+
+/**
+ * Zooms around a time, which stays at the same position on screen
+ * @param factor - Above 1 zooms in, below 1 zooms out
+ */
+export function zoomViewport(
+  viewport: WaveformViewport,
+  factor: number,
+  anchor: number,
+  duration: number,
+  minSpan: number
+): WaveformViewport {
+  if (viewport.span <= 0) return viewport
+  const span = viewport.span / factor
+  const start = anchor - ((anchor - viewport.start) * span) / viewport.span
+  return clampViewport({ start, span }, duration, minSpan)
+}
+
+/**
+ * Turns the page when the playhead leaves the view or nears its right edge,
+ * leaving a margin of the old page behind it
+ * @returns The same object when the playhead is comfortably in view
+ */
+export function followPlayhead(viewport: WaveformViewport, time: number, duration: number): WaveformViewport {
+  if (viewport.span >= duration) return viewport
+  const pageEnd = viewport.start + viewport.span * (1 - VIEWPORT_CONFIG.FOLLOW_MARGIN)
+  if (time >= viewport.start && time <= pageEnd) return viewport
+
+  const start = Math.min(Math.max(time - viewport.span * VIEWPORT_CONFIG.FOLLOW_MARGIN, 0), duration - viewport.span)
+  return { start, span: viewport.span }
+}
+
+/**
+ * Smallest ruler interval whose labels stay readable at this zoom
+ * @param span - Seconds in view
+ * @param width - Width of the view in CSS pixels
+ */
+export function getRulerStep(span: number, width: number): number {
+  const minStep = (span / Math.max(1, width)) * VIEWPORT_CONFIG.MIN_RULER_SPACING
+  return RULER_STEPS.find(step => step >= minStep) ?? RULER_STEPS[RULER_STEPS.length - 1]
+}
+
+/**
+ * Decimal places worth showing when times are this far apart
+ */
+export function getTimePrecision(resolution: number): number {
+  if (resolution >= 1) return 0
+  if (resolution >= 0.1) return 1
+  if (resolution >= 0.01) return 2
+  return 3
+}
+
+/**
+ * Formats a track time as m:ss with optional fractional seconds
+ * @returns e.g. "1:42" or "1:42.057"
+ */
+export function formatWaveformTime(time: number, precision: number = 0): string {
+  const scale = 10 ** precision
+  // Truncate like a clock, in whole units so float error cannot leave 0.3 as 0.299
+  const units = Math.floor(Math.max(0, time) * scale + 1e-6)
+  const minutes = Math.floor(units / (60 * scale))
+  const seconds = Math.floor(units / scale) % 60
+  const clock = `${minutes}:${seconds.toString().padStart(2, '0')}`
+  return precision === 0 ? clock : `${clock}.${(units % scale).toString().padStart(precision, '0')}`
+}
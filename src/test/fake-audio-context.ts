@@ -0,0 +1,298 @@
+/**
+ * Fake Audio Context
+ * Just enough of BaseAudioContext to build the engine's graph and run its
+ * transports under Node: nodes keep their current connections, params record their
+ * automation, and buffer sources end when the fake clock passes their end
+ */
+
+import { vi } from 'vitest'
+
+/** Clock step of advance(), in seconds - finer than the switcher's end checks */
+const CLOCK_STEP = 0.005
+
+/** Properties that read back as AudioParams on any fake node */
+const PARAM_NAMES = new Set([
+  'gain', 'frequency', 'detune', 'Q', 'delayTime', 'playbackRate',
+  'threshold', 'knee', 'ratio', 'attack', 'release', 'pan', 'offset'
+])
+
+/**
+ * One scheduled change on a fake param
+ */
+export interface FakeParamEvent {
+  type:
+    | 'setValueAtTime'
+    | 'setTargetAtTime'
+    | 'linearRampToValueAtTime'
+    | 'exponentialRampToValueAtTime'
+    | 'setValueCurveAtTime'
+    | 'cancelScheduledValues'
+  value: number
+  time: number
+}
+
+/**
+ * AudioParam that jumps to every target at once and keeps a log of what was scheduled
+ */
+export interface FakeParam {
+  value: number
+  readonly events: FakeParamEvent[]
+}
+
+/**
+ * Buffer source with its start call and whether the fake clock has ended it
+ */
+export interface FakeBufferSource {
+  buffer: AudioBuffer | null
+  playbackRate: FakeParam
+  onended: (() => void) | null
+  /** Context time playback started at, or null before start() */
+  startTime: number | null
+  startOffset: number
+  isStopped: boolean
+}
+
+/**
+ * The fake context and the controls tests drive it with
+ */
+export interface FakeAudioContext {
+  context: BaseAudioContext
+  /** Every buffer source created, in order */
+  sources: FakeBufferSource[]
+  /** Moves the audio clock and the faked timers forward together, ending sources on the way */
+  advance: (seconds: number) => Promise<void>
+  /** Moves only the audio clock, as on a main thread too busy to run timers */
+  advanceClock: (seconds: number) => void
+}
+
+function createFakeParam(value: number): FakeParam & AudioParam {
+  const events: FakeParamEvent[] = []
+  const param = {
+    value,
+    defaultValue: value,
+    events,
+    setValueAtTime(next: number, time: number) {
+      events.push({ type: 'setValueAtTime', value: next, time })
+      param.value = next
+      return param
+    },
+    setTargetAtTime(next: number, time: number) {
+      events.push({ type: 'setTargetAtTime', value: next, time })
+      param.value = next
+      return param
+    },
+    linearRampToValueAtTime(next: number, time: number) {
+      events.push({ type: 'linearRampToValueAtTime', value: next, time })
+      param.value = next
+      return param
+    },
+    exponentialRampToValueAtTime(next: number, time: number) {
+      events.push({ type: 'exponentialRampToValueAtTime', value: next, time })
+      param.value = next
+      return param
+    },
+    setValueCurveAtTime(curve: Float32Array, time: number) {
+      const next = curve[curve.length - 1]
+      events.push({ type: 'setValueCurveAtTime', value: next, time })
+      param.value = next
+      return param
+    },
+    cancelScheduledValues(time: number) {
+      events.push({ type: 'cancelScheduledValues', value: param.value, time })
+      return param
+    },
+    cancelAndHoldAtTime(time: number) {
+      events.push({ type: 'cancelScheduledValues', value: param.value, time })
+      return param
+    }
+  }
+  return param as unknown as FakeParam & AudioParam
+}
+
+function createFakeBuffer(numberOfChannels: number, length: number, sampleRate: number): AudioBuffer {
+  const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length))
+  return {
+    numberOfChannels,
+    length,
+    sampleRate,
+    duration: length / sampleRate,
+    getChannelData: (channel: number) => channels[channel],
+    copyFromChannel: () => {},
+    copyToChannel: () => {}
+  } as unknown as AudioBuffer
+}
+
+/**
+ * Stream with one audio track, as a stream destination or a device gives
+ */
+function createFakeStream(): MediaStream {
+  const track = { kind: 'audio', label: '', stop: vi.fn(), getSettings: () => ({}) }
+  return {
+    getTracks: () => [track],
+    getAudioTracks: () => [track]
+  } as unknown as MediaStream
+}
+
+/**
+ * Whether audio from one fake node reaches another through the current connections
+ */
+export function isRoutedTo(from: AudioNode | FakeBufferSource, to: AudioNode | AudioParam): boolean {
+  const visited = new Set<unknown>()
+  const visit = (node: unknown): boolean => {
+    if (node === to) return true
+    if (visited.has(node)) return false
+    visited.add(node)
+    const outputs = (node as { outputs?: Set<unknown> }).outputs
+    return outputs ? [...outputs].some(visit) : false
+  }
+  return visit(from)
+}
+
+/**
+ * Encodes a duration as the "file" the fake decoder reads back
+ */
+export function encodeFakeAudio(duration: number): ArrayBuffer {
+  return new Float64Array([duration]).buffer
+}
+
+/**
+ * Serves fake audio files of the given durations to fetch; any other URL is a 404
+ * @returns The fetch mock, to count requests with
+ */
+export function stubAudioFetch(durations: Record<string, number>) {
+  const fetchMock = vi.fn(async (url: string) => {
+    const duration = durations[url]
+    return duration === undefined
+      ? { ok: false, status: 404, arrayBuffer: async () => new ArrayBuffer(0) }
+      : { ok: true, status: 200, arrayBuffer: async () => encodeFakeAudio(duration) }
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+/**
+ * Creates a fake context at time zero
+ * There is no AudioWorklet, so worklet-based nodes fall back as they do in old browsers.
+ * Call vi.useFakeTimers() first so advance() can run the engine's timers too
+ */
+export function createFakeAudioContext(sampleRate = 44100): FakeAudioContext {
+  const sources: FakeBufferSource[] = []
+  // Time is counted in whole steps, so it does not drift from the timers through float error
+  let ticks = 0
+  let currentTime = 0
+
+  const context = {
+    sampleRate,
+    state: 'running',
+    get currentTime() {
+      return currentTime
+    }
+  } as unknown as BaseAudioContext
+
+  const createNode = (fields: Record<string, unknown> = {}): Record<string, unknown> => {
+    const outputs = new Set<unknown>()
+    const target: Record<string, unknown> = {
+      context,
+      channelCount: 2,
+      outputs,
+      connect: vi.fn((destination: unknown) => {
+        outputs.add(destination)
+        return destination
+      }),
+      disconnect: vi.fn((destination?: unknown) => {
+        if (destination === undefined) outputs.clear()
+        else outputs.delete(destination)
+      }),
+      start: vi.fn(),
+      stop: vi.fn(),
+      getFloatFrequencyData: vi.fn(),
+      getByteFrequencyData: vi.fn(),
+      getFloatTimeDomainData: vi.fn(),
+      getByteTimeDomainData: vi.fn(),
+      ...fields
+    }
+    return new Proxy(target, {
+      get(node, key) {
+        if (typeof key === 'string' && !(key in node) && PARAM_NAMES.has(key)) {
+          node[key] = createFakeParam(key === 'gain' ? 1 : 0)
+        }
+        return node[key as string]
+      }
+    })
+  }
+
+  const createBufferSource = (): AudioBufferSourceNode => {
+    const source = createNode({
+      buffer: null,
+      playbackRate: createFakeParam(1),
+      onended: null,
+      startTime: null,
+      startOffset: 0,
+      isStopped: false,
+      start: (when = 0, offset = 0) => {
+        source.startTime = Math.max(when, currentTime)
+        source.startOffset = offset
+      },
+      stop: () => {
+        source.isStopped = true
+      }
+    }) as unknown as FakeBufferSource
+    sources.push(source)
+    return source as unknown as AudioBufferSourceNode
+  }
+
+  Object.assign(context, {
+    destination: createNode({ maxChannelCount: 2 }),
+    audioWorklet: undefined,
+    createGain: () => createNode(),
+    createBiquadFilter: () => createNode({ type: 'lowpass' }),
+    createAnalyser: () => createNode({ fftSize: 2048, frequencyBinCount: 1024, smoothingTimeConstant: 0.8 }),
+    createChannelSplitter: () => createNode(),
+    createChannelMerger: () => createNode(),
+    createConvolver: () => createNode({ buffer: null, normalize: true }),
+    createDelay: () => createNode(),
+    createDynamicsCompressor: () => createNode({ reduction: 0 }),
+    createOscillator: () => createNode({ type: 'sine' }),
+    createWaveShaper: () => createNode({ curve: null, oversample: 'none' }),
+    createMediaStreamDestination: () => createNode({ stream: createFakeStream() }),
+    createMediaStreamSource: (mediaStream: MediaStream) => createNode({ mediaStream }),
+    createBuffer: createFakeBuffer,
+    createBufferSource,
+    decodeAudioData: async (data: ArrayBuffer) => {
+      const [duration] = new Float64Array(data)
+      return createFakeBuffer(2, Math.round(duration * sampleRate), sampleRate)
+    }
+  })
+
+  /**
+   * Ends every started source whose last sample has played by now
+   */
+  const endFinishedSources = (): void => {
+    sources.forEach(source => {
+      if (source.isStopped || source.startTime === null || !source.buffer) return
+      const endTime = source.startTime + (source.buffer.duration - source.startOffset) / source.playbackRate.value
+      if (currentTime < endTime) return
+      source.isStopped = true
+      source.onended?.()
+    })
+  }
+
+  // Timers due within each step run before sources end, as on a main thread that keeps up
+  const advance = async (seconds: number): Promise<void> => {
+    const steps = Math.round(seconds / CLOCK_STEP)
+    for (let step = 0; step < steps; step++) {
+      ticks++
+      currentTime = ticks * CLOCK_STEP
+      await vi.advanceTimersByTimeAsync(CLOCK_STEP * 1000)
+      endFinishedSources()
+    }
+  }
+
+  const advanceClock = (seconds: number): void => {
+    ticks += Math.round(seconds / CLOCK_STEP)
+    currentTime = ticks * CLOCK_STEP
+    endFinishedSources()
+  }
+
+  return { context, sources, advance, advanceClock }
+}